@@ -1,18 +1,19 @@
-const CACHE_NAME = 'fittrainer-pro-v2.0';
-const STATIC_CACHE = 'static-v2.0';
-const DYNAMIC_CACHE = 'dynamic-v2.0';
+const CACHE_NAME = 'fittrainer-pro-v2.1';
+const STATIC_CACHE = 'static-v2.1';
+const DYNAMIC_CACHE = 'dynamic-v2.1';
 
 // Assets que devem ser sempre cachados
 const STATIC_ASSETS = [
   '/',
   '/manifest.json',
+  '/student-manifest.json',
   '/icon-192.png',
   '/icon-512.png'
 ];
 
 // Install event - cache static resources
 self.addEventListener('install', (event) => {
-  console.log('[SW] Installing version 2.0...');
+  console.log('[SW] Installing version 2.1...');
   event.waitUntil(
     Promise.all([
       caches.open(STATIC_CACHE).then((cache) => {
@@ -26,7 +27,7 @@ self.addEventListener('install', (event) => {
 
 // Activate event - clean up old caches and take control
 self.addEventListener('activate', (event) => {
-  console.log('[SW] Activating version 2.0...');
+  console.log('[SW] Activating version 2.1...');
   event.waitUntil(
     Promise.all([
       // Limpar caches antigos
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type BodyAssessment = Tables<"body_assessments">;
+
+type Metric =
+  | "weight_kg"
+  | "body_fat_percent"
+  | "waist_cm"
+  | "hip_cm"
+  | "arm_cm"
+  | "thigh_cm"
+  | "chest_cm"
+  | "resting_heart_rate";
+
+const METRICS: Record<Metric, { label: string; unit: string }> = {
+  weight_kg: { label: "Peso", unit: "kg" },
+  body_fat_percent: { label: "% Gordura", unit: "%" },
+  waist_cm: { label: "Cintura", unit: "cm" },
+  hip_cm: { label: "Quadril", unit: "cm" },
+  arm_cm: { label: "Braço", unit: "cm" },
+  thigh_cm: { label: "Coxa", unit: "cm" },
+  chest_cm: { label: "Peito", unit: "cm" },
+  resting_heart_rate: { label: "FC repouso", unit: "bpm" },
+};
+
+interface BodyAssessmentChartProps {
+  assessments: BodyAssessment[];
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR", { day: "2-digit", month: "2-digit", year: "2-digit" });
+
+const BodyAssessmentChart = ({ assessments }: BodyAssessmentChartProps) => {
+  const [metric, setMetric] = useState<Metric>("weight_kg");
+
+  // Só oferece as medidas que aparecem em alguma avaliação
+  const availableMetrics = (Object.keys(METRICS) as Metric[]).filter((key) =>
+    assessments.some((assessment) => assessment[key] !== null)
+  );
+  const activeMetric = availableMetrics.includes(metric) ? metric : availableMetrics[0];
+
+  if (!activeMetric) {
+    return null;
+  }
+
+  const data = assessments
+    .filter((assessment) => assessment[activeMetric] !== null)
+    .map((assessment) => ({
+      date: formatDate(assessment.assessed_on),
+      value: Number(assessment[activeMetric]),
+    }));
+
+  const chartConfig = {
+    value: {
+      label: `${METRICS[activeMetric].label} (${METRICS[activeMetric].unit})`,
+      color: "hsl(var(--primary))",
+    },
+  } satisfies ChartConfig;
+
+  return (
+    <div className="space-y-3">
+      <Select value={activeMetric} onValueChange={(value) => setMetric(value as Metric)}>
+        <SelectTrigger className="w-full sm:w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {availableMetrics.map((key) => (
+            <SelectItem key={key} value={key}>
+              {METRICS[key].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {data.length < 2 ? (
+        <p className="text-sm text-muted-foreground">
+          Registre ao menos duas avaliações para ver a evolução.
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="h-[220px] w-full">
+          <LineChart data={data} margin={{ left: 0, right: 12, top: 8, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis tickLine={false} axisLine={false} width={40} domain={["auto", "auto"]} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Line
+              dataKey="value"
+              type="monotone"
+              stroke="var(--color-value)"
+              strokeWidth={2}
+              dot={{ r: 3 }}
+            />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
+
+export default BodyAssessmentChart;
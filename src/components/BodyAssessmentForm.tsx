@@ -0,0 +1,311 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BODY_FAT_METHOD_LABELS,
+  BodyFatMethod,
+  JACKSON_POLLOCK_7_SITES,
+  SKINFOLD_LABELS,
+  Sex,
+  SkinfoldSite,
+  ageOn,
+  bodyFatPercent,
+  requiredSkinfolds,
+} from "@/lib/body-composition";
+
+interface AssessmentStudent {
+  id: string;
+  sex?: string | null;
+  birth_date?: string | null;
+  height?: number | null;
+  weight?: number | null;
+}
+
+interface BodyAssessmentFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  student: AssessmentStudent;
+  trainerId: string;
+}
+
+const CIRCUMFERENCES = [
+  { field: "waist_cm", label: "Cintura" },
+  { field: "hip_cm", label: "Quadril" },
+  { field: "arm_cm", label: "Braço" },
+  { field: "thigh_cm", label: "Coxa" },
+  { field: "chest_cm", label: "Peito" },
+] as const;
+
+type CircumferenceField = typeof CIRCUMFERENCES[number]["field"];
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const BodyAssessmentForm = ({ isOpen, onClose, onSaved, student, trainerId }: BodyAssessmentFormProps) => {
+  const [assessedOn, setAssessedOn] = useState(today());
+  const [sex, setSex] = useState<Sex | "">("");
+  const [age, setAge] = useState("");
+  const [weight, setWeight] = useState("");
+  const [height, setHeight] = useState("");
+  const [method, setMethod] = useState<BodyFatMethod>("jackson_pollock_3");
+  const [manualBodyFat, setManualBodyFat] = useState("");
+  const [skinfolds, setSkinfolds] = useState<Partial<Record<SkinfoldSite, string>>>({});
+  const [circumferences, setCircumferences] = useState<Partial<Record<CircumferenceField, string>>>({});
+  const [restingHeartRate, setRestingHeartRate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Pré-preenche com o cadastro do aluno a cada nova avaliação
+  useEffect(() => {
+    if (isOpen) {
+      const date = today();
+      setAssessedOn(date);
+      setSex(student.sex === "male" || student.sex === "female" ? student.sex : "");
+      setAge(student.birth_date ? String(ageOn(student.birth_date, date)) : "");
+      setWeight(student.weight ? String(student.weight) : "");
+      setHeight(student.height ? String(student.height) : "");
+      setMethod("jackson_pollock_3");
+      setManualBodyFat("");
+      setSkinfolds({});
+      setCircumferences({});
+      setRestingHeartRate("");
+      setNotes("");
+    }
+  }, [isOpen, student]);
+
+  const skinfoldValues = Object.fromEntries(
+    Object.entries(skinfolds).map(([site, value]) => [site, toNumber(value || "")])
+  ) as Partial<Record<SkinfoldSite, number | null>>;
+
+  const requiredSites = sex ? requiredSkinfolds(method, sex) : [];
+  const calculatedBodyFat = method !== "manual" && sex
+    ? bodyFatPercent(method, sex, parseInt(age), skinfoldValues)
+    : null;
+  const bodyFat = method === "manual" ? toNumber(manualBodyFat) : calculatedBodyFat;
+
+  const handleSave = async () => {
+    if (method !== "manual" && !sex) {
+      toast({
+        title: "Sexo obrigatório",
+        description: "Informe o sexo do aluno para usar as equações de Jackson-Pollock.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from("body_assessments").insert({
+        student_id: student.id,
+        personal_trainer_id: trainerId,
+        assessed_on: assessedOn,
+        weight_kg: toNumber(weight),
+        height_m: toNumber(height),
+        body_fat_percent: bodyFat,
+        body_fat_method: bodyFat === null ? "manual" : method,
+        waist_cm: toNumber(circumferences.waist_cm || ""),
+        hip_cm: toNumber(circumferences.hip_cm || ""),
+        arm_cm: toNumber(circumferences.arm_cm || ""),
+        thigh_cm: toNumber(circumferences.thigh_cm || ""),
+        chest_cm: toNumber(circumferences.chest_cm || ""),
+        skinfold_chest_mm: skinfoldValues.chest ?? null,
+        skinfold_abdominal_mm: skinfoldValues.abdominal ?? null,
+        skinfold_thigh_mm: skinfoldValues.thigh ?? null,
+        skinfold_triceps_mm: skinfoldValues.triceps ?? null,
+        skinfold_subscapular_mm: skinfoldValues.subscapular ?? null,
+        skinfold_suprailiac_mm: skinfoldValues.suprailiac ?? null,
+        skinfold_midaxillary_mm: skinfoldValues.midaxillary ?? null,
+        resting_heart_rate: restingHeartRate ? parseInt(restingHeartRate) : null,
+        notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      // Mantém o cadastro do aluno com os dados mais recentes
+      const studentUpdate: { sex?: string; weight?: number; height?: number } = {};
+      if (sex && sex !== student.sex) studentUpdate.sex = sex;
+      if (toNumber(weight)) studentUpdate.weight = toNumber(weight);
+      if (toNumber(height)) studentUpdate.height = toNumber(height);
+      if (Object.keys(studentUpdate).length > 0) {
+        await supabase.from("students").update(studentUpdate).eq("id", student.id);
+      }
+
+      toast({
+        title: "Avaliação salva!",
+        description: "A avaliação física foi registrada com sucesso.",
+      });
+      onSaved();
+    } catch (error) {
+      console.error("Error saving body assessment:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a avaliação.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nova Avaliação Física</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label>Data</Label>
+              <Input type="date" value={assessedOn} onChange={(e) => setAssessedOn(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Sexo</Label>
+              <Select value={sex} onValueChange={(value) => setSex(value as Sex)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="male">Masculino</SelectItem>
+                  <SelectItem value="female">Feminino</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Idade</Label>
+              <Input type="number" min="1" value={age} onChange={(e) => setAge(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>FC repouso (bpm)</Label>
+              <Input
+                type="number"
+                min="20"
+                value={restingHeartRate}
+                onChange={(e) => setRestingHeartRate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Peso (kg)</Label>
+              <Input type="number" step="0.1" value={weight} onChange={(e) => setWeight(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Altura (m)</Label>
+              <Input type="number" step="0.01" value={height} onChange={(e) => setHeight(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="font-medium">Circunferências (cm)</h4>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+              {CIRCUMFERENCES.map(({ field, label }) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{label}</Label>
+                  <Input
+                    type="number"
+                    step="0.1"
+                    value={circumferences[field] || ""}
+                    onChange={(e) => setCircumferences((prev) => ({ ...prev, [field]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="font-medium">Composição corporal</h4>
+              <Select value={method} onValueChange={(value) => setMethod(value as BodyFatMethod)}>
+                <SelectTrigger className="w-auto">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BODY_FAT_METHOD_LABELS) as BodyFatMethod[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {BODY_FAT_METHOD_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {method === "manual" ? (
+              <div className="space-y-1 max-w-[200px]">
+                <Label>% de gordura</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  value={manualBodyFat}
+                  onChange={(e) => setManualBodyFat(e.target.value)}
+                />
+              </div>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground">Dobras cutâneas (mm)</p>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {JACKSON_POLLOCK_7_SITES.map((site) => (
+                    <div key={site} className="space-y-1">
+                      <Label className="text-xs flex items-center gap-1">
+                        {SKINFOLD_LABELS[site]}
+                        {requiredSites.includes(site) && <span className="text-destructive">*</span>}
+                      </Label>
+                      <Input
+                        type="number"
+                        step="0.1"
+                        value={skinfolds[site] || ""}
+                        onChange={(e) => setSkinfolds((prev) => ({ ...prev, [site]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="flex items-center gap-2 text-sm">
+              <Calculator className="h-4 w-4 text-muted-foreground" />
+              {bodyFat !== null ? (
+                <Badge variant="secondary">{bodyFat.toFixed(1)}% de gordura</Badge>
+              ) : (
+                <span className="text-muted-foreground">
+                  {method === "manual"
+                    ? "Informe o percentual de gordura"
+                    : "Preencha sexo, idade e as dobras marcadas para calcular"}
+                </span>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Observações</Label>
+            <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+              {isSaving ? "Salvando..." : "Salvar Avaliação"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BodyAssessmentForm;
@@ -0,0 +1,188 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Ruler, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { BODY_FAT_METHOD_LABELS, BodyFatMethod, bmi, leanMassKg } from "@/lib/body-composition";
+import BodyAssessmentChart, { BodyAssessment } from "./BodyAssessmentChart";
+import BodyAssessmentForm from "./BodyAssessmentForm";
+
+interface BodyAssessmentsCardProps {
+  student: {
+    id: string;
+    sex?: string | null;
+    birth_date?: string | null;
+    height?: number | null;
+    weight?: number | null;
+  };
+  trainerId?: string;
+  // Página do aluno: apenas leitura da evolução
+  readOnly?: boolean;
+}
+
+const BodyAssessmentsCard = ({ student, trainerId, readOnly = false }: BodyAssessmentsCardProps) => {
+  const [assessments, setAssessments] = useState<BodyAssessment[]>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadAssessments();
+  }, [student.id]);
+
+  const loadAssessments = async () => {
+    const { data, error } = await supabase
+      .from("body_assessments")
+      .select("*")
+      .eq("student_id", student.id)
+      .order("assessed_on", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading body assessments:", error);
+      return;
+    }
+
+    setAssessments(data || []);
+  };
+
+  const handleDelete = async (assessmentId: string) => {
+    if (!confirm("Excluir esta avaliação?")) return;
+
+    const { error } = await supabase.from("body_assessments").delete().eq("id", assessmentId);
+
+    if (error) {
+      console.error("Error deleting body assessment:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a avaliação.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    loadAssessments();
+  };
+
+  const latest = assessments[assessments.length - 1];
+  const previous = assessments[assessments.length - 2];
+
+  const formatDelta = (current?: number | null, before?: number | null, unit = "") => {
+    if (current === null || current === undefined || before === null || before === undefined) return null;
+    const delta = Number(current) - Number(before);
+    if (delta === 0) return null;
+    return `${delta > 0 ? "+" : ""}${delta.toFixed(1)}${unit}`;
+  };
+
+  if (readOnly && assessments.length === 0) {
+    return null;
+  }
+
+  const summary = latest
+    ? [
+        {
+          label: "Peso",
+          value: latest.weight_kg !== null ? `${latest.weight_kg} kg` : "-",
+          delta: formatDelta(latest.weight_kg, previous?.weight_kg, " kg"),
+        },
+        {
+          label: "% Gordura",
+          value: latest.body_fat_percent !== null ? `${latest.body_fat_percent}%` : "-",
+          delta: formatDelta(latest.body_fat_percent, previous?.body_fat_percent, "%"),
+        },
+        {
+          label: "Massa magra",
+          value: leanMassKg(latest.weight_kg, latest.body_fat_percent) !== null
+            ? `${leanMassKg(latest.weight_kg, latest.body_fat_percent)} kg`
+            : "-",
+          delta: null,
+        },
+        {
+          label: "IMC",
+          value: bmi(latest.weight_kg, latest.height_m ?? student.height)?.toFixed(1) ?? "-",
+          delta: null,
+        },
+      ]
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ruler className="h-5 w-5" />
+          {readOnly ? "Minha Evolução" : "Avaliações Físicas"}
+          {!readOnly && trainerId && (
+            <Button size="sm" className="ml-auto" onClick={() => setIsFormOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Nova Avaliação
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {latest ? (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {summary.map((item) => (
+                <div key={item.label} className="p-3 bg-muted rounded-lg">
+                  <p className="text-xs text-muted-foreground">{item.label}</p>
+                  <p className="font-semibold">{item.value}</p>
+                  {item.delta && <p className="text-xs text-muted-foreground">{item.delta}</p>}
+                </div>
+              ))}
+            </div>
+
+            <BodyAssessmentChart assessments={assessments} />
+
+            {!readOnly && (
+              <div className="space-y-2">
+                {[...assessments].reverse().map((assessment) => (
+                  <div key={assessment.id} className="flex items-center justify-between gap-2 p-2 border rounded-lg text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">
+                        {new Date(`${assessment.assessed_on}T00:00:00`).toLocaleDateString("pt-BR")}
+                      </span>
+                      {assessment.weight_kg !== null && <Badge variant="outline">{assessment.weight_kg} kg</Badge>}
+                      {assessment.body_fat_percent !== null && (
+                        <Badge variant="outline" title={BODY_FAT_METHOD_LABELS[assessment.body_fat_method as BodyFatMethod]}>
+                          {assessment.body_fat_percent}% gordura
+                        </Badge>
+                      )}
+                      {assessment.waist_cm !== null && <Badge variant="outline">Cintura {assessment.waist_cm} cm</Badge>}
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(assessment.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nenhuma avaliação registrada.</p>
+        )}
+      </CardContent>
+
+      {!readOnly && trainerId && (
+        <BodyAssessmentForm
+          isOpen={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          onSaved={() => {
+            setIsFormOpen(false);
+            loadAssessments();
+          }}
+          student={student}
+          trainerId={trainerId}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default BodyAssessmentsCard;
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { X, Plus } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { rotateStudentLink } from "@/lib/student-link";
 
 interface CreateStudentProps {
   trainerId: string;
@@ -85,15 +86,6 @@ const CreateStudent = ({ trainerId, onClose, onSuccess }: CreateStudentProps) =>
         }
       }
 
-      // Generate a more robust unique token
-      const generateUniqueToken = () => {
-        const timestamp = Date.now().toString(36);
-        const randomStr1 = Math.random().toString(36).substring(2);
-        const randomStr2 = Math.random().toString(36).substring(2);
-        const randomStr3 = Math.random().toString(36).substring(2);
-        return `${timestamp}-${randomStr1}-${randomStr2}-${randomStr3}`;
-      };
-
       const studentData = {
         personal_trainer_id: trainerId,
         name: formData.name.trim(),
@@ -104,7 +96,8 @@ const CreateStudent = ({ trainerId, onClose, onSuccess }: CreateStudentProps) =>
         height: formData.height ? parseFloat(formData.height) : null,
         goals: goals.length > 0 ? goals : null,
         medical_restrictions: formData.medical_restrictions ? formData.medical_restrictions.trim() : null,
-        unique_link_token: generateUniqueToken(),
+        // Internal identifier only; access goes through signed links (student_access_links)
+        unique_link_token: crypto.randomUUID(),
         active: true,
       };
 
@@ -140,6 +133,13 @@ const CreateStudent = ({ trainerId, onClose, onSuccess }: CreateStudentProps) =>
 
       console.log("Aluno criado com sucesso:", data);
 
+      // First access link with the default expiry; the trainer can rotate it later
+      try {
+        await rotateStudentLink(data[0].id);
+      } catch (linkError) {
+        console.error("Erro ao gerar link do aluno:", linkError);
+      }
+
       toast({
         title: "Sucesso!",
         description: `Aluno ${formData.name} cadastrado com sucesso! Número: ${data[0]?.student_number}`,
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Apple, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Food, HouseholdMeasure } from "@/lib/foods";
+
+interface CustomFoodDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (food: Food) => void;
+  trainerId: string;
+  initialName?: string;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  category: "",
+  energy_kcal: "",
+  protein_g: "",
+  carbs_g: "",
+  fat_g: "",
+  fiber_g: "",
+};
+
+// Cadastro de alimento próprio do personal (composição por 100 g)
+const CustomFoodDialog = ({ isOpen, onClose, onCreated, trainerId, initialName }: CustomFoodDialogProps) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [measures, setMeasures] = useState<HouseholdMeasure[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData({ ...EMPTY_FORM, name: initialName || "" });
+      setMeasures([]);
+    }
+  }, [isOpen, initialName]);
+
+  const updateMeasure = (index: number, updates: Partial<HouseholdMeasure>) => {
+    setMeasures((prev) => prev.map((measure, i) => (i === index ? { ...measure, ...updates } : measure)));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim() || formData.energy_kcal === "") {
+      toast({
+        title: "Dados incompletos",
+        description: "Informe o nome e as calorias por 100 g.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from("foods")
+        .insert({
+          name: formData.name.trim(),
+          category: formData.category.trim() || null,
+          source: "custom",
+          personal_trainer_id: trainerId,
+          energy_kcal: parseFloat(formData.energy_kcal) || 0,
+          protein_g: parseFloat(formData.protein_g) || 0,
+          carbs_g: parseFloat(formData.carbs_g) || 0,
+          fat_g: parseFloat(formData.fat_g) || 0,
+          fiber_g: formData.fiber_g ? parseFloat(formData.fiber_g) : null,
+          household_measures: measures
+            .filter((m) => m.label.trim() && m.grams > 0)
+            .map((m) => ({ label: m.label.trim(), grams: m.grams })),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Alimento cadastrado",
+        description: `${data.name} já pode ser usado nas dietas.`,
+      });
+      onCreated(data);
+    } catch (error) {
+      console.error("Error creating food:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível cadastrar o alimento.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const numberField = (field: keyof typeof EMPTY_FORM, label: string) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min="0"
+        step="0.1"
+        value={formData[field]}
+        onChange={(e) => setFormData((prev) => ({ ...prev, [field]: e.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Apple className="h-5 w-5 text-primary" />
+            Novo alimento
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">Nome *</Label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="Ex: Whey protein concentrado"
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">Categoria</Label>
+              <Input
+                value={formData.category}
+                onChange={(e) => setFormData((prev) => ({ ...prev, category: e.target.value }))}
+                placeholder="Ex: Suplementos"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Composição em 100 g</p>
+            <div className="grid grid-cols-3 gap-3">
+              {numberField("energy_kcal", "Calorias (kcal) *")}
+              {numberField("protein_g", "Proteína (g)")}
+              {numberField("carbs_g", "Carboidratos (g)")}
+              {numberField("fat_g", "Gorduras (g)")}
+              {numberField("fiber_g", "Fibras (g)")}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Medidas caseiras</p>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setMeasures((prev) => [...prev, { label: "", grams: 0 }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Medida
+              </Button>
+            </div>
+            {measures.map((measure, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={measure.label}
+                  onChange={(e) => updateMeasure(index, { label: e.target.value })}
+                  placeholder="Ex: scoop"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={measure.grams || ""}
+                  onChange={(e) => updateMeasure(index, { grams: parseFloat(e.target.value) || 0 })}
+                  placeholder="g"
+                  className="w-24"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setMeasures((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+              {isSaving ? "Salvando..." : "Cadastrar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomFoodDialog;
@@ -15,10 +15,33 @@ import {
   Target,
   User,
   Utensils,
-  Clock
+  Clock,
+  Calculator,
+  BookmarkPlus,
+  Copy,
+  History
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_MACRO_TOLERANCE,
+  EMPTY_MACROS,
+  MacroTotals,
+  addMacros,
+  compareWithTargets,
+  describeDeviations,
+  parseTolerance,
+  sumMacros,
+} from "@/lib/diet-targets";
+import { createPlanVersion } from "@/lib/plan-versions";
+import { createDietPlan, describePlanError } from "@/lib/plan-documents";
+import MacroTargetSummary from "./MacroTargetSummary";
+import MacroSplitChart from "./MacroSplitChart";
+import MealMacroShare from "./MealMacroShare";
+import EnergyCalculatorDialog from "./EnergyCalculatorDialog";
+import SaveDietTemplateDialog from "./SaveDietTemplateDialog";
+import DuplicatePlanDialog from "./DuplicatePlanDialog";
+import PlanVersionHistory from "./PlanVersionHistory";
 
 interface DietPlan {
   id: string;
@@ -29,6 +52,7 @@ interface DietPlan {
   daily_protein?: number;
   daily_carbs?: number;
   daily_fat?: number;
+  macro_tolerance_percent?: number;
   active: boolean;
   student?: {
     name: string;
@@ -66,6 +90,10 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
   const [students, setStudents] = useState<Student[]>([]);
   const [selectedDiet, setSelectedDiet] = useState<DietPlan | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isCalculatorOpen, setIsCalculatorOpen] = useState(false);
+  const [templateSource, setTemplateSource] = useState<DietPlan | null>(null);
+  const [copySource, setCopySource] = useState<DietPlan | null>(null);
+  const [historySource, setHistorySource] = useState<DietPlan | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -73,7 +101,8 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
     daily_calories: "",
     daily_protein: "",
     daily_carbs: "",
-    daily_fat: ""
+    daily_fat: "",
+    macro_tolerance_percent: String(DEFAULT_MACRO_TOLERANCE)
   });
   const { toast } = useToast();
 
@@ -131,6 +160,25 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const tolerance = parseTolerance(formData.macro_tolerance_percent);
+    // As refeições não são editadas aqui, mas as novas metas precisam bater com elas
+    if (selectedDiet?.meals?.length) {
+      const deviations = describeDeviations(
+        compareWithTargets(getTotalMacros(selectedDiet.meals), {
+          calories: parseFloat(formData.daily_calories) || null,
+          protein: parseFloat(formData.daily_protein) || null,
+          carbs: parseFloat(formData.daily_carbs) || null,
+          fat: parseFloat(formData.daily_fat) || null,
+        }, tolerance)
+      );
+      if (
+        deviations.length > 0 &&
+        !confirm(`Os totais das refeições diferem das metas em mais de ${tolerance}%:\n${deviations.join("\n")}\n\nSalvar mesmo assim?`)
+      ) {
+        return;
+      }
+    }
+
     try {
       const dietData = {
         name: formData.name,
@@ -141,32 +189,43 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
         daily_protein: formData.daily_protein ? parseFloat(formData.daily_protein) : null,
         daily_carbs: formData.daily_carbs ? parseFloat(formData.daily_carbs) : null,
         daily_fat: formData.daily_fat ? parseFloat(formData.daily_fat) : null,
+        macro_tolerance_percent: tolerance,
         active: true
       };
 
       if (selectedDiet) {
+        await createPlanVersion("diet", selectedDiet.id);
+
         const { error } = await supabase
           .from("diet_plans")
           .update(dietData)
           .eq("id", selectedDiet.id);
 
         if (!error) {
+          await createPlanVersion("diet", selectedDiet.id);
           toast({
             title: "Dieta atualizada",
             description: "Plano alimentar atualizado com sucesso.",
           });
         }
       } else {
-        const { error } = await supabase
-          .from("diet_plans")
-          .insert([dietData]);
+        // Mesma função do criador rápido: valida no banco e já grava a versão inicial
+        await createDietPlan({
+          student_id: dietData.student_id,
+          name: dietData.name,
+          description: dietData.description,
+          daily_calories: dietData.daily_calories,
+          daily_protein: dietData.daily_protein,
+          daily_carbs: dietData.daily_carbs,
+          daily_fat: dietData.daily_fat,
+          macro_tolerance_percent: dietData.macro_tolerance_percent,
+          meals: [],
+        });
 
-        if (!error) {
-          toast({
-            title: "Dieta criada",
-            description: "Novo plano alimentar criado com sucesso.",
-          });
-        }
+        toast({
+          title: "Dieta criada",
+          description: "Novo plano alimentar criado com sucesso.",
+        });
       }
 
       setIsDialogOpen(false);
@@ -175,7 +234,7 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
     } catch (error) {
       toast({
         title: "Erro",
-        description: "Erro ao salvar plano alimentar.",
+        description: describePlanError(error, "Erro ao salvar plano alimentar."),
         variant: "destructive",
       });
     }
@@ -190,7 +249,8 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
       daily_calories: diet.daily_calories?.toString() || "",
       daily_protein: diet.daily_protein?.toString() || "",
       daily_carbs: diet.daily_carbs?.toString() || "",
-      daily_fat: diet.daily_fat?.toString() || ""
+      daily_fat: diet.daily_fat?.toString() || "",
+      macro_tolerance_percent: String(diet.macro_tolerance_percent ?? DEFAULT_MACRO_TOLERANCE)
     });
     setIsDialogOpen(true);
   };
@@ -243,6 +303,16 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
     }
   };
 
+  const applyCalculatedTargets = (targets: MacroTotals) => {
+    setFormData((prev) => ({
+      ...prev,
+      daily_calories: String(targets.calories),
+      daily_protein: String(targets.protein),
+      daily_carbs: String(targets.carbs),
+      daily_fat: String(targets.fat)
+    }));
+  };
+
   const resetForm = () => {
     setSelectedDiet(null);
     setFormData({
@@ -252,34 +322,13 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
       daily_calories: "",
       daily_protein: "",
       daily_carbs: "",
-      daily_fat: ""
+      daily_fat: "",
+      macro_tolerance_percent: String(DEFAULT_MACRO_TOLERANCE)
     });
   };
 
   const getTotalMacros = (meals: Meal[] | undefined) => {
-    if (!meals) return { calories: 0, protein: 0, carbs: 0, fat: 0 };
-
-    return meals.reduce(
-      (total, meal) => {
-        const mealMacros = meal.meal_foods?.reduce(
-          (mealTotal, food) => ({
-            calories: mealTotal.calories + (food.calories || 0),
-            protein: mealTotal.protein + (food.protein || 0),
-            carbs: mealTotal.carbs + (food.carbs || 0),
-            fat: mealTotal.fat + (food.fat || 0)
-          }),
-          { calories: 0, protein: 0, carbs: 0, fat: 0 }
-        ) || { calories: 0, protein: 0, carbs: 0, fat: 0 };
-
-        return {
-          calories: total.calories + mealMacros.calories,
-          protein: total.protein + mealMacros.protein,
-          carbs: total.carbs + mealMacros.carbs,
-          fat: total.fat + mealMacros.fat
-        };
-      },
-      { calories: 0, protein: 0, carbs: 0, fat: 0 }
-    );
+    return (meals || []).reduce((total, meal) => addMacros(total, sumMacros(meal.meal_foods)), EMPTY_MACROS);
   };
 
   return (
@@ -342,6 +391,20 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
                 />
               </div>
 
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setIsCalculatorOpen(true)}
+                  disabled={!formData.student_id}
+                  title={formData.student_id ? undefined : "Selecione o aluno primeiro"}
+                >
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Calcular metas pelo gasto energético
+                </Button>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="daily_calories">Calorias Diárias</Label>
@@ -391,6 +454,21 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="macro_tolerance_percent">Tolerância das Metas (%)</Label>
+                <Input
+                  id="macro_tolerance_percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formData.macro_tolerance_percent}
+                  onChange={(e) => setFormData({ ...formData, macro_tolerance_percent: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Diferença aceita entre a soma dos alimentos e as metas antes do alerta.
+                </p>
+              </div>
+
               <div className="flex justify-end gap-2">
                 <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
                   Cancelar
@@ -402,11 +480,23 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
             </form>
           </DialogContent>
         </Dialog>
+        <EnergyCalculatorDialog
+          isOpen={isCalculatorOpen}
+          onClose={() => setIsCalculatorOpen(false)}
+          onApply={applyCalculatedTargets}
+          studentId={formData.student_id}
+        />
       </div>
 
       <div className="grid gap-4">
         {diets.map((diet) => {
           const totalMacros = getTotalMacros(diet.meals);
+          const targets = {
+            calories: diet.daily_calories,
+            protein: diet.daily_protein,
+            carbs: diet.daily_carbs,
+            fat: diet.daily_fat,
+          };
           
           return (
             <Card key={diet.id}>
@@ -434,6 +524,30 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
                     >
                       {diet.active ? "Desativar" : "Ativar"}
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Duplicar"
+                      onClick={() => setCopySource(diet)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Salvar como modelo"
+                      onClick={() => setTemplateSource(diet)}
+                    >
+                      <BookmarkPlus className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Histórico"
+                      onClick={() => setHistorySource(diet)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
                     <Button variant="outline" size="sm" onClick={() => handleEdit(diet)}>
                       <Edit className="h-4 w-4" />
                     </Button>
@@ -464,50 +578,19 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
                 </div>
 
                 {/* Macros Planejados vs Reais */}
-                <div className="grid md:grid-cols-2 gap-4 mb-4">
-                  <div className="border rounded p-3">
-                    <h4 className="font-semibold mb-2">Metas Diárias</h4>
-                    <div className="grid grid-cols-2 gap-2 text-sm">
-                      <div>
-                        <span className="text-muted-foreground">Calorias:</span>
-                        <div className="font-medium">{diet.daily_calories || "N/A"}</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Proteína:</span>
-                        <div className="font-medium">{diet.daily_protein ? `${diet.daily_protein}g` : "N/A"}</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Carboidratos:</span>
-                        <div className="font-medium">{diet.daily_carbs ? `${diet.daily_carbs}g` : "N/A"}</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Gordura:</span>
-                        <div className="font-medium">{diet.daily_fat ? `${diet.daily_fat}g` : "N/A"}</div>
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="border rounded p-3">
-                    <h4 className="font-semibold mb-2">Total das Refeições</h4>
-                    <div className="grid grid-cols-2 gap-2 text-sm">
-                      <div>
-                        <span className="text-muted-foreground">Calorias:</span>
-                        <div className="font-medium">{Math.round(totalMacros.calories)}</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Proteína:</span>
-                        <div className="font-medium">{Math.round(totalMacros.protein * 10) / 10}g</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Carboidratos:</span>
-                        <div className="font-medium">{Math.round(totalMacros.carbs * 10) / 10}g</div>
-                      </div>
-                      <div>
-                        <span className="text-muted-foreground">Gordura:</span>
-                        <div className="font-medium">{Math.round(totalMacros.fat * 10) / 10}g</div>
-                      </div>
-                    </div>
-                  </div>
+                <div className="border rounded p-3 mb-4 space-y-4">
+                  <h4 className="font-semibold">
+                    Total das Refeições vs Metas
+                    <span className="text-xs font-normal text-muted-foreground ml-2">
+                      tolerância de {diet.macro_tolerance_percent ?? DEFAULT_MACRO_TOLERANCE}%
+                    </span>
+                  </h4>
+                  <MacroTargetSummary
+                    totals={totalMacros}
+                    targets={targets}
+                    tolerance={diet.macro_tolerance_percent ?? DEFAULT_MACRO_TOLERANCE}
+                  />
+                  <MacroSplitChart totals={totalMacros} targets={targets} />
                 </div>
 
                 {diet.meals && diet.meals.length > 0 && (
@@ -527,6 +610,9 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
                                 </div>
                               )}
                             </div>
+                            <div className="mb-2">
+                              <MealMacroShare totals={sumMacros(meal.meal_foods)} targets={targets} />
+                            </div>
                             {meal.meal_foods && meal.meal_foods.length > 0 && (
                               <div className="text-sm">
                                 <strong>Alimentos ({meal.meal_foods.length}):</strong>
@@ -566,6 +652,38 @@ const DietManager = ({ trainerId }: { trainerId: string }) => {
           </CardContent>
         </Card>
       )}
+
+      {templateSource && (
+        <SaveDietTemplateDialog
+          isOpen={!!templateSource}
+          onClose={() => setTemplateSource(null)}
+          trainerId={trainerId}
+          dietPlanId={templateSource.id}
+          defaultName={templateSource.name}
+        />
+      )}
+
+      {copySource && (
+        <DuplicatePlanDialog
+          isOpen={!!copySource}
+          onClose={() => setCopySource(null)}
+          kind="diet"
+          trainerId={trainerId}
+          plan={copySource}
+          onCopied={loadDiets}
+        />
+      )}
+
+      {historySource && (
+        <PlanVersionHistory
+          isOpen={!!historySource}
+          onClose={() => setHistorySource(null)}
+          kind="diet"
+          planId={historySource.id}
+          planName={historySource.name}
+          onRestored={loadDiets}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, BookOpen, Search, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_MACRO_TOLERANCE, formatMacro, sumMacros } from "@/lib/diet-targets";
+import {
+  DietPlanDocument,
+  DietTemplate,
+  documentTotals,
+  parseDietPlanDocument,
+  scaleDietDocument,
+} from "@/lib/diet-templates";
+import { normalizeFoodSearch } from "@/lib/foods";
+import MacroTargetSummary from "./MacroTargetSummary";
+
+interface DietTemplatePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trainerId: string;
+  // Meta de calorias do aluno usada para escalar o modelo
+  defaultCalories: number | null;
+  onApply: (template: DietTemplate, document: DietPlanDocument) => void;
+}
+
+// Escolhe um modelo de dieta e mostra os macros já escalados antes de levar ao formulário
+const DietTemplatePicker = ({ isOpen, onClose, trainerId, defaultCalories, onApply }: DietTemplatePickerProps) => {
+  const [templates, setTemplates] = useState<DietTemplate[]>([]);
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState<DietTemplate | null>(null);
+  const [targetCalories, setTargetCalories] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(null);
+    loadTemplates();
+  }, [isOpen]);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from("diet_templates")
+      .select("*")
+      .eq("personal_trainer_id", trainerId)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading diet templates:", error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  const handleSelect = (template: DietTemplate) => {
+    const base = documentTotals(parseDietPlanDocument(template.plan)).calories;
+    setTargetCalories(String(defaultCalories || Math.round(base)));
+    setSelected(template);
+  };
+
+  const handleDelete = async (template: DietTemplate) => {
+    if (!confirm(`Excluir o modelo "${template.name}"? Dietas já criadas a partir dele não são afetadas.`)) return;
+
+    const { error } = await supabase.from("diet_templates").delete().eq("id", template.id);
+    if (error) {
+      console.error("Error deleting diet template:", error);
+      toast({ title: "Erro", description: "Não foi possível excluir o modelo.", variant: "destructive" });
+      return;
+    }
+    setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+  };
+
+  const search = normalizeFoodSearch(query);
+  const visible = templates.filter(
+    (template) => !search || normalizeFoodSearch(`${template.name} ${template.description ?? ""}`).includes(search)
+  );
+
+  const original = selected ? parseDietPlanDocument(selected.plan) : null;
+  const scaled = original ? scaleDietDocument(original, parseFloat(targetCalories)) : null;
+  const originalTotals = original ? documentTotals(original) : null;
+  const scaledTotals = scaled ? documentTotals(scaled) : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            {selected ? `Aplicar "${selected.name}"` : "Modelos de dieta"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {selected && scaled && originalTotals && scaledTotals ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <Label htmlFor="template-target-calories">Meta de calorias do aluno (kcal)</Label>
+                <Input
+                  id="template-target-calories"
+                  type="number"
+                  min="0"
+                  value={targetCalories}
+                  onChange={(e) => setTargetCalories(e.target.value)}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Modelo: {formatMacro("calories", originalTotals.calories)}
+                {originalTotals.calories > 0 &&
+                  ` · fator ${(scaledTotals.calories / originalTotals.calories).toLocaleString("pt-BR", {
+                    maximumFractionDigits: 2,
+                  })}x`}
+              </p>
+            </div>
+
+            <MacroTargetSummary
+              totals={scaledTotals}
+              targets={{
+                calories: scaled.daily_calories,
+                protein: scaled.daily_protein,
+                carbs: scaled.daily_carbs,
+                fat: scaled.daily_fat,
+              }}
+              tolerance={scaled.macro_tolerance_percent ?? DEFAULT_MACRO_TOLERANCE}
+            />
+
+            <div className="space-y-3">
+              {scaled.meals.map((meal, mealIndex) => {
+                const mealTotals = sumMacros(meal.foods);
+                return (
+                  <div key={mealIndex} className="rounded-lg border p-3 space-y-1">
+                    <div className="flex justify-between text-sm font-medium">
+                      <span>
+                        {meal.name}
+                        {meal.time_of_day && <span className="text-muted-foreground"> · {meal.time_of_day}</span>}
+                      </span>
+                      <span>{formatMacro("calories", mealTotals.calories)}</span>
+                    </div>
+                    {meal.foods.map((food, foodIndex) => {
+                      const before = original!.meals[mealIndex].foods[foodIndex];
+                      return (
+                        <div key={foodIndex} className="flex justify-between text-xs text-muted-foreground">
+                          <span>
+                            {food.food_name}: {before.quantity}
+                            {before.unit} → <strong className="text-foreground">{food.quantity}{food.unit}</strong>
+                          </span>
+                          <span>
+                            P {formatMacro("protein", food.protein)} · C {formatMacro("carbs", food.carbs)} · G{" "}
+                            {formatMacro("fat", food.fat)}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              As quantidades são arredondadas (5 g, ou meia medida caseira), por isso o total pode variar um pouco da
+              meta. A dieta é aberta no formulário para revisão antes de salvar.
+            </p>
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setSelected(null)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Voltar
+              </Button>
+              <Button onClick={() => onApply(selected, scaled)}>Usar estas quantidades</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-8"
+                placeholder="Buscar modelo"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+
+            {visible.map((template) => {
+              const document = parseDietPlanDocument(template.plan);
+              const totals = documentTotals(document);
+              return (
+                <div key={template.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">{template.name}</p>
+                    {template.description && <p className="text-sm text-muted-foreground">{template.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{formatMacro("calories", totals.calories)}</Badge>
+                      <Badge variant="outline">{document.meals.length} refeições</Badge>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleSelect(template)}>
+                      Usar
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(template)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {visible.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground py-6">
+                {templates.length === 0
+                  ? 'Nenhum modelo salvo ainda. Use "Salvar como modelo" em uma dieta existente.'
+                  : "Nenhum modelo encontrado."}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DietTemplatePicker;
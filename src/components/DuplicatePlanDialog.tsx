@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PlanKind, copyPlan } from "@/lib/plan-copy";
+
+interface DuplicatePlanDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: PlanKind;
+  trainerId: string;
+  plan: { id: string; name: string; student_id: string };
+  onCopied?: () => void;
+}
+
+// Duplica um treino ou dieta para o mesmo aluno ou para outro aluno do personal
+const DuplicatePlanDialog = ({ isOpen, onClose, kind, trainerId, plan, onCopied }: DuplicatePlanDialogProps) => {
+  const [students, setStudents] = useState<{ id: string; name: string }[]>([]);
+  const [targetStudentId, setTargetStudentId] = useState(plan.student_id);
+  const [name, setName] = useState("");
+  const [copying, setCopying] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTargetStudentId(plan.student_id);
+    setName("");
+    loadStudents();
+  }, [isOpen]);
+
+  const loadStudents = async () => {
+    const { data, error } = await supabase
+      .from("students")
+      .select("id, name")
+      .eq("personal_trainer_id", trainerId)
+      .eq("active", true)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading students:", error);
+      return;
+    }
+    setStudents(data || []);
+  };
+
+  const sameStudent = targetStudentId === plan.student_id;
+  const label = kind === "workout" ? "o treino" : "a dieta";
+
+  const handleCopy = async () => {
+    setCopying(true);
+    try {
+      await copyPlan(kind, plan.id, targetStudentId, name.trim() || undefined);
+      toast({
+        title: kind === "workout" ? "Treino duplicado" : "Dieta duplicada",
+        description: sameStudent
+          ? `A cópia de "${plan.name}" foi criada.`
+          : `"${plan.name}" foi ${kind === "workout" ? "copiado" : "copiada"} para ${students.find((s) => s.id === targetStudentId)?.name ?? "o aluno"}.`,
+      });
+      onCopied?.();
+      onClose();
+    } catch (error) {
+      console.error(`Error copying ${kind} plan:`, error);
+      toast({ title: "Erro", description: `Não foi possível duplicar ${label}.`, variant: "destructive" });
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Duplicar "{plan.name}"</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Copiar para</Label>
+            <Select value={targetStudentId} onValueChange={setTargetStudentId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione o aluno" />
+              </SelectTrigger>
+              <SelectContent>
+                {students.map((student) => (
+                  <SelectItem key={student.id} value={student.id}>
+                    {student.name}
+                    {student.id === plan.student_id && " (mesmo aluno)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="duplicate-plan-name">Nome da cópia</Label>
+            <Input
+              id="duplicate-plan-name"
+              placeholder={sameStudent ? `${plan.name} (cópia)` : plan.name}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {kind === "workout"
+              ? "Fases, sessões e exercícios são copiados na mesma ordem. O histórico de execuções não é copiado."
+              : "Refeições, alimentos e substituições são copiados na mesma ordem. Os registros do aluno não são copiados."}
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleCopy} disabled={copying || !targetStudentId}>
+              {copying ? "Duplicando..." : "Duplicar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicatePlanDialog;
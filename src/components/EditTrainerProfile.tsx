@@ -151,9 +151,7 @@ const EditTrainerProfile = ({ trainer, onClose, onSuccess }: EditTrainerProfileP
 
       if (error) throw error;
 
-      // Update localStorage with new trainer data
       const updatedTrainer = { ...trainer, ...formData };
-      localStorage.setItem("trainer", JSON.stringify(updatedTrainer));
 
       toast({
         title: "Perfil atualizado!",
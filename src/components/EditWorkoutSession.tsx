@@ -5,10 +5,22 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { X, Plus, Dumbbell, Save } from "lucide-react";
+import { X, Plus, Dumbbell, Save, TrendingUp } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useExerciseHistory } from "@/hooks/use-exercise-history";
+import {
+  DEFAULT_PROGRESSION_SETTINGS,
+  ProgressionSettings,
+  parseProgressionSettings,
+  suggestNextLoad,
+} from "@/lib/progression";
+import { sessionSlotLabel } from "@/lib/workout-schedule";
+import { describeExerciseGroups, dissolveSingletons, exerciseLabel, isValidTempo } from "@/lib/exercise-grouping";
+import { saveWorkoutSession } from "@/lib/plan-versions";
 import VideoModal from "./VideoModal";
+import ProgressionSuggestionHint from "./ProgressionSuggestionHint";
+import ExerciseGroupingControls from "./ExerciseGroupingControls";
 
 interface Exercise {
   id: string;
@@ -30,14 +42,20 @@ interface WorkoutExercise {
   sets: number;
   reps_min: number;
   reps_max: number;
+  weight_kg: number | null;
   rest_minutes: number;
   order_index: number;
+  group_key: string | null;
+  group_type: string | null;
+  technique: string | null;
+  tempo: string | null;
 }
 
 interface WorkoutSession {
   id: string;
   name: string;
-  day_of_week: number;
+  day_of_week: number | null;
+  order_index: number;
   workout_plan_id: string;
   exercises: WorkoutExercise[];
 }
@@ -49,22 +67,15 @@ interface EditWorkoutSessionProps {
   onSuccess: () => void;
 }
 
-const DAYS_OF_WEEK = [
-  { value: 0, label: "Domingo" },
-  { value: 1, label: "Segunda-feira" },
-  { value: 2, label: "Terça-feira" },
-  { value: 3, label: "Quarta-feira" },
-  { value: 4, label: "Quinta-feira" },
-  { value: 5, label: "Sexta-feira" },
-  { value: 6, label: "Sábado" },
-];
-
 const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkoutSessionProps) => {
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [categories, setCategories] = useState<ExerciseCategory[]>([]);
   const [sessionData, setSessionData] = useState<WorkoutSession>(session);
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
+  const [planStudentId, setPlanStudentId] = useState<string | null>(null);
+  const [progressionSettings, setProgressionSettings] = useState<ProgressionSettings>(DEFAULT_PROGRESSION_SETTINGS);
+  const { history } = useExerciseHistory(planStudentId);
   const [videoModal, setVideoModal] = useState<{
     isOpen: boolean;
     exerciseName: string;
@@ -80,9 +91,27 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
     if (isOpen) {
       loadData();
       loadCurrentExercises();
+      loadPlanProgression();
     }
   }, [isOpen, session.id]);
 
+  const loadPlanProgression = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("workout_plans")
+        .select("student_id, progression_settings")
+        .eq("id", session.workout_plan_id)
+        .single();
+
+      if (error) throw error;
+
+      setPlanStudentId(data.student_id);
+      setProgressionSettings(parseProgressionSettings(data.progression_settings));
+    } catch (error) {
+      console.error("Error loading plan progression:", error);
+    }
+  };
+
   const loadData = async () => {
     try {
       const [exercisesResponse, categoriesResponse] = await Promise.all([
@@ -110,8 +139,13 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
           sets,
           reps_min,
           reps_max,
+          weight_kg,
           rest_seconds,
           order_index,
+          group_key,
+          group_type,
+          technique,
+          tempo,
           exercises(name)
         `)
         .eq("workout_session_id", session.id)
@@ -126,8 +160,13 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
         sets: ex.sets,
         reps_min: ex.reps_min || 8,
         reps_max: ex.reps_max || 12,
+        weight_kg: ex.weight_kg,
         rest_minutes: Math.round((ex.rest_seconds || 60) / 60), // Convert seconds to minutes
         order_index: ex.order_index,
+        group_key: ex.group_key,
+        group_type: ex.group_type,
+        technique: ex.technique,
+        tempo: ex.tempo,
       }));
 
       setSessionData(prev => ({ ...prev, exercises: workoutExercises }));
@@ -147,8 +186,13 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
       sets: 3,
       reps_min: 8,
       reps_max: 12,
-     rest_minutes: 1,
+      weight_kg: null,
+      rest_minutes: 1,
       order_index: sessionData.exercises.length,
+      group_key: null,
+      group_type: null,
+      technique: null,
+      tempo: null,
     };
 
     setSessionData(prev => ({
@@ -166,44 +210,74 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
     }));
   };
 
+  const getSuggestion = (exercise: WorkoutExercise) => {
+    return suggestNextLoad(exercise, history[exercise.exercise_id] || [], progressionSettings);
+  };
+
+  const applySuggestion = (index: number) => {
+    const suggestion = getSuggestion(sessionData.exercises[index]);
+    if (suggestion?.weight_kg) {
+      updateExercise(index, 'weight_kg', suggestion.weight_kg);
+    }
+  };
+
+  const pendingSuggestions = sessionData.exercises.filter(ex => {
+    const suggestion = getSuggestion(ex);
+    return suggestion?.weight_kg && suggestion.weight_kg !== Number(ex.weight_kg || 0);
+  }).length;
+
+  const applyAllSuggestions = () => {
+    setSessionData(prev => ({
+      ...prev,
+      exercises: prev.exercises.map(ex => {
+        const suggestion = getSuggestion(ex);
+        return suggestion?.weight_kg ? { ...ex, weight_kg: suggestion.weight_kg } : ex;
+      })
+    }));
+
+    toast({
+      title: "Sugestões aplicadas",
+      description: `${pendingSuggestions} exercício(s) atualizados. Salve o treino para confirmar.`,
+    });
+  };
+
   const removeExercise = (index: number) => {
     setSessionData(prev => ({
       ...prev,
-      exercises: prev.exercises
+      exercises: dissolveSingletons(prev.exercises
         .filter((_, idx) => idx !== index)
-        .map((ex, idx) => ({ ...ex, order_index: idx }))
+        .map((ex, idx) => ({ ...ex, order_index: idx })))
     }));
   };
 
   const handleSave = async () => {
+    if (sessionData.exercises.some(ex => !isValidTempo(ex.tempo))) {
+      toast({
+        title: "Cadência inválida",
+        description: "Use o formato 3-1-2-0 (números ou X).",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     try {
-      // Delete all existing exercises for this session
-      const { error: deleteError } = await supabase
-        .from("workout_exercises")
-        .delete()
-        .eq("workout_session_id", session.id);
-
-      if (deleteError) throw deleteError;
-
-      // Insert updated exercises
-      if (sessionData.exercises.length > 0) {
-        const exercisesToInsert = sessionData.exercises.map(ex => ({
-          workout_session_id: session.id,
-          exercise_id: ex.exercise_id,
-          sets: ex.sets,
-          reps_min: ex.reps_min,
-          reps_max: ex.reps_max,
-          rest_seconds: ex.rest_minutes * 60, // Convert minutes back to seconds for database
-          order_index: ex.order_index,
-        }));
-
-        const { error: insertError } = await supabase
-          .from("workout_exercises")
-          .insert(exercisesToInsert);
-
-        if (insertError) throw insertError;
-      }
+      // Exercícios removidos saem, os demais mantêm o id para as conclusões do
+      // aluno continuarem ligadas a eles; as versões são gravadas na mesma transação
+      await saveWorkoutSession(session.id, sessionData.exercises.map(ex => ({
+        id: ex.id || null,
+        exercise_id: ex.exercise_id,
+        sets: ex.sets,
+        reps_min: ex.reps_min,
+        reps_max: ex.reps_max,
+        weight_kg: ex.weight_kg,
+        rest_seconds: ex.rest_minutes * 60, // Convert minutes back to seconds for database
+        order_index: ex.order_index,
+        group_key: ex.group_key,
+        group_type: ex.group_type,
+        technique: ex.technique,
+        tempo: ex.tempo,
+      })));
 
       toast({
         title: "Sucesso!",
@@ -240,6 +314,7 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
   };
 
   const categoryExercises = exercises.filter(ex => ex.category_id === selectedCategory);
+  const groupInfos = describeExerciseGroups(sessionData.exercises);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -249,7 +324,7 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
             <Dumbbell className="h-5 w-5" />
             Editar Treino - {session.name}
             <span className="text-sm text-muted-foreground">
-              ({DAYS_OF_WEEK.find(d => d.value === session.day_of_week)?.label})
+              ({sessionSlotLabel(session)})
             </span>
           </DialogTitle>
         </DialogHeader>
@@ -305,63 +380,99 @@ const EditWorkoutSession = ({ session, isOpen, onClose, onSuccess }: EditWorkout
           {sessionData.exercises.length > 0 && (
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Exercícios do Treino ({sessionData.exercises.length})</CardTitle>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle className="text-lg">Exercícios do Treino ({sessionData.exercises.length})</CardTitle>
+                  {pendingSuggestions > 0 && (
+                    <Button type="button" variant="outline" size="sm" onClick={applyAllSuggestions}>
+                      <TrendingUp className="h-4 w-4 mr-2" />
+                      Aceitar sugestões ({pendingSuggestions})
+                    </Button>
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
                   {sessionData.exercises.map((exercise, idx) => (
-                    <div key={idx} className="grid grid-cols-5 gap-3 items-end p-3 bg-muted rounded-lg">
-                      <div>
-                        <Label className="text-xs font-medium">{exercise.exercise_name}</Label>
-                      </div>
-                      <div>
-                        <Label className="text-xs">Séries</Label>
-                        <Input
-                          type="number"
-                          value={exercise.sets}
-                          onChange={(e) => updateExercise(idx, 'sets', parseInt(e.target.value) || 0)}
-                          min="1"
-                          max="10"
-                        />
-                      </div>
-                      <div>
-                        <Label className="text-xs">Repetições</Label>
-                        <div className="flex gap-1">
+                    <div
+                      key={idx}
+                      className={`p-3 bg-muted rounded-lg space-y-2 ${groupInfos[idx].key ? "border-l-4 border-primary" : ""}`}
+                    >
+                      <div className="grid grid-cols-6 gap-3 items-end">
+                        <div>
+                          <Label className="text-xs font-medium">
+                            {exerciseLabel(groupInfos[idx], idx)}. {exercise.exercise_name}
+                          </Label>
+                        </div>
+                        <div>
+                          <Label className="text-xs">Séries</Label>
                           <Input
                             type="number"
-                            value={exercise.reps_min}
-                            onChange={(e) => updateExercise(idx, 'reps_min', parseInt(e.target.value) || 0)}
+                            value={exercise.sets}
+                            onChange={(e) => updateExercise(idx, 'sets', parseInt(e.target.value) || 0)}
                             min="1"
-                            placeholder="Min"
+                            max="10"
                           />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Repetições</Label>
+                          <div className="flex gap-1">
+                            <Input
+                              type="number"
+                              value={exercise.reps_min}
+                              onChange={(e) => updateExercise(idx, 'reps_min', parseInt(e.target.value) || 0)}
+                              min="1"
+                              placeholder="Min"
+                            />
+                            <Input
+                              type="number"
+                              value={exercise.reps_max}
+                              onChange={(e) => updateExercise(idx, 'reps_max', parseInt(e.target.value) || 0)}
+                              min="1"
+                              placeholder="Max"
+                            />
+                          </div>
+                        </div>
+                        <div>
+                          <Label className="text-xs">Carga (kg)</Label>
                           <Input
                             type="number"
-                            value={exercise.reps_max}
-                            onChange={(e) => updateExercise(idx, 'reps_max', parseInt(e.target.value) || 0)}
-                            min="1"
-                            placeholder="Max"
+                            step="0.5"
+                            value={exercise.weight_kg ?? ""}
+                            onChange={(e) => updateExercise(idx, 'weight_kg', parseFloat(e.target.value) || null)}
+                            min="0"
+                            placeholder="-"
                           />
                         </div>
+                        <div>
+                          <Label className="text-xs">Descanso (min)</Label>
+                          <Input
+                            type="number"
+                            step="0.5"
+                           placeholder="1"
+                            value={exercise.rest_minutes}
+                            onChange={(e) => updateExercise(idx, 'rest_minutes', parseFloat(e.target.value) || 0)}
+                            min="0"
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeExercise(idx)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
                       </div>
-                      <div>
-                        <Label className="text-xs">Descanso (min)</Label>
-                        <Input
-                          type="number"
-                          step="0.5"
-                         placeholder="1"
-                          value={exercise.rest_minutes}
-                          onChange={(e) => updateExercise(idx, 'rest_minutes', parseFloat(e.target.value) || 0)}
-                          min="0"
-                        />
-                      </div>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => removeExercise(idx)}
-                      >
-                        <X className="h-4 w-4" />
-                      </Button>
+                      <ExerciseGroupingControls
+                        exercises={sessionData.exercises}
+                        index={idx}
+                        onChange={(exercises) => setSessionData(prev => ({ ...prev, exercises }))}
+                      />
+                      <ProgressionSuggestionHint
+                        suggestion={getSuggestion(exercise)}
+                        currentWeight={exercise.weight_kg}
+                        onApply={() => applySuggestion(idx)}
+                      />
                     </div>
                   ))}
                 </div>
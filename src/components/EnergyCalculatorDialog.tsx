@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, CheckCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ageOn, Sex } from "@/lib/body-composition";
+import { MACRO_KEYS, MACRO_LABELS, MacroTotals, formatMacro } from "@/lib/diet-targets";
+import {
+  ACTIVITY_LEVELS,
+  ActivityLevel,
+  BMR_FORMULA_LABELS,
+  BmrFormula,
+  DIET_GOALS,
+  DietGoal,
+  availableFormulas,
+  basalMetabolicRate,
+  heightInCm,
+  isActivityLevel,
+  proposeDietTargets,
+  totalDailyEnergyExpenditure,
+} from "@/lib/energy-expenditure";
+
+interface EnergyCalculatorDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (targets: MacroTotals) => void;
+  studentId: string;
+}
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+// Calcula TMB/TDEE com os dados do aluno (e o % de gordura da última
+// avaliação) e sugere as metas diárias para o objetivo escolhido
+const EnergyCalculatorDialog = ({ isOpen, onClose, onApply, studentId }: EnergyCalculatorDialogProps) => {
+  const [sex, setSex] = useState<Sex | "">("");
+  const [age, setAge] = useState("");
+  const [weight, setWeight] = useState("");
+  const [height, setHeight] = useState("");
+  const [bodyFat, setBodyFat] = useState("");
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>("moderate");
+  const [formula, setFormula] = useState<BmrFormula>("mifflin_st_jeor");
+  const [goal, setGoal] = useState<DietGoal>("maintenance");
+  const [saved, setSaved] = useState<{ sex: string | null; activity_level: string | null }>({
+    sex: null,
+    activity_level: null,
+  });
+
+  useEffect(() => {
+    if (isOpen && studentId) {
+      loadStudentData();
+    }
+  }, [isOpen, studentId]);
+
+  const loadStudentData = async () => {
+    const [{ data: student }, { data: assessment }] = await Promise.all([
+      supabase
+        .from("students")
+        .select("sex, birth_date, height, weight, activity_level")
+        .eq("id", studentId)
+        .single(),
+      supabase
+        .from("body_assessments")
+        .select("body_fat_percent, weight_kg")
+        .eq("student_id", studentId)
+        .not("body_fat_percent", "is", null)
+        .order("assessed_on", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    const studentSex = student?.sex === "male" || student?.sex === "female" ? student.sex : "";
+    setSex(studentSex);
+    setAge(student?.birth_date ? String(ageOn(student.birth_date, new Date().toISOString())) : "");
+    setWeight(String(student?.weight || assessment?.weight_kg || ""));
+    setHeight(String(heightInCm(student?.height) || ""));
+    setBodyFat(assessment?.body_fat_percent ? String(assessment.body_fat_percent) : "");
+    setActivityLevel(isActivityLevel(student?.activity_level) ? student.activity_level : "moderate");
+    setFormula(assessment?.body_fat_percent ? "katch_mcardle" : "mifflin_st_jeor");
+    setSaved({ sex: student?.sex ?? null, activity_level: student?.activity_level ?? null });
+  };
+
+  const input =
+    sex && toNumber(age) && toNumber(weight) && toNumber(height)
+      ? {
+          sex,
+          age: toNumber(age)!,
+          weightKg: toNumber(weight)!,
+          heightCm: toNumber(height)!,
+          bodyFatPercent: toNumber(bodyFat),
+        }
+      : null;
+  const formulas = availableFormulas({ bodyFatPercent: toNumber(bodyFat) });
+  const activeFormula = formulas.includes(formula) ? formula : formulas[0];
+  const bmr = input ? basalMetabolicRate(activeFormula, input) : null;
+  const tdee = bmr ? totalDailyEnergyExpenditure(bmr, activityLevel) : null;
+  const targets = tdee && input ? proposeDietTargets(tdee, goal, input.weightKg) : null;
+
+  const handleApply = async () => {
+    if (!targets) return;
+
+    // Sexo e nível de atividade ficam no cadastro para os próximos cálculos
+    const studentUpdate: { sex?: string; activity_level?: string } = {};
+    if (sex && sex !== saved.sex) studentUpdate.sex = sex;
+    if (activityLevel !== saved.activity_level) studentUpdate.activity_level = activityLevel;
+    if (Object.keys(studentUpdate).length > 0) {
+      await supabase.from("students").update(studentUpdate).eq("id", studentId);
+    }
+
+    onApply(targets);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5 text-primary" />
+            Gasto energético e metas
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Sexo</Label>
+              <Select value={sex} onValueChange={(value) => setSex(value as Sex)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="male">Masculino</SelectItem>
+                  <SelectItem value="female">Feminino</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Idade</Label>
+              <Input type="number" min="1" value={age} onChange={(e) => setAge(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Peso (kg)</Label>
+              <Input type="number" step="0.1" value={weight} onChange={(e) => setWeight(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Altura (cm)</Label>
+              <Input type="number" value={height} onChange={(e) => setHeight(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">% Gordura</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={bodyFat}
+                onChange={(e) => setBodyFat(e.target.value)}
+                placeholder="Opcional"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">Nível de atividade</Label>
+            <Select value={activityLevel} onValueChange={(value) => setActivityLevel(value as ActivityLevel)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTIVITY_LEVELS) as ActivityLevel[]).map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {ACTIVITY_LEVELS[level].label} (×{ACTIVITY_LEVELS[level].factor}) · {ACTIVITY_LEVELS[level].description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Fórmula da TMB</Label>
+              <Select value={activeFormula} onValueChange={(value) => setFormula(value as BmrFormula)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {formulas.map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {BMR_FORMULA_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Objetivo</Label>
+              <Select value={goal} onValueChange={(value) => setGoal(value as DietGoal)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DIET_GOALS) as DietGoal[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {DIET_GOALS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!input ? (
+            <p className="text-sm text-muted-foreground">
+              Informe sexo, idade, peso e altura para calcular o gasto energético.
+            </p>
+          ) : (
+            <div className="rounded-lg bg-muted p-3 space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-center text-sm">
+                {formulas.map((key) => (
+                  <div key={key} className={key === activeFormula ? "font-semibold" : "text-muted-foreground"}>
+                    <p className="text-xs">{BMR_FORMULA_LABELS[key]}</p>
+                    <p>{basalMetabolicRate(key, input)} kcal</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-sm text-center">
+                TMB <strong>{bmr} kcal</strong> · TDEE <strong>{tdee} kcal</strong>
+              </p>
+              {targets && (
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {MACRO_KEYS.map((key) => (
+                    <div key={key}>
+                      <p className="text-xs text-muted-foreground">{MACRO_LABELS[key]}</p>
+                      <p className="font-semibold">{formatMacro(key, targets[key])}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleApply} disabled={!targets} className="flex-1">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Usar metas
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EnergyCalculatorDialog;
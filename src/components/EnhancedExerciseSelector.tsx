@@ -20,6 +20,8 @@ import {
   Target
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { describeExerciseGroups, dissolveSingletons, exerciseLabel } from "@/lib/exercise-grouping";
+import ExerciseGroupingControls from "./ExerciseGroupingControls";
 
 interface Exercise {
   id: string;
@@ -44,6 +46,10 @@ interface WorkoutExercise {
   reps_max: number;
   rest_minutes: number;
   order_index: number;
+  group_key?: string | null;
+  group_type?: string | null;
+  technique?: string | null;
+  tempo?: string | null;
 }
 
 interface EnhancedExerciseSelectorProps {
@@ -128,7 +134,7 @@ const EnhancedExerciseSelector = ({
     const updatedExercises = selectedExercises
       .filter((_, idx) => idx !== index)
       .map((ex, idx) => ({ ...ex, order_index: idx }));
-    onExercisesChange(updatedExercises);
+    onExercisesChange(dissolveSingletons(updatedExercises));
   };
 
   const updateExercise = (index: number, field: string, value: number) => {
@@ -147,7 +153,7 @@ const EnhancedExerciseSelector = ({
       ...ex, 
       order_index: idx 
     }));
-    onExercisesChange(reorderedExercises);
+    onExercisesChange(dissolveSingletons(reorderedExercises));
   };
 
   const toggleExpanded = (index: number) => {
@@ -161,6 +167,7 @@ const EnhancedExerciseSelector = ({
   };
 
   const selectedCategoryData = categories.find(c => c.id === selectedCategory);
+  const groupInfos = describeExerciseGroups(selectedExercises);
 
   return (
     <div className="space-y-4">
@@ -299,7 +306,7 @@ const EnhancedExerciseSelector = ({
                 <div className="flex items-center justify-between mb-3">
                   <div className="flex items-center gap-3">
                     <div className="bg-primary text-primary-foreground rounded-full w-8 h-8 flex items-center justify-center text-sm font-medium">
-                      {index + 1}
+                      {exerciseLabel(groupInfos[index], index)}
                     </div>
                     <div>
                       <h4 className="font-medium">{exercise.exercise_name}</h4>
@@ -404,6 +411,14 @@ const EnhancedExerciseSelector = ({
                         min="0"
                       />
                     </div>
+
+                    <div className="md:col-span-3">
+                      <ExerciseGroupingControls
+                        exercises={selectedExercises}
+                        index={index}
+                        onChange={onExercisesChange}
+                      />
+                    </div>
                   </div>
                 )}
               </CardContent>
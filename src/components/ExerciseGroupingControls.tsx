@@ -0,0 +1,119 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, Unlink } from "lucide-react";
+import {
+  ExerciseGroupType,
+  GROUP_TYPE_LABELS,
+  GroupableExercise,
+  TECHNIQUE_LABELS,
+  describeExerciseGroups,
+  isValidTempo,
+  linkWithNext,
+  normalizeTempo,
+  setGroupType,
+  unlinkFromNext,
+} from "@/lib/exercise-grouping";
+
+interface ExerciseGroupingControlsProps<T extends GroupableExercise> {
+  exercises: T[];
+  index: number;
+  onChange: (exercises: T[]) => void;
+}
+
+const NO_TECHNIQUE = "none";
+
+const ExerciseGroupingControls = <T extends GroupableExercise>({
+  exercises,
+  index,
+  onChange,
+}: ExerciseGroupingControlsProps<T>) => {
+  const exercise = exercises[index];
+  const info = describeExerciseGroups(exercises)[index];
+  const hasNext = index < exercises.length - 1;
+  const linkedWithNext = Boolean(info.key) && !info.isLast;
+
+  const updateField = (updates: Partial<GroupableExercise>) => {
+    onChange(exercises.map((ex, i) => (i === index ? { ...ex, ...updates } : ex)));
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Técnica</Label>
+        <Select
+          value={exercise.technique || NO_TECHNIQUE}
+          onValueChange={(value) => updateField({ technique: value === NO_TECHNIQUE ? null : value })}
+        >
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TECHNIQUE}>Nenhuma</SelectItem>
+            {Object.entries(TECHNIQUE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Cadência</Label>
+        <Input
+          value={exercise.tempo || ""}
+          onChange={(e) => updateField({ tempo: normalizeTempo(e.target.value) || null })}
+          placeholder="3-1-2-0"
+          className={`h-8 w-24 text-xs ${isValidTempo(exercise.tempo) ? "" : "border-destructive"}`}
+        />
+      </div>
+
+      {info.key && info.isFirst && (
+        <div className="space-y-1">
+          <Label className="text-xs">Grupo {info.key}</Label>
+          <Select
+            value={info.type ?? undefined}
+            onValueChange={(value) => onChange(setGroupType(exercises, info.key as string, value as ExerciseGroupType))}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(GROUP_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {hasNext && (
+        <Button
+          type="button"
+          variant={linkedWithNext ? "secondary" : "ghost"}
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => onChange(linkedWithNext ? unlinkFromNext(exercises, index) : linkWithNext(exercises, index))}
+        >
+          {linkedWithNext ? (
+            <>
+              <Unlink className="h-3 w-3 mr-1" />
+              Separar do próximo
+            </>
+          ) : (
+            <>
+              <Link2 className="h-3 w-3 mr-1" />
+              Agrupar com o próximo
+            </>
+          )}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ExerciseGroupingControls;
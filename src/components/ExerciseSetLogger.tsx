@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, Plus, Trash2, Dumbbell } from "lucide-react";
+
+export interface SetEntry {
+  reps: string;
+  weight: string;
+}
+
+export interface ExerciseLog {
+  sets_completed: number;
+  reps_completed: number[];
+  weights_used: number[];
+  weight_used: number | null;
+  notes: string | null;
+}
+
+// Converte as séries preenchidas no registro salvo em exercise_completions;
+// só contam as séries com repetições informadas
+export const toExerciseLog = (entries: SetEntry[], notes: string): ExerciseLog | null => {
+  const validEntries = entries.filter((entry) => parseInt(entry.reps) > 0);
+  if (validEntries.length === 0) return null;
+
+  const repsCompleted = validEntries.map((entry) => parseInt(entry.reps));
+  const weightsUsed = validEntries.map((entry) => parseFloat(entry.weight) || 0);
+  const topWeight = Math.max(...weightsUsed);
+
+  return {
+    sets_completed: validEntries.length,
+    reps_completed: repsCompleted,
+    weights_used: weightsUsed,
+    weight_used: topWeight > 0 ? topWeight : null,
+    notes: notes.trim() || null,
+  };
+};
+
+interface ExerciseSetLoggerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (log: ExerciseLog) => Promise<void>;
+  exerciseName: string;
+  sets: number;
+  repsMin?: number;
+  repsMax?: number;
+  weightKg?: number;
+}
+
+const ExerciseSetLogger = ({
+  isOpen,
+  onClose,
+  onSave,
+  exerciseName,
+  sets,
+  repsMin,
+  repsMax,
+  weightKg,
+}: ExerciseSetLoggerProps) => {
+  const [entries, setEntries] = useState<SetEntry[]>([]);
+  const [notes, setNotes] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pré-preenche cada série com a prescrição do personal
+  useEffect(() => {
+    if (isOpen) {
+      const defaultReps = repsMax || repsMin;
+      setEntries(
+        Array.from({ length: Math.max(sets, 1) }, () => ({
+          reps: defaultReps ? String(defaultReps) : "",
+          weight: weightKg ? String(weightKg) : "",
+        }))
+      );
+      setNotes("");
+    }
+  }, [isOpen, sets, repsMin, repsMax, weightKg]);
+
+  const updateEntry = (index: number, field: keyof SetEntry, value: string) => {
+    setEntries((prev) =>
+      prev.map((entry, i) => (i === index ? { ...entry, [field]: value } : entry))
+    );
+  };
+
+  const addSet = () => {
+    setEntries((prev) => [...prev, { ...(prev[prev.length - 1] || { reps: "", weight: "" }) }]);
+  };
+
+  const removeSet = (index: number) => {
+    setEntries((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const prescribedReps = repsMin && repsMax && repsMin !== repsMax
+    ? `${repsMin}-${repsMax}`
+    : repsMin || repsMax;
+
+  // Só contam as séries com repetições informadas
+  const validEntries = entries.filter((entry) => parseInt(entry.reps) > 0);
+
+  const handleSave = async () => {
+    const log = toExerciseLog(entries, notes);
+    if (!log) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(log);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Dumbbell className="h-5 w-5 text-primary" />
+            {exerciseName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="secondary">Prescrito: {sets} séries</Badge>
+          {prescribedReps && <Badge variant="secondary">{prescribedReps} reps</Badge>}
+          {weightKg && <Badge variant="secondary">{weightKg}kg</Badge>}
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[3rem_1fr_1fr_2rem] gap-2 text-xs text-muted-foreground px-1">
+            <span>Série</span>
+            <span>Reps</span>
+            <span>Peso (kg)</span>
+            <span></span>
+          </div>
+          {entries.map((entry, index) => (
+            <div key={index} className="grid grid-cols-[3rem_1fr_1fr_2rem] gap-2 items-center">
+              <span className="text-sm font-medium text-center">{index + 1}</span>
+              <Input
+                type="number"
+                inputMode="numeric"
+                min="0"
+                value={entry.reps}
+                onChange={(e) => updateEntry(index, "reps", e.target.value)}
+                className="h-9"
+              />
+              <Input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="0.5"
+                value={entry.weight}
+                onChange={(e) => updateEntry(index, "weight", e.target.value)}
+                className="h-9"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeSet(index)}
+                disabled={entries.length <= 1}
+                className="h-8 w-8 p-0"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addSet} className="w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar série
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="set-logger-notes">Observações</Label>
+          <Textarea
+            id="set-logger-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Ex: senti o ombro na última série"
+            rows={2}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || validEntries.length === 0}
+            className="flex-1 bg-green-500 hover:bg-green-600 text-white"
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            {isSaving ? "Salvando..." : "Salvar séries"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExerciseSetLogger;
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Flag } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatDuration } from "@/lib/guided-workout";
+import { EMPTY_WORKOUT_FEEDBACK, WorkoutFeedback, serializeFeedback } from "@/lib/workout-log";
+import WorkoutFeedbackForm from "./WorkoutFeedbackForm";
+
+interface FinishWorkoutDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  studentId: string;
+  sessionId: string;
+  sessionName: string;
+  // Conclusões de hoje ainda sem sessão registrada
+  completions: { id: string; completed_at: string }[];
+}
+
+// Fecha o treino feito exercício a exercício (sem o modo guiado): cria o
+// registro da sessão a partir das conclusões do dia e vincula-as a ele
+const FinishWorkoutDialog = ({
+  isOpen,
+  onClose,
+  onSaved,
+  studentId,
+  sessionId,
+  sessionName,
+  completions,
+}: FinishWorkoutDialogProps) => {
+  const [feedback, setFeedback] = useState<WorkoutFeedback>(EMPTY_WORKOUT_FEEDBACK);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const startedAt = completions.reduce(
+    (earliest, c) => (c.completed_at < earliest ? c.completed_at : earliest),
+    completions[0]?.completed_at ?? new Date().toISOString()
+  );
+  const durationSeconds = Math.max(0, Math.round((Date.now() - new Date(startedAt).getTime()) / 1000));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { data: workoutLog, error: logError } = await supabase
+        .from("workout_logs")
+        .insert({
+          student_id: studentId,
+          workout_session_id: sessionId,
+          started_at: startedAt,
+          finished_at: new Date().toISOString(),
+          duration_seconds: durationSeconds,
+          ...serializeFeedback(feedback),
+        })
+        .select("id")
+        .single();
+
+      if (logError) throw logError;
+
+      const { error: linkError } = await supabase
+        .from("exercise_completions")
+        .update({ workout_log_id: workoutLog.id })
+        .in("id", completions.map((c) => c.id));
+
+      if (linkError) throw linkError;
+
+      toast({
+        title: "Treino registrado! 🎉",
+        description: "Seu personal já pode ver como foi a sessão.",
+      });
+      setFeedback(EMPTY_WORKOUT_FEEDBACK);
+      onSaved();
+    } catch (error) {
+      console.error("Error finishing workout:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível registrar o treino. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-primary" />
+            Finalizar {sessionName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          {completions.length} exercício(s) registrados hoje · cerca de {formatDuration(durationSeconds)} desde o primeiro
+        </p>
+
+        <WorkoutFeedbackForm value={feedback} onChange={setFeedback} />
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose} className="flex-1">
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+            <CheckCircle className="h-4 w-4 mr-2" />
+            {isSaving ? "Salvando..." : "Registrar treino"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FinishWorkoutDialog;
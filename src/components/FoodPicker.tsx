@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Search } from "lucide-react";
+import { Food, searchFoods } from "@/lib/foods";
+
+interface FoodPickerProps {
+  foods: Food[];
+  onSelect: (food: Food) => void;
+  onCreateFood?: (name: string) => void;
+}
+
+const MAX_RESULTS = 50;
+
+const FoodPicker = ({ foods, onSelect, onCreateFood }: FoodPickerProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const results = searchFoods(foods, query).slice(0, MAX_RESULTS);
+
+  const select = (food: Food) => {
+    onSelect(food);
+    setIsOpen(false);
+    setQuery("");
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" title="Buscar no banco de alimentos">
+          <Search className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        {/* A busca é feita aqui (sem acentos); o filtro do cmdk fica desligado */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Buscar alimento (ex: arroz cozido)" value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>Nenhum alimento encontrado.</CommandEmpty>
+            <CommandGroup>
+              {results.map((food) => (
+                <CommandItem key={food.id} value={food.id} onSelect={() => select(food)}>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{food.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {Math.round(food.energy_kcal)} kcal · P {food.protein_g}g · C {food.carbs_g}g · G {food.fat_g}g
+                      (100 g)
+                    </p>
+                  </div>
+                  {food.source === "custom" && (
+                    <Badge variant="secondary" className="ml-2 text-xs">
+                      Meu
+                    </Badge>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+          {onCreateFood && (
+            <div className="border-t p-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start"
+                onClick={() => {
+                  setIsOpen(false);
+                  onCreateFood(query.trim());
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Cadastrar novo alimento
+              </Button>
+            </div>
+          )}
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default FoodPicker;
@@ -0,0 +1,95 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeftRight, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Food, FoodMacros } from "@/lib/foods";
+import {
+  SUBSTITUTION_MATCH_LABELS,
+  SubstitutionDraft,
+  SubstitutionMatch,
+  equivalentSubstitution,
+} from "@/lib/food-substitutions";
+import FoodPicker from "./FoodPicker";
+
+interface FoodSubstitutionsEditorProps {
+  foods: Food[];
+  original: FoodMacros;
+  substitutions: SubstitutionDraft[];
+  onChange: (substitutions: SubstitutionDraft[]) => void;
+}
+
+// Alternativas do item da refeição, com a quantidade equivalente calculada pelo banco de alimentos
+const FoodSubstitutionsEditor = ({ foods, original, substitutions, onChange }: FoodSubstitutionsEditorProps) => {
+  const { toast } = useToast();
+
+  const addSubstitution = (food: Food) => {
+    const substitution = equivalentSubstitution(original, food, "calories");
+    if (!substitution) {
+      toast({
+        title: "Sem equivalência",
+        description: "Preencha as calorias do alimento original antes de adicionar substituições.",
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange([...substitutions, substitution]);
+  };
+
+  const changeMatch = (index: number, matchBy: SubstitutionMatch) => {
+    const food = foods.find((f) => f.id === substitutions[index].food_id);
+    const updated = food && equivalentSubstitution(original, food, matchBy);
+    if (!updated) {
+      toast({
+        title: "Sem equivalência",
+        description: `Não há ${matchBy === "carbs" ? "carboidratos" : "calorias"} suficientes para calcular a troca.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    onChange(substitutions.map((s, i) => (i === index ? updated : s)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <ArrowLeftRight className="h-3 w-3 text-muted-foreground" />
+        <span className="text-xs text-muted-foreground">Substituições ({substitutions.length})</span>
+        <FoodPicker foods={foods} onSelect={addSubstitution} />
+      </div>
+      {substitutions.map((substitution, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2 text-sm pl-5">
+          <span className="font-medium">
+            {substitution.quantity}
+            {substitution.unit} {substitution.food_name}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {substitution.calories} kcal · C {substitution.carbs}g
+          </span>
+          <Select value={substitution.match_by} onValueChange={(value) => changeMatch(index, value as SubstitutionMatch)}>
+            <SelectTrigger className="h-8 w-44 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SUBSTITUTION_MATCH_LABELS) as SubstitutionMatch[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {SUBSTITUTION_MATCH_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange(substitutions.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FoodSubstitutionsEditor;
@@ -0,0 +1,413 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, Clock, Flag, Plus, SkipForward, Timer, Trophy, Volume2, VolumeX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWakeLock } from "@/hooks/use-wake-lock";
+import { SetEntry, toExerciseLog } from "./ExerciseSetLogger";
+import { describeExerciseGroups, exerciseLabel, groupTitle } from "@/lib/exercise-grouping";
+import { buildWorkoutSteps, formatDuration } from "@/lib/guided-workout";
+import { submitWrite } from "@/lib/offline-sync";
+import { EMPTY_WORKOUT_FEEDBACK, WorkoutFeedback, serializeFeedback } from "@/lib/workout-log";
+import WorkoutFeedbackForm from "./WorkoutFeedbackForm";
+
+export interface GuidedWorkoutExercise {
+  id: string;
+  exercise?: { name: string };
+  sets: number;
+  reps_min?: number;
+  reps_max?: number;
+  weight_kg?: number;
+  rest_seconds?: number;
+  group_key?: string | null;
+  group_type?: string | null;
+  technique?: string | null;
+  tempo?: string | null;
+}
+
+interface GuidedWorkoutProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onFinished: () => void;
+  studentId: string;
+  sessionId: string;
+  sessionName: string;
+  exercises: GuidedWorkoutExercise[];
+}
+
+const REST_EXTENSION_SECONDS = 15;
+
+const GuidedWorkout = ({
+  isOpen,
+  onClose,
+  onFinished,
+  studentId,
+  sessionId,
+  sessionName,
+  exercises,
+}: GuidedWorkoutProps) => {
+  const steps = useMemo(() => buildWorkoutSteps(exercises), [exercises]);
+  const groupInfos = useMemo(() => describeExerciseGroups(exercises), [exercises]);
+
+  const [startedAt] = useState(() => new Date());
+  const [finishedAt, setFinishedAt] = useState<Date | null>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [performed, setPerformed] = useState<Record<string, SetEntry[]>>({});
+  const [current, setCurrent] = useState<SetEntry>({ reps: "", weight: "" });
+  const [restEndsAt, setRestEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [soundEnabled, setSoundEnabled] = useState(true);
+  const [feedback, setFeedback] = useState<WorkoutFeedback>(EMPTY_WORKOUT_FEEDBACK);
+  const [isSaving, setIsSaving] = useState(false);
+  const audioRef = useRef<AudioContext | null>(null);
+  const { toast } = useToast();
+
+  const isFinished = finishedAt !== null;
+  const step = steps[stepIndex];
+  const exercise = step ? exercises[step.exerciseIndex] : undefined;
+  const restRemaining = restEndsAt ? Math.max(0, Math.ceil((restEndsAt - now) / 1000)) : 0;
+
+  useWakeLock(isOpen && !isFinished);
+
+  // Cronômetro do treino e do descanso
+  useEffect(() => {
+    if (!isOpen || isFinished) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(interval);
+  }, [isOpen, isFinished]);
+
+  // Pré-preenche a série com a última registrada do exercício ou com a prescrição
+  useEffect(() => {
+    if (!exercise) return;
+    const previous = performed[exercise.id]?.[performed[exercise.id].length - 1];
+    const defaultReps = exercise.reps_max || exercise.reps_min;
+    setCurrent(
+      previous ?? {
+        reps: defaultReps ? String(defaultReps) : "",
+        weight: exercise.weight_kg ? String(exercise.weight_kg) : "",
+      }
+    );
+  }, [stepIndex]);
+
+  const playRestAlert = () => {
+    navigator.vibrate?.([300, 150, 300]);
+    const context = audioRef.current;
+    if (!soundEnabled || !context) return;
+
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.3, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.6);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start();
+    oscillator.stop(context.currentTime + 0.6);
+  };
+
+  useEffect(() => {
+    if (restEndsAt && now >= restEndsAt) {
+      setRestEndsAt(null);
+      playRestAlert();
+    }
+  }, [now, restEndsAt]);
+
+  // O áudio só pode ser liberado em resposta a um toque do aluno (iOS/Chrome)
+  const unlockAudio = () => {
+    if (!audioRef.current && typeof AudioContext !== "undefined") {
+      audioRef.current = new AudioContext();
+    }
+    audioRef.current?.resume().catch(() => undefined);
+  };
+
+  const advance = () => {
+    if (!step) return;
+    if (stepIndex >= steps.length - 1) {
+      setRestEndsAt(null);
+      setFinishedAt(new Date());
+      return;
+    }
+    if (step.restSeconds > 0) {
+      setRestEndsAt(Date.now() + step.restSeconds * 1000);
+    }
+    setStepIndex(stepIndex + 1);
+  };
+
+  const completeSet = () => {
+    if (!exercise) return;
+    unlockAudio();
+    setPerformed((prev) => ({
+      ...prev,
+      [exercise.id]: [...(prev[exercise.id] || []), current],
+    }));
+    advance();
+  };
+
+  const finishEarly = () => {
+    setRestEndsAt(null);
+    setFinishedAt(new Date());
+  };
+
+  const handleClose = () => {
+    const hasSets = Object.values(performed).some((entries) => entries.length > 0);
+    if (!isFinished && hasSets && !window.confirm("Sair do treino guiado? As séries registradas serão descartadas.")) {
+      return;
+    }
+    onClose();
+  };
+
+  const logs = exercises
+    .map((ex) => ({ exercise: ex, log: toExerciseLog(performed[ex.id] || [], "") }))
+    .filter((item) => item.log !== null);
+  const totalSets = logs.reduce((sum, item) => sum + item.log!.sets_completed, 0);
+  const totalVolume = logs.reduce(
+    (sum, item) => sum + item.log!.reps_completed.reduce((acc, reps, i) => acc + reps * (item.log!.weights_used[i] || 0), 0),
+    0
+  );
+  const durationSeconds = Math.round(((finishedAt?.getTime() ?? now) - startedAt.getTime()) / 1000);
+
+  const saveSession = async () => {
+    if (!finishedAt) return;
+
+    setIsSaving(true);
+    try {
+      // O id é gerado aqui para que as conclusões possam apontar para a
+      // sessão mesmo quando tudo fica na fila offline
+      const workoutLog = await submitWrite("workout_logs", {
+        id: crypto.randomUUID(),
+        student_id: studentId,
+        workout_session_id: sessionId,
+        started_at: startedAt.toISOString(),
+        finished_at: finishedAt.toISOString(),
+        duration_seconds: durationSeconds,
+        ...serializeFeedback(feedback),
+      });
+
+      if (workoutLog.error) throw workoutLog.error;
+
+      let queued = workoutLog.queued;
+      for (const { exercise: ex, log } of logs) {
+        const completion = await submitWrite("exercise_completions", {
+          ...log!,
+          workout_exercise_id: ex.id,
+          student_id: studentId,
+          workout_log_id: workoutLog.id,
+          completed_at: finishedAt.toISOString(),
+        });
+
+        if (completion.error) throw completion.error;
+        queued = queued || completion.queued;
+      }
+
+      toast({
+        title: "Treino concluído! 🎉",
+        description: queued
+          ? `${totalSets} séries salvas no aparelho. Serão enviadas quando a internet voltar.`
+          : `${totalSets} séries em ${formatDuration(durationSeconds)}.`,
+      });
+      onFinished();
+    } catch (error) {
+      console.error("Error saving guided workout:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar o treino. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const prescribedReps = exercise?.reps_min && exercise?.reps_max && exercise.reps_min !== exercise.reps_max
+    ? `${exercise.reps_min}-${exercise.reps_max}`
+    : exercise?.reps_min || exercise?.reps_max;
+  const groupInfo = step ? groupInfos[step.exerciseIndex] : undefined;
+  const nextStep = steps[stepIndex + 1];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center justify-between gap-2 pr-6">
+            <span className="truncate">{sessionName}</span>
+            <span className="flex items-center gap-1 text-sm font-normal text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              {formatDuration(durationSeconds)}
+            </span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {!isFinished && step && exercise && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Série {stepIndex + 1} de {steps.length}</span>
+                <button
+                  type="button"
+                  onClick={() => setSoundEnabled(!soundEnabled)}
+                  className="flex items-center gap-1"
+                >
+                  {soundEnabled ? <Volume2 className="h-3 w-3" /> : <VolumeX className="h-3 w-3" />}
+                  {soundEnabled ? "Som ligado" : "Som desligado"}
+                </button>
+              </div>
+              <Progress value={(stepIndex / steps.length) * 100} />
+            </div>
+
+            {restEndsAt && (
+              <div className="rounded-lg border bg-primary/5 p-4 text-center space-y-3">
+                <p className="text-sm text-muted-foreground flex items-center justify-center gap-1">
+                  <Timer className="h-4 w-4" />
+                  Descanso
+                </p>
+                <p className="text-5xl font-bold tabular-nums">{formatDuration(restRemaining)}</p>
+                <div className="flex gap-2 justify-center">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRestEndsAt(restEndsAt + REST_EXTENSION_SECONDS * 1000)}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    {REST_EXTENSION_SECONDS}s
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRestEndsAt(null)}>
+                    <SkipForward className="h-4 w-4 mr-1" />
+                    Pular descanso
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {groupInfo?.key && (
+                <Badge className="bg-primary/10 text-primary hover:bg-primary/10">
+                  {groupTitle(groupInfo)} · {groupInfo.position}/{groupInfo.size}
+                </Badge>
+              )}
+              <h3 className="text-xl font-semibold">
+                {exerciseLabel(groupInfos[step.exerciseIndex], step.exerciseIndex)}. {exercise.exercise?.name || "Exercício"}
+              </h3>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="secondary">Série {step.set} de {step.totalSets}</Badge>
+                {prescribedReps && <Badge variant="secondary">{prescribedReps} reps</Badge>}
+                {exercise.weight_kg && <Badge variant="secondary">{exercise.weight_kg}kg</Badge>}
+                {exercise.tempo && <Badge variant="outline">Cadência {exercise.tempo}</Badge>}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="guided-reps">Repetições</Label>
+                <Input
+                  id="guided-reps"
+                  type="number"
+                  inputMode="numeric"
+                  min="0"
+                  value={current.reps}
+                  onChange={(e) => setCurrent({ ...current, reps: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="guided-weight">Peso (kg)</Label>
+                <Input
+                  id="guided-weight"
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="0.5"
+                  value={current.weight}
+                  onChange={(e) => setCurrent({ ...current, weight: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <Button
+              onClick={completeSet}
+              disabled={!(parseInt(current.reps) > 0)}
+              className="w-full bg-green-500 hover:bg-green-600 text-white"
+              size="lg"
+            >
+              <CheckCircle className="h-5 w-5 mr-2" />
+              Concluir série
+            </Button>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={advance} className="flex-1">
+                <SkipForward className="h-4 w-4 mr-2" />
+                Pular série
+              </Button>
+              <Button variant="outline" onClick={finishEarly} className="flex-1">
+                <Flag className="h-4 w-4 mr-2" />
+                Encerrar
+              </Button>
+            </div>
+
+            {nextStep && (
+              <p className="text-xs text-muted-foreground text-center">
+                A seguir: {exercises[nextStep.exerciseIndex].exercise?.name || "Exercício"} (série {nextStep.set})
+                {step.restSeconds === 0 && " · sem descanso"}
+              </p>
+            )}
+          </div>
+        )}
+
+        {isFinished && (
+          <div className="space-y-4">
+            <div className="text-center space-y-1">
+              <Trophy className="h-10 w-10 text-primary mx-auto" />
+              <p className="font-semibold">Resumo do treino</p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-lg bg-muted p-3">
+                <p className="text-lg font-bold">{formatDuration(durationSeconds)}</p>
+                <p className="text-xs text-muted-foreground">Duração</p>
+              </div>
+              <div className="rounded-lg bg-muted p-3">
+                <p className="text-lg font-bold">{totalSets}</p>
+                <p className="text-xs text-muted-foreground">Séries</p>
+              </div>
+              <div className="rounded-lg bg-muted p-3">
+                <p className="text-lg font-bold">{Math.round(totalVolume)}kg</p>
+                <p className="text-xs text-muted-foreground">Volume</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {logs.map(({ exercise: ex, log }) => (
+                <div key={ex.id} className="flex justify-between gap-2 text-sm">
+                  <span className="truncate">{ex.exercise?.name || "Exercício"}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {log!.reps_completed
+                      .map((reps, i) => (log!.weights_used[i] ? `${reps}x${log!.weights_used[i]}kg` : `${reps}`))
+                      .join(" / ")}
+                  </span>
+                </div>
+              ))}
+              {logs.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center">Nenhuma série registrada.</p>
+              )}
+            </div>
+
+            <WorkoutFeedbackForm value={feedback} onChange={setFeedback} />
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onClose} className="flex-1">
+                Descartar
+              </Button>
+              <Button onClick={saveSession} disabled={isSaving} className="flex-1">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {isSaving ? "Salvando..." : "Salvar treino"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GuidedWorkout;
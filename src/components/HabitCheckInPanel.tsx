@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, Flame, ListChecks, Plus, Undo2 } from "lucide-react";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { listQueuedWrites, removeQueuedWrite, submitWrite } from "@/lib/offline-sync";
+import {
+  HABIT_KINDS,
+  HabitLogEntry,
+  StudentHabit,
+  dailyTotals,
+  formatHabitAmount,
+  habitCompletionRate,
+  habitDay,
+  habitStreak,
+  isHabitKind,
+  isHabitMet,
+} from "@/lib/habits";
+
+interface HabitCheckInPanelProps {
+  studentId: string;
+}
+
+// Aba de hábitos do aluno: cada toque soma um registro ao dia (funciona offline)
+const HabitCheckInPanel = ({ studentId }: HabitCheckInPanelProps) => {
+  const [habits, setHabits] = useState<StudentHabit[]>([]);
+  const [logs, setLogs] = useState<HabitLogEntry[]>([]);
+  const [customAmounts, setCustomAmounts] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadHabits();
+  }, [studentId]);
+
+  const loadHabits = async () => {
+    const [{ data: habitsData }, { data: logsData }] = await Promise.all([
+      supabase
+        .from("student_habits")
+        .select("*")
+        .eq("student_id", studentId)
+        .eq("active", true)
+        .order("order_index"),
+      supabase
+        .from("habit_logs")
+        .select("id, habit_id, logged_on, amount")
+        .eq("student_id", studentId)
+        .gte("logged_on", habitDay(subDays(new Date(), 60))),
+    ]);
+
+    // Registros feitos offline entram na conta até serem enviados
+    const queued = (await listQueuedWrites("habit_logs"))
+      .filter(({ payload }) => payload.student_id === studentId)
+      .map(({ payload }) => ({
+        id: payload.id,
+        habit_id: payload.habit_id,
+        logged_on: payload.logged_on || habitDay(),
+        amount: payload.amount,
+      }));
+
+    setHabits(habitsData || []);
+    setLogs([...(logsData || []), ...queued]);
+  };
+
+  const addLog = async (habit: StudentHabit, amount: number) => {
+    if (!(amount > 0)) return;
+
+    const loggedOn = habitDay();
+    const { id, error } = await submitWrite("habit_logs", {
+      habit_id: habit.id,
+      student_id: studentId,
+      logged_on: loggedOn,
+      amount,
+    });
+
+    if (error) {
+      console.error("Error logging habit:", error);
+      toast({ title: "Erro", description: "Não foi possível registrar.", variant: "destructive" });
+      return;
+    }
+
+    setLogs((prev) => [...prev, { id, habit_id: habit.id, logged_on: loggedOn, amount }]);
+    setCustomAmounts((prev) => ({ ...prev, [habit.id]: "" }));
+  };
+
+  const undoLast = async (habit: StudentHabit) => {
+    const last = [...logs].reverse().find((log) => log.habit_id === habit.id && log.logged_on === habitDay());
+    if (!last) return;
+
+    // Ainda na fila: basta retirar, o servidor nunca recebeu
+    const queued = (await listQueuedWrites("habit_logs")).some((item) => item.id === last.id);
+    if (queued) {
+      await removeQueuedWrite(last.id);
+    } else {
+      const { error } = await supabase.from("habit_logs").delete().eq("id", last.id);
+      if (error) {
+        console.error("Error removing habit log:", error);
+        toast({ title: "Erro", description: "Não foi possível desfazer.", variant: "destructive" });
+        return;
+      }
+    }
+
+    setLogs((prev) => prev.filter((log) => log.id !== last.id));
+  };
+
+  if (habits.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <ListChecks className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-600">Seu personal ainda não definiu hábitos diários</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totals = dailyTotals(logs);
+  const now = new Date();
+  const today = habitDay(now);
+  const weekly = habitCompletionRate(habits, totals, subDays(now, 6), now);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="py-4 flex items-center justify-between">
+          <div>
+            <p className="text-sm text-gray-600">Metas batidas nos últimos 7 dias</p>
+            <p className="text-2xl font-bold">{weekly ?? 0}%</p>
+          </div>
+          <p className="text-sm text-gray-600">
+            Hoje: {habits.filter((habit) => isHabitMet(totals.get(habit.id)?.get(today), habit.target)).length}/
+            {habits.length}
+          </p>
+        </CardContent>
+      </Card>
+
+      {habits.map((habit) => {
+        const total = totals.get(habit.id)?.get(today) ?? 0;
+        const met = isHabitMet(total, habit.target);
+        const streak = habitStreak(habit, totals, now);
+        const quickAmounts = isHabitKind(habit.kind) ? HABIT_KINDS[habit.kind].quickAmounts : [1];
+
+        return (
+          <Card key={habit.id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                {habit.name}
+                {met && <CheckCircle className="w-5 h-5 text-green-600" />}
+                {streak > 0 && (
+                  <Badge variant="outline" className="ml-auto font-normal">
+                    <Flame className="w-3 h-3 mr-1" />
+                    {streak} {streak === 1 ? "dia" : "dias"}
+                  </Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span>{formatHabitAmount(total, habit.unit)}</span>
+                  <span className="text-gray-600">Meta: {formatHabitAmount(habit.target, habit.unit)}</span>
+                </div>
+                <Progress value={Math.min(100, (total / habit.target) * 100)} />
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                {quickAmounts.map((amount) => (
+                  <Button key={amount} size="sm" variant="outline" onClick={() => addLog(habit, amount)}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    {formatHabitAmount(amount, habit.unit)}
+                  </Button>
+                ))}
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="h-9 w-24"
+                  placeholder="Outro"
+                  value={customAmounts[habit.id] ?? ""}
+                  onChange={(e) => setCustomAmounts((prev) => ({ ...prev, [habit.id]: e.target.value }))}
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => addLog(habit, parseFloat((customAmounts[habit.id] ?? "").replace(",", ".")))}
+                >
+                  Registrar
+                </Button>
+                {total > 0 && (
+                  <Button size="sm" variant="ghost" onClick={() => undoLast(habit)}>
+                    <Undo2 className="w-4 h-4 mr-1" />
+                    Desfazer
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HabitCheckInPanel;
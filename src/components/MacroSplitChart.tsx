@@ -0,0 +1,56 @@
+import { Cell, Pie, PieChart } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { DietTargets, MACRO_LABELS, MacroTotals, macroEnergySplit } from "@/lib/diet-targets";
+
+interface MacroSplitChartProps {
+  totals: MacroTotals;
+  targets?: DietTargets;
+}
+
+const chartConfig = {
+  protein: { label: MACRO_LABELS.protein, color: "hsl(var(--primary))" },
+  carbs: { label: MACRO_LABELS.carbs, color: "hsl(var(--success))" },
+  fat: { label: MACRO_LABELS.fat, color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+// Divisão das calorias entre proteína, carboidratos e gorduras (4/4/9 kcal por g)
+const MacroSplitChart = ({ totals, targets }: MacroSplitChartProps) => {
+  const split = macroEnergySplit(totals);
+  const targetSplit =
+    targets?.protein && targets?.carbs && targets?.fat
+      ? macroEnergySplit({ calories: 0, protein: targets.protein, carbs: targets.carbs, fat: targets.fat })
+      : null;
+
+  if (split.every((slice) => slice.kcal === 0)) {
+    return <p className="text-sm text-muted-foreground text-center py-4">Adicione alimentos para ver a divisão dos macros.</p>;
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4">
+      <ChartContainer config={chartConfig} className="h-[160px] w-[160px] aspect-square">
+        <PieChart>
+          <ChartTooltip content={<ChartTooltipContent nameKey="key" hideLabel />} />
+          <Pie data={split} dataKey="kcal" nameKey="key" innerRadius={40} strokeWidth={2}>
+            {split.map((slice) => (
+              <Cell key={slice.key} fill={`var(--color-${slice.key})`} />
+            ))}
+          </Pie>
+        </PieChart>
+      </ChartContainer>
+      <ul className="space-y-1 text-sm">
+        {split.map((slice, index) => (
+          <li key={slice.key} className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: chartConfig[slice.key].color }} />
+            <span className="font-medium">{MACRO_LABELS[slice.key]}</span>
+            <span>{slice.percent}%</span>
+            {targetSplit && (
+              <span className="text-muted-foreground">(meta {targetSplit[index].percent}%)</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default MacroSplitChart;
@@ -0,0 +1,64 @@
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import {
+  DietTargets,
+  MACRO_KEYS,
+  MACRO_LABELS,
+  MacroStatus,
+  MacroTotals,
+  compareWithTargets,
+  formatMacro,
+} from "@/lib/diet-targets";
+
+interface MacroTargetSummaryProps {
+  totals: MacroTotals;
+  targets: DietTargets;
+  tolerance: number;
+}
+
+const STATUS_CLASSES: Record<MacroStatus, string> = {
+  ok: "text-green-600",
+  over: "text-red-600",
+  under: "text-yellow-600",
+  none: "text-muted-foreground",
+};
+
+// Soma dos alimentos comparada com as metas diárias, macro a macro
+const MacroTargetSummary = ({ totals, targets, tolerance }: MacroTargetSummaryProps) => {
+  const comparisons = compareWithTargets(totals, targets, tolerance);
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      {MACRO_KEYS.map((key) => {
+        const { actual, target, diffPercent, status } = comparisons[key];
+
+        return (
+          <div key={key} className="space-y-1">
+            <p className="text-sm text-muted-foreground">{MACRO_LABELS[key]}</p>
+            <p className="text-lg font-semibold">
+              {formatMacro(key, actual)}
+              {target !== null && (
+                <span className="text-sm font-normal text-muted-foreground"> / {formatMacro(key, target)}</span>
+              )}
+            </p>
+            {target !== null && (
+              <>
+                <Progress value={Math.min((actual / target) * 100, 100)} className="h-2" />
+                <p className={cn("text-xs font-medium", STATUS_CLASSES[status])}>
+                  {status === "ok"
+                    ? "Dentro da meta"
+                    : status === "over"
+                    ? `${diffPercent}% acima da meta`
+                    : `${Math.abs(diffPercent!)}% abaixo da meta`}
+                </p>
+              </>
+            )}
+            {target === null && <p className={cn("text-xs", STATUS_CLASSES.none)}>Sem meta definida</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MacroTargetSummary;
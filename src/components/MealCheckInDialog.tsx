@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Camera, CheckCircle, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MACRO_KEYS, MACRO_LABELS, formatMacro, sumMacros } from "@/lib/diet-targets";
+import {
+  FoodLogDraft,
+  PORTION_PRESETS,
+  PORTION_STATUS_LABELS,
+  PlannedFood,
+  PortionStatus,
+  offPlanFoodLog,
+  planFoodLog,
+  portionStatus,
+} from "@/lib/meal-checkin";
+import { MAX_PHOTO_BYTES } from "@/lib/progress-photos";
+
+export interface CheckInFood extends PlannedFood {
+  // Substituição escolhida pelo aluno para este item, se houver
+  substitute?: Omit<PlannedFood, "id"> | null;
+}
+
+interface MealCheckInDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mealName: string;
+  foods: CheckInFood[];
+  onSubmit: (logs: FoodLogDraft[], photo: File | null) => Promise<void>;
+}
+
+interface OffPlanDraft {
+  food_name: string;
+  quantity: string;
+  unit: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+}
+
+const EMPTY_OFF_PLAN: OffPlanDraft = {
+  food_name: "",
+  quantity: "",
+  unit: "g",
+  calories: "",
+  protein: "",
+  carbs: "",
+  fat: "",
+};
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(",", "."));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+// Check-in da refeição: porção de cada alimento, extras fora do plano e foto do prato
+const MealCheckInDialog = ({ isOpen, onClose, mealName, foods, onSubmit }: MealCheckInDialogProps) => {
+  const { toast } = useToast();
+  const [portions, setPortions] = useState<Record<string, number>>({});
+  const [offPlan, setOffPlan] = useState<OffPlanDraft[]>([]);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPortions(Object.fromEntries(foods.map((food) => [food.id, 100])));
+      setOffPlan([]);
+      setPhoto(null);
+    }
+  }, [isOpen]);
+
+  const logs: FoodLogDraft[] = [
+    ...foods.map((food) => planFoodLog(food, portions[food.id] ?? 100, food.substitute)),
+    ...offPlan
+      .filter((item) => item.food_name.trim() !== "")
+      .map((item) =>
+        offPlanFoodLog({
+          food_name: item.food_name.trim(),
+          quantity: toNumber(item.quantity),
+          unit: item.unit,
+          calories: toNumber(item.calories),
+          protein: toNumber(item.protein),
+          carbs: toNumber(item.carbs),
+          fat: toNumber(item.fat),
+        })
+      ),
+  ];
+  const totals = sumMacros(logs);
+
+  const updateOffPlan = (index: number, field: keyof OffPlanDraft, value: string) => {
+    setOffPlan((prev) => prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  const handlePhotoChange = (file: File | undefined) => {
+    if (file && file.size > MAX_PHOTO_BYTES) {
+      toast({
+        title: "Foto muito grande",
+        description: "Envie uma imagem de até 5 MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setPhoto(file || null);
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onSubmit(logs, photo);
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{mealName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-3">
+            {foods.map((food) => {
+              const percent = portions[food.id] ?? 100;
+              const status = portionStatus(percent);
+              return (
+                <div key={food.id} className="border-l-4 border-blue-200 pl-3 space-y-2">
+                  <p className="font-medium text-sm">
+                    {food.substitute
+                      ? `${food.substitute.quantity}${food.substitute.unit} ${food.substitute.food_name} (no lugar de ${food.food_name})`
+                      : `${food.quantity}${food.unit} ${food.food_name}`}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    {(Object.keys(PORTION_STATUS_LABELS) as PortionStatus[]).map((key) => (
+                      <Button
+                        key={key}
+                        type="button"
+                        size="sm"
+                        variant={status === key ? "default" : "outline"}
+                        className="h-8 text-xs"
+                        onClick={() => setPortions((prev) => ({ ...prev, [food.id]: PORTION_PRESETS[key] }))}
+                      >
+                        {PORTION_STATUS_LABELS[key]}
+                      </Button>
+                    ))}
+                    {status === "partial" && (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          type="number"
+                          min="1"
+                          max="99"
+                          className="h-8 w-20"
+                          value={percent}
+                          onChange={(e) =>
+                            setPortions((prev) => ({
+                              ...prev,
+                              [food.id]: Math.min(99, Math.max(1, parseInt(e.target.value) || 1)),
+                            }))
+                          }
+                        />
+                        <span className="text-xs text-muted-foreground">%</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Fora do plano</Label>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => setOffPlan((prev) => [...prev, EMPTY_OFF_PLAN])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar alimento
+              </Button>
+            </div>
+            {offPlan.map((item, index) => (
+              <div key={index} className="grid grid-cols-4 gap-2 rounded-lg bg-muted p-2">
+                <Input
+                  className="col-span-3"
+                  placeholder="Alimento"
+                  value={item.food_name}
+                  onChange={(e) => updateOffPlan(index, "food_name", e.target.value)}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setOffPlan((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Input
+                  type="number"
+                  placeholder="Qtd."
+                  value={item.quantity}
+                  onChange={(e) => updateOffPlan(index, "quantity", e.target.value)}
+                />
+                <Input placeholder="Unid." value={item.unit} onChange={(e) => updateOffPlan(index, "unit", e.target.value)} />
+                <Input
+                  type="number"
+                  placeholder="kcal"
+                  className="col-span-2"
+                  value={item.calories}
+                  onChange={(e) => updateOffPlan(index, "calories", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  placeholder="Prot. (g)"
+                  value={item.protein}
+                  onChange={(e) => updateOffPlan(index, "protein", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  placeholder="Carb. (g)"
+                  value={item.carbs}
+                  onChange={(e) => updateOffPlan(index, "carbs", e.target.value)}
+                />
+                <Input
+                  type="number"
+                  placeholder="Gord. (g)"
+                  className="col-span-2"
+                  value={item.fat}
+                  onChange={(e) => updateOffPlan(index, "fat", e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="meal-photo" className="flex items-center gap-2">
+              <Camera className="h-4 w-4" />
+              Foto do prato (opcional)
+            </Label>
+            <Input
+              id="meal-photo"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              capture="environment"
+              onChange={(e) => handlePhotoChange(e.target.files?.[0])}
+            />
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 rounded-lg bg-muted p-3 text-center">
+            {MACRO_KEYS.map((key) => (
+              <div key={key}>
+                <p className="text-xs text-muted-foreground">{MACRO_LABELS[key]}</p>
+                <p className="text-sm font-semibold">{formatMacro(key, totals[key])}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancelar
+            </Button>
+            <Button type="button" onClick={handleSubmit} disabled={isSaving} className="flex-1">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              {isSaving ? "Salvando..." : "Concluir refeição"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MealCheckInDialog;
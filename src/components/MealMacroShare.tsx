@@ -0,0 +1,35 @@
+import { Badge } from "@/components/ui/badge";
+import { DietTargets, MACRO_KEYS, MACRO_LABELS, MacroTotals, formatMacro, shareOfTarget } from "@/lib/diet-targets";
+
+interface MealMacroShareProps {
+  totals: MacroTotals;
+  targets: DietTargets;
+}
+
+// Macros da refeição e quanto da meta diária ela cobre; uma refeição que
+// sozinha passa da meta do dia aparece em destaque
+const MealMacroShare = ({ totals, targets }: MealMacroShareProps) => {
+  if (MACRO_KEYS.every((key) => totals[key] === 0)) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {MACRO_KEYS.map((key) => {
+        const share = shareOfTarget(totals[key], targets[key]);
+        return (
+          <Badge
+            key={key}
+            variant={share !== null && share > 100 ? "destructive" : "outline"}
+            className="text-xs font-normal"
+            title={MACRO_LABELS[key]}
+          >
+            {key === "calories" ? "" : `${MACRO_LABELS[key].charAt(0)} `}
+            {formatMacro(key, totals[key])}
+            {share !== null && ` · ${share}%`}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MealMacroShare;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { PlanKind } from "@/lib/plan-copy";
+import {
+  PlanVersion,
+  diffDietSnapshots,
+  diffWorkoutSnapshots,
+  loadPlanVersions,
+  parseDietSnapshot,
+  parseWorkoutSnapshot,
+  restorePlanVersion,
+} from "@/lib/plan-versions";
+
+interface PlanVersionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kind: PlanKind;
+  planId: string;
+  planName: string;
+  onRestored?: () => void;
+}
+
+// Linha do tempo das versões do treino ou da dieta, com o que mudou em cada uma
+const PlanVersionHistory = ({ isOpen, onClose, kind, planId, planName, onRestored }: PlanVersionHistoryProps) => {
+  const [versions, setVersions] = useState<PlanVersion[]>([]);
+  const [exerciseNames, setExerciseNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadVersions();
+  }, [isOpen, planId]);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    try {
+      const data = await loadPlanVersions(kind, planId);
+      setVersions(data);
+
+      if (kind === "workout") {
+        const exerciseIds = new Set(
+          data.flatMap((version) =>
+            parseWorkoutSnapshot(version.snapshot).sessions.flatMap((session) =>
+              session.exercises.map((exercise) => exercise.exercise_id)
+            )
+          )
+        );
+        if (exerciseIds.size > 0) {
+          const { data: exercises, error } = await supabase
+            .from("exercises")
+            .select("id, name")
+            .in("id", Array.from(exerciseIds));
+          if (error) throw error;
+          setExerciseNames(Object.fromEntries((exercises || []).map((exercise) => [exercise.id, exercise.name])));
+        }
+      }
+    } catch (error) {
+      console.error(`Error loading ${kind} plan versions:`, error);
+      toast({ title: "Erro", description: "Não foi possível carregar o histórico.", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeChanges = (version: PlanVersion, previous: PlanVersion | undefined) => {
+    if (!previous) return [];
+    return kind === "workout"
+      ? diffWorkoutSnapshots(
+          parseWorkoutSnapshot(previous.snapshot),
+          parseWorkoutSnapshot(version.snapshot),
+          exerciseNames
+        )
+      : diffDietSnapshots(parseDietSnapshot(previous.snapshot), parseDietSnapshot(version.snapshot));
+  };
+
+  const handleRestore = async (version: PlanVersion) => {
+    if (
+      !confirm(
+        `Restaurar a versão ${version.version_number}? O estado atual continua salvo no histórico e pode ser restaurado depois.`
+      )
+    )
+      return;
+
+    setRestoringId(version.id);
+    try {
+      await restorePlanVersion(kind, version.id);
+      toast({ title: "Versão restaurada", description: `"${planName}" voltou para a versão ${version.version_number}.` });
+      onRestored?.();
+      await loadVersions();
+    } catch (error) {
+      console.error(`Error restoring ${kind} plan version:`, error);
+      toast({ title: "Erro", description: "Não foi possível restaurar a versão.", variant: "destructive" });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Histórico de "{planName}"
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-center text-sm text-muted-foreground py-6">Carregando...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-6">
+            Nenhuma versão salva ainda. Uma versão é criada sempre que{" "}
+            {kind === "workout" ? "o treino é editado" : "a dieta é editada"}.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {versions.map((version, index) => {
+              // A lista vem da mais nova para a mais antiga
+              const previous = versions[index + 1];
+              const changes = describeChanges(version, previous);
+              return (
+                <div key={version.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">Versão {version.version_number}</span>
+                        {index === 0 && <Badge variant="secondary">Atual</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(version.created_at).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                        {version.note && ` · ${version.note}`}
+                      </p>
+                    </div>
+                    {index > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRestore(version)}
+                        disabled={restoringId !== null}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        {restoringId === version.id ? "Restaurando..." : "Restaurar"}
+                      </Button>
+                    )}
+                  </div>
+
+                  {previous ? (
+                    changes.length > 0 ? (
+                      <ul className="text-sm space-y-0.5">
+                        {changes.map((change, changeIndex) => (
+                          <li key={changeIndex} className="text-muted-foreground">
+                            {change}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Sem diferenças em relação à versão anterior.</p>
+                    )
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Primeira versão registrada.</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PlanVersionHistory;
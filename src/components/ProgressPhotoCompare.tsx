@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { PHOTO_POSES, POSE_LABELS, PhotoPose, ProgressPhoto } from "@/lib/progress-photos";
+
+interface ProgressPhotoCompareProps {
+  isOpen: boolean;
+  onClose: () => void;
+  photos: ProgressPhoto[];
+}
+
+type CompareMode = "side-by-side" | "overlay";
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR");
+
+const ProgressPhotoCompare = ({ isOpen, onClose, photos }: ProgressPhotoCompareProps) => {
+  const dates = Array.from(new Set(photos.map((photo) => photo.taken_on))).sort();
+  const [pose, setPose] = useState<PhotoPose>("front");
+  const [beforeDate, setBeforeDate] = useState("");
+  const [afterDate, setAfterDate] = useState("");
+  const [mode, setMode] = useState<CompareMode>("side-by-side");
+  const [overlay, setOverlay] = useState([50]);
+
+  // Começa comparando a primeira com a última data
+  useEffect(() => {
+    if (isOpen && dates.length > 0) {
+      setBeforeDate(dates[0]);
+      setAfterDate(dates[dates.length - 1]);
+      setOverlay([50]);
+    }
+  }, [isOpen]);
+
+  const findPhoto = (date: string) =>
+    photos.find((photo) => photo.taken_on === date && photo.pose === pose);
+
+  const before = findPhoto(beforeDate);
+  const after = findPhoto(afterDate);
+
+  const renderPhoto = (photo: ProgressPhoto | undefined, date: string) =>
+    photo?.url ? (
+      <img src={photo.url} alt={`${POSE_LABELS[pose]} - ${formatDate(date)}`} className="w-full h-full object-contain" />
+    ) : (
+      <div className="flex items-center justify-center h-full text-sm text-muted-foreground p-4 text-center">
+        Sem foto de {POSE_LABELS[pose].toLowerCase()} nesta data
+      </div>
+    );
+
+  const dateSelect = (value: string, onChange: (value: string) => void, label: string) => (
+    <div className="space-y-1 flex-1">
+      <Label className="text-xs">{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue placeholder="Data" />
+        </SelectTrigger>
+        <SelectContent>
+          {dates.map((date) => (
+            <SelectItem key={date} value={date}>
+              {formatDate(date)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Comparar Fotos</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+            {dateSelect(beforeDate, setBeforeDate, "Antes")}
+            {dateSelect(afterDate, setAfterDate, "Depois")}
+            <ToggleGroup
+              type="single"
+              value={pose}
+              onValueChange={(value) => value && setPose(value as PhotoPose)}
+              className="justify-start"
+            >
+              {PHOTO_POSES.map((item) => (
+                <ToggleGroupItem key={item} value={item} size="sm">
+                  {POSE_LABELS[item]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as CompareMode)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="side-by-side" size="sm">Lado a lado</ToggleGroupItem>
+            <ToggleGroupItem value="overlay" size="sm">Sobreposição</ToggleGroupItem>
+          </ToggleGroup>
+
+          {mode === "side-by-side" ? (
+            <div className="grid grid-cols-2 gap-2">
+              {[{ photo: before, date: beforeDate }, { photo: after, date: afterDate }].map(({ photo, date }, index) => (
+                <div key={index} className="space-y-1">
+                  <p className="text-sm font-medium text-center">{date && formatDate(date)}</p>
+                  <div className="aspect-[3/4] bg-muted rounded-lg overflow-hidden">
+                    {renderPhoto(photo, date)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="relative aspect-[3/4] max-h-[65vh] mx-auto bg-muted rounded-lg overflow-hidden">
+                <div className="absolute inset-0">{renderPhoto(before, beforeDate)}</div>
+                {/* A foto "depois" é recortada pela posição do controle */}
+                <div
+                  className="absolute inset-0"
+                  style={{ clipPath: `inset(0 0 0 ${overlay[0]}%)` }}
+                >
+                  {renderPhoto(after, afterDate)}
+                </div>
+                <div
+                  className="absolute inset-y-0 w-0.5 bg-primary pointer-events-none"
+                  style={{ left: `${overlay[0]}%` }}
+                />
+              </div>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <span>{beforeDate && formatDate(beforeDate)}</span>
+                <Slider value={overlay} onValueChange={setOverlay} min={0} max={100} step={1} className="flex-1" />
+                <span>{afterDate && formatDate(afterDate)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProgressPhotoCompare;
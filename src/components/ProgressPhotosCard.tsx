@@ -0,0 +1,267 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Camera, Columns2, Trash2, Upload } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_PHOTO_BYTES,
+  PHOTO_POSES,
+  POSE_LABELS,
+  PhotoPose,
+  ProgressPhoto,
+  deleteProgressPhoto,
+  loadProgressPhotos,
+  uploadProgressPhoto,
+} from "@/lib/progress-photos";
+import ProgressPhotoCompare from "./ProgressPhotoCompare";
+
+interface ProgressPhotosCardProps {
+  studentId: string;
+  trainerId?: string;
+  readOnly?: boolean;
+}
+
+interface AssessmentDate {
+  id: string;
+  assessed_on: string;
+}
+
+const NO_ASSESSMENT = "none";
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR");
+
+const ProgressPhotosCard = ({ studentId, trainerId, readOnly = false }: ProgressPhotosCardProps) => {
+  const [photos, setPhotos] = useState<ProgressPhoto[]>([]);
+  const [assessments, setAssessments] = useState<AssessmentDate[]>([]);
+  const [takenOn, setTakenOn] = useState(new Date().toISOString().split("T")[0]);
+  const [assessmentId, setAssessmentId] = useState(NO_ASSESSMENT);
+  const [pose, setPose] = useState<PhotoPose>("front");
+  const [isUploading, setIsUploading] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPhotos();
+    if (!readOnly) {
+      loadAssessments();
+    }
+  }, [studentId]);
+
+  const loadPhotos = async () => {
+    try {
+      setPhotos(await loadProgressPhotos(studentId));
+    } catch (error) {
+      console.error("Error loading progress photos:", error);
+    }
+  };
+
+  const loadAssessments = async () => {
+    const { data } = await supabase
+      .from("body_assessments")
+      .select("id, assessed_on")
+      .eq("student_id", studentId)
+      .order("assessed_on", { ascending: false });
+
+    setAssessments(data || []);
+  };
+
+  const handleAssessmentChange = (value: string) => {
+    setAssessmentId(value);
+    const assessment = assessments.find((item) => item.id === value);
+    if (assessment) {
+      setTakenOn(assessment.assessed_on);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !trainerId) return;
+
+    if (!file.type.startsWith("image/") || file.size > MAX_PHOTO_BYTES) {
+      toast({
+        title: "Arquivo inválido",
+        description: "Envie uma imagem JPG, PNG ou WebP de até 5 MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      await uploadProgressPhoto({
+        file,
+        studentId,
+        trainerId,
+        takenOn,
+        pose,
+        assessmentId: assessmentId === NO_ASSESSMENT ? null : assessmentId,
+      });
+
+      toast({
+        title: "Foto enviada!",
+        description: `${POSE_LABELS[pose]} de ${formatDate(takenOn)} adicionada.`,
+      });
+      loadPhotos();
+    } catch (error) {
+      console.error("Error uploading progress photo:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível enviar a foto.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (photo: ProgressPhoto) => {
+    if (!confirm("Excluir esta foto?")) return;
+
+    try {
+      await deleteProgressPhoto(photo);
+      loadPhotos();
+    } catch (error) {
+      console.error("Error deleting progress photo:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a foto.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (readOnly && photos.length === 0) {
+    return null;
+  }
+
+  const dates = Array.from(new Set(photos.map((photo) => photo.taken_on))).sort().reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Camera className="h-5 w-5" />
+          Fotos de Progresso
+          {dates.length >= 2 && (
+            <Button size="sm" variant="outline" className="ml-auto" onClick={() => setIsCompareOpen(true)}>
+              <Columns2 className="h-4 w-4 mr-2" />
+              Comparar
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!readOnly && trainerId && (
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 sm:items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Avaliação</Label>
+              <Select value={assessmentId} onValueChange={handleAssessmentChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ASSESSMENT}>Sem vínculo</SelectItem>
+                  {assessments.map((assessment) => (
+                    <SelectItem key={assessment.id} value={assessment.id}>
+                      {formatDate(assessment.assessed_on)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Data</Label>
+              <Input
+                type="date"
+                value={takenOn}
+                onChange={(e) => {
+                  setTakenOn(e.target.value);
+                  setAssessmentId(NO_ASSESSMENT);
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Posição</Label>
+              <Select value={pose} onValueChange={(value) => setPose(value as PhotoPose)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PHOTO_POSES.map((item) => (
+                    <SelectItem key={item} value={item}>
+                      {POSE_LABELS[item]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isUploading ? "Enviando..." : "Enviar Foto"}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={handleFileSelected}
+            />
+          </div>
+        )}
+
+        {dates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma foto enviada.</p>
+        ) : (
+          <div className="space-y-4">
+            {dates.map((date) => (
+              <div key={date} className="space-y-2">
+                <p className="text-sm font-medium">{formatDate(date)}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {PHOTO_POSES.map((item) => {
+                    const photo = photos.find((p) => p.taken_on === date && p.pose === item);
+                    return (
+                      <div key={item} className="relative aspect-[3/4] bg-muted rounded-lg overflow-hidden group">
+                        {photo?.url ? (
+                          <>
+                            <img src={photo.url} alt={`${POSE_LABELS[item]} - ${formatDate(date)}`} className="w-full h-full object-cover" />
+                            {!readOnly && (
+                              <Button
+                                variant="destructive"
+                                size="sm"
+                                className="absolute top-1 right-1 h-7 w-7 p-0 opacity-0 group-hover:opacity-100"
+                                onClick={() => handleDelete(photo)}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </>
+                        ) : (
+                          <div className="flex items-center justify-center h-full text-xs text-muted-foreground">
+                            {POSE_LABELS[item]}
+                          </div>
+                        )}
+                        <span className="absolute bottom-1 left-1 text-[10px] bg-background/80 px-1 rounded">
+                          {POSE_LABELS[item]}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <ProgressPhotoCompare isOpen={isCompareOpen} onClose={() => setIsCompareOpen(false)} photos={photos} />
+    </Card>
+  );
+};
+
+export default ProgressPhotosCard;
@@ -0,0 +1,52 @@
+import { Button } from "@/components/ui/button";
+import { TrendingUp, TrendingDown, Minus, Check } from "lucide-react";
+import { ProgressionSuggestion, formatSuggestion } from "@/lib/progression";
+
+interface ProgressionSuggestionHintProps {
+  suggestion: ProgressionSuggestion | null;
+  currentWeight?: number | null;
+  onApply?: () => void;
+}
+
+const ProgressionSuggestionHint = ({ suggestion, currentWeight, onApply }: ProgressionSuggestionHintProps) => {
+  if (!suggestion) return null;
+
+  const Icon = suggestion.action === "increase"
+    ? TrendingUp
+    : suggestion.action === "deload"
+      ? TrendingDown
+      : Minus;
+
+  const color = suggestion.action === "increase"
+    ? "text-green-600"
+    : suggestion.action === "deload"
+      ? "text-orange-600"
+      : "text-muted-foreground";
+
+  const isApplied = suggestion.weight_kg === null || Number(currentWeight || 0) === suggestion.weight_kg;
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-xs">
+      <div className={`flex items-center gap-1 ${color}`}>
+        <Icon className="h-3 w-3 flex-shrink-0" />
+        <span className="font-medium">Próxima: {formatSuggestion(suggestion)}</span>
+        <span className="text-muted-foreground hidden sm:inline">({suggestion.reason})</span>
+      </div>
+      {onApply && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onApply}
+          disabled={isApplied}
+          className="h-6 px-2 text-xs"
+        >
+          <Check className="h-3 w-3 mr-1" />
+          {isApplied ? "Aplicada" : "Aplicar"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ProgressionSuggestionHint;
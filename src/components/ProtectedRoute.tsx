@@ -0,0 +1,28 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { Dumbbell } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  children: React.ReactNode;
+}
+
+const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+  const { trainer, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Dumbbell className="h-12 w-12 text-primary animate-pulse" />
+      </div>
+    );
+  }
+
+  if (!trainer) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
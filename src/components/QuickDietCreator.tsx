@@ -6,9 +6,35 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { X, Plus, Utensils, Trash2, Edit, Settings, Apple } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Plus, Utensils, Trash2, Edit, Settings, Apple, Calculator, BookOpen, BookmarkPlus, Copy } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useFoods } from "@/hooks/use-foods";
+import { BASE_UNITS, Food, macrosFor, parseHouseholdMeasures } from "@/lib/foods";
+import {
+  DEFAULT_MACRO_TOLERANCE,
+  EMPTY_MACROS,
+  MacroTotals,
+  addMacros,
+  compareWithTargets,
+  describeDeviations,
+  parseTolerance,
+  sumMacros,
+} from "@/lib/diet-targets";
+import { SubstitutionDraft, equivalentSubstitution } from "@/lib/food-substitutions";
+import { DietPlanDocument, DietTemplate } from "@/lib/diet-templates";
+import { createDietPlan, describePlanError } from "@/lib/plan-documents";
+import FoodPicker from "./FoodPicker";
+import FoodSubstitutionsEditor from "./FoodSubstitutionsEditor";
+import MacroTargetSummary from "./MacroTargetSummary";
+import MacroSplitChart from "./MacroSplitChart";
+import MealMacroShare from "./MealMacroShare";
+import EnergyCalculatorDialog from "./EnergyCalculatorDialog";
+import CustomFoodDialog from "./CustomFoodDialog";
+import DietTemplatePicker from "./DietTemplatePicker";
+import SaveDietTemplateDialog from "./SaveDietTemplateDialog";
+import DuplicatePlanDialog from "./DuplicatePlanDialog";
 
 interface ExistingDietPlan {
   id: string;
@@ -33,6 +59,8 @@ interface ExistingDietPlan {
 }
 
 interface MealFood {
+  // Alimento do banco (TACO ou próprio); sem ele os macros são digitados
+  food_id?: string | null;
   food_name: string;
   quantity: number;
   unit: string;
@@ -41,6 +69,7 @@ interface MealFood {
   carbs: number;
   fat: number;
   notes?: string;
+  substitutions: SubstitutionDraft[];
 }
 
 interface Meal {
@@ -68,6 +97,7 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
     daily_protein: "",
     daily_carbs: "",
     daily_fat: "",
+    macro_tolerance_percent: String(DEFAULT_MACRO_TOLERANCE),
   });
   
   const [meals, setMeals] = useState<Meal[]>([
@@ -79,6 +109,12 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
   ]);
   
   const [isLoading, setIsLoading] = useState(false);
+  const [isCalculatorOpen, setIsCalculatorOpen] = useState(false);
+  const [newFoodTarget, setNewFoodTarget] = useState<{ mealIndex: number; foodIndex: number; name: string } | null>(null);
+  const [templateSource, setTemplateSource] = useState<ExistingDietPlan | null>(null);
+  const [copySource, setCopySource] = useState<ExistingDietPlan | null>(null);
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  const { foods, reload: reloadFoods } = useFoods();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -179,6 +215,7 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
       carbs: 0,
       fat: 0,
       notes: "",
+      substitutions: [],
     };
 
     setMeals(prev => prev.map((meal, idx) => 
@@ -195,7 +232,7 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
             ...meal,
             foods: meal.foods.map((food, fIdx) => 
               fIdx === foodIndex 
-                ? { ...food, [field]: value }
+                ? recalculateMacros({ ...food, [field]: value }, field)
                 : food
             )
           }
@@ -203,6 +240,106 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
     ));
   };
 
+  // Com alimento do banco, quantidade e unidade recalculam os macros; mudar o
+  // nome desvincula o alimento e os macros passam a ser digitados
+  const recalculateMacros = (food: MealFood, field: string): MealFood => {
+    if (field === "food_name") return { ...food, food_id: null };
+    if (field === "calories" || field === "carbs") return refreshSubstitutions(food);
+    if (field !== "quantity" && field !== "unit") return food;
+
+    const source = foods.find((f) => f.id === food.food_id);
+    const macros = source && macrosFor(source, food.quantity, food.unit);
+    return macros ? refreshSubstitutions({ ...food, ...macros }) : food;
+  };
+
+  // As substituições acompanham o item original: a quantidade equivalente é recalculada
+  const refreshSubstitutions = (food: MealFood): MealFood => ({
+    ...food,
+    substitutions: food.substitutions.map((substitution) => {
+      const source = foods.find((f) => f.id === substitution.food_id);
+      return (source && equivalentSubstitution(food, source, substitution.match_by)) || substitution;
+    }),
+  });
+
+  const updateSubstitutions = (mealIndex: number, foodIndex: number, substitutions: SubstitutionDraft[]) => {
+    setMeals(prev => prev.map((meal, mIdx) =>
+      mIdx === mealIndex
+        ? {
+            ...meal,
+            foods: meal.foods.map((food, fIdx) => (fIdx === foodIndex ? { ...food, substitutions } : food))
+          }
+        : meal
+    ));
+  };
+
+  const applyFood = (mealIndex: number, foodIndex: number, source: Food) => {
+    setMeals(prev => prev.map((meal, mIdx) =>
+      mIdx === mealIndex
+        ? {
+            ...meal,
+            foods: meal.foods.map((food, fIdx) =>
+              fIdx === foodIndex
+                ? refreshSubstitutions({
+                    ...food,
+                    food_id: source.id,
+                    food_name: source.name,
+                    quantity: 100,
+                    unit: "g",
+                    ...macrosFor(source, 100, "g"),
+                  })
+                : food
+            )
+          }
+        : meal
+    ));
+  };
+
+  const applyCalculatedTargets = (targets: MacroTotals) => {
+    setFormData(prev => ({
+      ...prev,
+      daily_calories: String(targets.calories),
+      daily_protein: String(targets.protein),
+      daily_carbs: String(targets.carbs),
+      daily_fat: String(targets.fat),
+    }));
+  };
+
+  // O modelo já vem escalado para a meta do aluno; vira o formulário para revisão
+  const applyTemplate = (template: DietTemplate, document: DietPlanDocument) => {
+    setFormData(prev => ({
+      ...prev,
+      name: template.name,
+      description: template.description || "",
+      daily_calories: document.daily_calories ? String(document.daily_calories) : "",
+      daily_protein: document.daily_protein ? String(document.daily_protein) : "",
+      daily_carbs: document.daily_carbs ? String(document.daily_carbs) : "",
+      daily_fat: document.daily_fat ? String(document.daily_fat) : "",
+      macro_tolerance_percent: String(document.macro_tolerance_percent ?? DEFAULT_MACRO_TOLERANCE),
+    }));
+    setMeals(document.meals.map((meal, index) => ({
+      name: meal.name,
+      time_of_day: meal.time_of_day || "",
+      order_index: index,
+      foods: meal.foods.map((food) => ({ ...food, notes: food.notes || "" })),
+    })));
+    setIsTemplatePickerOpen(false);
+    setActiveTab("create");
+  };
+
+  // Meta de calorias do aluno: a do formulário ou a da dieta ativa
+  const studentCalorieTarget =
+    parseFloat(formData.daily_calories) ||
+    existingDiets.find((diet) => diet.active && diet.daily_calories)?.daily_calories ||
+    null;
+
+  const handleFoodCreated = (food: Food) => {
+    if (newFoodTarget) {
+      applyFood(newFoodTarget.mealIndex, newFoodTarget.foodIndex, food);
+    }
+    setNewFoodTarget(null);
+    reloadFoods();
+  };
+
   const removeFoodFromMeal = (mealIndex: number, foodIndex: number) => {
     setMeals(prev => prev.map((meal, mIdx) => 
       mIdx === mealIndex 
@@ -220,95 +357,50 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
   };
 
   const getTotalMacros = () => {
-    return meals.reduce((total, meal) => {
-      const mealTotals = meal.foods.reduce((mealTotal, food) => ({
-        calories: mealTotal.calories + (food.calories || 0),
-        protein: mealTotal.protein + (food.protein || 0),
-        carbs: mealTotal.carbs + (food.carbs || 0),
-        fat: mealTotal.fat + (food.fat || 0),
-      }), { calories: 0, protein: 0, carbs: 0, fat: 0 });
-
-      return {
-        calories: total.calories + mealTotals.calories,
-        protein: total.protein + mealTotals.protein,
-        carbs: total.carbs + mealTotals.carbs,
-        fat: total.fat + mealTotals.fat,
-      };
-    }, { calories: 0, protein: 0, carbs: 0, fat: 0 });
+    return meals.reduce((total, meal) => addMacros(total, sumMacros(meal.foods)), EMPTY_MACROS);
   };
 
+  const targets = {
+    calories: parseFloat(formData.daily_calories) || null,
+    protein: parseFloat(formData.daily_protein) || null,
+    carbs: parseFloat(formData.daily_carbs) || null,
+    fat: parseFloat(formData.daily_fat) || null,
+  };
+  const tolerance = parseTolerance(formData.macro_tolerance_percent);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    const deviations = describeDeviations(compareWithTargets(getTotalMacros(), targets, tolerance));
+    if (
+      deviations.length > 0 &&
+      !confirm(`Os totais diferem das metas em mais de ${tolerance}%:\n${deviations.join("\n")}\n\nSalvar mesmo assim?`)
+    ) {
+      return;
+    }
+
     setIsLoading(true);
 
     try {
-      // Create diet plan
-      const { data: dietPlan, error: planError } = await supabase
-        .from("diet_plans")
-        .insert({
-          name: formData.name,
-          description: formData.description,
-          student_id: studentId,
-          personal_trainer_id: trainerId,
-          daily_calories: formData.daily_calories ? parseInt(formData.daily_calories) : null,
-          daily_protein: formData.daily_protein ? parseFloat(formData.daily_protein) : null,
-          daily_carbs: formData.daily_carbs ? parseFloat(formData.daily_carbs) : null,
-          daily_fat: formData.daily_fat ? parseFloat(formData.daily_fat) : null,
-          active: true,
-        })
-        .select()
-        .single();
-
-      if (planError) throw planError;
-      
-      console.log("Diet plan created:", dietPlan);
-
-      // Create meals and foods
-      for (const meal of meals) {
-        if (meal.foods.length === 0) continue;
-
-        const { data: mealData, error: mealError } = await supabase
-          .from("meals")
-          .insert({
-            diet_plan_id: dietPlan.id,
+      // Dieta, refeições, alimentos e substituições são gravados em uma única transação
+      await createDietPlan({
+        student_id: studentId,
+        name: formData.name,
+        description: formData.description,
+        daily_calories: formData.daily_calories ? parseInt(formData.daily_calories) : null,
+        daily_protein: formData.daily_protein ? parseFloat(formData.daily_protein) : null,
+        daily_carbs: formData.daily_carbs ? parseFloat(formData.daily_carbs) : null,
+        daily_fat: formData.daily_fat ? parseFloat(formData.daily_fat) : null,
+        macro_tolerance_percent: tolerance,
+        meals: meals
+          .map(meal => ({
             name: meal.name,
             time_of_day: meal.time_of_day,
             order_index: meal.order_index,
-          })
-          .select()
-          .single();
-
-        if (mealError) throw mealError;
-        
-        console.log("Meal created:", mealData);
-
-        // Insert foods for this meal
-        const foodInserts = meal.foods
-          .filter(food => food.food_name.trim() !== "")
-          .map(food => ({
-            meal_id: mealData.id,
-            food_name: food.food_name,
-            quantity: food.quantity,
-            unit: food.unit,
-            calories: food.calories,
-            protein: food.protein,
-            carbs: food.carbs,
-            fat: food.fat,
-            notes: food.notes || null,
-          }));
-
-        if (foodInserts.length > 0) {
-          console.log("Inserting foods for meal:", mealData.id, foodInserts);
-          
-          const { error: foodError } = await supabase
-            .from("meal_foods")
-            .insert(foodInserts);
-
-          if (foodError) throw foodError;
-          
-          console.log("Foods inserted successfully");
-        }
-      }
+            foods: meal.foods.filter(food => food.food_name.trim() !== ""),
+          }))
+          .filter(meal => meal.foods.length > 0),
+      });
 
       toast({
         title: "Sucesso!",
@@ -320,7 +412,7 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
       console.error("Error creating diet:", error);
       toast({
         title: "Erro",
-        description: "Não foi possível criar a dieta. Tente novamente.",
+        description: describePlanError(error, "Não foi possível criar a dieta. Tente novamente."),
         variant: "destructive",
       });
     } finally {
@@ -347,10 +439,16 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
         <TabsContent value="existing" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Apple className="h-5 w-5" />
-                Dietas de {studentName} ({existingDiets.length})
-              </CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="flex items-center gap-2">
+                  <Apple className="h-5 w-5" />
+                  Dietas de {studentName} ({existingDiets.length})
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setIsTemplatePickerOpen(true)}>
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  Usar modelo
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               {existingDiets.length === 0 ? (
@@ -436,6 +534,22 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
                             >
                               {diet.active ? "Desativar" : "Ativar"}
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCopySource(diet)}
+                            >
+                              <Copy className="h-4 w-4 mr-2" />
+                              Duplicar
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTemplateSource(diet)}
+                            >
+                              <BookmarkPlus className="h-4 w-4 mr-2" />
+                              Salvar como modelo
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -458,16 +572,22 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
         <TabsContent value="create" className="space-y-4">
           <Card className="max-w-6xl mx-auto">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Plus className="h-5 w-5" />
-                Criar Nova Dieta para {studentName}
-              </CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="h-5 w-5" />
+                  Criar Nova Dieta para {studentName}
+                </CardTitle>
+                <Button type="button" variant="outline" size="sm" onClick={() => setIsTemplatePickerOpen(true)}>
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  Usar modelo
+                </Button>
+              </div>
             </CardHeader>
             
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
                 {/* Basic Info */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="name">Nome da Dieta *</Label>
                     <Input
@@ -489,6 +609,25 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
                       placeholder="2000"
                     />
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="macro_tolerance_percent">Tolerância das Metas (%)</Label>
+                    <Input
+                      id="macro_tolerance_percent"
+                      type="number"
+                      min="0"
+                      max="100"
+                      value={formData.macro_tolerance_percent}
+                      onChange={(e) => setFormData(prev => ({ ...prev, macro_tolerance_percent: e.target.value }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <Button type="button" variant="outline" size="sm" onClick={() => setIsCalculatorOpen(true)}>
+                    <Calculator className="h-4 w-4 mr-2" />
+                    Calcular metas pelo gasto energético
+                  </Button>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -542,25 +681,9 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
 
                 {/* Totals */}
                 <Card className="bg-muted">
-                  <CardContent className="pt-4">
-                    <div className="grid grid-cols-4 gap-4 text-center">
-                      <div>
-                        <p className="text-sm text-muted-foreground">Total Calorias</p>
-                        <p className="text-lg font-semibold">{Math.round(totalMacros.calories)}</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Total Proteína</p>
-                        <p className="text-lg font-semibold">{Math.round(totalMacros.protein)}g</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Total Carbs</p>
-                        <p className="text-lg font-semibold">{Math.round(totalMacros.carbs)}g</p>
-                      </div>
-                      <div>
-                        <p className="text-sm text-muted-foreground">Total Gorduras</p>
-                        <p className="text-lg font-semibold">{Math.round(totalMacros.fat)}g</p>
-                      </div>
-                    </div>
+                  <CardContent className="pt-4 space-y-4">
+                    <MacroTargetSummary totals={totalMacros} targets={targets} tolerance={tolerance} />
+                    <MacroSplitChart totals={totalMacros} targets={targets} />
                   </CardContent>
                 </Card>
 
@@ -586,6 +709,7 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
                           />
                         </div>
                       </div>
+                      <MealMacroShare totals={sumMacros(meal.foods)} targets={targets} />
                     </CardHeader>
                     <CardContent className="space-y-4">
                       <Button
@@ -598,74 +722,123 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
                         Adicionar Alimento
                       </Button>
 
-                      {meal.foods.map((food, foodIndex) => (
-                        <div key={foodIndex} className="grid grid-cols-8 gap-2 items-end p-3 bg-muted rounded-lg">
-                          <div className="col-span-2">
-                            <Label className="text-xs">Alimento</Label>
-                            <Input
-                              value={food.food_name}
-                              onChange={(e) => updateMealFood(mealIndex, foodIndex, 'food_name', e.target.value)}
-                              placeholder="Ex: Frango grelhado"
-                            />
-                          </div>
-                          <div>
-                            <Label className="text-xs">Qtd</Label>
-                            <Input
-                              type="number"
-                              value={food.quantity}
-                              onChange={(e) => updateMealFood(mealIndex, foodIndex, 'quantity', parseFloat(e.target.value) || 0)}
-                              min="0"
-                              step="0.1"
-                            />
-                          </div>
-                          <div>
-                            <Label className="text-xs">Unidade</Label>
-                            <Input
-                              value={food.unit}
-                              onChange={(e) => updateMealFood(mealIndex, foodIndex, 'unit', e.target.value)}
-                              placeholder="g"
-                            />
-                          </div>
-                          <div>
-                            <Label className="text-xs">Calorias</Label>
-                            <Input
-                              type="number"
-                              value={food.calories}
-                              onChange={(e) => updateMealFood(mealIndex, foodIndex, 'calories', parseFloat(e.target.value) || 0)}
-                              min="0"
-                              step="0.1"
-                            />
-                          </div>
-                          <div>
-                            <Label className="text-xs">Proteína</Label>
-                            <Input
-                              type="number"
-                              value={food.protein}
-                              onChange={(e) => updateMealFood(mealIndex, foodIndex, 'protein', parseFloat(e.target.value) || 0)}
-                              min="0"
-                              step="0.1"
-                            />
-                          </div>
-                          <div>
-                            <Label className="text-xs">Carbs</Label>
-                            <Input
-                              type="number"
-                              value={food.carbs}
-                              onChange={(e) => updateMealFood(mealIndex, foodIndex, 'carbs', parseFloat(e.target.value) || 0)}
-                              min="0"
-                              step="0.1"
-                            />
+                      {meal.foods.map((food, foodIndex) => {
+                        const linkedFood = foods.find((f) => f.id === food.food_id);
+                        return (
+                          <div key={foodIndex} className="grid grid-cols-9 gap-2 items-end p-3 bg-muted rounded-lg">
+                            <div className="col-span-2">
+                              <Label className="text-xs">Alimento</Label>
+                              <div className="flex gap-1">
+                                <Input
+                                  value={food.food_name}
+                                  onChange={(e) => updateMealFood(mealIndex, foodIndex, 'food_name', e.target.value)}
+                                  placeholder="Ex: Frango grelhado"
+                                />
+                                <FoodPicker
+                                  foods={foods}
+                                  onSelect={(selected) => applyFood(mealIndex, foodIndex, selected)}
+                                  onCreateFood={(name) => setNewFoodTarget({ mealIndex, foodIndex, name })}
+                                />
+                              </div>
+                            </div>
+                            <div>
+                              <Label className="text-xs">Qtd</Label>
+                              <Input
+                                type="number"
+                                value={food.quantity}
+                                onChange={(e) => updateMealFood(mealIndex, foodIndex, 'quantity', parseFloat(e.target.value) || 0)}
+                                min="0"
+                                step="0.1"
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">Unidade</Label>
+                              {linkedFood ? (
+                                <Select
+                                  value={food.unit}
+                                  onValueChange={(value) => updateMealFood(mealIndex, foodIndex, 'unit', value)}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {BASE_UNITS.map((unit) => (
+                                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                                    ))}
+                                    {parseHouseholdMeasures(linkedFood.household_measures).map((measure) => (
+                                      <SelectItem key={measure.label} value={measure.label}>
+                                        {measure.label} ({measure.grams}g)
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <Input
+                                  value={food.unit}
+                                  onChange={(e) => updateMealFood(mealIndex, foodIndex, 'unit', e.target.value)}
+                                  placeholder="g"
+                                />
+                              )}
+                            </div>
+                            <div>
+                              <Label className="text-xs">Calorias</Label>
+                              <Input
+                                type="number"
+                                value={food.calories}
+                                onChange={(e) => updateMealFood(mealIndex, foodIndex, 'calories', parseFloat(e.target.value) || 0)}
+                                min="0"
+                                step="0.1"
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">Proteína</Label>
+                              <Input
+                                type="number"
+                                value={food.protein}
+                                onChange={(e) => updateMealFood(mealIndex, foodIndex, 'protein', parseFloat(e.target.value) || 0)}
+                                min="0"
+                                step="0.1"
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">Carbs</Label>
+                              <Input
+                                type="number"
+                                value={food.carbs}
+                                onChange={(e) => updateMealFood(mealIndex, foodIndex, 'carbs', parseFloat(e.target.value) || 0)}
+                                min="0"
+                                step="0.1"
+                              />
+                            </div>
+                            <div>
+                              <Label className="text-xs">Gorduras</Label>
+                              <Input
+                                type="number"
+                                value={food.fat}
+                                onChange={(e) => updateMealFood(mealIndex, foodIndex, 'fat', parseFloat(e.target.value) || 0)}
+                                min="0"
+                                step="0.1"
+                              />
+                            </div>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => removeFoodFromMeal(mealIndex, foodIndex)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                            <div className="col-span-9">
+                              <FoodSubstitutionsEditor
+                                foods={foods}
+                                original={food}
+                                substitutions={food.substitutions}
+                                onChange={(substitutions) => updateSubstitutions(mealIndex, foodIndex, substitutions)}
+                              />
+                            </div>
                           </div>
-                          <Button
-                            type="button"
-                            variant="outline"
-                            size="sm"
-                            onClick={() => removeFoodFromMeal(mealIndex, foodIndex)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </CardContent>
                   </Card>
                 ))}
@@ -688,6 +861,53 @@ const QuickDietCreator = ({ studentId, studentName, trainerId, onClose, onSucces
           </Card>
         </TabsContent>
       </Tabs>
+
+      <EnergyCalculatorDialog
+        isOpen={isCalculatorOpen}
+        onClose={() => setIsCalculatorOpen(false)}
+        onApply={applyCalculatedTargets}
+        studentId={studentId}
+      />
+
+      <CustomFoodDialog
+        isOpen={!!newFoodTarget}
+        onClose={() => setNewFoodTarget(null)}
+        onCreated={handleFoodCreated}
+        trainerId={trainerId}
+        initialName={newFoodTarget?.name}
+      />
+
+      <DietTemplatePicker
+        isOpen={isTemplatePickerOpen}
+        onClose={() => setIsTemplatePickerOpen(false)}
+        trainerId={trainerId}
+        defaultCalories={studentCalorieTarget}
+        onApply={applyTemplate}
+      />
+
+      {templateSource && (
+        <SaveDietTemplateDialog
+          isOpen={!!templateSource}
+          onClose={() => setTemplateSource(null)}
+          trainerId={trainerId}
+          dietPlanId={templateSource.id}
+          defaultName={templateSource.name}
+        />
+      )}
+
+      {copySource && (
+        <DuplicatePlanDialog
+          isOpen={!!copySource}
+          onClose={() => setCopySource(null)}
+          kind="diet"
+          trainerId={trainerId}
+          plan={{ ...copySource, student_id: studentId }}
+          onCopied={() => {
+            loadExistingDiets();
+            onSuccess();
+          }}
+        />
+      )}
     </div>
   );
 };
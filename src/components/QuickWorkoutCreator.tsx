@@ -9,11 +9,23 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { X, Plus, Dumbbell, Settings, Play, Trash2 } from "lucide-react";
+import { X, Plus, Dumbbell, Settings, Play, Trash2, BookOpen, BookmarkPlus, Copy } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import {
+  MAX_ROTATION_SESSIONS,
+  SCHEDULE_MODE_LABELS,
+  ScheduleMode,
+  compareSessions,
+  rotationLetter,
+  sessionSlotLabel,
+} from "@/lib/workout-schedule";
+import { createWorkoutPlan, describePlanError } from "@/lib/plan-documents";
 import WorkoutPlanEditor from "./WorkoutPlanEditor";
 import VideoModal from "./VideoModal";
+import SaveWorkoutTemplateDialog from "./SaveWorkoutTemplateDialog";
+import DuplicatePlanDialog from "./DuplicatePlanDialog";
+import WorkoutTemplateLibrary from "./WorkoutTemplateLibrary";
 
 interface Exercise {
   id: string;
@@ -32,10 +44,12 @@ interface ExistingWorkoutPlan {
   active: boolean;
   frequency_per_week: number;
   duration_weeks: number;
+  schedule_mode: string;
   workout_sessions: {
     id: string;
     name: string;
-    day_of_week: number;
+    day_of_week: number | null;
+    order_index: number;
     workout_exercises: {
       id: string;
       exercise: {
@@ -62,6 +76,7 @@ interface WorkoutExercise {
 }
 
 interface WorkoutSession {
+  // Dia da semana (modo semanal) ou posição no rodízio
   day: number;
   name: string;
   category_id: string;
@@ -91,12 +106,16 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [existingWorkouts, setExistingWorkouts] = useState<ExistingWorkoutPlan[]>([]);
   const [editingWorkout, setEditingWorkout] = useState<ExistingWorkoutPlan | null>(null);
+  const [templateSource, setTemplateSource] = useState<ExistingWorkoutPlan | null>(null);
+  const [copySource, setCopySource] = useState<ExistingWorkoutPlan | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("existing");
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     frequency_per_week: 3,
     duration_weeks: 4,
+    schedule_mode: "weekly" as ScheduleMode,
   });
   
   const [categories, setCategories] = useState<ExerciseCategory[]>([]);
@@ -130,10 +149,12 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
           active,
           frequency_per_week,
           duration_weeks,
+          schedule_mode,
           workout_sessions(
             id,
             name,
             day_of_week,
+            order_index,
             workout_exercises(
               id,
               exercise:exercises(name)
@@ -244,11 +265,41 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
     setFormData(prev => ({ ...prev, frequency_per_week: sessions.length + 1 }));
   };
 
+  const addRotationSession = () => {
+    if (sessions.length >= MAX_ROTATION_SESSIONS) return;
+
+    const slot = sessions.length;
+    setSessions(prev => [...prev, {
+      day: slot,
+      name: `Treino ${rotationLetter(slot)}`,
+      category_id: "",
+      category_name: "",
+      exercises: []
+    }]);
+    setFormData(prev => ({ ...prev, frequency_per_week: sessions.length + 1 }));
+  };
+
   const removeTrainingDay = (dayToRemove: number) => {
-    setSessions(prev => prev.filter(session => session.day !== dayToRemove));
+    setSessions(prev => {
+      const remaining = prev.filter(session => session.day !== dayToRemove);
+      if (formData.schedule_mode === "weekly") return remaining;
+      // No rodízio as posições seguintes sobem para manter a sequência A, B, C...
+      return remaining.map((session, idx) => ({ ...session, day: idx, name: `Treino ${rotationLetter(idx)}` }));
+    });
     setFormData(prev => ({ ...prev, frequency_per_week: Math.max(1, sessions.length - 1) }));
   };
 
+  const changeScheduleMode = (mode: ScheduleMode) => {
+    setFormData(prev => ({ ...prev, schedule_mode: mode }));
+    // Os dias escolhidos não fazem sentido no outro modo
+    setSessions([]);
+  };
+
+  const getSlotLabel = (day: number) =>
+    formData.schedule_mode === "rotation"
+      ? sessionSlotLabel({ day_of_week: null, order_index: day })
+      : sessionSlotLabel({ day_of_week: day, order_index: day });
+
   const updateSessionCategory = (sessionIndex: number, categoryId: string) => {
     const category = categories.find(c => c.id === categoryId);
     if (!category) return;
@@ -334,7 +385,9 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
     if (sessions.length === 0) {
       toast({
         title: "Erro",
-        description: "Selecione pelo menos um dia da semana para o treino.",
+        description: formData.schedule_mode === "rotation"
+          ? "Adicione pelo menos um treino ao rodízio."
+          : "Selecione pelo menos um dia da semana para o treino.",
         variant: "destructive",
       });
       return;
@@ -352,65 +405,33 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
     setIsLoading(true);
 
     try {
-      // Create workout plan
-      const { data: workoutPlan, error: planError } = await supabase
-        .from("workout_plans")
-        .insert({
-          name: formData.name,
-          description: formData.description,
-          student_id: studentId,
-          personal_trainer_id: trainerId,
-          frequency_per_week: formData.frequency_per_week,
-          duration_weeks: formData.duration_weeks,
-          active: true,
-        })
-        .select()
-        .single();
-
-      if (planError) throw planError;
-      
-      console.log("Workout plan created:", workoutPlan);
-
-      // Create sessions and exercises
-      for (const session of sessions) {
-        if (session.exercises.length === 0) continue;
-
-        const { data: workoutSession, error: sessionError } = await supabase
-          .from("workout_sessions")
-          .insert({
-            workout_plan_id: workoutPlan.id,
+      // Plano, sessões e exercícios são gravados em uma única transação
+      await createWorkoutPlan({
+        student_id: studentId,
+        name: formData.name,
+        description: formData.description,
+        frequency_per_week: formData.frequency_per_week,
+        duration_weeks: formData.duration_weeks,
+        schedule_mode: formData.schedule_mode,
+        sessions: sessions
+          .filter(session => session.exercises.length > 0)
+          .map(session => ({
             name: session.name,
-            day_of_week: session.day,
-            description: `Treino para ${DAYS_OF_WEEK.find(d => d.value === session.day)?.label}`,
-          })
-          .select()
-          .single();
-
-        if (sessionError) throw sessionError;
-        
-        console.log("Workout session created:", workoutSession);
-
-        // Insert exercises for this session
-        const exerciseInserts = session.exercises.map(ex => ({
-          workout_session_id: workoutSession.id,
-          exercise_id: ex.exercise_id,
-          sets: ex.sets,
-          reps_min: ex.reps_min,
-          reps_max: ex.reps_max,
-          rest_seconds: ex.rest_minutes * 60,
-          order_index: ex.order_index,
-        }));
-
-        console.log("Inserting exercises:", exerciseInserts);
-
-        const { error: exerciseError } = await supabase
-          .from("workout_exercises")
-          .insert(exerciseInserts);
-
-        if (exerciseError) throw exerciseError;
-        
-        console.log("Exercises inserted successfully");
-      }
+            day_of_week: formData.schedule_mode === "weekly" ? session.day : null,
+            order_index: session.day,
+            description: formData.schedule_mode === "weekly"
+              ? `Treino para ${getSlotLabel(session.day)}`
+              : null,
+            exercises: session.exercises.map(ex => ({
+              exercise_id: ex.exercise_id,
+              sets: ex.sets,
+              reps_min: ex.reps_min,
+              reps_max: ex.reps_max,
+              rest_seconds: ex.rest_minutes * 60,
+              order_index: ex.order_index,
+            })),
+          })),
+      });
 
       toast({
         title: "Sucesso!",
@@ -422,7 +443,7 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
       console.error("Error creating workout:", error);
       toast({
         title: "Erro",
-        description: "Não foi possível criar o treino. Tente novamente.",
+        description: describePlanError(error, "Não foi possível criar o treino. Tente novamente."),
         variant: "destructive",
       });
     } finally {
@@ -450,10 +471,6 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
     return exercises.filter(ex => ex.category_id === categoryId);
   };
 
-  const getDayName = (dayIndex: number) => {
-    const days = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
-    return days[dayIndex] || "?";
-  };
 
   return (
     <div className="space-y-6">
@@ -472,10 +489,16 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
         <TabsContent value="existing" className="space-y-4">
           <Card>
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Dumbbell className="h-5 w-5" />
-                Treinos de {studentName} ({existingWorkouts.length})
-              </CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="flex items-center gap-2">
+                  <Dumbbell className="h-5 w-5" />
+                  Treinos de {studentName} ({existingWorkouts.length})
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setIsLibraryOpen(true)}>
+                  <BookOpen className="h-4 w-4 mr-2" />
+                  Usar modelo
+                </Button>
+              </div>
             </CardHeader>
             <CardContent>
               {existingWorkouts.length === 0 ? (
@@ -523,7 +546,9 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
                               </div>
                               <div>
                                 <span className="text-muted-foreground">Sessões:</span>
-                                <span className="ml-2 font-medium">{workout.workout_sessions.length} dias</span>
+                                <span className="ml-2 font-medium">
+                                  {workout.workout_sessions.length} {workout.schedule_mode === "rotation" ? "treinos em rodízio" : "dias"}
+                                </span>
                               </div>
                             </div>
 
@@ -531,9 +556,9 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
                               <div className="space-y-2">
                                 <p className="text-sm font-medium">Dias de treino:</p>
                                 <div className="flex flex-wrap gap-1">
-                                  {workout.workout_sessions.map((session) => (
+                                  {[...workout.workout_sessions].sort(compareSessions).map((session) => (
                                     <Badge key={session.id} variant="outline" className="text-xs">
-                                      {getDayName(session.day_of_week)} ({session.workout_exercises.length} exerc.)
+                                      {sessionSlotLabel(session, true)} ({session.workout_exercises.length} exerc.)
                                     </Badge>
                                   ))}
                                 </div>
@@ -557,6 +582,22 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
                             >
                               {workout.active ? "Desativar" : "Ativar"}
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setCopySource(workout)}
+                            >
+                              <Copy className="h-4 w-4 mr-2" />
+                              Duplicar
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTemplateSource(workout)}
+                            >
+                              <BookmarkPlus className="h-4 w-4 mr-2" />
+                              Salvar como modelo
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -624,31 +665,65 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Organização dos Treinos</Label>
+                  <Select
+                    value={formData.schedule_mode}
+                    onValueChange={(value) => changeScheduleMode(value as ScheduleMode)}
+                  >
+                    <SelectTrigger className="w-full md:w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SCHEDULE_MODE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 {/* Training Days Management */}
                 <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <Label>Dias de Treino ({sessions.length} dia{sessions.length !== 1 ? 's' : ''})</Label>
-                    <Select onValueChange={(day) => addTrainingDay(parseInt(day))}>
-                      <SelectTrigger className="w-48">
-                        <SelectValue placeholder="+ Adicionar dia" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {DAYS_OF_WEEK.filter(day => 
-                          !sessions.some(session => session.day === day.value)
-                        ).map(day => (
-                          <SelectItem key={day.value} value={day.value.toString()}>
-                            {day.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {formData.schedule_mode === "rotation" ? (
+                    <div className="flex items-center justify-between">
+                      <Label>Treinos do Rodízio ({sessions.length})</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={addRotationSession}
+                        disabled={sessions.length >= MAX_ROTATION_SESSIONS}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Adicionar treino
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between">
+                      <Label>Dias de Treino ({sessions.length} dia{sessions.length !== 1 ? 's' : ''})</Label>
+                      <Select onValueChange={(day) => addTrainingDay(parseInt(day))}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue placeholder="+ Adicionar dia" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DAYS_OF_WEEK.filter(day => 
+                            !sessions.some(session => session.day === day.value)
+                          ).map(day => (
+                            <SelectItem key={day.value} value={day.value.toString()}>
+                              {day.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                   
                   {sessions.length > 0 && (
                     <div className="flex flex-wrap gap-2">
                       {sessions.map((session, idx) => (
                         <Badge key={session.day} variant="default" className="flex items-center gap-2">
-                          {DAYS_OF_WEEK.find(d => d.value === session.day)?.label}
+                          {getSlotLabel(session.day)}
                           <X 
                             className="h-3 w-3 cursor-pointer" 
                             onClick={() => removeTrainingDay(session.day)}
@@ -669,7 +744,7 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
                             <div className="bg-primary text-primary-foreground rounded-full w-8 h-8 flex items-center justify-center text-sm font-medium">
                               {sessionIndex + 1}
                             </div>
-                            {DAYS_OF_WEEK.find(d => d.value === session.day)?.label}
+                            {getSlotLabel(session.day)}
                           </CardTitle>
                           <Button
                             type="button"
@@ -916,6 +991,41 @@ const QuickWorkoutCreator = ({ studentId, studentName, trainerId, onClose, onSuc
         />
       )}
 
+      {templateSource && (
+        <SaveWorkoutTemplateDialog
+          isOpen={!!templateSource}
+          onClose={() => setTemplateSource(null)}
+          trainerId={trainerId}
+          planId={templateSource.id}
+          defaultName={templateSource.name}
+        />
+      )}
+
+      {copySource && (
+        <DuplicatePlanDialog
+          isOpen={!!copySource}
+          onClose={() => setCopySource(null)}
+          kind="workout"
+          trainerId={trainerId}
+          plan={{ ...copySource, student_id: studentId }}
+          onCopied={() => {
+            loadExistingWorkouts();
+            onSuccess();
+          }}
+        />
+      )}
+
+      <WorkoutTemplateLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        trainerId={trainerId}
+        studentId={studentId}
+        onAssigned={() => {
+          loadExistingWorkouts();
+          onSuccess();
+        }}
+      />
+
       {/* Video Modal */}
       <VideoModal
         isOpen={videoModal.isOpen}
@@ -18,6 +18,8 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { addDays, format, subDays } from "date-fns";
+import { summarizeWorkoutLogs } from "@/lib/workout-log";
+import { habitDay, summarizeHabits } from "@/lib/habits";
 
 interface Student {
   id: string;
@@ -41,6 +43,8 @@ interface ReportData {
   mealsCompleted: number;
   totalMeals: number;
   completionRate: number;
+  workoutSessions: ReturnType<typeof summarizeWorkoutLogs>;
+  habits: ReturnType<typeof summarizeHabits>;
   startDate: string;
   endDate: string;
   reportDate: string;
@@ -150,6 +154,29 @@ const ReportsManager = ({ trainerId }: { trainerId: string }) => {
           .gte("completed_at", dateRange.from.toISOString())
           .lte("completed_at", dateRange.to.toISOString());
 
+        // Get workout sessions logged by the student
+        const { data: workoutLogs } = await supabase
+          .from("workout_logs")
+          .select("started_at, duration_seconds, rpe, pain_reports")
+          .eq("student_id", student.id)
+          .gte("started_at", dateRange.from.toISOString())
+          .lte("started_at", dateRange.to.toISOString());
+
+        // Get daily habits and their check-ins
+        const { data: habits } = await supabase
+          .from("student_habits")
+          .select("id, name, target")
+          .eq("student_id", student.id)
+          .eq("active", true)
+          .order("order_index");
+
+        const { data: habitLogs } = await supabase
+          .from("habit_logs")
+          .select("id, habit_id, logged_on, amount")
+          .eq("student_id", student.id)
+          .gte("logged_on", habitDay(dateRange.from))
+          .lte("logged_on", habitDay(dateRange.to));
+
         // Get total exercises assigned to student
         const { data: totalExercises } = await supabase
           .from("workout_exercises")
@@ -187,6 +214,8 @@ const ReportsManager = ({ trainerId }: { trainerId: string }) => {
           mealsCompleted: mealCompletions?.length || 0,
           totalMeals: 0, // We could calculate this if needed
           completionRate: Math.round(completionRate * 100) / 100,
+          workoutSessions: summarizeWorkoutLogs(workoutLogs || []),
+          habits: summarizeHabits(habits || [], habitLogs || [], dateRange.from, dateRange.to),
           startDate: format(dateRange.from, "dd/MM/yyyy"),
           endDate: format(dateRange.to, "dd/MM/yyyy"),
           reportDate: format(new Date(), "dd/MM/yyyy 'às' HH:mm")
@@ -266,7 +295,22 @@ const ReportsManager = ({ trainerId }: { trainerId: string }) => {
       doc.text(`Taxa: ${report.completionRate}%`, 5, y);
       y += lineHeight;
       doc.text(`Refeições: ${report.mealsCompleted}/${report.totalMeals}`, 5, y);
-      y += lineHeight * 2;
+      y += lineHeight;
+      doc.text(`Sessões: ${report.workoutSessions.sessions} (${report.workoutSessions.totalMinutes} min)`, 5, y);
+      y += lineHeight;
+      if (report.workoutSessions.averageRpe !== null) {
+        doc.text(`RPE médio: ${report.workoutSessions.averageRpe}`, 5, y);
+        y += lineHeight;
+      }
+      if (report.workoutSessions.painReports > 0) {
+        doc.text(`Relatos de dor: ${report.workoutSessions.painReports}`, 5, y);
+        y += lineHeight;
+      }
+      if (report.habits.habits > 0) {
+        doc.text(`Hábitos: ${report.habits.periodCompletion ?? 0}% (7 dias: ${report.habits.weeklyCompletion ?? 0}%)`, 5, y);
+        y += lineHeight;
+      }
+      y += lineHeight;
 
       // Footer
       doc.text("--- OBSERVAÇÕES ---", centerX, y, { align: "center" });
@@ -470,6 +514,47 @@ const ReportsManager = ({ trainerId }: { trainerId: string }) => {
                     </div>
                   </div>
 
+                  <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 border-t pt-4">
+                    <div>
+                      <div className="text-lg font-bold">{report.workoutSessions.sessions}</div>
+                      <p className="text-xs text-muted-foreground">Sessões registradas</p>
+                    </div>
+                    <div>
+                      <div className="text-lg font-bold">{report.workoutSessions.averageMinutes} min</div>
+                      <p className="text-xs text-muted-foreground">Duração média</p>
+                    </div>
+                    <div>
+                      <div className="text-lg font-bold">{report.workoutSessions.averageRpe ?? "-"}</div>
+                      <p className="text-xs text-muted-foreground">RPE médio</p>
+                    </div>
+                    <div>
+                      <div className={`text-lg font-bold ${report.workoutSessions.painReports > 0 ? "text-destructive" : ""}`}>
+                        {report.workoutSessions.painReports}
+                      </div>
+                      <p className="text-xs text-muted-foreground">Relatos de dor</p>
+                    </div>
+                  </div>
+
+                  {report.habits.habits > 0 && (
+                    <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 border-t pt-4">
+                      <div>
+                        <div className="text-lg font-bold">{report.habits.periodCompletion ?? 0}%</div>
+                        <p className="text-xs text-muted-foreground">Hábitos no período</p>
+                      </div>
+                      <div>
+                        <div className="text-lg font-bold">{report.habits.weeklyCompletion ?? 0}%</div>
+                        <p className="text-xs text-muted-foreground">Hábitos nos últimos 7 dias</p>
+                      </div>
+                      <div className="col-span-2 flex flex-wrap gap-2 items-start">
+                        {report.habits.streaks.map((habit) => (
+                          <Badge key={habit.name} variant="outline">
+                            {habit.name}: {habit.streak} {habit.streak === 1 ? "dia" : "dias"} seguidos
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="mt-4 p-3 bg-muted/50 rounded">
                     <p className="text-sm">
                       <strong>Dados do Aluno:</strong> {report.student.name}
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { saveDietTemplate } from "@/lib/diet-templates";
+
+interface SaveDietTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trainerId: string;
+  dietPlanId: string;
+  defaultName: string;
+  onSaved?: () => void;
+}
+
+// Salva uma cópia da dieta (sem aluno) nos modelos do personal
+const SaveDietTemplateDialog = ({
+  isOpen,
+  onClose,
+  trainerId,
+  dietPlanId,
+  defaultName,
+  onSaved,
+}: SaveDietTemplateDialogProps) => {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(defaultName);
+    setDescription("");
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Erro", description: "Informe o nome do modelo.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveDietTemplate({ trainerId, dietPlanId, name: name.trim(), description });
+      toast({ title: "Modelo salvo", description: "A dieta foi adicionada aos seus modelos." });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      console.error("Error saving diet template:", error);
+      toast({ title: "Erro", description: "Não foi possível salvar o modelo.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Salvar dieta como modelo</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="diet-template-name">Nome do modelo</Label>
+            <Input id="diet-template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="diet-template-description">Descrição</Label>
+            <Textarea
+              id="diet-template-description"
+              rows={2}
+              placeholder="Ex: Low carb com 5 refeições"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Metas, refeições, alimentos e substituições são copiados. Ao aplicar o modelo, as quantidades são ajustadas
+            para a meta de calorias do aluno.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Salvando..." : "Salvar modelo"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveDietTemplateDialog;
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TEMPLATE_GOAL_LABELS,
+  TEMPLATE_LEVEL_LABELS,
+  TemplateGoal,
+  TemplateLevel,
+  saveWorkoutTemplate,
+} from "@/lib/workout-templates";
+
+interface SaveWorkoutTemplateDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trainerId: string;
+  planId: string;
+  defaultName: string;
+  onSaved?: () => void;
+}
+
+// Salva uma cópia do plano (sem aluno) na biblioteca de modelos do personal
+const SaveWorkoutTemplateDialog = ({
+  isOpen,
+  onClose,
+  trainerId,
+  planId,
+  defaultName,
+  onSaved,
+}: SaveWorkoutTemplateDialogProps) => {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState("");
+  const [level, setLevel] = useState<TemplateLevel>("intermediate");
+  const [goal, setGoal] = useState<TemplateGoal>("hypertrophy");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(defaultName);
+    setDescription("");
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Erro", description: "Informe o nome do modelo.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveWorkoutTemplate({ trainerId, planId, name: name.trim(), description, level, goal });
+      toast({ title: "Modelo salvo", description: "O treino foi adicionado à sua biblioteca de modelos." });
+      onSaved?.();
+      onClose();
+    } catch (error) {
+      console.error("Error saving workout template:", error);
+      toast({ title: "Erro", description: "Não foi possível salvar o modelo.", variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Salvar como modelo</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="template-name">Nome do modelo</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="template-description">Descrição</Label>
+            <Textarea
+              id="template-description"
+              rows={2}
+              placeholder="Ex: ABC para quem treina há pelo menos 6 meses"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Nível</Label>
+              <Select value={level} onValueChange={(value) => setLevel(value as TemplateLevel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TEMPLATE_LEVEL_LABELS) as TemplateLevel[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {TEMPLATE_LEVEL_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Objetivo</Label>
+              <Select value={goal} onValueChange={(value) => setGoal(value as TemplateGoal)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TEMPLATE_GOAL_LABELS) as TemplateGoal[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {TEMPLATE_GOAL_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sessões, exercícios, fases e regras de progressão são copiados. Alterações futuras neste treino não afetam o
+            modelo.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? "Salvando..." : "Salvar modelo"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveWorkoutTemplateDialog;
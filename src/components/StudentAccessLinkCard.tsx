@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link2, RefreshCw, Ban, Lock } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_LINK_EXPIRY_DAYS,
+  getStudentLink,
+  revokeStudentLink,
+  rotateStudentLink,
+} from "@/lib/student-link";
+
+interface AccessLink {
+  id: string;
+  expires_at: string;
+  revoked_at: string | null;
+  has_pin: boolean;
+  last_used_at: string | null;
+  created_at: string;
+}
+
+interface StudentAccessLinkCardProps {
+  studentId: string;
+  studentNumber: string;
+}
+
+const EXPIRY_OPTIONS = [7, 30, 90, 180, 365];
+
+const StudentAccessLinkCard = ({ studentId, studentNumber }: StudentAccessLinkCardProps) => {
+  const [link, setLink] = useState<AccessLink | null>(null);
+  const [expiresInDays, setExpiresInDays] = useState(DEFAULT_LINK_EXPIRY_DAYS.toString());
+  const [pin, setPin] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadLink();
+  }, [studentId]);
+
+  const loadLink = async () => {
+    // pin_hash is not readable by trainers; only has_pin is exposed
+    const { data, error } = await supabase
+      .from("student_access_links")
+      .select("id, expires_at, revoked_at, has_pin, last_used_at, created_at")
+      .eq("student_id", studentId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading student link:", error);
+      return;
+    }
+
+    setLink(data);
+  };
+
+  const isExpired = !!link && new Date(link.expires_at).getTime() <= Date.now();
+  const isActive = !!link && !link.revoked_at && !isExpired;
+
+  const handleRotate = async () => {
+    if (pin && !/^\d{4}$/.test(pin)) {
+      toast({
+        title: "PIN inválido",
+        description: "O PIN deve ter exatamente 4 dígitos.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await rotateStudentLink(studentId, {
+        expiresInDays: parseInt(expiresInDays),
+        pin: pin || null,
+      });
+
+      await navigator.clipboard.writeText(getStudentLink(studentNumber, result.link_token));
+      setPin("");
+      await loadLink();
+
+      toast({
+        title: "Novo link gerado!",
+        description: "O link anterior foi revogado e o novo link foi copiado.",
+      });
+    } catch (error) {
+      console.error("Error rotating student link:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível gerar um novo link.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    setIsLoading(true);
+    try {
+      await revokeStudentLink(studentId);
+      await loadLink();
+
+      toast({
+        title: "Link revogado",
+        description: "O aluno perdeu o acesso até você gerar um novo link.",
+      });
+    } catch (error) {
+      console.error("Error revoking student link:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível revogar o link.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Link de Acesso
+          {isActive ? (
+            <Badge className="ml-auto">Ativo</Badge>
+          ) : (
+            <Badge variant="secondary" className="ml-auto">
+              {!link ? "Sem link" : link.revoked_at ? "Revogado" : "Expirado"}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {link && (
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>
+              {isActive ? "Válido até" : "Validade"}: {formatDate(link.expires_at)}
+              {link.has_pin && (
+                <span className="inline-flex items-center gap-1 ml-2">
+                  <Lock className="h-3 w-3" />
+                  Protegido por PIN
+                </span>
+              )}
+            </p>
+            <p>Último acesso: {link.last_used_at ? formatDate(link.last_used_at) : "nunca"}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Validade do novo link</Label>
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((days) => (
+                  <SelectItem key={days} value={days.toString()}>
+                    {days} dias
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>PIN (opcional)</Label>
+            <Input
+              inputMode="numeric"
+              maxLength={4}
+              placeholder="4 dígitos"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 4))}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button onClick={handleRotate} disabled={isLoading} className="flex-1">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {link ? "Gerar novo link" : "Gerar link"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleRevoke}
+            disabled={isLoading || !isActive}
+            className="flex-1 text-destructive hover:text-destructive"
+          >
+            <Ban className="h-4 w-4 mr-2" />
+            Revogar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentAccessLinkCard;
@@ -0,0 +1,214 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Flame, ListChecks, Plus, Trash2 } from "lucide-react";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  HABIT_KINDS,
+  HabitKind,
+  HabitLogEntry,
+  StudentHabit,
+  dailyTotals,
+  habitCompletionRate,
+  habitDay,
+  habitStreak,
+} from "@/lib/habits";
+
+interface StudentHabitsCardProps {
+  studentId: string;
+  trainerId: string;
+}
+
+// Metas de hábitos diários do aluno, com sequência atual e adesão dos últimos 7 dias
+const StudentHabitsCard = ({ studentId, trainerId }: StudentHabitsCardProps) => {
+  const [habits, setHabits] = useState<StudentHabit[]>([]);
+  const [logs, setLogs] = useState<HabitLogEntry[]>([]);
+  const [newKind, setNewKind] = useState<HabitKind>("water");
+  const [newName, setNewName] = useState("");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadHabits();
+  }, [studentId]);
+
+  const loadHabits = async () => {
+    const [{ data: habitsData, error }, { data: logsData }] = await Promise.all([
+      supabase.from("student_habits").select("*").eq("student_id", studentId).order("order_index"),
+      supabase
+        .from("habit_logs")
+        .select("id, habit_id, logged_on, amount")
+        .eq("student_id", studentId)
+        .gte("logged_on", habitDay(subDays(new Date(), 60))),
+    ]);
+
+    if (error) {
+      console.error("Error loading habits:", error);
+      return;
+    }
+
+    setHabits(habitsData || []);
+    setLogs(logsData || []);
+  };
+
+  const showError = (description: string) => {
+    toast({ title: "Erro", description, variant: "destructive" });
+  };
+
+  const addHabit = async () => {
+    const preset = HABIT_KINDS[newKind];
+    const name = newKind === "custom" ? newName.trim() : preset.label;
+    if (!name) {
+      showError("Informe o nome do hábito.");
+      return;
+    }
+
+    const { error } = await supabase.from("student_habits").insert({
+      student_id: studentId,
+      personal_trainer_id: trainerId,
+      kind: newKind,
+      name,
+      unit: preset.unit,
+      target: preset.defaultTarget,
+      order_index: habits.length,
+    });
+
+    if (error) {
+      console.error("Error creating habit:", error);
+      showError("Não foi possível adicionar o hábito.");
+      return;
+    }
+
+    setNewName("");
+    loadHabits();
+  };
+
+  const updateHabit = async (habitId: string, updates: Partial<Pick<StudentHabit, "target" | "unit" | "active">>) => {
+    setHabits((prev) => prev.map((habit) => (habit.id === habitId ? { ...habit, ...updates } : habit)));
+
+    const { error } = await supabase.from("student_habits").update(updates).eq("id", habitId);
+    if (error) {
+      console.error("Error updating habit:", error);
+      showError("Não foi possível salvar a meta.");
+      loadHabits();
+    }
+  };
+
+  const deleteHabit = async (habitId: string) => {
+    if (!confirm("Excluir este hábito e todo o histórico de registros? Para apenas ocultar do aluno, desative-o.")) return;
+
+    const { error } = await supabase.from("student_habits").delete().eq("id", habitId);
+    if (error) {
+      console.error("Error deleting habit:", error);
+      showError("Não foi possível excluir o hábito.");
+      return;
+    }
+
+    loadHabits();
+  };
+
+  const totals = dailyTotals(logs);
+  const today = new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Hábitos Diários
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {habits.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Nenhum hábito configurado. Adicione metas como água, passos ou sono para o aluno registrar no app.
+          </p>
+        )}
+
+        {habits.map((habit) => {
+          const streak = habitStreak(habit, totals, today);
+          const weekly = habitCompletionRate([habit], totals, subDays(today, 6), today);
+          return (
+            <div key={habit.id} className="flex flex-wrap items-center gap-3 p-3 bg-muted rounded-lg">
+              <div className="min-w-[120px] flex-1">
+                <p className={`font-medium ${habit.active ? "" : "text-muted-foreground line-through"}`}>{habit.name}</p>
+                <div className="flex gap-2 text-xs text-muted-foreground">
+                  <span>7 dias: {weekly ?? 0}%</span>
+                  {streak > 0 && (
+                    <Badge variant="outline" className="text-xs font-normal">
+                      <Flame className="h-3 w-3 mr-1" />
+                      {streak} {streak === 1 ? "dia" : "dias"}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="h-8 w-24"
+                  defaultValue={habit.target}
+                  onBlur={(e) => {
+                    const target = parseFloat(e.target.value);
+                    if (target > 0 && target !== habit.target) updateHabit(habit.id, { target });
+                  }}
+                />
+                <Input
+                  className="h-8 w-20"
+                  defaultValue={habit.unit}
+                  onBlur={(e) => {
+                    const unit = e.target.value.trim();
+                    if (unit && unit !== habit.unit) updateHabit(habit.id, { unit });
+                  }}
+                />
+              </div>
+              <Switch
+                checked={habit.active}
+                onCheckedChange={(active) => updateHabit(habit.id, { active })}
+                aria-label="Hábito ativo"
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteHabit(habit.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          <Select value={newKind} onValueChange={(value) => setNewKind(value as HabitKind)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(HABIT_KINDS) as HabitKind[]).map((kind) => (
+                <SelectItem key={kind} value={kind}>
+                  {HABIT_KINDS[kind].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {newKind === "custom" && (
+            <Input
+              className="w-48"
+              placeholder="Nome do hábito"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+            />
+          )}
+          <Button variant="outline" onClick={addHabit}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar hábito
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StudentHabitsCard;
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { getActiveStudentLink } from '@/lib/student-link';
 import { Trash2, User, Dumbbell, Apple, Share2, Eye } from 'lucide-react';
 import {
   AlertDialog,
@@ -103,13 +104,39 @@ export function StudentList({ personalTrainerId, onStudentSelect, onCreateWorkou
     }
   };
 
-  const handleShareStudent = async (studentNumber: string, studentName: string) => {
-    const studentUrl = `${window.location.origin}/student/${studentNumber}`;
+  const loadActiveStudentLink = async (student: Student) => {
+    try {
+      return await getActiveStudentLink(student.id, student.student_number);
+    } catch (error) {
+      console.error('Error loading student link:', error);
+      toast({
+        title: "Sem link ativo",
+        description: "Gere um novo link de acesso no perfil do aluno",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const handleOpenStudent = async (student: Student) => {
+    // Open the tab synchronously so popup blockers allow it
+    const newWindow = window.open('', '_blank');
+    const studentUrl = await loadActiveStudentLink(student);
+    if (studentUrl && newWindow) {
+      newWindow.location.href = studentUrl;
+    } else {
+      newWindow?.close();
+    }
+  };
+
+  const handleShareStudent = async (student: Student) => {
+    const studentUrl = await loadActiveStudentLink(student);
+    if (!studentUrl) return;
     
     if (navigator.share && /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent)) {
       try {
         await navigator.share({
-          title: `Plano de ${studentName}`,
+          title: `Plano de ${student.name}`,
           text: `Acesse seu plano de treino e dieta personalizado`,
           url: studentUrl,
         });
@@ -190,7 +217,7 @@ export function StudentList({ personalTrainerId, onStudentSelect, onCreateWorkou
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => window.open(`/student/${student.student_number}`, '_blank')}
+                    onClick={() => handleOpenStudent(student)}
                     className="flex-1"
                   >
                     <Eye className="w-4 h-4 mr-1" />
@@ -230,7 +257,7 @@ export function StudentList({ personalTrainerId, onStudentSelect, onCreateWorkou
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => handleShareStudent(student.student_number, student.name)}
+                    onClick={() => handleShareStudent(student)}
                     className="flex-1"
                   >
                     <Share2 className="w-4 h-4 mr-1" />
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Lock } from "lucide-react";
+
+interface StudentPinPromptProps {
+  error?: string;
+  isSubmitting?: boolean;
+  onSubmit: (pin: string) => void;
+}
+
+const StudentPinPrompt = ({ error, isSubmitting, onSubmit }: StudentPinPromptProps) => {
+  const [pin, setPin] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (pin.length === 4) {
+      onSubmit(pin);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-muted/30">
+      <Card className="max-w-sm mx-4 shadow-lg w-full">
+        <CardContent className="text-center p-8 space-y-4">
+          <div className="w-16 h-16 mx-auto bg-primary/10 rounded-full flex items-center justify-center">
+            <Lock className="h-8 w-8 text-primary" />
+          </div>
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold">Link protegido</h3>
+            <p className="text-muted-foreground text-sm">
+              Digite o PIN de 4 dígitos informado pelo seu personal trainer.
+            </p>
+          </div>
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={4}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 4))}
+              className="text-center text-2xl tracking-[0.5em]"
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" className="w-full" disabled={pin.length !== 4 || isSubmitting}>
+              {isSubmitting ? "Verificando..." : "Entrar"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StudentPinPrompt;
@@ -27,7 +27,14 @@ import {
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { getActiveStudentLink } from "@/lib/student-link";
+import { compareSessions, sessionSlotLabel } from "@/lib/workout-schedule";
 import WorkoutPlanEditor from "./WorkoutPlanEditor";
+import StudentAccessLinkCard from "./StudentAccessLinkCard";
+import BodyAssessmentsCard from "./BodyAssessmentsCard";
+import ProgressPhotosCard from "./ProgressPhotosCard";
+import StudentHabitsCard from "./StudentHabitsCard";
+import WorkoutLogTimeline from "./WorkoutLogTimeline";
 
 interface Student {
   id: string;
@@ -40,7 +47,7 @@ interface Student {
   goals?: string[];
   medical_restrictions?: string;
   student_number: string;
-  student_number: string;
+  sex?: string | null;
   unique_link_token: string;
   created_at: string;
 }
@@ -52,7 +59,8 @@ interface WorkoutPlan {
   workout_sessions: {
     id: string;
     name: string;
-    day_of_week: number;
+    day_of_week: number | null;
+    order_index: number;
   }[];
 }
 
@@ -102,7 +110,7 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
             id,
             name,
             active,
-            workout_sessions(id, name, day_of_week)
+            workout_sessions(id, name, day_of_week, order_index)
           `)
           .eq("student_id", student.id);
 
@@ -185,15 +193,42 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
     return null;
   };
 
-  const copyStudentLink = () => {
-    const studentLink = `${window.location.origin}/student/${student.student_number}`;
-    navigator.clipboard.writeText(studentLink);
+  const loadActiveStudentLink = async (path = "") => {
+    try {
+      return await getActiveStudentLink(student.id, student.student_number, path);
+    } catch (error) {
+      console.error("Error loading student link:", error);
+      toast({
+        title: "Sem link ativo",
+        description: "Gere um novo link de acesso para o aluno.",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+
+  const copyStudentLink = async () => {
+    const studentLink = await loadActiveStudentLink();
+    if (!studentLink) return;
+
+    await navigator.clipboard.writeText(studentLink);
     toast({
       title: "Link copiado!",
       description: "Link do aluno copiado para a área de transferência.",
     });
   };
 
+  const openStudentLink = async (path = "") => {
+    // Open the tab synchronously so popup blockers allow it
+    const newWindow = window.open("", "_blank");
+    const studentLink = await loadActiveStudentLink(path);
+    if (studentLink && newWindow) {
+      newWindow.location.href = studentLink;
+    } else {
+      newWindow?.close();
+    }
+  };
+
   const handleSave = async () => {
     setIsLoading(true);
     try {
@@ -233,11 +268,6 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
     }
   };
 
-  const getDayName = (dayIndex: number) => {
-    const days = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
-    return days[dayIndex] || "?";
-  };
-
   return (
     <div className="h-full flex flex-col">
       {/* Header */}
@@ -283,7 +313,7 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => window.open(`/student/${student.student_number}`, '_blank')}
+            onClick={() => openStudentLink()}
             className="h-10"
           >
             <ExternalLink className="h-4 w-4 mr-2" />
@@ -292,7 +322,7 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
           <Button
             variant="outline"
             size="sm"
-            onClick={() => window.open(`/student/${student.student_number}/diet`, '_blank')}
+            onClick={() => openStudentLink('/diet')}
             className="h-10"
           >
             <Apple className="h-4 w-4 mr-2" />
@@ -485,6 +515,21 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
             </CardContent>
           </Card>
 
+          {/* Access Link */}
+          <StudentAccessLinkCard studentId={student.id} studentNumber={student.student_number} />
+
+          {/* Body Assessments */}
+          <BodyAssessmentsCard student={student} trainerId={trainerId} />
+
+          {/* Progress Photos */}
+          <ProgressPhotosCard studentId={student.id} trainerId={trainerId} />
+
+          {/* Daily Habits */}
+          <StudentHabitsCard studentId={student.id} trainerId={trainerId} />
+
+          {/* Workout Sessions */}
+          <WorkoutLogTimeline studentId={student.id} />
+
           {/* Workout Plans */}
           <Card>
             <CardHeader>
@@ -513,9 +558,9 @@ const StudentProfile = ({ student, trainerId, onClose }: StudentProfileProps) =>
                       </p>
                       {plan.workout_sessions.length > 0 && (
                         <div className="flex flex-wrap gap-1 mt-2">
-                          {plan.workout_sessions.map((session) => (
+                          {[...plan.workout_sessions].sort(compareSessions).map((session) => (
                             <Badge key={session.id} variant="outline" className="text-xs">
-                              {getDayName(session.day_of_week)}
+                              {sessionSlotLabel(session, true)}
                             </Badge>
                           ))}
                         </div>
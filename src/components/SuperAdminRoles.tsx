@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ShieldCheck, UserPlus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface SuperAdminEntry {
+  id: string;
+  email: string;
+  name: string;
+  auth_user_id: string | null;
+  created_at: string;
+}
+
+const SuperAdminRoles = () => {
+  const [admins, setAdmins] = useState<SuperAdminEntry[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadAdmins();
+    supabase.auth.getUser().then(({ data }) => setCurrentUserId(data.user?.id ?? null));
+  }, []);
+
+  const loadAdmins = async () => {
+    const { data, error } = await supabase
+      .from("super_admins")
+      .select("id, email, name, auth_user_id, created_at")
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading super admins:", error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar administradores.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAdmins(data || []);
+  };
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const { error } = await supabase.rpc("grant_super_admin", { target_email: email.trim() });
+
+      if (error) {
+        toast({
+          title: "Erro",
+          description: error.code === "P0002"
+            ? "Nenhum usuário cadastrado com este email."
+            : `Erro ao conceder acesso: ${error.message}`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Acesso concedido",
+        description: `${email.trim()} agora é super admin.`,
+      });
+      setEmail("");
+      loadAdmins();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (admin: SuperAdminEntry) => {
+    if (!confirm(`Remover o acesso de super admin de "${admin.email}"?`)) {
+      return;
+    }
+
+    const { error } = await supabase.rpc("revoke_super_admin", { target_admin_id: admin.id });
+
+    if (error) {
+      toast({
+        title: "Erro",
+        description: `Erro ao remover acesso: ${error.message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Acesso removido",
+      description: `${admin.email} não é mais super admin.`,
+    });
+    loadAdmins();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Administradores
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleGrant} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="admin-email">Conceder acesso por email</Label>
+            <Input
+              id="admin-email"
+              type="email"
+              placeholder="usuario@exemplo.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={isLoading || !email.trim()}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            {isLoading ? "Concedendo..." : "Conceder"}
+          </Button>
+        </form>
+        <p className="text-xs text-muted-foreground">
+          O usuário precisa ter uma conta criada no sistema.
+        </p>
+
+        <div className="space-y-2">
+          {admins.map((admin) => (
+            <div key={admin.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{admin.name}</p>
+                <p className="text-sm text-muted-foreground truncate">{admin.email}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                {admin.auth_user_id === currentUserId && <Badge variant="secondary">Você</Badge>}
+                {!admin.auth_user_id && <Badge variant="outline">Sem conta vinculada</Badge>}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevoke(admin)}
+                  disabled={admin.auth_user_id === currentUserId}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SuperAdminRoles;
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle, CloudOff, RefreshCw } from "lucide-react";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
+
+interface SyncStatusBadgeProps {
+  // Chamado quando a fila termina de sincronizar, para recarregar os dados da página
+  onSynced?: () => void;
+}
+
+const SyncStatusBadge = ({ onSynced }: SyncStatusBadgeProps) => {
+  const { isOnline, pending, failed, isSyncing, syncNow } = useOfflineSync();
+  const pendingBeforeSync = useRef(0);
+
+  useEffect(() => {
+    if (isSyncing) {
+      pendingBeforeSync.current = pending;
+    } else if (pendingBeforeSync.current > pending) {
+      pendingBeforeSync.current = 0;
+      onSynced?.();
+    }
+  }, [isSyncing]);
+
+  const retry = () => {
+    syncNow();
+  };
+
+  if (!isOnline) {
+    return (
+      <Badge variant="secondary" className="gap-1 whitespace-nowrap">
+        <CloudOff className="h-3 w-3" />
+        Offline{pending > 0 && ` · ${pending} pendente(s)`}
+      </Badge>
+    );
+  }
+
+  if (isSyncing) {
+    return (
+      <Badge variant="secondary" className="gap-1 whitespace-nowrap">
+        <RefreshCw className="h-3 w-3 animate-spin" />
+        Sincronizando...
+      </Badge>
+    );
+  }
+
+  if (failed > 0) {
+    return (
+      <Badge
+        variant="destructive"
+        className="gap-1 whitespace-nowrap cursor-pointer"
+        title="Alguns registros foram recusados pelo servidor. Toque para tentar de novo."
+        onClick={retry}
+      >
+        <AlertTriangle className="h-3 w-3" />
+        {failed} não enviado(s)
+      </Badge>
+    );
+  }
+
+  if (pending > 0) {
+    return (
+      <Badge variant="secondary" className="gap-1 whitespace-nowrap cursor-pointer" onClick={retry}>
+        <RefreshCw className="h-3 w-3" />
+        {pending} pendente(s)
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="gap-1 whitespace-nowrap text-green-600 border-green-600/40">
+      <CheckCircle className="h-3 w-3" />
+      Sincronizado
+    </Badge>
+  );
+};
+
+export default SyncStatusBadge;
@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  DIFFICULTY_LABELS,
+  PainReport,
+  WorkoutDifficulty,
+  WorkoutFeedback,
+  describeRpe,
+} from "@/lib/workout-log";
+
+interface WorkoutFeedbackFormProps {
+  value: WorkoutFeedback;
+  onChange: (value: WorkoutFeedback) => void;
+}
+
+const RPE_VALUES = Array.from({ length: 10 }, (_, i) => i + 1);
+
+const WorkoutFeedbackForm = ({ value, onChange }: WorkoutFeedbackFormProps) => {
+  const update = (updates: Partial<WorkoutFeedback>) => onChange({ ...value, ...updates });
+
+  const updatePain = (index: number, updates: Partial<PainReport>) => {
+    update({
+      pain_reports: value.pain_reports.map((report, i) => (i === index ? { ...report, ...updates } : report)),
+    });
+  };
+
+  const addPain = () => {
+    update({ pain_reports: [...value.pain_reports, { region: "", intensity: 3 }] });
+  };
+
+  const removePain = (index: number) => {
+    update({ pain_reports: value.pain_reports.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Esforço percebido (RPE)</Label>
+        <div className="grid grid-cols-10 gap-1">
+          {RPE_VALUES.map((rpe) => (
+            <Button
+              key={rpe}
+              type="button"
+              variant={value.rpe === rpe ? "default" : "outline"}
+              size="sm"
+              className="h-8 px-0"
+              onClick={() => update({ rpe: value.rpe === rpe ? null : rpe })}
+            >
+              {rpe}
+            </Button>
+          ))}
+        </div>
+        {value.rpe && <p className="text-xs text-muted-foreground">{describeRpe(value.rpe)}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Dificuldade do treino</Label>
+        <Select
+          value={value.difficulty ?? undefined}
+          onValueChange={(difficulty) => update({ difficulty: difficulty as WorkoutDifficulty })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Como foi o treino?" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(DIFFICULTY_LABELS).map(([difficulty, label]) => (
+              <SelectItem key={difficulty} value={difficulty}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Dores ou desconfortos</Label>
+          <Button type="button" variant="ghost" size="sm" onClick={addPain}>
+            <Plus className="h-4 w-4 mr-1" />
+            Relatar dor
+          </Button>
+        </div>
+        {value.pain_reports.map((report, index) => (
+          <div key={index} className="grid grid-cols-[1fr_4.5rem_2rem] gap-2 items-center">
+            <Input
+              value={report.region}
+              onChange={(e) => updatePain(index, { region: e.target.value })}
+              placeholder="Local (ex: ombro direito)"
+              className="h-9"
+            />
+            <Input
+              type="number"
+              min="1"
+              max="10"
+              value={report.intensity}
+              onChange={(e) => updatePain(index, { intensity: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+              title="Intensidade de 1 a 10"
+              className="h-9"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removePain(index)}
+              className="h-8 w-8 p-0"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="workout-feedback">Comentários para o personal</Label>
+        <Textarea
+          id="workout-feedback"
+          value={value.feedback}
+          onChange={(e) => update({ feedback: e.target.value })}
+          placeholder="Ex: o treino de pernas ficou pesado no final"
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default WorkoutFeedbackForm;
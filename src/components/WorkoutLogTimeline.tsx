@@ -0,0 +1,130 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, Clock, History, MessageSquare } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDuration } from "@/lib/guided-workout";
+import {
+  DIFFICULTY_LABELS,
+  WorkoutDifficulty,
+  describeRpe,
+  parsePainReports,
+  summarizeWorkoutLogs,
+} from "@/lib/workout-log";
+import type { Tables } from "@/integrations/supabase/types";
+
+type WorkoutLogRow = Tables<"workout_logs"> & {
+  workout_sessions: { name: string } | null;
+  exercise_completions: { id: string }[];
+};
+
+interface WorkoutLogTimelineProps {
+  studentId: string;
+}
+
+const TIMELINE_LIMIT = 30;
+
+// Cores da escala de esforço: verde até moderado, amarelo pesado, vermelho quase máximo
+const rpeClassName = (rpe: number) =>
+  rpe >= 9 ? "bg-red-500 text-white" : rpe >= 7 ? "bg-yellow-500 text-white" : "bg-green-500 text-white";
+
+const WorkoutLogTimeline = ({ studentId }: WorkoutLogTimelineProps) => {
+  const [logs, setLogs] = useState<WorkoutLogRow[]>([]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [studentId]);
+
+  const loadLogs = async () => {
+    const { data, error } = await supabase
+      .from("workout_logs")
+      .select("*, workout_sessions(name), exercise_completions(id)")
+      .eq("student_id", studentId)
+      .order("started_at", { ascending: false })
+      .limit(TIMELINE_LIMIT);
+
+    if (error) {
+      console.error("Error loading workout logs:", error);
+      return;
+    }
+
+    setLogs(data || []);
+  };
+
+  const summary = summarizeWorkoutLogs(logs);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Histórico de Treinos ({logs.length})
+        </CardTitle>
+        {logs.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Duração média de {summary.averageMinutes} min
+            {summary.averageRpe !== null && ` · RPE médio ${summary.averageRpe}`}
+            {summary.painReports > 0 && ` · ${summary.painReports} relato(s) de dor`}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            Nenhuma sessão registrada pelo aluno ainda.
+          </p>
+        ) : (
+          <ol className="relative border-l border-muted ml-2 space-y-6">
+            {logs.map((log) => {
+              const painReports = parsePainReports(log.pain_reports);
+              return (
+                <li key={log.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{log.workout_sessions?.name || "Treino"}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(log.started_at).toLocaleString("pt-BR", { dateStyle: "short", timeStyle: "short" })}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-1 text-sm">
+                    <Badge variant="secondary">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {formatDuration(log.duration_seconds)}
+                    </Badge>
+                    <Badge variant="secondary">{log.exercise_completions.length} exercício(s)</Badge>
+                    {log.rpe && (
+                      <Badge className={rpeClassName(log.rpe)} title={describeRpe(log.rpe)}>
+                        RPE {log.rpe}
+                      </Badge>
+                    )}
+                    {log.difficulty && (
+                      <Badge variant="outline">{DIFFICULTY_LABELS[log.difficulty as WorkoutDifficulty]}</Badge>
+                    )}
+                  </div>
+                  {painReports.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {painReports.map((report, index) => (
+                        <Badge key={index} variant="destructive">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {report.region} ({report.intensity}/10)
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {log.feedback && (
+                    <p className="mt-2 text-sm text-muted-foreground flex gap-2">
+                      <MessageSquare className="h-4 w-4 shrink-0 mt-0.5" />
+                      <span className="italic">{log.feedback}</span>
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkoutLogTimeline;
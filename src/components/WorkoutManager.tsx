@@ -15,11 +15,18 @@ import {
   Clock,
   Target,
   User,
-  Settings
+  Settings,
+  BookOpen,
+  BookmarkPlus,
+  Copy
 } from "lucide-react";
 import EditWorkoutSession from "./EditWorkoutSession";
+import SaveWorkoutTemplateDialog from "./SaveWorkoutTemplateDialog";
+import DuplicatePlanDialog from "./DuplicatePlanDialog";
+import WorkoutTemplateLibrary from "./WorkoutTemplateLibrary";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { compareSessions, sessionSlotLabel } from "@/lib/workout-schedule";
 
 interface WorkoutPlan {
   id: string;
@@ -39,7 +46,8 @@ interface WorkoutSession {
   id: string;
   name: string;
   description?: string;
-  day_of_week: number;
+  day_of_week: number | null;
+  order_index: number;
   workout_exercises?: WorkoutExercise[];
 }
 
@@ -79,6 +87,9 @@ const WorkoutManager = ({ trainerId }: { trainerId: string }) => {
   const [selectedWorkout, setSelectedWorkout] = useState<WorkoutPlan | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSession, setEditingSession] = useState<any>(null);
+  const [templateSource, setTemplateSource] = useState<WorkoutPlan | null>(null);
+  const [copySource, setCopySource] = useState<WorkoutPlan | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -288,109 +299,110 @@ const WorkoutManager = ({ trainerId }: { trainerId: string }) => {
     });
   };
 
-  const getDayName = (dayIndex: number) => {
-    const days = ["Domingo", "Segunda", "Terça", "Quarta", "Quinta", "Sexta", "Sábado"];
-    return days[dayIndex] || "Desconhecido";
-  };
-
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold">Gerenciar Treinos</h2>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="h-4 w-4 mr-2" />
-              Novo Treino
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>
-                {selectedWorkout ? "Editar Treino" : "Criar Novo Treino"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="name">Nome do Treino</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    placeholder="Ex: Treino Full Body"
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="student_id">Aluno</Label>
-                  <Select
-                    value={formData.student_id}
-                    onValueChange={(value) => setFormData({ ...formData, student_id: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecione um aluno" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {students.map((student) => (
-                        <SelectItem key={student.id} value={student.id}>
-                          {student.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setIsLibraryOpen(true)}>
+            <BookOpen className="h-4 w-4 mr-2" />
+            Biblioteca de modelos
+          </Button>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Novo Treino
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>
+                  {selectedWorkout ? "Editar Treino" : "Criar Novo Treino"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Nome do Treino</Label>
+                    <Input
+                      id="name"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      placeholder="Ex: Treino Full Body"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="student_id">Aluno</Label>
+                    <Select
+                      value={formData.student_id}
+                      onValueChange={(value) => setFormData({ ...formData, student_id: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecione um aluno" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {students.map((student) => (
+                          <SelectItem key={student.id} value={student.id}>
+                            {student.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Descrição</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                 required
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  placeholder="Descrição do plano de treino..."
-                  rows={3}
-                />
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="duration_weeks">Duração (semanas)</Label>
-                  <Input
-                    id="duration_weeks"
-                    type="number"
-                    min="1"
-                    value={formData.duration_weeks}
-                    onChange={(e) => setFormData({ ...formData, duration_weeks: parseInt(e.target.value) })}
-                    required
+                  <Label htmlFor="description">Descrição</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                   required
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    placeholder="Descrição do plano de treino..."
+                    rows={3}
                   />
                 </div>
-                <div className="space-y-2">
-                  <Label htmlFor="frequency_per_week">Frequência por semana</Label>
-                  <Input
-                    id="frequency_per_week"
-                    type="number"
-                    min="1"
-                    max="7"
-                    value={formData.frequency_per_week}
-                    onChange={(e) => setFormData({ ...formData, frequency_per_week: parseInt(e.target.value) })}
-                    required
-                  />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="duration_weeks">Duração (semanas)</Label>
+                    <Input
+                      id="duration_weeks"
+                      type="number"
+                      min="1"
+                      value={formData.duration_weeks}
+                      onChange={(e) => setFormData({ ...formData, duration_weeks: parseInt(e.target.value) })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="frequency_per_week">Frequência por semana</Label>
+                    <Input
+                      id="frequency_per_week"
+                      type="number"
+                      min="1"
+                      max="7"
+                      value={formData.frequency_per_week}
+                      onChange={(e) => setFormData({ ...formData, frequency_per_week: parseInt(e.target.value) })}
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex justify-end gap-2">
-                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                  Cancelar
-                </Button>
-                <Button type="submit">
-                  {selectedWorkout ? "Atualizar" : "Criar"} Treino
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancelar
+                  </Button>
+                  <Button type="submit">
+                    {selectedWorkout ? "Atualizar" : "Criar"} Treino
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid gap-4">
@@ -420,6 +432,22 @@ const WorkoutManager = ({ trainerId }: { trainerId: string }) => {
                   >
                     {workout.active ? "Desativar" : "Ativar"}
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title="Duplicar"
+                    onClick={() => setCopySource(workout)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    title="Salvar como modelo"
+                    onClick={() => setTemplateSource(workout)}
+                  >
+                    <BookmarkPlus className="h-4 w-4" />
+                  </Button>
                   <Button variant="outline" size="sm" onClick={() => handleEdit(workout)}>
                     <Edit className="h-4 w-4" />
                   </Button>
@@ -459,12 +487,12 @@ const WorkoutManager = ({ trainerId }: { trainerId: string }) => {
                 <div className="mt-4">
                   <h4 className="font-semibold mb-2">Sessões de Treino:</h4>
                   <div className="grid gap-2">
-                    {workout.workout_sessions.map((session) => (
+                    {[...workout.workout_sessions].sort(compareSessions).map((session) => (
                       <div key={session.id} className="border rounded p-3">
                         <div className="flex justify-between items-center mb-2">
                           <h5 className="font-medium">{session.name}</h5>
                           <Badge variant="outline">
-                            {getDayName(session.day_of_week)}
+                            {sessionSlotLabel(session)}
                           </Badge>
                         </div>
                         {session.description && (
@@ -497,6 +525,7 @@ const WorkoutManager = ({ trainerId }: { trainerId: string }) => {
                               id: session.id,
                               name: session.name,
                               day_of_week: session.day_of_week,
+                              order_index: session.order_index,
                               workout_plan_id: workout.id,
                               exercises: []
                             })}
@@ -538,6 +567,34 @@ const WorkoutManager = ({ trainerId }: { trainerId: string }) => {
           }}
         />
       )}
+
+      {templateSource && (
+        <SaveWorkoutTemplateDialog
+          isOpen={!!templateSource}
+          onClose={() => setTemplateSource(null)}
+          trainerId={trainerId}
+          planId={templateSource.id}
+          defaultName={templateSource.name}
+        />
+      )}
+
+      {copySource && (
+        <DuplicatePlanDialog
+          isOpen={!!copySource}
+          onClose={() => setCopySource(null)}
+          kind="workout"
+          trainerId={trainerId}
+          plan={copySource}
+          onCopied={loadWorkouts}
+        />
+      )}
+
+      <WorkoutTemplateLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        trainerId={trainerId}
+        onAssigned={loadWorkouts}
+      />
     </div>
   );
 };
@@ -0,0 +1,191 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Plus, Trash2, Wand2 } from "lucide-react";
+import {
+  PHASE_GOAL_LABELS,
+  PhaseGoal,
+  WeekModifier,
+  WorkoutPhase,
+  phaseLength,
+  presetModifiers,
+  resizeModifiers,
+} from "@/lib/periodization";
+
+interface WorkoutPhasesEditorProps {
+  phases: WorkoutPhase[];
+  durationWeeks: number;
+  onChange: (phases: WorkoutPhase[]) => void;
+}
+
+const WorkoutPhasesEditor = ({ phases, durationWeeks, onChange }: WorkoutPhasesEditorProps) => {
+  const updatePhase = (index: number, updates: Partial<WorkoutPhase>) => {
+    onChange(
+      phases.map((phase, i) => {
+        if (i !== index) return phase;
+        const updated = { ...phase, ...updates };
+        return { ...updated, week_modifiers: resizeModifiers(updated.week_modifiers, phaseLength(updated)) };
+      })
+    );
+  };
+
+  const updateWeek = (phaseIndex: number, weekIndex: number, updates: Partial<WeekModifier>) => {
+    const phase = phases[phaseIndex];
+    updatePhase(phaseIndex, {
+      week_modifiers: phase.week_modifiers.map((m, i) => (i === weekIndex ? { ...m, ...updates } : m)),
+    });
+  };
+
+  const addPhase = () => {
+    const lastWeek = phases.reduce((max, phase) => Math.max(max, phase.end_week), 0);
+    const start = Math.min(lastWeek + 1, durationWeeks);
+    const end = Math.min(start + 3, durationWeeks);
+    onChange([
+      ...phases,
+      {
+        name: `Fase ${phases.length + 1}`,
+        goal: "hypertrophy",
+        start_week: start,
+        end_week: end,
+        week_modifiers: presetModifiers("hypertrophy", end - start + 1),
+      },
+    ]);
+  };
+
+  const removePhase = (index: number) => {
+    onChange(phases.filter((_, i) => i !== index));
+  };
+
+  const parseIntInput = (value: string) => parseInt(value) || 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Periodização
+          </CardTitle>
+          <Button type="button" variant="outline" size="sm" onClick={addPhase}>
+            <Plus className="h-4 w-4 mr-2" />
+            Adicionar Fase
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Divida as {durationWeeks} semanas em fases. Cada semana ajusta séries, repetições e carga da prescrição base
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {phases.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Sem fases: todas as semanas usam a prescrição base.
+          </p>
+        )}
+
+        {phases.map((phase, phaseIndex) => (
+          <div key={phase.id ?? phaseIndex} className="p-4 border rounded-lg space-y-3">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+              <div className="space-y-1 col-span-2 md:col-span-1">
+                <Label className="text-xs">Nome</Label>
+                <Input value={phase.name} onChange={(e) => updatePhase(phaseIndex, { name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Objetivo</Label>
+                <Select value={phase.goal} onValueChange={(value) => updatePhase(phaseIndex, { goal: value as PhaseGoal })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PHASE_GOAL_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Semana inicial</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={durationWeeks}
+                  value={phase.start_week}
+                  onChange={(e) => updatePhase(phaseIndex, { start_week: parseIntInput(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Semana final</Label>
+                <Input
+                  type="number"
+                  min={phase.start_week}
+                  max={durationWeeks}
+                  value={phase.end_week}
+                  onChange={(e) => updatePhase(phaseIndex, { end_week: parseIntInput(e.target.value) })}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  title="Aplicar ajustes sugeridos para o objetivo"
+                  onClick={() => updatePhase(phaseIndex, { week_modifiers: presetModifiers(phase.goal, phaseLength(phase)) })}
+                >
+                  <Wand2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removePhase(phaseIndex)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="hidden sm:grid grid-cols-4 gap-2 text-xs text-muted-foreground">
+                <span>Semana</span>
+                <span>Séries (+/-)</span>
+                <span>Reps (+/-)</span>
+                <span>Carga (%)</span>
+              </div>
+              {phase.week_modifiers.map((modifier, weekIndex) => (
+                <div key={weekIndex} className="grid grid-cols-4 gap-2 items-center">
+                  <Badge variant="secondary" className="justify-center">
+                    S{phase.start_week + weekIndex}
+                  </Badge>
+                  <Input
+                    type="number"
+                    value={modifier.sets_delta}
+                    onChange={(e) => updateWeek(phaseIndex, weekIndex, { sets_delta: parseIntInput(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    value={modifier.reps_delta}
+                    onChange={(e) => updateWeek(phaseIndex, weekIndex, { reps_delta: parseIntInput(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    step="5"
+                    min="0"
+                    value={modifier.load_percent}
+                    onChange={(e) => updateWeek(phaseIndex, weekIndex, { load_percent: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkoutPhasesEditor;
@@ -14,11 +14,36 @@ import {
   Save, 
   Edit,
   Trash2,
-  Calendar
+  Calendar,
+  TrendingUp,
+  History
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useExerciseHistory } from "@/hooks/use-exercise-history";
+import {
+  DEFAULT_PROGRESSION_SETTINGS,
+  PROGRESSION_RULE_LABELS,
+  ProgressionRule,
+  ProgressionSettings,
+  parseProgressionSettings,
+  suggestNextLoad,
+} from "@/lib/progression";
+import { WorkoutPhase, parsePhase, serializeModifiers, validatePhases } from "@/lib/periodization";
+import {
+  MAX_ROTATION_SESSIONS,
+  SCHEDULE_MODE_LABELS,
+  ScheduleMode,
+  rotationLetter,
+  sessionSlotLabel,
+} from "@/lib/workout-schedule";
+import { describeExerciseGroups, dissolveSingletons, exerciseLabel, isValidTempo } from "@/lib/exercise-grouping";
+import { saveWorkoutPlan } from "@/lib/plan-versions";
 import VideoModal from "./VideoModal";
+import ProgressionSuggestionHint from "./ProgressionSuggestionHint";
+import WorkoutPhasesEditor from "./WorkoutPhasesEditor";
+import ExerciseGroupingControls from "./ExerciseGroupingControls";
+import PlanVersionHistory from "./PlanVersionHistory";
 
 interface Exercise {
   id: string;
@@ -40,14 +65,20 @@ interface WorkoutExercise {
   sets: number;
   reps_min: number;
   reps_max: number;
+  weight_kg: number | null;
   rest_minutes: number;
   order_index: number;
+  group_key: string | null;
+  group_type: string | null;
+  technique: string | null;
+  tempo: string | null;
 }
 
 interface WorkoutSession {
   id?: string;
   name: string;
-  day_of_week: number;
+  // Dia da semana (modo semanal) ou posição no rodízio
+  slot: number;
   exercises: WorkoutExercise[];
   isNew?: boolean;
 }
@@ -58,6 +89,10 @@ interface WorkoutPlan {
   description?: string;
   frequency_per_week: number;
   duration_weeks: number;
+  start_date: string;
+  schedule_mode: ScheduleMode;
+  progression_settings: ProgressionSettings;
+  phases: WorkoutPhase[];
   sessions: WorkoutSession[];
 }
 
@@ -96,12 +131,18 @@ const WorkoutPlanEditor = ({
     description: workoutPlan?.description || "",
     frequency_per_week: workoutPlan?.frequency_per_week || 3,
     duration_weeks: workoutPlan?.duration_weeks || 4,
+    start_date: workoutPlan?.start_date || new Date().toISOString().split("T")[0],
+    schedule_mode: workoutPlan?.schedule_mode || "weekly",
+    progression_settings: DEFAULT_PROGRESSION_SETTINGS,
+    phases: [],
     sessions: []
   });
   const [activeTab, setActiveTab] = useState("plan");
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [selectedDaysToAdd, setSelectedDaysToAdd] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const { history } = useExerciseHistory(studentId);
   const [videoModal, setVideoModal] = useState<{
     isOpen: boolean;
     exerciseName: string;
@@ -141,32 +182,50 @@ const WorkoutPlanEditor = ({
     if (!workoutPlan?.id) return;
 
     try {
+      const { data: planRow } = await supabase
+        .from("workout_plans")
+        .select("progression_settings, start_date, schedule_mode")
+        .eq("id", workoutPlan.id)
+        .single();
+
+      const { data: phaseRows } = await supabase
+        .from("workout_plan_phases")
+        .select("*")
+        .eq("workout_plan_id", workoutPlan.id)
+        .order("start_week");
+
       const { data, error } = await supabase
         .from("workout_sessions")
         .select(`
           id,
           name,
           day_of_week,
+          order_index,
           workout_exercises(
             id,
             exercise_id,
             sets,
             reps_min,
             reps_max,
+            weight_kg,
             rest_seconds,
             order_index,
+            group_key,
+            group_type,
+            technique,
+            tempo,
             exercises(name)
           )
         `)
         .eq("workout_plan_id", workoutPlan.id)
-        .order("day_of_week");
+        .order("order_index");
 
       if (error) throw error;
 
       const sessions: WorkoutSession[] = (data || []).map(session => ({
         id: session.id,
         name: session.name,
-        day_of_week: session.day_of_week,
+        slot: session.day_of_week ?? session.order_index,
         exercises: (session.workout_exercises || []).map((ex: any) => ({
           id: ex.id,
           exercise_id: ex.exercise_id,
@@ -174,20 +233,37 @@ const WorkoutPlanEditor = ({
           sets: ex.sets,
           reps_min: ex.reps_min || 8,
           reps_max: ex.reps_max || 12,
+          weight_kg: ex.weight_kg,
           rest_minutes: Math.round((ex.rest_seconds || 60) / 60),
           order_index: ex.order_index,
+          group_key: ex.group_key,
+          group_type: ex.group_type,
+          technique: ex.technique,
+          tempo: ex.tempo,
         })).sort((a: any, b: any) => a.order_index - b.order_index)
       }));
 
-      setPlanData(prev => ({ ...prev, sessions }));
+      setPlanData(prev => ({
+        ...prev,
+        start_date: planRow?.start_date || prev.start_date,
+        schedule_mode: (planRow?.schedule_mode as ScheduleMode) || prev.schedule_mode,
+        progression_settings: parseProgressionSettings(planRow?.progression_settings),
+        phases: (phaseRows || []).map(parsePhase),
+        sessions
+      }));
     } catch (error) {
       console.error("Error loading workout sessions:", error);
     }
   };
 
   const addNewDay = () => {
+    if (planData.schedule_mode === "rotation") {
+      addRotationSession();
+      return;
+    }
+
     // Find the next available day
-    const usedDays = planData.sessions.map(s => s.day_of_week);
+    const usedDays = planData.sessions.map(s => s.slot);
     const availableDay = DAYS_OF_WEEK.find(day => !usedDays.includes(day.value));
     
     if (!availableDay) {
@@ -201,14 +277,14 @@ const WorkoutPlanEditor = ({
 
     const newSession: WorkoutSession = {
       name: `Treino ${availableDay.label}`,
-      day_of_week: availableDay.value,
+      slot: availableDay.value,
       exercises: [],
       isNew: true
     };
 
     setPlanData(prev => ({
       ...prev,
-      sessions: [...prev.sessions, newSession].sort((a, b) => a.day_of_week - b.day_of_week)
+      sessions: [...prev.sessions, newSession].sort((a, b) => a.slot - b.slot)
     }));
     
     setActiveTab(`session-${availableDay.value}`);
@@ -224,7 +300,7 @@ const WorkoutPlanEditor = ({
       return;
     }
 
-    const usedDays = planData.sessions.map(s => s.day_of_week);
+    const usedDays = planData.sessions.map(s => s.slot);
     const validDays = selectedDaysToAdd.filter(day => !usedDays.includes(day));
 
     if (validDays.length === 0) {
@@ -240,7 +316,7 @@ const WorkoutPlanEditor = ({
       const dayLabel = DAYS_OF_WEEK.find(d => d.value === dayValue)?.label || "Treino";
       return {
         name: `Treino ${dayLabel}`,
-        day_of_week: dayValue,
+        slot: dayValue,
         exercises: [],
         isNew: true
       };
@@ -248,7 +324,7 @@ const WorkoutPlanEditor = ({
 
     setPlanData(prev => ({
       ...prev,
-      sessions: [...prev.sessions, ...newSessions].sort((a, b) => a.day_of_week - b.day_of_week)
+      sessions: [...prev.sessions, ...newSessions].sort((a, b) => a.slot - b.slot)
     }));
 
     setSelectedDaysToAdd([]);
@@ -264,6 +340,47 @@ const WorkoutPlanEditor = ({
     });
   };
 
+  const addRotationSession = () => {
+    const slot = planData.sessions.length;
+
+    if (slot >= MAX_ROTATION_SESSIONS) {
+      toast({
+        title: "Limite atingido",
+        description: `O rodízio permite até ${MAX_ROTATION_SESSIONS} treinos.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPlanData(prev => ({
+      ...prev,
+      sessions: [...prev.sessions, { name: `Treino ${rotationLetter(slot)}`, slot, exercises: [], isNew: true }]
+    }));
+
+    setActiveTab(`session-${slot}`);
+  };
+
+  // Ao trocar de modo os treinos mantêm a ordem atual; no modo semanal
+  // ocupam os dias a partir de segunda-feira
+  const changeScheduleMode = (mode: ScheduleMode) => {
+    if (mode === planData.schedule_mode) return;
+
+    setPlanData(prev => ({
+      ...prev,
+      schedule_mode: mode,
+      sessions: [...prev.sessions]
+        .sort((a, b) => a.slot - b.slot)
+        .map((session, idx) => ({ ...session, slot: mode === "rotation" ? idx : (idx + 1) % 7 }))
+        .sort((a, b) => a.slot - b.slot)
+    }));
+    setActiveTab("plan");
+  };
+
+  const getSessionLabel = (session: WorkoutSession) =>
+    planData.schedule_mode === "rotation"
+      ? sessionSlotLabel({ day_of_week: null, order_index: session.slot })
+      : sessionSlotLabel({ day_of_week: session.slot, order_index: session.slot });
+
   const toggleDaySelection = (dayValue: number) => {
     setSelectedDaysToAdd(prev => 
       prev.includes(dayValue) 
@@ -273,32 +390,40 @@ const WorkoutPlanEditor = ({
   };
 
   const getAvailableDays = () => {
-    const usedDays = planData.sessions.map(s => s.day_of_week);
+    const usedDays = planData.sessions.map(s => s.slot);
     return DAYS_OF_WEEK.filter(day => !usedDays.includes(day.value));
   };
 
-  const updateSession = (dayOfWeek: number, updates: Partial<WorkoutSession>) => {
+  const updateSession = (slot: number, updates: Partial<WorkoutSession>) => {
     setPlanData(prev => ({
       ...prev,
       sessions: prev.sessions.map(session =>
-        session.day_of_week === dayOfWeek ? { ...session, ...updates } : session
+        session.slot === slot ? { ...session, ...updates } : session
       )
     }));
   };
 
-  const removeSession = (dayOfWeek: number) => {
-    setPlanData(prev => ({
-      ...prev,
-      sessions: prev.sessions.filter(session => session.day_of_week !== dayOfWeek)
-    }));
+  const removeSession = (slot: number) => {
+    const isRotation = planData.schedule_mode === "rotation";
+    setPlanData(prev => {
+      const remaining = prev.sessions.filter(session => session.slot !== slot);
+      return {
+        ...prev,
+        // No rodízio as posições seguintes sobem para manter a sequência A, B, C...
+        sessions: isRotation ? remaining.map((session, idx) => ({ ...session, slot: idx })) : remaining
+      };
+    });
+    if (isRotation) {
+      setActiveTab("plan");
+    }
     setActiveTab("plan");
   };
 
-  const addExerciseToSession = (dayOfWeek: number, exerciseId: string) => {
+  const addExerciseToSession = (slot: number, exerciseId: string) => {
     const exercise = exercises.find(e => e.id === exerciseId);
     if (!exercise) return;
 
-    const session = planData.sessions.find(s => s.day_of_week === dayOfWeek);
+    const session = planData.sessions.find(s => s.slot === slot);
     if (!session) return;
 
     const newExercise: WorkoutExercise = {
@@ -307,35 +432,92 @@ const WorkoutPlanEditor = ({
       sets: 3,
       reps_min: 8,
       reps_max: 12,
+      weight_kg: null,
       rest_minutes: 1,
       order_index: session.exercises.length,
+      group_key: null,
+      group_type: null,
+      technique: null,
+      tempo: null,
     };
 
-    updateSession(dayOfWeek, {
+    updateSession(slot, {
       exercises: [...session.exercises, newExercise].map((ex, idx) => ({ ...ex, order_index: idx }))
     });
   };
 
-  const updateExercise = (dayOfWeek: number, exerciseIndex: number, field: string, value: number) => {
-    const session = planData.sessions.find(s => s.day_of_week === dayOfWeek);
+  const updateExercise = (slot: number, exerciseIndex: number, field: string, value: number) => {
+    const session = planData.sessions.find(s => s.slot === slot);
     if (!session) return;
 
     const updatedExercises = session.exercises.map((ex, idx) => 
       idx === exerciseIndex ? { ...ex, [field]: value } : ex
     );
 
-    updateSession(dayOfWeek, { exercises: updatedExercises });
+    updateSession(slot, { exercises: updatedExercises });
+  };
+
+  const getSuggestion = (exercise: WorkoutExercise) => {
+    return suggestNextLoad(exercise, history[exercise.exercise_id] || [], planData.progression_settings);
+  };
+
+  const hasPendingSuggestion = (exercise: WorkoutExercise) => {
+    const suggestion = getSuggestion(exercise);
+    return !!suggestion?.weight_kg && suggestion.weight_kg !== Number(exercise.weight_kg || 0);
+  };
+
+  const pendingSuggestions = planData.sessions.reduce(
+    (total, session) => total + session.exercises.filter(hasPendingSuggestion).length,
+    0
+  );
+
+  const applySuggestion = (slot: number, exerciseIndex: number) => {
+    const session = planData.sessions.find(s => s.slot === slot);
+    const suggestion = session && getSuggestion(session.exercises[exerciseIndex]);
+    if (suggestion?.weight_kg) {
+      updateExercise(slot, exerciseIndex, 'weight_kg', suggestion.weight_kg);
+    }
+  };
+
+  const applyAllSuggestions = () => {
+    const applied = pendingSuggestions;
+
+    setPlanData(prev => ({
+      ...prev,
+      sessions: prev.sessions.map(session => ({
+        ...session,
+        exercises: session.exercises.map(ex => {
+          const suggestion = getSuggestion(ex);
+          return suggestion?.weight_kg ? { ...ex, weight_kg: suggestion.weight_kg } : ex;
+        })
+      }))
+    }));
+
+    toast({
+      title: "Sugestões aplicadas",
+      description: `${applied} exercício(s) atualizados. Salve o plano para confirmar.`,
+    });
   };
 
-  const removeExercise = (dayOfWeek: number, exerciseIndex: number) => {
-    const session = planData.sessions.find(s => s.day_of_week === dayOfWeek);
+  const updateProgressionSettings = (updates: Partial<ProgressionSettings>) => {
+    setPlanData(prev => ({
+      ...prev,
+      progression_settings: { ...prev.progression_settings, ...updates }
+    }));
+  };
+
+  const getGroupInfo = (session: WorkoutSession, exerciseIndex: number) =>
+    describeExerciseGroups(session.exercises)[exerciseIndex];
+
+  const removeExercise = (slot: number, exerciseIndex: number) => {
+    const session = planData.sessions.find(s => s.slot === slot);
     if (!session) return;
 
-    const updatedExercises = session.exercises
+    const updatedExercises = dissolveSingletons(session.exercises
       .filter((_, idx) => idx !== exerciseIndex)
-      .map((ex, idx) => ({ ...ex, order_index: idx }));
+      .map((ex, idx) => ({ ...ex, order_index: idx })));
 
-    updateSession(dayOfWeek, { exercises: updatedExercises });
+    updateSession(slot, { exercises: updatedExercises });
   };
 
   const handleSave = async () => {
@@ -357,101 +539,69 @@ const WorkoutPlanEditor = ({
       return;
     }
 
+    const invalidTempoSession = planData.sessions.find(session => session.exercises.some(ex => !isValidTempo(ex.tempo)));
+    if (invalidTempoSession) {
+      toast({
+        title: "Cadência inválida",
+        description: `Revise a cadência dos exercícios de ${getSessionLabel(invalidTempoSession)}. Use o formato 3-1-2-0 (números ou X).`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const phasesError = validatePhases(planData.phases, planData.duration_weeks);
+    if (phasesError) {
+      toast({
+        title: "Erro na periodização",
+        description: phasesError,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoading(true);
     
     try {
-      // Update workout plan
-      const { error: planError } = await supabase
-        .from("workout_plans")
-        .update({
-          name: planData.name,
-          description: planData.description,
-          frequency_per_week: planData.frequency_per_week,
-          duration_weeks: planData.duration_weeks,
-        })
-        .eq("id", planData.id);
-
-      if (planError) throw planError;
-
-      // Delete existing sessions that are not in current plan
-      const currentSessionIds = planData.sessions.filter(s => s.id).map(s => s.id);
-      
-      if (currentSessionIds.length > 0) {
-        const { error: deleteError } = await supabase
-          .from("workout_sessions")
-          .delete()
-          .eq("workout_plan_id", planData.id)
-          .not("id", "in", `(${currentSessionIds.join(",")})`);
-
-        if (deleteError) throw deleteError;
-      } else {
-        // Delete all sessions if no existing ones
-        const { error: deleteAllError } = await supabase
-          .from("workout_sessions")
-          .delete()
-          .eq("workout_plan_id", planData.id);
-
-        if (deleteAllError) throw deleteAllError;
-      }
-
-      // Insert or update sessions
-      for (const session of planData.sessions) {
-        let sessionId = session.id;
-
-        if (session.isNew || !session.id) {
-          // Insert new session
-          const { data: sessionData, error: sessionError } = await supabase
-            .from("workout_sessions")
-            .insert({
-              workout_plan_id: planData.id,
-              name: session.name,
-              day_of_week: session.day_of_week,
-            })
-            .select("id")
-            .single();
-
-          if (sessionError) throw sessionError;
-          sessionId = sessionData.id;
-        } else {
-          // Update existing session
-          const { error: sessionUpdateError } = await supabase
-            .from("workout_sessions")
-            .update({
-              name: session.name,
-              day_of_week: session.day_of_week,
-            })
-            .eq("id", session.id);
-
-          if (sessionUpdateError) throw sessionUpdateError;
-        }
-
-        // Delete existing exercises for this session
-        const { error: deleteExercisesError } = await supabase
-          .from("workout_exercises")
-          .delete()
-          .eq("workout_session_id", sessionId);
-
-        if (deleteExercisesError) throw deleteExercisesError;
-
-        // Insert exercises
-        if (session.exercises.length > 0) {
-          const exercisesToInsert = session.exercises.map(ex => ({
-            workout_session_id: sessionId,
+      // Plano, fases, sessões e exercícios são gravados com as versões de antes
+      // e depois em uma transação; os exercícios mantêm o id para as conclusões
+      // do aluno continuarem ligadas a eles
+      await saveWorkoutPlan(planData.id, {
+        name: planData.name,
+        description: planData.description || null,
+        start_date: planData.start_date,
+        duration_weeks: planData.duration_weeks,
+        frequency_per_week: planData.frequency_per_week,
+        schedule_mode: planData.schedule_mode,
+        progression_settings: { ...planData.progression_settings },
+        phases: planData.phases.map(phase => ({
+          name: phase.name,
+          goal: phase.goal,
+          start_week: phase.start_week,
+          end_week: phase.end_week,
+          week_modifiers: serializeModifiers(phase.week_modifiers),
+          notes: phase.notes || null,
+        })),
+        sessions: planData.sessions.map(session => ({
+          id: session.isNew ? null : session.id,
+          name: session.name,
+          day_of_week: planData.schedule_mode === "weekly" ? session.slot : null,
+          order_index: session.slot,
+          exercises: session.exercises.map(ex => ({
+            id: ex.id,
             exercise_id: ex.exercise_id,
             sets: ex.sets,
             reps_min: ex.reps_min,
             reps_max: ex.reps_max,
+            weight_kg: ex.weight_kg,
             rest_seconds: ex.rest_minutes * 60,
             order_index: ex.order_index,
-          }));
-
-          const { error: insertExercisesError } = await supabase
-            .from("workout_exercises")
-            .insert(exercisesToInsert);
-
-          if (insertExercisesError) throw insertExercisesError;
-        }
-      }
+            group_key: ex.group_key,
+            group_type: ex.group_type,
+            technique: ex.technique,
+            tempo: ex.tempo,
+          })),
+        })),
+      });
 
       toast({
         title: "Sucesso!",
@@ -508,6 +658,14 @@ const WorkoutPlanEditor = ({
               </div>
             </div>
             <div className="flex items-center gap-2 w-full sm:w-auto">
+              <Button 
+                variant="outline" 
+                onClick={() => setShowHistory(true)}
+                className="flex-1 sm:flex-none"
+              >
+                <History className="h-4 w-4 mr-2" />
+                Histórico
+              </Button>
               <Button 
                 variant="outline" 
                 onClick={onClose}
@@ -544,15 +702,15 @@ const WorkoutPlanEditor = ({
                 
                 {planData.sessions.map(session => (
                   <Button
-                    key={session.day_of_week}
-                    variant={activeTab === `session-${session.day_of_week}` ? "default" : "outline"}
+                    key={session.slot}
+                    variant={activeTab === `session-${session.slot}` ? "default" : "outline"}
                     size="default"
-                    onClick={() => setActiveTab(`session-${session.day_of_week}`)}
+                    onClick={() => setActiveTab(`session-${session.slot}`)}
                     className="flex items-center gap-2 min-w-fit px-4 py-2 h-10 relative"
                   >
                     <Dumbbell className="h-4 w-4" />
                     <span className="font-medium">
-                      {DAYS_OF_WEEK.find(d => d.value === session.day_of_week)?.label}
+                      {getSessionLabel(session)}
                     </span>
                     {session.exercises.length > 0 && (
                       <Badge variant="secondary" className="ml-1 text-xs px-1 py-0 h-5">
@@ -564,7 +722,7 @@ const WorkoutPlanEditor = ({
                       size="sm"
                       onClick={(e) => {
                         e.stopPropagation();
-                        removeSession(session.day_of_week);
+                        removeSession(session.slot);
                       }}
                       className="ml-2 h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
                     >
@@ -576,11 +734,13 @@ const WorkoutPlanEditor = ({
                 <Button
                   variant={activeTab === "add-days" ? "default" : "outline"}
                   size="default"
-                  onClick={() => setActiveTab("add-days")}
+                  onClick={() => planData.schedule_mode === "rotation" ? addRotationSession() : setActiveTab("add-days")}
                   className="flex items-center gap-2 min-w-fit px-4 py-2 h-10 border-dashed border-2 hover:border-primary"
                 >
                   <Plus className="h-4 w-4" />
-                  <span className="font-medium">Adicionar Dia</span>
+                  <span className="font-medium">
+                    {planData.schedule_mode === "rotation" ? "Adicionar Treino" : "Adicionar Dia"}
+                  </span>
                 </Button>
               </div>
             </div>
@@ -597,6 +757,30 @@ const WorkoutPlanEditor = ({
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Organização dos Treinos</Label>
+                  <Select
+                    value={planData.schedule_mode}
+                    onValueChange={(value) => changeScheduleMode(value as ScheduleMode)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(SCHEDULE_MODE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {planData.schedule_mode === "rotation" && (
+                    <p className="text-xs text-muted-foreground">
+                      O aluno segue a sequência dos treinos em qualquer dia da semana
+                    </p>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="frequency">Frequência Semanal</Label>
                   <Input
@@ -619,6 +803,16 @@ const WorkoutPlanEditor = ({
                     onChange={(e) => setPlanData(prev => ({ ...prev, duration_weeks: parseInt(e.target.value) || 1 }))}
                   />
                 </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="start_date">Data de Início</Label>
+                  <Input
+                    id="start_date"
+                    type="date"
+                    value={planData.start_date}
+                    onChange={(e) => setPlanData(prev => ({ ...prev, start_date: e.target.value }))}
+                  />
+                </div>
               </div>
 
               <div className="space-y-2">
@@ -631,8 +825,93 @@ const WorkoutPlanEditor = ({
                 />
               </div>
 
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <TrendingUp className="h-5 w-5 text-primary" />
+                      Progressão de Carga
+                    </CardTitle>
+                    {pendingSuggestions > 0 && (
+                      <Button type="button" variant="outline" size="sm" onClick={applyAllSuggestions}>
+                        Aceitar todas as sugestões ({pendingSuggestions})
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    As sugestões usam as séries registradas pelo aluno em cada exercício
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Regra</Label>
+                      <Select
+                        value={planData.progression_settings.rule}
+                        onValueChange={(value) => updateProgressionSettings({ rule: value as ProgressionRule })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PROGRESSION_RULE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {planData.progression_settings.rule === "double_progression" ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="increment_kg">Incremento (kg)</Label>
+                        <Input
+                          id="increment_kg"
+                          type="number"
+                          step="0.5"
+                          min="0.5"
+                          value={planData.progression_settings.increment_kg}
+                          onChange={(e) => updateProgressionSettings({ increment_kg: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="increase_percent">Aumento (%)</Label>
+                        <Input
+                          id="increase_percent"
+                          type="number"
+                          step="0.5"
+                          min="0.5"
+                          value={planData.progression_settings.increase_percent}
+                          onChange={(e) => updateProgressionSettings({ increase_percent: parseFloat(e.target.value) || 0 })}
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="deload_percent">Redução ao falhar (%)</Label>
+                      <Input
+                        id="deload_percent"
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={planData.progression_settings.deload_percent}
+                        onChange={(e) => updateProgressionSettings({ deload_percent: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <WorkoutPhasesEditor
+                phases={planData.phases}
+                durationWeeks={planData.duration_weeks}
+                onChange={(phases) => setPlanData(prev => ({ ...prev, phases }))}
+              />
+
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Dias de Treino ({planData.sessions.length})</h3>
+                <h3 className="text-lg font-semibold">
+                  {planData.schedule_mode === "rotation" ? "Treinos do Rodízio" : "Dias de Treino"} ({planData.sessions.length})
+                </h3>
                 {planData.sessions.length === 0 ? (
                   <Card className="border-dashed">
                     <CardContent className="text-center py-8">
@@ -647,25 +926,25 @@ const WorkoutPlanEditor = ({
                 ) : (
                   <div className="grid gap-2">
                     {planData.sessions.map(session => (
-                      <div key={session.day_of_week} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                      <div key={session.slot} className="flex items-center justify-between p-3 bg-muted rounded-lg">
                         <div>
                           <p className="font-medium">{session.name}</p>
                           <p className="text-sm text-muted-foreground">
-                            {DAYS_OF_WEEK.find(d => d.value === session.day_of_week)?.label} • {session.exercises.length} exercícios
+                            {getSessionLabel(session)} • {session.exercises.length} exercícios
                           </p>
                         </div>
                         <div className="flex gap-2">
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => setActiveTab(`session-${session.day_of_week}`)}
+                            onClick={() => setActiveTab(`session-${session.slot}`)}
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => removeSession(session.day_of_week)}
+                            onClick={() => removeSession(session.slot)}
                           >
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -781,17 +1060,17 @@ const WorkoutPlanEditor = ({
             </TabsContent>
 
             {planData.sessions.map(session => (
-              <TabsContent key={session.day_of_week} value={`session-${session.day_of_week}`} className="space-y-4">
+              <TabsContent key={session.slot} value={`session-${session.slot}`} className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div>
                     <h3 className="text-lg font-semibold">
-                      {DAYS_OF_WEEK.find(d => d.value === session.day_of_week)?.label}
+                      {getSessionLabel(session)}
                     </h3>
                     <p className="text-sm text-muted-foreground">{session.exercises.length} exercícios</p>
                   </div>
                   <Input
                     value={session.name}
-                    onChange={(e) => updateSession(session.day_of_week, { name: e.target.value })}
+                    onChange={(e) => updateSession(session.slot, { name: e.target.value })}
                     className="w-auto"
                   />
                 </div>
@@ -824,7 +1103,7 @@ const WorkoutPlanEditor = ({
                       {selectedCategory && (
                         <div className="space-y-2">
                           <Label>Exercício</Label>
-                          <Select onValueChange={(value) => addExerciseToSession(session.day_of_week, value)}>
+                          <Select onValueChange={(value) => addExerciseToSession(session.slot, value)}>
                             <SelectTrigger>
                               <SelectValue placeholder="Escolher exercício" />
                             </SelectTrigger>
@@ -851,66 +1130,95 @@ const WorkoutPlanEditor = ({
                     <CardContent>
                       <div className="space-y-3">
                         {session.exercises.map((exercise, idx) => (
-                          <div key={idx} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-2 lg:gap-3 items-end p-3 bg-muted rounded-lg">
-                            <div className="col-span-1 sm:col-span-2 lg:col-span-1">
-                              <Label className="text-xs font-medium">{exercise.exercise_name}</Label>
-                            </div>
-                            <div>
-                              <Label className="text-xs">Séries</Label>
-                              <Input
-                                type="number"
-                                value={exercise.sets}
-                                onChange={(e) => updateExercise(session.day_of_week, idx, 'sets', parseInt(e.target.value) || 0)}
-                                min="1"
-                                max="10"
-                                className="h-9"
-                              />
-                            </div>
-                            <div>
-                              <Label className="text-xs">Repetições</Label>
-                              <div className="flex gap-1">
+                          <div
+                            key={idx}
+                            className={`p-3 bg-muted rounded-lg space-y-2 ${getGroupInfo(session, idx).key ? "border-l-4 border-primary" : ""}`}
+                          >
+                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-2 lg:gap-3 items-end">
+                              <div className="col-span-1 sm:col-span-2 lg:col-span-1">
+                                <Label className="text-xs font-medium">
+                                  {exerciseLabel(getGroupInfo(session, idx), idx)}. {exercise.exercise_name}
+                                </Label>
+                              </div>
+                              <div>
+                                <Label className="text-xs">Séries</Label>
                                 <Input
                                   type="number"
-                                  value={exercise.reps_min}
-                                  onChange={(e) => updateExercise(session.day_of_week, idx, 'reps_min', parseInt(e.target.value) || 0)}
+                                  value={exercise.sets}
+                                  onChange={(e) => updateExercise(session.slot, idx, 'sets', parseInt(e.target.value) || 0)}
                                   min="1"
-                                  placeholder="Min"
+                                  max="10"
                                   className="h-9"
                                 />
+                              </div>
+                              <div>
+                                <Label className="text-xs">Repetições</Label>
+                                <div className="flex gap-1">
+                                  <Input
+                                    type="number"
+                                    value={exercise.reps_min}
+                                    onChange={(e) => updateExercise(session.slot, idx, 'reps_min', parseInt(e.target.value) || 0)}
+                                    min="1"
+                                    placeholder="Min"
+                                    className="h-9"
+                                  />
+                                  <Input
+                                    type="number"
+                                    value={exercise.reps_max}
+                                    onChange={(e) => updateExercise(session.slot, idx, 'reps_max', parseInt(e.target.value) || 0)}
+                                    min="1"
+                                    placeholder="Max"
+                                    className="h-9"
+                                  />
+                                </div>
+                              </div>
+                              <div>
+                                <Label className="text-xs">Carga (kg)</Label>
                                 <Input
                                   type="number"
-                                  value={exercise.reps_max}
-                                  onChange={(e) => updateExercise(session.day_of_week, idx, 'reps_max', parseInt(e.target.value) || 0)}
-                                  min="1"
-                                  placeholder="Max"
+                                  step="0.5"
+                                  value={exercise.weight_kg ?? ""}
+                                  onChange={(e) => updateExercise(session.slot, idx, 'weight_kg', parseFloat(e.target.value) || null)}
+                                  min="0"
+                                  placeholder="-"
                                   className="h-9"
                                 />
                               </div>
+                              <div>
+                                <Label className="text-xs">Descanso (min)</Label>
+                                <Input
+                                  type="number"
+                                  step="0.5"
+                                  placeholder="1"
+                                  value={exercise.rest_minutes}
+                                  onChange={(e) => updateExercise(session.slot, idx, 'rest_minutes', parseFloat(e.target.value) || 0)}
+                                  min="0"
+                                  className="h-9"
+                                />
+                              </div>
+                              <div className="flex justify-end sm:justify-start">
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => removeExercise(session.slot, idx)}
+                                  className="w-full sm:w-auto"
+                                >
+                                  <X className="h-4 w-4" />
+                                  <span className="ml-2 sm:hidden">Remover</span>
+                                </Button>
+                              </div>
                             </div>
-                            <div>
-                              <Label className="text-xs">Descanso (min)</Label>
-                              <Input
-                                type="number"
-                                step="0.5"
-                                placeholder="1"
-                                value={exercise.rest_minutes}
-                                onChange={(e) => updateExercise(session.day_of_week, idx, 'rest_minutes', parseFloat(e.target.value) || 0)}
-                                min="0"
-                                className="h-9"
-                              />
-                            </div>
-                            <div className="flex justify-end sm:justify-start">
-                              <Button
-                                type="button"
-                                variant="outline"
-                                size="sm"
-                                onClick={() => removeExercise(session.day_of_week, idx)}
-                                className="w-full sm:w-auto"
-                              >
-                                <X className="h-4 w-4" />
-                                <span className="ml-2 sm:hidden">Remover</span>
-                              </Button>
-                            </div>
+                            <ExerciseGroupingControls
+                              exercises={session.exercises}
+                              index={idx}
+                              onChange={(exercises) => updateSession(session.slot, { exercises })}
+                            />
+                            <ProgressionSuggestionHint
+                              suggestion={getSuggestion(exercise)}
+                              currentWeight={exercise.weight_kg}
+                              onApply={() => applySuggestion(session.slot, idx)}
+                            />
                           </div>
                         ))}
                       </div>
@@ -960,6 +1268,15 @@ const WorkoutPlanEditor = ({
         exerciseName={videoModal.exerciseName}
         youtubeUrl={videoModal.youtubeUrl}
       />
+
+      <PlanVersionHistory
+        isOpen={showHistory}
+        onClose={() => setShowHistory(false)}
+        kind="workout"
+        planId={planData.id}
+        planName={planData.name}
+        onRestored={onSuccess}
+      />
     </div>
   );
 };
@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, BookOpen, Search, Trash2, UserPlus } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  TEMPLATE_GOAL_LABELS,
+  TEMPLATE_LEVEL_LABELS,
+  TemplateGoal,
+  TemplateLevel,
+  WorkoutTemplate,
+  assignWorkoutTemplate,
+  filterTemplates,
+  templateSummary,
+} from "@/lib/workout-templates";
+
+interface WorkoutTemplateLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  trainerId: string;
+  // Quando informado, o modelo é aplicado direto a este aluno
+  studentId?: string;
+  onAssigned?: () => void;
+}
+
+const levelLabel = (level: string) => TEMPLATE_LEVEL_LABELS[level as TemplateLevel] ?? level;
+const goalLabel = (goal: string) => TEMPLATE_GOAL_LABELS[goal as TemplateGoal] ?? goal;
+
+const WorkoutTemplateLibrary = ({ isOpen, onClose, trainerId, studentId, onAssigned }: WorkoutTemplateLibraryProps) => {
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [students, setStudents] = useState<{ id: string; name: string }[]>([]);
+  const [query, setQuery] = useState("");
+  const [level, setLevel] = useState<TemplateLevel | "all">("all");
+  const [goal, setGoal] = useState<TemplateGoal | "all">("all");
+  const [assigning, setAssigning] = useState<WorkoutTemplate | null>(null);
+  const [selectedStudents, setSelectedStudents] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAssigning(null);
+    loadTemplates();
+    if (!studentId) loadStudents();
+  }, [isOpen]);
+
+  const loadTemplates = async () => {
+    const { data, error } = await supabase
+      .from("workout_templates")
+      .select("*")
+      .eq("personal_trainer_id", trainerId)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading workout templates:", error);
+      return;
+    }
+    setTemplates(data || []);
+  };
+
+  const loadStudents = async () => {
+    const { data, error } = await supabase
+      .from("students")
+      .select("id, name")
+      .eq("personal_trainer_id", trainerId)
+      .eq("active", true)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading students:", error);
+      return;
+    }
+    setStudents(data || []);
+  };
+
+  const assign = async (template: WorkoutTemplate, studentIds: string[]) => {
+    if (studentIds.length === 0) {
+      toast({ title: "Erro", description: "Selecione pelo menos um aluno.", variant: "destructive" });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const plans = await assignWorkoutTemplate(template.id, studentIds, startDate);
+      toast({
+        title: "Modelo aplicado",
+        description:
+          plans.length === 1
+            ? `"${template.name}" foi criado para o aluno.`
+            : `"${template.name}" foi criado para ${plans.length} alunos.`,
+      });
+      onAssigned?.();
+      onClose();
+    } catch (error) {
+      console.error("Error assigning workout template:", error);
+      toast({ title: "Erro", description: "Não foi possível aplicar o modelo.", variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUse = (template: WorkoutTemplate) => {
+    if (studentId) {
+      assign(template, [studentId]);
+      return;
+    }
+    setSelectedStudents([]);
+    setAssigning(template);
+  };
+
+  const handleDelete = async (template: WorkoutTemplate) => {
+    if (!confirm(`Excluir o modelo "${template.name}"? Treinos já criados a partir dele não são afetados.`)) return;
+
+    const { error } = await supabase.from("workout_templates").delete().eq("id", template.id);
+    if (error) {
+      console.error("Error deleting workout template:", error);
+      toast({ title: "Erro", description: "Não foi possível excluir o modelo.", variant: "destructive" });
+      return;
+    }
+    setTemplates((prev) => prev.filter((item) => item.id !== template.id));
+  };
+
+  const toggleStudent = (id: string, checked: boolean) => {
+    setSelectedStudents((prev) => (checked ? [...prev, id] : prev.filter((item) => item !== id)));
+  };
+
+  const visible = filterTemplates(templates, { query, level, goal });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            {assigning ? `Aplicar "${assigning.name}"` : "Biblioteca de modelos"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {assigning ? (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="template-start-date">Data de início</Label>
+              <Input
+                id="template-start-date"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Alunos</Label>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() =>
+                    setSelectedStudents(selectedStudents.length === students.length ? [] : students.map((s) => s.id))
+                  }
+                >
+                  {selectedStudents.length === students.length ? "Limpar seleção" : "Selecionar todos"}
+                </Button>
+              </div>
+              <div className="max-h-64 overflow-y-auto space-y-2 rounded-lg border p-3">
+                {students.map((student) => (
+                  <label key={student.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selectedStudents.includes(student.id)}
+                      onCheckedChange={(checked) => toggleStudent(student.id, checked === true)}
+                    />
+                    {student.name}
+                  </label>
+                ))}
+                {students.length === 0 && <p className="text-sm text-muted-foreground">Nenhum aluno ativo.</p>}
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Cada aluno recebe uma cópia independente do modelo, que pode ser ajustada depois.
+            </p>
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={() => setAssigning(null)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Voltar
+              </Button>
+              <Button onClick={() => assign(assigning, selectedStudents)} disabled={submitting}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                {submitting ? "Aplicando..." : `Aplicar a ${selectedStudents.length} aluno(s)`}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <div className="relative flex-1 min-w-[180px]">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  className="pl-8"
+                  placeholder="Buscar modelo"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              <Select value={level} onValueChange={(value) => setLevel(value as TemplateLevel | "all")}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os níveis</SelectItem>
+                  {(Object.keys(TEMPLATE_LEVEL_LABELS) as TemplateLevel[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {TEMPLATE_LEVEL_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={goal} onValueChange={(value) => setGoal(value as TemplateGoal | "all")}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos os objetivos</SelectItem>
+                  {(Object.keys(TEMPLATE_GOAL_LABELS) as TemplateGoal[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {TEMPLATE_GOAL_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {visible.map((template) => {
+              const summary = templateSummary(template.plan);
+              return (
+                <div key={template.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <p className="font-medium">{template.name}</p>
+                    {template.description && (
+                      <p className="text-sm text-muted-foreground">{template.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="secondary">{levelLabel(template.level)}</Badge>
+                      <Badge variant="outline">{goalLabel(template.goal)}</Badge>
+                      <Badge variant="outline">
+                        {summary.sessions} sessões · {summary.exercises} exercícios
+                      </Badge>
+                      {summary.durationWeeks && <Badge variant="outline">{summary.durationWeeks} semanas</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleUse(template)} disabled={submitting}>
+                      Usar
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(template)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {visible.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground py-6">
+                {templates.length === 0
+                  ? 'Nenhum modelo salvo ainda. Use "Salvar como modelo" em um treino para começar sua biblioteca.'
+                  : "Nenhum modelo encontrado com esses filtros."}
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkoutTemplateLibrary;
@@ -0,0 +1,178 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+import { toast } from "@/hooks/use-toast"
+
+export type PersonalTrainer = Tables<"personal_trainers">
+
+export type TrainerStatus = "signed_out" | "not_found" | "inactive" | "active"
+
+interface AuthContextValue {
+  session: Session | null
+  trainer: PersonalTrainer | null
+  status: TrainerStatus
+  isLoading: boolean
+  refreshTrainer: () => Promise<TrainerStatus>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = React.createContext<AuthContextValue | null>(null)
+
+// Finds the trainer row for the signed-in user. Trainers created by the super
+// admin before their first login are matched by email and linked here.
+async function fetchTrainer(session: Session): Promise<PersonalTrainer | null> {
+  const { data: linked, error } = await supabase
+    .from("personal_trainers")
+    .select("*")
+    .eq("auth_user_id", session.user.id)
+    .maybeSingle()
+
+  if (error) throw error
+  if (linked) return linked
+  if (!session.user.email) return null
+
+  const { data: byEmail } = await supabase
+    .from("personal_trainers")
+    .select("*")
+    .is("auth_user_id", null)
+    .eq("email", session.user.email)
+    .maybeSingle()
+
+  if (!byEmail) return null
+
+  const { error: linkError } = await supabase
+    .from("personal_trainers")
+    .update({ auth_user_id: session.user.id })
+    .eq("id", byEmail.id)
+
+  if (linkError) {
+    console.error("Error linking trainer to auth user:", linkError)
+  }
+
+  return { ...byEmail, auth_user_id: session.user.id }
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = React.useState<Session | null>(null)
+  const [trainer, setTrainer] = React.useState<PersonalTrainer | null>(null)
+  const [status, setStatus] = React.useState<TrainerStatus>("signed_out")
+  const [isLoading, setIsLoading] = React.useState(true)
+  const sessionRef = React.useRef<Session | null>(null)
+  const trainerRef = React.useRef<PersonalTrainer | null>(null)
+  const inFlightRef = React.useRef<{ token: string | null; promise: Promise<TrainerStatus> } | null>(null)
+
+  const applyTrainer = (next: PersonalTrainer | null, nextStatus: TrainerStatus) => {
+    trainerRef.current = next
+    setTrainer(next)
+    setStatus(nextStatus)
+    return nextStatus
+  }
+
+  const loadTrainer = async (current: Session): Promise<TrainerStatus> => {
+    try {
+      const found = await fetchTrainer(current)
+
+      if (!found) {
+        return applyTrainer(null, "not_found")
+      }
+
+      // A trainer deactivated by the super admin loses the session right away
+      if (!found.active) {
+        applyTrainer(null, "inactive")
+        await supabase.auth.signOut()
+        toast({
+          title: "Conta inativa",
+          description: "Sua conta está inativa. Entre em contato com o administrador.",
+          variant: "destructive",
+        })
+        return "inactive"
+      }
+
+      return applyTrainer(found, "active")
+    } catch (error) {
+      // Network errors keep the last known trainer instead of logging out
+      console.error("Error loading trainer:", error)
+      return trainerRef.current ? "active" : "not_found"
+    }
+  }
+
+  const resolveTrainer = (current: Session | null): Promise<TrainerStatus> => {
+    const token = current?.access_token ?? null
+
+    // Login and the SIGNED_IN event resolve the same session; share one lookup
+    if (inFlightRef.current && inFlightRef.current.token === token) {
+      return inFlightRef.current.promise
+    }
+
+    sessionRef.current = current
+    setSession(current)
+
+    const promise = current
+      ? loadTrainer(current)
+      : Promise.resolve(applyTrainer(null, "signed_out"))
+
+    inFlightRef.current = { token, promise }
+    promise.finally(() => {
+      if (inFlightRef.current?.promise === promise) {
+        inFlightRef.current = null
+      }
+    })
+
+    return promise
+  }
+
+  const resolveRef = React.useRef(resolveTrainer)
+  resolveRef.current = resolveTrainer
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      resolveRef.current(data.session).finally(() => setIsLoading(false))
+    })
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, newSession) => {
+      if (event === "INITIAL_SESSION") return
+      // Defer: Supabase warns against awaiting queries inside this callback
+      setTimeout(() => resolveRef.current(newSession), 0)
+    })
+
+    // Coming back to the tab re-checks whether the trainer is still active
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible" && sessionRef.current) {
+        resolveRef.current(sessionRef.current)
+      }
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange)
+
+    return () => {
+      subscription.unsubscribe()
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+    }
+  }, [])
+
+  const refreshTrainer = React.useCallback(async () => {
+    const { data } = await supabase.auth.getSession()
+    return resolveRef.current(data.session)
+  }, [])
+
+  const signOut = React.useCallback(async () => {
+    await supabase.auth.signOut()
+    await resolveRef.current(null)
+  }, [])
+
+  const value = React.useMemo(
+    () => ({ session, trainer, status, isLoading, refreshTrainer, signOut }),
+    [session, trainer, status, isLoading, refreshTrainer, signOut]
+  )
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export function useAuth() {
+  const context = React.useContext(AuthContext)
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.")
+  }
+  return context
+}
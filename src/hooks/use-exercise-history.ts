@@ -0,0 +1,50 @@
+import * as React from "react"
+import { supabase } from "@/integrations/supabase/client"
+import type { CompletionRecord } from "@/lib/progression"
+
+const HISTORY_LIMIT = 300
+
+// Histórico do aluno agrupado por exercício do catálogo (exercise_id), mais
+// recente primeiro. Agrupar pelo exercício e não pelo workout_exercise mantém
+// o histórico quando o personal monta um novo plano com o mesmo exercício; a
+// coluna exercise_id da conclusão mantém o registro mesmo se o item sair do plano.
+export function useExerciseHistory(studentId?: string | null) {
+  const [history, setHistory] = React.useState<Record<string, CompletionRecord[]>>({})
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  const reload = React.useCallback(async () => {
+    if (!studentId) return
+
+    setIsLoading(true)
+    try {
+      const { data, error } = await supabase
+        .from("exercise_completions")
+        .select("completed_at, reps_completed, weight_used, weights_used, exercise_id")
+        .eq("student_id", studentId)
+        .order("completed_at", { ascending: false })
+        .limit(HISTORY_LIMIT)
+
+      if (error) throw error
+
+      const grouped: Record<string, CompletionRecord[]> = {}
+      ;(data || []).forEach((row) => {
+        const exerciseId = row.exercise_id
+        if (!exerciseId) return
+        if (!grouped[exerciseId]) grouped[exerciseId] = []
+        grouped[exerciseId].push(row)
+      })
+      setHistory(grouped)
+    } catch (error) {
+      console.error("Error loading exercise history:", error)
+      setHistory({})
+    } finally {
+      setIsLoading(false)
+    }
+  }, [studentId])
+
+  React.useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { history, isLoading, reload }
+}
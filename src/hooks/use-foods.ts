@@ -0,0 +1,31 @@
+import * as React from "react"
+import { supabase } from "@/integrations/supabase/client"
+import type { Food } from "@/lib/foods"
+
+// Banco de alimentos visível ao personal: tabela TACO mais os alimentos que
+// ele cadastrou. É pequeno o bastante para carregar de uma vez e filtrar no cliente.
+export function useFoods() {
+  const [foods, setFoods] = React.useState<Food[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  const reload = React.useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const { data, error } = await supabase.from("foods").select("*").order("name")
+
+      if (error) throw error
+
+      setFoods(data || [])
+    } catch (error) {
+      console.error("Error loading foods:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { foods, isLoading, reload }
+}
@@ -0,0 +1,30 @@
+import * as React from "react"
+import { flushQueue, getSyncState, subscribeSync } from "@/lib/offline-sync"
+
+// Estado da conexão e da fila offline. Ao voltar a conexão (e ao abrir a
+// página) os registros pendentes são enviados automaticamente.
+export function useOfflineSync() {
+  const [syncState, setSyncState] = React.useState(getSyncState)
+  const [isOnline, setIsOnline] = React.useState(() => navigator.onLine)
+
+  React.useEffect(() => {
+    const unsubscribe = subscribeSync(setSyncState)
+    const handleOnline = () => {
+      setIsOnline(true)
+      flushQueue()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    flushQueue()
+
+    return () => {
+      unsubscribe()
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [])
+
+  return { ...syncState, isOnline, syncNow: flushQueue }
+}
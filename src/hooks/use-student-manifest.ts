@@ -0,0 +1,18 @@
+import * as React from "react"
+
+const STUDENT_MANIFEST = "/student-manifest.json"
+
+// Nas páginas do aluno o app instalado abre direto no plano dele
+// (start_url "/student"), e não na tela de login do personal.
+export function useStudentManifest() {
+  React.useEffect(() => {
+    const link = document.querySelector<HTMLLinkElement>('link[rel="manifest"]')
+    if (!link) return
+
+    const previous = link.getAttribute("href")
+    link.setAttribute("href", STUDENT_MANIFEST)
+    return () => {
+      if (previous) link.setAttribute("href", previous)
+    }
+  }, [])
+}
@@ -0,0 +1,43 @@
+import * as React from "react"
+
+// Mantém a tela ligada enquanto `active` for verdadeiro (Screen Wake Lock API).
+// O navegador libera o bloqueio quando a aba fica oculta, então ele é pedido
+// de novo quando a página volta a ficar visível.
+export function useWakeLock(active: boolean) {
+  const isSupported = typeof navigator !== "undefined" && "wakeLock" in navigator
+
+  React.useEffect(() => {
+    if (!active || !isSupported) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request("screen")
+        if (cancelled) {
+          lock.release()
+          return
+        }
+        sentinel = lock
+      } catch (error) {
+        console.warn("Wake lock unavailable:", error)
+      }
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") request()
+    }
+
+    request()
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      cancelled = true
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+      sentinel?.release().catch(() => undefined)
+    }
+  }, [active, isSupported])
+
+  return isSupported
+}
@@ -14,6 +14,147 @@ export type Database = {
   }
   public: {
     Tables: {
+      body_assessments: {
+        Row: {
+          arm_cm: number | null
+          assessed_on: string
+          body_fat_method: string
+          body_fat_percent: number | null
+          chest_cm: number | null
+          created_at: string
+          height_m: number | null
+          hip_cm: number | null
+          id: string
+          notes: string | null
+          personal_trainer_id: string
+          resting_heart_rate: number | null
+          skinfold_abdominal_mm: number | null
+          skinfold_chest_mm: number | null
+          skinfold_midaxillary_mm: number | null
+          skinfold_subscapular_mm: number | null
+          skinfold_suprailiac_mm: number | null
+          skinfold_thigh_mm: number | null
+          skinfold_triceps_mm: number | null
+          student_id: string
+          thigh_cm: number | null
+          updated_at: string
+          waist_cm: number | null
+          weight_kg: number | null
+        }
+        Insert: {
+          arm_cm?: number | null
+          assessed_on?: string
+          body_fat_method?: string
+          body_fat_percent?: number | null
+          chest_cm?: number | null
+          created_at?: string
+          height_m?: number | null
+          hip_cm?: number | null
+          id?: string
+          notes?: string | null
+          personal_trainer_id: string
+          resting_heart_rate?: number | null
+          skinfold_abdominal_mm?: number | null
+          skinfold_chest_mm?: number | null
+          skinfold_midaxillary_mm?: number | null
+          skinfold_subscapular_mm?: number | null
+          skinfold_suprailiac_mm?: number | null
+          skinfold_thigh_mm?: number | null
+          skinfold_triceps_mm?: number | null
+          student_id: string
+          thigh_cm?: number | null
+          updated_at?: string
+          waist_cm?: number | null
+          weight_kg?: number | null
+        }
+        Update: {
+          arm_cm?: number | null
+          assessed_on?: string
+          body_fat_method?: string
+          body_fat_percent?: number | null
+          chest_cm?: number | null
+          created_at?: string
+          height_m?: number | null
+          hip_cm?: number | null
+          id?: string
+          notes?: string | null
+          personal_trainer_id?: string
+          resting_heart_rate?: number | null
+          skinfold_abdominal_mm?: number | null
+          skinfold_chest_mm?: number | null
+          skinfold_midaxillary_mm?: number | null
+          skinfold_subscapular_mm?: number | null
+          skinfold_suprailiac_mm?: number | null
+          skinfold_thigh_mm?: number | null
+          skinfold_triceps_mm?: number | null
+          student_id?: string
+          thigh_cm?: number | null
+          updated_at?: string
+          waist_cm?: number | null
+          weight_kg?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "body_assessments_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "body_assessments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      diet_plan_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          diet_plan_id: string
+          id: string
+          note: string | null
+          snapshot: Json
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          diet_plan_id: string
+          id?: string
+          note?: string | null
+          snapshot: Json
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          diet_plan_id?: string
+          id?: string
+          note?: string | null
+          snapshot?: Json
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diet_plan_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "diet_plan_versions_diet_plan_id_fkey"
+            columns: ["diet_plan_id"]
+            isOneToOne: false
+            referencedRelation: "diet_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       diet_plans: {
         Row: {
           active: boolean
@@ -24,6 +165,7 @@ export type Database = {
           daily_protein: number | null
           description: string | null
           id: string
+          macro_tolerance_percent: number
           name: string
           personal_trainer_id: string
           student_id: string
@@ -38,6 +180,7 @@ export type Database = {
           daily_protein?: number | null
           description?: string | null
           id?: string
+          macro_tolerance_percent?: number
           name: string
           personal_trainer_id: string
           student_id: string
@@ -52,6 +195,7 @@ export type Database = {
           daily_protein?: number | null
           description?: string | null
           id?: string
+          macro_tolerance_percent?: number
           name?: string
           personal_trainer_id?: string
           student_id?: string
@@ -74,6 +218,44 @@ export type Database = {
           },
         ]
       }
+      diet_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          personal_trainer_id: string
+          plan: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          personal_trainer_id: string
+          plan: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          personal_trainer_id?: string
+          plan?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "diet_templates_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       exercise_categories: {
         Row: {
           created_at: string
@@ -98,35 +280,61 @@ export type Database = {
       exercise_completions: {
         Row: {
           completed_at: string
+          exercise_id: string | null
           id: string
           notes: string | null
+          plan_version_id: string | null
           reps_completed: number[] | null
           sets_completed: number | null
           student_id: string
           weight_used: number | null
-          workout_exercise_id: string
+          weights_used: number[] | null
+          workout_exercise_id: string | null
+          workout_log_id: string | null
         }
         Insert: {
           completed_at?: string
+          exercise_id?: string | null
           id?: string
           notes?: string | null
+          plan_version_id?: string | null
           reps_completed?: number[] | null
           sets_completed?: number | null
           student_id: string
           weight_used?: number | null
-          workout_exercise_id: string
+          weights_used?: number[] | null
+          workout_exercise_id?: string | null
+          workout_log_id?: string | null
         }
         Update: {
           completed_at?: string
+          exercise_id?: string | null
           id?: string
           notes?: string | null
+          plan_version_id?: string | null
           reps_completed?: number[] | null
           sets_completed?: number | null
           student_id?: string
           weight_used?: number | null
-          workout_exercise_id?: string
+          weights_used?: number[] | null
+          workout_exercise_id?: string | null
+          workout_log_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "exercise_completions_exercise_id_fkey"
+            columns: ["exercise_id"]
+            isOneToOne: false
+            referencedRelation: "exercises"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exercise_completions_plan_version_id_fkey"
+            columns: ["plan_version_id"]
+            isOneToOne: false
+            referencedRelation: "workout_plan_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "exercise_completions_student_id_fkey"
             columns: ["student_id"]
@@ -141,6 +349,13 @@ export type Database = {
             referencedRelation: "workout_exercises"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "exercise_completions_workout_log_id_fkey"
+            columns: ["workout_log_id"]
+            isOneToOne: false
+            referencedRelation: "workout_logs"
+            referencedColumns: ["id"]
+          },
         ]
       }
       exercises: {
@@ -197,27 +412,131 @@ export type Database = {
           },
         ]
       }
+      foods: {
+        Row: {
+          carbs_g: number
+          category: string | null
+          created_at: string
+          energy_kcal: number
+          fat_g: number
+          fiber_g: number | null
+          household_measures: Json
+          id: string
+          name: string
+          personal_trainer_id: string | null
+          protein_g: number
+          source: string
+        }
+        Insert: {
+          carbs_g?: number
+          category?: string | null
+          created_at?: string
+          energy_kcal: number
+          fat_g?: number
+          fiber_g?: number | null
+          household_measures?: Json
+          id?: string
+          name: string
+          personal_trainer_id?: string | null
+          protein_g?: number
+          source?: string
+        }
+        Update: {
+          carbs_g?: number
+          category?: string | null
+          created_at?: string
+          energy_kcal?: number
+          fat_g?: number
+          fiber_g?: number | null
+          household_measures?: Json
+          id?: string
+          name?: string
+          personal_trainer_id?: string | null
+          protein_g?: number
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "foods_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      habit_logs: {
+        Row: {
+          amount: number
+          created_at: string
+          habit_id: string
+          id: string
+          logged_on: string
+          student_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          habit_id: string
+          id?: string
+          logged_on?: string
+          student_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          habit_id?: string
+          id?: string
+          logged_on?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "habit_logs_habit_id_fkey"
+            columns: ["habit_id"]
+            isOneToOne: false
+            referencedRelation: "student_habits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "habit_logs_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meal_completions: {
         Row: {
           completed_at: string
           id: string
           meal_id: string
           notes: string | null
+          photo_path: string | null
+          plan_version_id: string | null
           student_id: string
+          substitutions: Json
         }
         Insert: {
           completed_at?: string
           id?: string
           meal_id: string
           notes?: string | null
+          photo_path?: string | null
+          plan_version_id?: string | null
           student_id: string
+          substitutions?: Json
         }
         Update: {
           completed_at?: string
           id?: string
           meal_id?: string
           notes?: string | null
+          photo_path?: string | null
+          plan_version_id?: string | null
           student_id?: string
+          substitutions?: Json
         }
         Relationships: [
           {
@@ -227,6 +546,13 @@ export type Database = {
             referencedRelation: "meals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "meal_completions_plan_version_id_fkey"
+            columns: ["plan_version_id"]
+            isOneToOne: false
+            referencedRelation: "diet_plan_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "meal_completions_student_id_fkey"
             columns: ["student_id"]
@@ -236,12 +562,139 @@ export type Database = {
           },
         ]
       }
+      meal_food_logs: {
+        Row: {
+          calories: number
+          carbs: number
+          created_at: string
+          fat: number
+          food_name: string
+          id: string
+          meal_completion_id: string
+          meal_food_id: string | null
+          off_plan: boolean
+          portion_percent: number
+          protein: number
+          quantity: number | null
+          unit: string | null
+        }
+        Insert: {
+          calories?: number
+          carbs?: number
+          created_at?: string
+          fat?: number
+          food_name: string
+          id?: string
+          meal_completion_id: string
+          meal_food_id?: string | null
+          off_plan?: boolean
+          portion_percent?: number
+          protein?: number
+          quantity?: number | null
+          unit?: string | null
+        }
+        Update: {
+          calories?: number
+          carbs?: number
+          created_at?: string
+          fat?: number
+          food_name?: string
+          id?: string
+          meal_completion_id?: string
+          meal_food_id?: string | null
+          off_plan?: boolean
+          portion_percent?: number
+          protein?: number
+          quantity?: number | null
+          unit?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_food_logs_meal_completion_id_fkey"
+            columns: ["meal_completion_id"]
+            isOneToOne: false
+            referencedRelation: "meal_completions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_food_logs_meal_food_id_fkey"
+            columns: ["meal_food_id"]
+            isOneToOne: false
+            referencedRelation: "meal_foods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      meal_food_substitutions: {
+        Row: {
+          calories: number | null
+          carbs: number | null
+          created_at: string
+          fat: number | null
+          food_id: string | null
+          food_name: string
+          id: string
+          match_by: string
+          meal_food_id: string
+          order_index: number
+          protein: number | null
+          quantity: number
+          unit: string
+        }
+        Insert: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          food_id?: string | null
+          food_name: string
+          id?: string
+          match_by?: string
+          meal_food_id: string
+          order_index?: number
+          protein?: number | null
+          quantity: number
+          unit: string
+        }
+        Update: {
+          calories?: number | null
+          carbs?: number | null
+          created_at?: string
+          fat?: number | null
+          food_id?: string | null
+          food_name?: string
+          id?: string
+          match_by?: string
+          meal_food_id?: string
+          order_index?: number
+          protein?: number | null
+          quantity?: number
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meal_food_substitutions_food_id_fkey"
+            columns: ["food_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meal_food_substitutions_meal_food_id_fkey"
+            columns: ["meal_food_id"]
+            isOneToOne: false
+            referencedRelation: "meal_foods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meal_foods: {
         Row: {
           calories: number | null
           carbs: number | null
           created_at: string
           fat: number | null
+          food_id: string | null
           food_name: string
           id: string
           meal_id: string
@@ -255,6 +708,7 @@ export type Database = {
           carbs?: number | null
           created_at?: string
           fat?: number | null
+          food_id?: string | null
           food_name: string
           id?: string
           meal_id: string
@@ -268,6 +722,7 @@ export type Database = {
           carbs?: number | null
           created_at?: string
           fat?: number | null
+          food_id?: string | null
           food_name?: string
           id?: string
           meal_id?: string
@@ -277,6 +732,13 @@ export type Database = {
           unit?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "meal_foods_food_id_fkey"
+            columns: ["food_id"]
+            isOneToOne: false
+            referencedRelation: "foods"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "meal_foods_meal_id_fkey"
             columns: ["meal_id"]
@@ -366,9 +828,171 @@ export type Database = {
         }
         Relationships: []
       }
-      students: {
+      progress_photos: {
         Row: {
-          active: boolean
+          assessment_id: string | null
+          created_at: string
+          id: string
+          personal_trainer_id: string
+          pose: string
+          storage_path: string
+          student_id: string
+          taken_on: string
+        }
+        Insert: {
+          assessment_id?: string | null
+          created_at?: string
+          id?: string
+          personal_trainer_id: string
+          pose: string
+          storage_path: string
+          student_id: string
+          taken_on?: string
+        }
+        Update: {
+          assessment_id?: string | null
+          created_at?: string
+          id?: string
+          personal_trainer_id?: string
+          pose?: string
+          storage_path?: string
+          student_id?: string
+          taken_on?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "progress_photos_assessment_id_fkey"
+            columns: ["assessment_id"]
+            isOneToOne: false
+            referencedRelation: "body_assessments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "progress_photos_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "progress_photos_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_access_links: {
+        Row: {
+          created_at: string
+          expires_at: string
+          failed_pin_attempts: number
+          has_pin: boolean
+          id: string
+          last_used_at: string | null
+          personal_trainer_id: string
+          pin_hash: string | null
+          revoked_at: string | null
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          failed_pin_attempts?: number
+          id?: string
+          last_used_at?: string | null
+          personal_trainer_id: string
+          pin_hash?: string | null
+          revoked_at?: string | null
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          failed_pin_attempts?: number
+          id?: string
+          last_used_at?: string | null
+          personal_trainer_id?: string
+          pin_hash?: string | null
+          revoked_at?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_access_links_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_access_links_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_habits: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          kind: string
+          name: string
+          order_index: number
+          personal_trainer_id: string
+          student_id: string
+          target: number
+          unit: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          kind: string
+          name: string
+          order_index?: number
+          personal_trainer_id: string
+          student_id: string
+          target: number
+          unit: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          kind?: string
+          name?: string
+          order_index?: number
+          personal_trainer_id?: string
+          student_id?: string
+          target?: number
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_habits_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_habits_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      students: {
+        Row: {
+          active: boolean
+          activity_level: string | null
           birth_date: string | null
           created_at: string
           email: string | null
@@ -379,6 +1003,7 @@ export type Database = {
           name: string
           personal_trainer_id: string
           phone: string | null
+          sex: string | null
           student_number: string | null
           unique_link_token: string
           updated_at: string
@@ -386,6 +1011,7 @@ export type Database = {
         }
         Insert: {
           active?: boolean
+          activity_level?: string | null
           birth_date?: string | null
           created_at?: string
           email?: string | null
@@ -396,6 +1022,7 @@ export type Database = {
           name: string
           personal_trainer_id: string
           phone?: string | null
+          sex?: string | null
           student_number?: string | null
           unique_link_token: string
           updated_at?: string
@@ -403,6 +1030,7 @@ export type Database = {
         }
         Update: {
           active?: boolean
+          activity_level?: string | null
           birth_date?: string | null
           created_at?: string
           email?: string | null
@@ -413,6 +1041,7 @@ export type Database = {
           name?: string
           personal_trainer_id?: string
           phone?: string | null
+          sex?: string | null
           student_number?: string | null
           unique_link_token?: string
           updated_at?: string
@@ -428,10 +1057,42 @@ export type Database = {
           },
         ]
       }
+      super_admins: {
+        Row: {
+          auth_user_id: string | null
+          created_at: string
+          email: string
+          granted_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          auth_user_id?: string | null
+          created_at?: string
+          email: string
+          granted_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Update: {
+          auth_user_id?: string | null
+          created_at?: string
+          email?: string
+          granted_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       workout_exercises: {
         Row: {
           created_at: string
           exercise_id: string
+          group_key: string | null
+          group_type: string | null
           id: string
           notes: string | null
           order_index: number
@@ -439,12 +1100,16 @@ export type Database = {
           reps_min: number | null
           rest_seconds: number | null
           sets: number
+          technique: string | null
+          tempo: string | null
           weight_kg: number | null
           workout_session_id: string
         }
         Insert: {
           created_at?: string
           exercise_id: string
+          group_key?: string | null
+          group_type?: string | null
           id?: string
           notes?: string | null
           order_index: number
@@ -452,12 +1117,16 @@ export type Database = {
           reps_min?: number | null
           rest_seconds?: number | null
           sets?: number
+          technique?: string | null
+          tempo?: string | null
           weight_kg?: number | null
           workout_session_id: string
         }
         Update: {
           created_at?: string
           exercise_id?: string
+          group_key?: string | null
+          group_type?: string | null
           id?: string
           notes?: string | null
           order_index?: number
@@ -465,6 +1134,8 @@ export type Database = {
           reps_min?: number | null
           rest_seconds?: number | null
           sets?: number
+          technique?: string | null
+          tempo?: string | null
           weight_kg?: number | null
           workout_session_id?: string
         }
@@ -485,6 +1156,162 @@ export type Database = {
           },
         ]
       }
+      workout_logs: {
+        Row: {
+          created_at: string
+          difficulty: string | null
+          duration_seconds: number
+          feedback: string | null
+          finished_at: string
+          id: string
+          pain_reports: Json
+          plan_version_id: string | null
+          rpe: number | null
+          started_at: string
+          student_id: string
+          workout_session_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          difficulty?: string | null
+          duration_seconds: number
+          feedback?: string | null
+          finished_at?: string
+          id?: string
+          pain_reports?: Json
+          plan_version_id?: string | null
+          rpe?: number | null
+          started_at: string
+          student_id: string
+          workout_session_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          difficulty?: string | null
+          duration_seconds?: number
+          feedback?: string | null
+          finished_at?: string
+          id?: string
+          pain_reports?: Json
+          plan_version_id?: string | null
+          rpe?: number | null
+          started_at?: string
+          student_id?: string
+          workout_session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_logs_plan_version_id_fkey"
+            columns: ["plan_version_id"]
+            isOneToOne: false
+            referencedRelation: "workout_plan_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_logs_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_logs_workout_session_id_fkey"
+            columns: ["workout_session_id"]
+            isOneToOne: false
+            referencedRelation: "workout_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_plan_phases: {
+        Row: {
+          created_at: string
+          end_week: number
+          goal: string
+          id: string
+          name: string
+          notes: string | null
+          start_week: number
+          week_modifiers: Json
+          workout_plan_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_week: number
+          goal?: string
+          id?: string
+          name: string
+          notes?: string | null
+          start_week: number
+          week_modifiers?: Json
+          workout_plan_id: string
+        }
+        Update: {
+          created_at?: string
+          end_week?: number
+          goal?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          start_week?: number
+          week_modifiers?: Json
+          workout_plan_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_plan_phases_workout_plan_id_fkey"
+            columns: ["workout_plan_id"]
+            isOneToOne: false
+            referencedRelation: "workout_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_plan_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          snapshot: Json
+          version_number: number
+          workout_plan_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          snapshot: Json
+          version_number: number
+          workout_plan_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          snapshot?: Json
+          version_number?: number
+          workout_plan_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_plan_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_plan_versions_workout_plan_id_fkey"
+            columns: ["workout_plan_id"]
+            isOneToOne: false
+            referencedRelation: "workout_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workout_plans: {
         Row: {
           active: boolean
@@ -495,6 +1322,9 @@ export type Database = {
           id: string
           name: string
           personal_trainer_id: string
+          progression_settings: Json
+          schedule_mode: string
+          start_date: string
           student_id: string
           updated_at: string
         }
@@ -507,6 +1337,9 @@ export type Database = {
           id?: string
           name: string
           personal_trainer_id: string
+          progression_settings?: Json
+          schedule_mode?: string
+          start_date?: string
           student_id: string
           updated_at?: string
         }
@@ -519,6 +1352,9 @@ export type Database = {
           id?: string
           name?: string
           personal_trainer_id?: string
+          progression_settings?: Json
+          schedule_mode?: string
+          start_date?: string
           student_id?: string
           updated_at?: string
         }
@@ -549,26 +1385,29 @@ export type Database = {
       workout_sessions: {
         Row: {
           created_at: string
-          day_of_week: number
+          day_of_week: number | null
           description: string | null
           id: string
           name: string
+          order_index: number
           workout_plan_id: string
         }
         Insert: {
           created_at?: string
-          day_of_week: number
+          day_of_week?: number | null
           description?: string | null
           id?: string
           name: string
+          order_index?: number
           workout_plan_id: string
         }
         Update: {
           created_at?: string
-          day_of_week?: number
+          day_of_week?: number | null
           description?: string | null
           id?: string
           name?: string
+          order_index?: number
           workout_plan_id?: string
         }
         Relationships: [
@@ -581,11 +1420,99 @@ export type Database = {
           },
         ]
       }
+      workout_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          goal: string
+          id: string
+          level: string
+          name: string
+          personal_trainer_id: string
+          plan: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          goal?: string
+          id?: string
+          level?: string
+          name: string
+          personal_trainer_id: string
+          plan: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          goal?: string
+          id?: string
+          level?: string
+          name?: string
+          personal_trainer_id?: string
+          plan?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_templates_personal_trainer_id_fkey"
+            columns: ["personal_trainer_id"]
+            isOneToOne: false
+            referencedRelation: "personal_trainers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assign_workout_template: {
+        Args: {
+          plan_start_date?: string
+          student_ids: string[]
+          template_id: string
+        }
+        Returns: string[]
+      }
+      copy_diet_plan: {
+        Args: {
+          new_name?: string
+          source_plan_id: string
+          target_student_id?: string
+        }
+        Returns: string
+      }
+      copy_workout_plan: {
+        Args: {
+          new_name?: string
+          source_plan_id: string
+          target_student_id?: string
+        }
+        Returns: string
+      }
+      create_diet_plan: {
+        Args: { plan: Json }
+        Returns: string
+      }
+      create_diet_plan_version: {
+        Args: { plan_id: string; version_note?: string }
+        Returns: string
+      }
+      create_workout_plan: {
+        Args: { plan: Json }
+        Returns: string
+      }
+      create_workout_plan_version: {
+        Args: { plan_id: string; version_note?: string }
+        Returns: string
+      }
+      diet_plan_snapshot: {
+        Args: { plan_id: string }
+        Returns: Json
+      }
       generate_student_link_token: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -594,10 +1521,50 @@ export type Database = {
         Args: { context_key: string }
         Returns: string
       }
+      grant_super_admin: {
+        Args: { target_email: string }
+        Returns: {
+          auth_user_id: string | null
+          created_at: string
+          email: string
+          granted_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+      }
+      is_super_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
       is_trainer_or_student_access: {
         Args: { student_id: string; trainer_id: string }
         Returns: boolean
       }
+      restore_diet_plan_version: {
+        Args: { version_id: string }
+        Returns: string
+      }
+      restore_workout_plan_version: {
+        Args: { version_id: string }
+        Returns: string
+      }
+      revoke_super_admin: {
+        Args: { target_admin_id: string }
+        Returns: undefined
+      }
+      save_workout_plan: {
+        Args: { plan: Json; plan_id: string }
+        Returns: string
+      }
+      save_workout_session: {
+        Args: { exercises: Json; session_id: string }
+        Returns: string
+      }
+      save_workout_session_exercises: {
+        Args: { exercise_docs: Json; target_session_id: string }
+        Returns: undefined
+      }
       set_student_context: {
         Args: { student_number?: string; student_token?: string }
         Returns: Json
@@ -606,6 +1573,10 @@ export type Database = {
         Args: { student_num: string }
         Returns: Json
       }
+      workout_plan_snapshot: {
+        Args: { plan_id: string }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
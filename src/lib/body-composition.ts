@@ -0,0 +1,112 @@
+export type Sex = "male" | "female"
+
+export type BodyFatMethod = "jackson_pollock_3" | "jackson_pollock_7" | "manual"
+
+export type SkinfoldSite =
+  | "chest"
+  | "abdominal"
+  | "thigh"
+  | "triceps"
+  | "subscapular"
+  | "suprailiac"
+  | "midaxillary"
+
+export type Skinfolds = Partial<Record<SkinfoldSite, number | null>>
+
+export const BODY_FAT_METHOD_LABELS: Record<BodyFatMethod, string> = {
+  jackson_pollock_3: "Jackson-Pollock 3 dobras",
+  jackson_pollock_7: "Jackson-Pollock 7 dobras",
+  manual: "Informado manualmente",
+}
+
+export const SKINFOLD_LABELS: Record<SkinfoldSite, string> = {
+  chest: "Peitoral",
+  abdominal: "Abdominal",
+  thigh: "Coxa",
+  triceps: "Tríceps",
+  subscapular: "Subescapular",
+  suprailiac: "Suprailíaca",
+  midaxillary: "Axilar média",
+}
+
+// O protocolo de 3 dobras usa locais diferentes para homens e mulheres
+export const JACKSON_POLLOCK_3_SITES: Record<Sex, SkinfoldSite[]> = {
+  male: ["chest", "abdominal", "thigh"],
+  female: ["triceps", "suprailiac", "thigh"],
+}
+
+export const JACKSON_POLLOCK_7_SITES: SkinfoldSite[] = [
+  "chest",
+  "midaxillary",
+  "triceps",
+  "subscapular",
+  "abdominal",
+  "suprailiac",
+  "thigh",
+]
+
+export function requiredSkinfolds(method: BodyFatMethod, sex: Sex): SkinfoldSite[] {
+  if (method === "jackson_pollock_3") return JACKSON_POLLOCK_3_SITES[sex]
+  if (method === "jackson_pollock_7") return JACKSON_POLLOCK_7_SITES
+  return []
+}
+
+function sumSkinfolds(skinfolds: Skinfolds, sites: SkinfoldSite[]) {
+  let total = 0
+  for (const site of sites) {
+    const value = Number(skinfolds[site])
+    if (!value || value <= 0) return null
+    total += value
+  }
+  return total
+}
+
+// Densidade corporal pelas equações generalizadas de Jackson & Pollock (1978/1980)
+export function bodyDensity(method: BodyFatMethod, sex: Sex, age: number, skinfolds: Skinfolds) {
+  const sites = requiredSkinfolds(method, sex)
+  if (sites.length === 0 || !age || age <= 0) return null
+
+  const sum = sumSkinfolds(skinfolds, sites)
+  if (sum === null) return null
+
+  if (method === "jackson_pollock_3") {
+    return sex === "male"
+      ? 1.10938 - 0.0008267 * sum + 0.0000016 * sum * sum - 0.0002574 * age
+      : 1.0994921 - 0.0009929 * sum + 0.0000023 * sum * sum - 0.0001392 * age
+  }
+
+  return sex === "male"
+    ? 1.112 - 0.00043499 * sum + 0.00000055 * sum * sum - 0.00028826 * age
+    : 1.097 - 0.00046971 * sum + 0.00000056 * sum * sum - 0.00012828 * age
+}
+
+// Percentual de gordura pela equação de Siri, arredondado a uma casa decimal
+export function bodyFatPercent(method: BodyFatMethod, sex: Sex, age: number, skinfolds: Skinfolds) {
+  const density = bodyDensity(method, sex, age, skinfolds)
+  if (!density) return null
+
+  const percent = 495 / density - 450
+  if (!Number.isFinite(percent) || percent <= 0 || percent >= 100) return null
+  return Math.round(percent * 10) / 10
+}
+
+export function ageOn(birthDate: string, onDate: string) {
+  const birth = new Date(birthDate)
+  const on = new Date(onDate)
+  let age = on.getFullYear() - birth.getFullYear()
+  const monthDiff = on.getMonth() - birth.getMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && on.getDate() < birth.getDate())) {
+    age--
+  }
+  return age
+}
+
+export function bmi(weightKg?: number | null, heightM?: number | null) {
+  if (!weightKg || !heightM) return null
+  return Math.round((weightKg / (heightM * heightM)) * 10) / 10
+}
+
+export function leanMassKg(weightKg?: number | null, fatPercent?: number | null) {
+  if (!weightKg || fatPercent === null || fatPercent === undefined) return null
+  return Math.round(weightKg * (1 - fatPercent / 100) * 10) / 10
+}
@@ -0,0 +1,107 @@
+export type MacroKey = "calories" | "protein" | "carbs" | "fat"
+
+export type MacroTotals = Record<MacroKey, number>
+
+export type DietTargets = Partial<Record<MacroKey, number | null>>
+
+// Fora da tolerância: "under" abaixo da meta, "over" acima; "none" sem meta definida
+export type MacroStatus = "under" | "ok" | "over" | "none"
+
+export interface MacroComparison {
+  actual: number
+  target: number | null
+  // Diferença em relação à meta, em % (positivo = acima)
+  diffPercent: number | null
+  status: MacroStatus
+}
+
+export const MACRO_KEYS: MacroKey[] = ["calories", "protein", "carbs", "fat"]
+
+export const MACRO_LABELS: Record<MacroKey, string> = {
+  calories: "Calorias",
+  protein: "Proteína",
+  carbs: "Carboidratos",
+  fat: "Gorduras",
+}
+
+export const DEFAULT_MACRO_TOLERANCE = 10
+
+export function formatMacro(key: MacroKey, value: number) {
+  return key === "calories" ? `${Math.round(value)} kcal` : `${Math.round(value * 10) / 10}g`
+}
+
+// kcal por grama (fatores de Atwater)
+const KCAL_PER_GRAM = { protein: 4, carbs: 4, fat: 9 }
+
+export const EMPTY_MACROS: MacroTotals = { calories: 0, protein: 0, carbs: 0, fat: 0 }
+
+export function sumMacros(foods: Partial<Record<MacroKey, number | null>>[] | null | undefined): MacroTotals {
+  return (foods || []).reduce<MacroTotals>(
+    (total, food) => ({
+      calories: total.calories + (food.calories || 0),
+      protein: total.protein + (food.protein || 0),
+      carbs: total.carbs + (food.carbs || 0),
+      fat: total.fat + (food.fat || 0),
+    }),
+    EMPTY_MACROS
+  )
+}
+
+export function addMacros(a: MacroTotals, b: MacroTotals): MacroTotals {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    carbs: a.carbs + b.carbs,
+    fat: a.fat + b.fat,
+  }
+}
+
+export function compareMacro(actual: number, target: number | null | undefined, tolerancePercent: number): MacroComparison {
+  if (!target || target <= 0) {
+    return { actual, target: null, diffPercent: null, status: "none" }
+  }
+  const diffPercent = Math.round(((actual - target) / target) * 100)
+  const status = Math.abs(diffPercent) <= tolerancePercent ? "ok" : diffPercent > 0 ? "over" : "under"
+  return { actual, target, diffPercent, status }
+}
+
+export function compareWithTargets(totals: MacroTotals, targets: DietTargets, tolerancePercent: number) {
+  return Object.fromEntries(
+    MACRO_KEYS.map((key) => [key, compareMacro(totals[key], targets[key], tolerancePercent)])
+  ) as Record<MacroKey, MacroComparison>
+}
+
+/** Macros fora da tolerância, prontos para o alerta antes de salvar. */
+export function describeDeviations(comparisons: Record<MacroKey, MacroComparison>) {
+  return MACRO_KEYS.filter((key) => comparisons[key].status === "over" || comparisons[key].status === "under").map(
+    (key) => {
+      const { diffPercent } = comparisons[key]
+      return `${MACRO_LABELS[key]}: ${diffPercent! > 0 ? "+" : ""}${diffPercent}%`
+    }
+  )
+}
+
+/** Participação de cada macronutriente nas calorias (para o gráfico de divisão). */
+export function macroEnergySplit(totals: MacroTotals) {
+  const energy = {
+    protein: totals.protein * KCAL_PER_GRAM.protein,
+    carbs: totals.carbs * KCAL_PER_GRAM.carbs,
+    fat: totals.fat * KCAL_PER_GRAM.fat,
+  }
+  const total = energy.protein + energy.carbs + energy.fat
+  return (Object.keys(energy) as (keyof typeof energy)[]).map((key) => ({
+    key,
+    kcal: Math.round(energy[key]),
+    percent: total > 0 ? Math.round((energy[key] / total) * 100) : 0,
+  }))
+}
+
+/** Quanto da meta diária uma refeição cobre, em %. */
+export function shareOfTarget(value: number, target: number | null | undefined) {
+  return target && target > 0 ? Math.round((value / target) * 100) : null
+}
+
+export function parseTolerance(value: string | number | null | undefined) {
+  const parsed = typeof value === "number" ? value : parseInt(value || "", 10)
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100 ? parsed : DEFAULT_MACRO_TOLERANCE
+}
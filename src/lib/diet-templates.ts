@@ -0,0 +1,175 @@
+import { supabase } from "@/integrations/supabase/client"
+import type { Json, Tables } from "@/integrations/supabase/types"
+import { EMPTY_MACROS, MacroTotals, addMacros, sumMacros } from "@/lib/diet-targets"
+import { SubstitutionDraft } from "@/lib/food-substitutions"
+import { BASE_UNITS } from "@/lib/foods"
+
+export type DietTemplate = Tables<"diet_templates">
+
+export interface DietFoodDocument {
+  food_id: string | null
+  food_name: string
+  quantity: number
+  unit: string
+  calories: number
+  protein: number
+  carbs: number
+  fat: number
+  notes: string | null
+  substitutions: SubstitutionDraft[]
+}
+
+export interface DietMealDocument {
+  name: string
+  time_of_day: string | null
+  order_index: number
+  foods: DietFoodDocument[]
+}
+
+// Dieta sem aluno nem ids: é o que fica salvo em `diet_templates.plan`
+export interface DietPlanDocument {
+  daily_calories: number | null
+  daily_protein: number | null
+  daily_carbs: number | null
+  daily_fat: number | null
+  macro_tolerance_percent: number | null
+  meals: DietMealDocument[]
+}
+
+/** Lê a dieta com refeições, alimentos e substituições e monta o documento do modelo. */
+export async function buildDietPlanDocument(dietPlanId: string): Promise<DietPlanDocument> {
+  const { data: diet, error } = await supabase
+    .from("diet_plans")
+    .select("*, meals (*, meal_foods (*, meal_food_substitutions (*)))")
+    .eq("id", dietPlanId)
+    .single()
+
+  if (error) throw error
+
+  return {
+    daily_calories: diet.daily_calories,
+    daily_protein: diet.daily_protein,
+    daily_carbs: diet.daily_carbs,
+    daily_fat: diet.daily_fat,
+    macro_tolerance_percent: diet.macro_tolerance_percent,
+    meals: [...diet.meals]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((meal) => ({
+        name: meal.name,
+        time_of_day: meal.time_of_day,
+        order_index: meal.order_index,
+        foods: meal.meal_foods.map((food) => ({
+          food_id: food.food_id,
+          food_name: food.food_name,
+          quantity: food.quantity,
+          unit: food.unit,
+          calories: food.calories || 0,
+          protein: food.protein || 0,
+          carbs: food.carbs || 0,
+          fat: food.fat || 0,
+          notes: food.notes,
+          substitutions: [...food.meal_food_substitutions]
+            .sort((a, b) => a.order_index - b.order_index)
+            .map((substitution) => ({
+              food_id: substitution.food_id,
+              food_name: substitution.food_name,
+              quantity: substitution.quantity,
+              unit: substitution.unit,
+              calories: substitution.calories || 0,
+              protein: substitution.protein || 0,
+              carbs: substitution.carbs || 0,
+              fat: substitution.fat || 0,
+              match_by: substitution.match_by === "carbs" ? "carbs" : "calories",
+            })),
+        })),
+      })),
+  }
+}
+
+export async function saveDietTemplate(params: {
+  trainerId: string
+  dietPlanId: string
+  name: string
+  description?: string | null
+}) {
+  const plan = await buildDietPlanDocument(params.dietPlanId)
+
+  const { error } = await supabase.from("diet_templates").insert({
+    personal_trainer_id: params.trainerId,
+    name: params.name,
+    description: params.description || null,
+    plan: plan as unknown as Json,
+  })
+
+  if (error) throw error
+}
+
+export function parseDietPlanDocument(plan: Json): DietPlanDocument {
+  const document = plan as unknown as Partial<DietPlanDocument>
+  return {
+    daily_calories: document.daily_calories ?? null,
+    daily_protein: document.daily_protein ?? null,
+    daily_carbs: document.daily_carbs ?? null,
+    daily_fat: document.daily_fat ?? null,
+    macro_tolerance_percent: document.macro_tolerance_percent ?? null,
+    meals: (Array.isArray(document.meals) ? document.meals : []).map((meal) => ({
+      ...meal,
+      foods: (meal.foods || []).map((food) => ({ ...food, substitutions: food.substitutions || [] })),
+    })),
+  }
+}
+
+export function documentTotals(document: DietPlanDocument): MacroTotals {
+  return document.meals.reduce((total, meal) => addMacros(total, sumMacros(meal.foods)), EMPTY_MACROS)
+}
+
+// Gramas e ml de 5 em 5; medidas caseiras (colher, unidade...) de meia em meia
+const roundQuantity = (quantity: number, unit: string) =>
+  BASE_UNITS.includes(unit) ? Math.max(5, Math.round(quantity / 5) * 5) : Math.max(0.5, Math.round(quantity * 2) / 2)
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+// Os macros acompanham a quantidade já arredondada, não o fator exato
+function scaleItem<T extends { quantity: number; unit: string } & MacroTotals>(item: T, factor: number): T {
+  if (item.quantity <= 0) return item
+  const quantity = roundQuantity(item.quantity * factor, item.unit)
+  const ratio = quantity / item.quantity
+  return {
+    ...item,
+    quantity,
+    calories: Math.round(item.calories * ratio),
+    protein: round1(item.protein * ratio),
+    carbs: round1(item.carbs * ratio),
+    fat: round1(item.fat * ratio),
+  }
+}
+
+/**
+ * Escala todas as quantidades (e substituições) para a dieta somar a meta de
+ * calorias. A distribuição entre os macros do modelo é mantida, e as metas
+ * diárias do documento passam a ser a meta informada.
+ */
+export function scaleDietDocument(document: DietPlanDocument, targetCalories: number): DietPlanDocument {
+  const baseCalories = documentTotals(document).calories
+  if (!(targetCalories > 0) || baseCalories <= 0) return document
+
+  const factor = targetCalories / baseCalories
+  // As metas do modelo podem não bater exatamente com a soma dos alimentos
+  const targetFactor = targetCalories / (document.daily_calories || baseCalories)
+  const scaleTarget = (value: number | null) => (value ? round1(value * targetFactor) : value)
+
+  return {
+    ...document,
+    daily_calories: Math.round(targetCalories),
+    daily_protein: scaleTarget(document.daily_protein),
+    daily_carbs: scaleTarget(document.daily_carbs),
+    daily_fat: scaleTarget(document.daily_fat),
+    meals: document.meals.map((meal) => ({
+      ...meal,
+      foods: meal.foods.map((food) => ({
+        ...scaleItem(food, factor),
+        substitutions: food.substitutions.map((substitution) => scaleItem(substitution, factor)),
+      })),
+    })),
+  }
+}
@@ -0,0 +1,90 @@
+import type { Sex } from "@/lib/body-composition"
+import type { MacroTotals } from "@/lib/diet-targets"
+
+export type ActivityLevel = "sedentary" | "light" | "moderate" | "active" | "very_active"
+
+export type BmrFormula = "mifflin_st_jeor" | "harris_benedict" | "katch_mcardle"
+
+export type DietGoal = "cut" | "maintenance" | "bulk"
+
+export const ACTIVITY_LEVELS: Record<ActivityLevel, { label: string; description: string; factor: number }> = {
+  sedentary: { label: "Sedentário", description: "Pouco ou nenhum exercício", factor: 1.2 },
+  light: { label: "Levemente ativo", description: "Exercício leve 1 a 3 dias por semana", factor: 1.375 },
+  moderate: { label: "Moderadamente ativo", description: "Exercício moderado 3 a 5 dias por semana", factor: 1.55 },
+  active: { label: "Muito ativo", description: "Exercício intenso 6 a 7 dias por semana", factor: 1.725 },
+  very_active: { label: "Extremamente ativo", description: "Treino diário intenso ou trabalho físico", factor: 1.9 },
+}
+
+export const BMR_FORMULA_LABELS: Record<BmrFormula, string> = {
+  mifflin_st_jeor: "Mifflin-St Jeor",
+  harris_benedict: "Harris-Benedict",
+  katch_mcardle: "Katch-McArdle",
+}
+
+// Ajuste sobre o TDEE e gramas por kg de peso; o carboidrato completa as calorias
+export const DIET_GOALS: Record<DietGoal, { label: string; calorieAdjustment: number; proteinPerKg: number; fatPerKg: number }> = {
+  cut: { label: "Emagrecimento", calorieAdjustment: -0.2, proteinPerKg: 2.2, fatPerKg: 0.8 },
+  maintenance: { label: "Manutenção", calorieAdjustment: 0, proteinPerKg: 1.8, fatPerKg: 1 },
+  bulk: { label: "Ganho de massa", calorieAdjustment: 0.1, proteinPerKg: 2, fatPerKg: 1 },
+}
+
+export interface EnergyInput {
+  sex: Sex
+  age: number
+  weightKg: number
+  heightCm: number
+  bodyFatPercent?: number | null
+}
+
+export function isActivityLevel(value: string | null | undefined): value is ActivityLevel {
+  return !!value && value in ACTIVITY_LEVELS
+}
+
+/** O cadastro guarda a altura em metros; aceita também valores já em cm. */
+export function heightInCm(height: number | null | undefined) {
+  if (!height || height <= 0) return null
+  return height < 3 ? Math.round(height * 100) : height
+}
+
+/** Taxa metabólica basal em kcal/dia; Katch-McArdle só com % de gordura conhecido. */
+export function basalMetabolicRate(formula: BmrFormula, input: EnergyInput) {
+  const { sex, age, weightKg, heightCm, bodyFatPercent } = input
+
+  switch (formula) {
+    case "mifflin_st_jeor":
+      return Math.round(10 * weightKg + 6.25 * heightCm - 5 * age + (sex === "male" ? 5 : -161))
+    case "harris_benedict":
+      // Revisão de Roza e Shizgal (1984)
+      return Math.round(
+        sex === "male"
+          ? 88.362 + 13.397 * weightKg + 4.799 * heightCm - 5.677 * age
+          : 447.593 + 9.247 * weightKg + 3.098 * heightCm - 4.33 * age
+      )
+    case "katch_mcardle": {
+      if (!bodyFatPercent || bodyFatPercent <= 0 || bodyFatPercent >= 100) return null
+      const leanMass = weightKg * (1 - bodyFatPercent / 100)
+      return Math.round(370 + 21.6 * leanMass)
+    }
+  }
+}
+
+export function availableFormulas(input: Pick<EnergyInput, "bodyFatPercent">): BmrFormula[] {
+  return input.bodyFatPercent
+    ? ["katch_mcardle", "mifflin_st_jeor", "harris_benedict"]
+    : ["mifflin_st_jeor", "harris_benedict"]
+}
+
+/** Gasto energético total: TMB × fator de atividade. */
+export function totalDailyEnergyExpenditure(bmr: number, activityLevel: ActivityLevel) {
+  return Math.round(bmr * ACTIVITY_LEVELS[activityLevel].factor)
+}
+
+/** Metas diárias sugeridas para o objetivo, arredondadas para facilitar a montagem da dieta. */
+export function proposeDietTargets(tdee: number, goal: DietGoal, weightKg: number): MacroTotals {
+  const { calorieAdjustment, proteinPerKg, fatPerKg } = DIET_GOALS[goal]
+  const calories = Math.round((tdee * (1 + calorieAdjustment)) / 10) * 10
+  const protein = Math.round(weightKg * proteinPerKg)
+  const fat = Math.round(weightKg * fatPerKg)
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4))
+  return { calories, protein, carbs, fat }
+}
@@ -0,0 +1,142 @@
+export type ExerciseGroupType = "superset" | "giant_set" | "circuit"
+
+export type ExerciseTechnique = "drop_set" | "rest_pause" | "cluster"
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+  superset: "Bi-set",
+  giant_set: "Tri-set / Giant set",
+  circuit: "Circuito",
+}
+
+export const TECHNIQUE_LABELS: Record<ExerciseTechnique, string> = {
+  drop_set: "Drop-set",
+  rest_pause: "Rest-pause",
+  cluster: "Cluster",
+}
+
+// Orientação de descanso exibida ao aluno no início de cada grupo
+export const GROUP_TYPE_INSTRUCTIONS: Record<ExerciseGroupType, string> = {
+  superset: "Sem descanso entre os exercícios; descanse ao final da dupla",
+  giant_set: "Sem descanso entre os exercícios; descanse ao final da sequência",
+  circuit: "Passe de um exercício ao outro; descanse ao final de cada volta",
+}
+
+// Excêntrica-pausa embaixo-concêntrica-pausa em cima; "X" = explosivo
+export const TEMPO_PATTERN = /^[0-9X]-[0-9X]-[0-9X]-[0-9X]$/
+
+export interface GroupableExercise {
+  group_key?: string | null
+  group_type?: string | null
+  technique?: string | null
+  tempo?: string | null
+}
+
+export interface ExerciseGroupInfo {
+  key: string | null
+  type: ExerciseGroupType | null
+  // Posição dentro do grupo (1 = primeiro)
+  position: number
+  size: number
+  isFirst: boolean
+  isLast: boolean
+}
+
+export function normalizeTempo(value: string) {
+  return value.toUpperCase().replace(/\s+/g, "")
+}
+
+export function isValidTempo(value?: string | null) {
+  return !value || TEMPO_PATTERN.test(value)
+}
+
+/** Tipo sugerido pelo tamanho do grupo quando o personal não escolheu um. */
+export function defaultGroupType(size: number): ExerciseGroupType {
+  return size <= 2 ? "superset" : "giant_set"
+}
+
+/**
+ * Descreve o agrupamento de cada exercício de uma lista já ordenada.
+ * Exercícios consecutivos com o mesmo `group_key` formam um grupo; grupos
+ * com um único exercício são tratados como exercício isolado.
+ */
+export function describeExerciseGroups<T extends GroupableExercise>(exercises: T[]): ExerciseGroupInfo[] {
+  const infos: ExerciseGroupInfo[] = []
+  let start = 0
+
+  while (start < exercises.length) {
+    const key = exercises[start].group_key || null
+    let end = start + 1
+    while (key && end < exercises.length && exercises[end].group_key === key) end++
+
+    const size = end - start
+    const grouped = key !== null && size > 1
+    const type = grouped
+      ? ((exercises[start].group_type as ExerciseGroupType) || defaultGroupType(size))
+      : null
+
+    for (let i = start; i < end; i++) {
+      infos.push(grouped
+        ? { key, type, position: i - start + 1, size, isFirst: i === start, isLast: i === end - 1 }
+        : { key: null, type: null, position: 1, size: 1, isFirst: true, isLast: true })
+    }
+    start = end
+  }
+
+  return infos
+}
+
+/** Rótulo curto do exercício na ficha: "A1", "A2"... ou o número da ordem. */
+export function exerciseLabel(info: ExerciseGroupInfo, index: number) {
+  return info.key ? `${info.key}${info.position}` : `${index + 1}`
+}
+
+/** Título do grupo na ficha do aluno, ex.: "Bi-set A". */
+export function groupTitle(info: ExerciseGroupInfo) {
+  return info.type ? `${GROUP_TYPE_LABELS[info.type]} ${info.key}` : ""
+}
+
+function nextGroupKey(exercises: GroupableExercise[]) {
+  const used = new Set(exercises.map((ex) => ex.group_key).filter(Boolean))
+  for (let code = 65; code <= 90; code++) {
+    const key = String.fromCharCode(code)
+    if (!used.has(key)) return key
+  }
+  return `G${used.size + 1}`
+}
+
+/** Junta o exercício ao seguinte, criando um grupo ou ampliando o existente. */
+export function linkWithNext<T extends GroupableExercise>(exercises: T[], index: number): T[] {
+  const current = exercises[index]
+  const next = exercises[index + 1]
+  if (!current || !next) return exercises
+
+  const key = current.group_key || next.group_key || nextGroupKey(exercises)
+  const type = current.group_type || next.group_type || null
+  const absorbed = next.group_key && next.group_key !== key ? next.group_key : null
+
+  return exercises.map((ex, i) =>
+    i === index || i === index + 1 || (absorbed && ex.group_key === absorbed)
+      ? { ...ex, group_key: key, group_type: type }
+      : ex
+  )
+}
+
+/** Separa o exercício do seguinte, dividindo o grupo nesse ponto. */
+export function unlinkFromNext<T extends GroupableExercise>(exercises: T[], index: number): T[] {
+  const key = exercises[index]?.group_key
+  if (!key || exercises[index + 1]?.group_key !== key) return exercises
+
+  const tailKey = nextGroupKey(exercises)
+  const updated = exercises.map((ex, i) => (i > index && ex.group_key === key ? { ...ex, group_key: tailKey } : ex))
+  return dissolveSingletons(updated)
+}
+
+/** Remove o agrupamento de grupos que ficaram com um só exercício. */
+export function dissolveSingletons<T extends GroupableExercise>(exercises: T[]): T[] {
+  const infos = describeExerciseGroups(exercises)
+  return exercises.map((ex, i) => (ex.group_key && !infos[i].key ? { ...ex, group_key: null, group_type: null } : ex))
+}
+
+export function setGroupType<T extends GroupableExercise>(exercises: T[], key: string, type: ExerciseGroupType): T[] {
+  return exercises.map((ex) => (ex.group_key === key ? { ...ex, group_type: type } : ex))
+}
@@ -0,0 +1,76 @@
+import type { Json } from "@/integrations/supabase/types"
+import { Food, FoodMacros, macrosFor } from "@/lib/foods"
+
+export type SubstitutionMatch = "calories" | "carbs"
+
+export const SUBSTITUTION_MATCH_LABELS: Record<SubstitutionMatch, string> = {
+  calories: "Mesmas calorias",
+  carbs: "Mesmos carboidratos",
+}
+
+export interface SubstitutionDraft extends FoodMacros {
+  food_id: string | null
+  food_name: string
+  quantity: number
+  unit: string
+  match_by: SubstitutionMatch
+}
+
+// Troca escolhida pelo aluno, gravada junto com a conclusão da refeição
+export interface ChosenSubstitution {
+  meal_food_id: string
+  substitution_id: string
+  food_name: string
+  quantity: number
+  unit: string
+}
+
+const NUTRIENT_PER_100G: Record<SubstitutionMatch, (food: Food) => number> = {
+  calories: (food) => food.energy_kcal,
+  carbs: (food) => food.carbs_g,
+}
+
+// Porções arredondadas de 5 em 5 g são mais fáceis de medir
+const roundPortion = (grams: number) => Math.max(5, Math.round(grams / 5) * 5)
+
+/**
+ * Quantidade do substituto que entrega a mesma quantidade do nutriente
+ * escolhido que o item original; null se o substituto não tem esse nutriente.
+ */
+export function equivalentSubstitution(
+  original: Partial<FoodMacros>,
+  substitute: Food,
+  matchBy: SubstitutionMatch
+): SubstitutionDraft | null {
+  const target = original[matchBy] || 0
+  const per100g = NUTRIENT_PER_100G[matchBy](substitute)
+  if (target <= 0 || per100g <= 0) return null
+
+  const quantity = roundPortion((target / per100g) * 100)
+  return {
+    food_id: substitute.id,
+    food_name: substitute.name,
+    quantity,
+    unit: "g",
+    match_by: matchBy,
+    ...macrosFor(substitute, quantity, "g")!,
+  }
+}
+
+export function parseChosenSubstitutions(value: Json): ChosenSubstitution[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return []
+    const { meal_food_id, substitution_id, food_name, quantity, unit } = item
+    if (typeof meal_food_id !== "string" || typeof substitution_id !== "string") return []
+    return [
+      {
+        meal_food_id,
+        substitution_id,
+        food_name: String(food_name ?? ""),
+        quantity: Number(quantity) || 0,
+        unit: String(unit ?? ""),
+      },
+    ]
+  })
+}
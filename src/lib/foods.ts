@@ -0,0 +1,68 @@
+import type { Json, Tables } from "@/integrations/supabase/types"
+
+export type Food = Tables<"foods">
+
+export interface HouseholdMeasure {
+  label: string
+  grams: number
+}
+
+export interface FoodMacros {
+  calories: number
+  protein: number
+  carbs: number
+  fat: number
+}
+
+// Unidades que dispensam conversão; ml é tratado como g (densidade ~1)
+export const BASE_UNITS = ["g", "ml"]
+
+export function parseHouseholdMeasures(value: Json): HouseholdMeasure[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return []
+    const label = typeof item.label === "string" ? item.label.trim() : ""
+    const grams = Number(item.grams)
+    return label && grams > 0 ? [{ label, grams }] : []
+  })
+}
+
+/** Peso em gramas da quantidade informada, ou null se a unidade não é do alimento. */
+export function gramsFor(food: Pick<Food, "household_measures">, quantity: number, unit: string) {
+  if (BASE_UNITS.includes(unit)) return quantity
+  const measure = parseHouseholdMeasures(food.household_measures).find((m) => m.label === unit)
+  return measure ? quantity * measure.grams : null
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/** Macros da porção a partir da composição por 100 g do alimento. */
+export function macrosFor(food: Food, quantity: number, unit: string): FoodMacros | null {
+  const grams = gramsFor(food, quantity, unit)
+  if (grams === null) return null
+  const factor = grams / 100
+  return {
+    calories: Math.round(food.energy_kcal * factor),
+    protein: round1(food.protein_g * factor),
+    carbs: round1(food.carbs_g * factor),
+    fat: round1(food.fat_g * factor),
+  }
+}
+
+/** Busca sem diferenciar acentos e maiúsculas ("feijao" encontra "Feijão"). */
+export function normalizeFoodSearch(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+}
+
+export function searchFoods(foods: Food[], query: string) {
+  const terms = normalizeFoodSearch(query).split(/[\s,]+/).filter(Boolean)
+  if (terms.length === 0) return foods
+  return foods.filter((food) => {
+    const name = normalizeFoodSearch(food.name)
+    return terms.every((term) => name.includes(term))
+  })
+}
@@ -0,0 +1,62 @@
+import { GroupableExercise, describeExerciseGroups } from "@/lib/exercise-grouping"
+
+export const DEFAULT_REST_SECONDS = 60
+
+export interface GuidedExercise extends GroupableExercise {
+  sets: number
+  rest_seconds?: number | null
+}
+
+export interface WorkoutStep {
+  exerciseIndex: number
+  // Série atual (1 = primeira) e total prescrito para o exercício
+  set: number
+  totalSets: number
+  // Descanso depois da série; 0 quando o próximo exercício do grupo vem em seguida
+  restSeconds: number
+}
+
+/**
+ * Monta a sequência de séries do treino guiado. Exercícios isolados têm todas
+ * as séries em sequência; exercícios agrupados (bi-set, circuito) alternam
+ * uma série de cada e só descansam ao final da volta.
+ */
+export function buildWorkoutSteps<T extends GuidedExercise>(exercises: T[]): WorkoutStep[] {
+  const infos = describeExerciseGroups(exercises)
+  const restOf = (index: number) => exercises[index].rest_seconds ?? DEFAULT_REST_SECONDS
+  const steps: WorkoutStep[] = []
+
+  let start = 0
+  while (start < exercises.length) {
+    const end = start + infos[start].size
+    const members = Array.from({ length: end - start }, (_, i) => start + i)
+    const rounds = Math.max(...members.map((i) => Math.max(exercises[i].sets, 1)))
+
+    for (let round = 1; round <= rounds; round++) {
+      const active = members.filter((i) => Math.max(exercises[i].sets, 1) >= round)
+      active.forEach((exerciseIndex, position) => {
+        const isLastOfRound = position === active.length - 1
+        steps.push({
+          exerciseIndex,
+          set: round,
+          totalSets: Math.max(exercises[exerciseIndex].sets, 1),
+          restSeconds: isLastOfRound ? restOf(exerciseIndex) : 0,
+        })
+      })
+    }
+    start = end
+  }
+
+  // Não há descanso depois da última série do treino
+  if (steps.length > 0) steps[steps.length - 1].restSeconds = 0
+  return steps
+}
+
+/** Formata segundos como "m:ss" ou "h:mm:ss". */
+export function formatDuration(totalSeconds: number) {
+  const seconds = Math.max(0, Math.round(totalSeconds))
+  const h = Math.floor(seconds / 3600)
+  const m = Math.floor((seconds % 3600) / 60)
+  const s = String(seconds % 60).padStart(2, "0")
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`
+}
@@ -0,0 +1,107 @@
+import { addDays, format, subDays } from "date-fns"
+import type { Tables } from "@/integrations/supabase/types"
+
+export type HabitKind = "water" | "steps" | "sleep" | "supplements" | "cardio" | "custom"
+
+export type StudentHabit = Tables<"student_habits">
+
+export interface HabitLogEntry {
+  id: string
+  habit_id: string
+  logged_on: string
+  amount: number
+}
+
+// Valores sugeridos ao criar o hábito; `quickAmounts` são os botões de registro rápido do aluno
+export const HABIT_KINDS: Record<
+  HabitKind,
+  { label: string; unit: string; defaultTarget: number; quickAmounts: number[] }
+> = {
+  water: { label: "Água", unit: "L", defaultTarget: 3, quickAmounts: [0.25, 0.5] },
+  steps: { label: "Passos", unit: "passos", defaultTarget: 8000, quickAmounts: [1000, 5000] },
+  sleep: { label: "Sono", unit: "h", defaultTarget: 8, quickAmounts: [1, 7] },
+  supplements: { label: "Suplementos", unit: "doses", defaultTarget: 1, quickAmounts: [1] },
+  cardio: { label: "Cardio", unit: "min", defaultTarget: 30, quickAmounts: [10, 30] },
+  custom: { label: "Outro", unit: "vezes", defaultTarget: 1, quickAmounts: [1] },
+}
+
+export function isHabitKind(value: string): value is HabitKind {
+  return value in HABIT_KINDS
+}
+
+/** Data local (o dia do aluno), no formato gravado em `logged_on`. */
+export function habitDay(date: Date = new Date()) {
+  return format(date, "yyyy-MM-dd")
+}
+
+export function formatHabitAmount(value: number, unit: string) {
+  const rounded = Math.round(value * 100) / 100
+  return `${rounded.toLocaleString("pt-BR")} ${unit}`
+}
+
+/** Total por hábito e por dia: `totals.get(habitId)?.get("2025-10-20")`. */
+export function dailyTotals(logs: HabitLogEntry[]) {
+  const totals = new Map<string, Map<string, number>>()
+  logs.forEach((log) => {
+    const byDay = totals.get(log.habit_id) ?? new Map<string, number>()
+    byDay.set(log.logged_on, (byDay.get(log.logged_on) ?? 0) + Number(log.amount))
+    totals.set(log.habit_id, byDay)
+  })
+  return totals
+}
+
+export function isHabitMet(total: number | undefined, target: number) {
+  return (total ?? 0) >= target
+}
+
+/**
+ * Dias seguidos com a meta batida. O dia de hoje só conta se já foi batido;
+ * enquanto não for, a sequência que terminou ontem continua valendo.
+ */
+export function habitStreak(habit: Pick<StudentHabit, "id" | "target">, totals: Map<string, Map<string, number>>, today = new Date()) {
+  const byDay = totals.get(habit.id)
+  if (!byDay) return 0
+
+  let day = isHabitMet(byDay.get(habitDay(today)), habit.target) ? today : subDays(today, 1)
+  let streak = 0
+  while (isHabitMet(byDay.get(habitDay(day)), habit.target)) {
+    streak += 1
+    day = subDays(day, 1)
+  }
+  return streak
+}
+
+/** % de dias-hábito com a meta batida no período (inclusive). */
+export function habitCompletionRate(
+  habits: Pick<StudentHabit, "id" | "target">[],
+  totals: Map<string, Map<string, number>>,
+  from: Date,
+  to: Date
+) {
+  let possible = 0
+  let met = 0
+  for (let day = from; habitDay(day) <= habitDay(to); day = addDays(day, 1)) {
+    habits.forEach((habit) => {
+      possible += 1
+      if (isHabitMet(totals.get(habit.id)?.get(habitDay(day)), habit.target)) met += 1
+    })
+  }
+  return possible > 0 ? Math.round((met / possible) * 100) : null
+}
+
+/** Resumo do relatório: adesão no período e na última semana, e a sequência atual de cada hábito. */
+export function summarizeHabits(
+  habits: Pick<StudentHabit, "id" | "name" | "target">[],
+  logs: HabitLogEntry[],
+  from: Date,
+  to: Date
+) {
+  const totals = dailyTotals(logs)
+  const weekStart = subDays(to, 6) < from ? from : subDays(to, 6)
+  return {
+    habits: habits.length,
+    periodCompletion: habitCompletionRate(habits, totals, from, to),
+    weeklyCompletion: habitCompletionRate(habits, totals, weekStart, to),
+    streaks: habits.map((habit) => ({ name: habit.name, streak: habitStreak(habit, totals, to) })),
+  }
+}
@@ -0,0 +1,166 @@
+import { supabase } from "@/integrations/supabase/client"
+import type { TablesInsert } from "@/integrations/supabase/types"
+import { EMPTY_MACROS, MACRO_KEYS, MacroKey, MacroTotals, addMacros, sumMacros } from "@/lib/diet-targets"
+
+export const MEAL_PHOTOS_BUCKET = "meal-photos"
+
+export type PortionStatus = "full" | "partial" | "skipped"
+
+export const PORTION_STATUS_LABELS: Record<PortionStatus, string> = {
+  full: "Comi tudo",
+  partial: "Comi parte",
+  skipped: "Não comi",
+}
+
+// Porção sugerida ao trocar o status; em "parte" o aluno ajusta o %
+export const PORTION_PRESETS: Record<PortionStatus, number> = {
+  full: 100,
+  partial: 50,
+  skipped: 0,
+}
+
+type PlannedMacros = Partial<Record<MacroKey, number | null>>
+
+export interface PlannedFood extends PlannedMacros {
+  id: string
+  food_name: string
+  quantity: number
+  unit: string
+}
+
+export interface FoodLogDraft extends MacroTotals {
+  meal_food_id: string | null
+  food_name: string
+  quantity: number | null
+  unit: string | null
+  portion_percent: number
+  off_plan: boolean
+}
+
+export type MealFoodLog = FoodLogDraft & { meal_id: string }
+
+interface PlannedMeal {
+  id: string
+  meal_foods: PlannedFood[]
+}
+
+export function portionStatus(percent: number): PortionStatus {
+  if (percent >= 100) return "full"
+  return percent <= 0 ? "skipped" : "partial"
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+function scaleMacros(macros: PlannedMacros, percent: number): MacroTotals {
+  return Object.fromEntries(MACRO_KEYS.map((key) => [key, round1(((macros[key] || 0) * percent) / 100)])) as MacroTotals
+}
+
+/**
+ * Item do plano consumido na porção informada; com uma substituição escolhida,
+ * o registro fica com o nome e os macros do substituto.
+ */
+export function planFoodLog(food: PlannedFood, percent: number, substitute?: Omit<PlannedFood, "id"> | null): FoodLogDraft {
+  const eaten = substitute || food
+  return {
+    meal_food_id: food.id,
+    food_name: eaten.food_name,
+    quantity: round1((eaten.quantity * percent) / 100),
+    unit: eaten.unit,
+    portion_percent: percent,
+    off_plan: false,
+    ...scaleMacros(eaten, percent),
+  }
+}
+
+export function offPlanFoodLog(food: Omit<PlannedFood, "id">): FoodLogDraft {
+  return {
+    meal_food_id: null,
+    food_name: food.food_name,
+    quantity: food.quantity || null,
+    unit: food.unit || null,
+    portion_percent: 100,
+    off_plan: true,
+    ...scaleMacros(food, 100),
+  }
+}
+
+/**
+ * Adesão do dia em %: calorias planejadas que foram consumidas sobre o total
+ * planejado. Sem calorias no plano, usa a média simples das porções. Alimentos
+ * fora do plano não contam para a adesão, só para os macros.
+ */
+export function dailyAdherence(plannedFoods: PlannedFood[], portions: Map<string, number>) {
+  if (plannedFoods.length === 0) return null
+
+  const plannedCalories = plannedFoods.reduce((total, food) => total + (food.calories || 0), 0)
+  if (plannedCalories > 0) {
+    const eaten = plannedFoods.reduce(
+      (total, food) => total + ((food.calories || 0) * (portions.get(food.id) ?? 0)) / 100,
+      0
+    )
+    return Math.round((eaten / plannedCalories) * 100)
+  }
+
+  const totalPercent = plannedFoods.reduce((total, food) => total + (portions.get(food.id) ?? 0), 0)
+  return Math.round(totalPercent / plannedFoods.length)
+}
+
+/** Normaliza o item vindo do servidor ou da fila offline. */
+export function toMealFoodLog(row: TablesInsert<"meal_food_logs">, mealId: string): MealFoodLog {
+  return {
+    meal_id: mealId,
+    meal_food_id: row.meal_food_id ?? null,
+    food_name: row.food_name,
+    quantity: row.quantity ?? null,
+    unit: row.unit ?? null,
+    portion_percent: row.portion_percent ?? 100,
+    off_plan: row.off_plan ?? false,
+    calories: row.calories ?? 0,
+    protein: row.protein ?? 0,
+    carbs: row.carbs ?? 0,
+    fat: row.fat ?? 0,
+  }
+}
+
+/** Adesão e macros consumidos no dia a partir das refeições concluídas. */
+export function summarizeDay(meals: PlannedMeal[], completedMealIds: Set<string>, logs: MealFoodLog[]) {
+  const portions = new Map<string, number>()
+  let totals = EMPTY_MACROS
+
+  meals
+    .filter((meal) => completedMealIds.has(meal.id))
+    .forEach((meal) => {
+      const mealLogs = logs.filter((log) => log.meal_id === meal.id)
+      // Refeições concluídas sem check-in por alimento contam como comidas por inteiro
+      const entries = mealLogs.length > 0 ? mealLogs : meal.meal_foods.map((food) => planFoodLog(food, 100))
+      entries.forEach((entry) => {
+        if (entry.meal_food_id) portions.set(entry.meal_food_id, entry.portion_percent)
+      })
+      totals = addMacros(totals, sumMacros(entries))
+    })
+
+  return {
+    adherence: dailyAdherence(
+      meals.flatMap((meal) => meal.meal_foods),
+      portions
+    ),
+    totals,
+  }
+}
+
+export async function uploadMealPhoto(file: File, studentId: string) {
+  const extension = file.name.split(".").pop()?.toLowerCase() || "jpg"
+  // A primeira pasta precisa ser o id do aluno (usada pelas políticas do bucket)
+  const path = `${studentId}/${crypto.randomUUID()}.${extension}`
+
+  const { error } = await supabase.storage
+    .from(MEAL_PHOTOS_BUCKET)
+    .upload(path, file, { contentType: file.type, upsert: false })
+
+  if (error) throw error
+  return path
+}
+
+export async function removeMealPhoto(path: string) {
+  await supabase.storage.from(MEAL_PHOTOS_BUCKET).remove([path])
+}
@@ -0,0 +1,104 @@
+// Armazenamento offline do app do aluno (IndexedDB). Guarda as respostas de
+// leitura da API para abrir o plano sem conexão e a fila de gravações que
+// ainda não chegaram ao servidor.
+
+const DB_NAME = "fittrainer-offline"
+const DB_VERSION = 1
+
+export const RESPONSES_STORE = "responses"
+export const OUTBOX_STORE = "outbox"
+
+type StoreName = typeof RESPONSES_STORE | typeof OUTBOX_STORE
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+          db.createObjectStore(RESPONSES_STORE, { keyPath: "key" })
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "id" }).createIndex("created_at", "created_at")
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function run<T>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest) {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = action(db.transaction(store, mode).objectStore(store))
+        request.onsuccess = () => resolve(request.result as T)
+        request.onerror = () => reject(request.error)
+      })
+  )
+}
+
+export function isOfflineStoreAvailable() {
+  return typeof indexedDB !== "undefined"
+}
+
+export function getRecord<T>(store: StoreName, key: string) {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key))
+}
+
+export function putRecord<T>(store: StoreName, value: T) {
+  return run<IDBValidKey>(store, "readwrite", (s) => s.put(value))
+}
+
+export function deleteRecord(store: StoreName, key: string) {
+  return run<undefined>(store, "readwrite", (s) => s.delete(key))
+}
+
+/** Registros da fila em ordem de criação. */
+export function listOutbox<T>() {
+  return run<T[]>(OUTBOX_STORE, "readonly", (s) => s.index("created_at").getAll())
+}
+
+export interface CachedResponse {
+  key: string
+  body: string
+  status: number
+  content_type: string | null
+  saved_at: string
+}
+
+export function saveCachedResponse(key: string, response: Response) {
+  return response
+    .clone()
+    .text()
+    .then((body) =>
+      putRecord<CachedResponse>(RESPONSES_STORE, {
+        key,
+        body,
+        status: response.status,
+        content_type: response.headers.get("content-type"),
+        saved_at: new Date().toISOString(),
+      })
+    )
+}
+
+/** Recria a resposta guardada; o cabeçalho `x-offline-cache` traz a data da cópia. */
+export async function loadCachedResponse(key: string) {
+  const cached = await getRecord<CachedResponse>(RESPONSES_STORE, key)
+  if (!cached) return null
+  return new Response(cached.body, {
+    status: cached.status,
+    headers: {
+      "content-type": cached.content_type ?? "application/json",
+      "x-offline-cache": cached.saved_at,
+    },
+  })
+}
@@ -0,0 +1,159 @@
+import type { PostgrestError } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import type { TablesInsert } from "@/integrations/supabase/types"
+import {
+  OUTBOX_STORE,
+  deleteRecord,
+  isOfflineStoreAvailable,
+  listOutbox,
+  putRecord,
+} from "@/lib/offline-store"
+
+// Tabelas que o aluno grava pelo app e que podem esperar na fila offline
+export type QueuedTable = "exercise_completions" | "habit_logs" | "meal_completions" | "meal_food_logs" | "workout_logs"
+
+export interface QueuedWrite<T extends QueuedTable = QueuedTable> {
+  // Também é o id da linha: o UUID gerado no aparelho funciona como chave de
+  // idempotência, então reenviar o mesmo registro nunca cria duplicatas
+  id: string
+  table: T
+  payload: TablesInsert<T> & { id: string }
+  created_at: string
+  attempts: number
+  last_error: string | null
+}
+
+export interface SyncState {
+  pending: number
+  // Registros recusados pelo servidor (ex.: link revogado); continuam na fila
+  failed: number
+  isSyncing: boolean
+  lastSyncedAt: Date | null
+}
+
+export interface SubmitResult {
+  id: string
+  queued: boolean
+  error: PostgrestError | null
+}
+
+let state: SyncState = { pending: 0, failed: 0, isSyncing: false, lastSyncedAt: null }
+const listeners = new Set<(state: SyncState) => void>()
+let flushing: Promise<void> | null = null
+
+function setState(updates: Partial<SyncState>) {
+  state = { ...state, ...updates }
+  listeners.forEach((listener) => listener(state))
+}
+
+export function getSyncState() {
+  return state
+}
+
+export function subscribeSync(listener: (state: SyncState) => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/** Falha de rede (sem resposta do servidor), e não erro de validação ou RLS. */
+export function isNetworkError(error: { message?: string } | null | undefined) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(error?.message ?? "")
+}
+
+async function refreshCounts() {
+  const items = await listOutbox<QueuedWrite>()
+  setState({ pending: items.length, failed: items.filter((item) => item.last_error).length })
+  return items
+}
+
+export async function listQueuedWrites<T extends QueuedTable>(table: T) {
+  if (!isOfflineStoreAvailable()) return []
+  const items = await listOutbox<QueuedWrite>()
+  return items.filter((item): item is QueuedWrite<T> => item.table === table)
+}
+
+export async function removeQueuedWrite(id: string) {
+  await deleteRecord(OUTBOX_STORE, id)
+  await refreshCounts()
+}
+
+async function sendWrite(item: QueuedWrite) {
+  // Conflito no id = registro já enviado antes; o servidor simplesmente ignora
+  const { error } = await supabase
+    .from(item.table)
+    .upsert(item.payload as TablesInsert<typeof item.table>, { onConflict: "id", ignoreDuplicates: true })
+  return error
+}
+
+async function enqueue(item: QueuedWrite) {
+  await putRecord(OUTBOX_STORE, item)
+  await refreshCounts()
+}
+
+/**
+ * Grava o registro no servidor ou, sem conexão, guarda na fila para enviar
+ * depois. Com gravações pendentes o registro vai direto para o fim da fila,
+ * preservando a ordem (ex.: a sessão antes das conclusões que apontam para ela).
+ */
+export async function submitWrite<T extends QueuedTable>(table: T, payload: TablesInsert<T>): Promise<SubmitResult> {
+  const id = (payload as { id?: string }).id ?? crypto.randomUUID()
+  const item: QueuedWrite = {
+    id,
+    table,
+    payload: { ...payload, id },
+    created_at: new Date().toISOString(),
+    attempts: 0,
+    last_error: null,
+  }
+
+  if (isOfflineStoreAvailable()) {
+    const pending = await listOutbox<QueuedWrite>()
+    if (pending.length > 0) {
+      await enqueue(item)
+      flushQueue()
+      return { id, queued: true, error: null }
+    }
+  }
+
+  const error = await sendWrite(item)
+  if (error && isNetworkError(error) && isOfflineStoreAvailable()) {
+    await enqueue(item)
+    return { id, queued: true, error: null }
+  }
+  return { id, queued: false, error }
+}
+
+async function flush() {
+  setState({ isSyncing: true })
+  try {
+    const items = await listOutbox<QueuedWrite>()
+    for (const item of items) {
+      const error = await sendWrite(item)
+      if (!error) {
+        await deleteRecord(OUTBOX_STORE, item.id)
+        continue
+      }
+      if (isNetworkError(error)) break
+      await putRecord(OUTBOX_STORE, { ...item, attempts: item.attempts + 1, last_error: error.message })
+    }
+  } catch (error) {
+    console.error("Error syncing offline queue:", error)
+  } finally {
+    const remaining = await refreshCounts().catch(() => [])
+    setState({ isSyncing: false, lastSyncedAt: remaining.length === 0 ? new Date() : state.lastSyncedAt })
+  }
+}
+
+/** Envia a fila em ordem; chamadas simultâneas compartilham o mesmo envio. */
+export function flushQueue() {
+  if (!isOfflineStoreAvailable()) return Promise.resolve()
+  if (!flushing) {
+    flushing = flush().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
@@ -0,0 +1,175 @@
+import type { Json, Tables } from "@/integrations/supabase/types"
+import type { ExercisePrescription } from "@/lib/progression"
+
+export type PhaseGoal = "hypertrophy" | "strength" | "power" | "endurance" | "deload"
+
+export interface WeekModifier {
+  // Séries somadas (ou subtraídas) à prescrição base
+  sets_delta: number
+  // Repetições somadas às faixas mínima e máxima
+  reps_delta: number
+  // Percentual da carga base (100 = sem alteração)
+  load_percent: number
+}
+
+export interface WorkoutPhase {
+  id?: string
+  name: string
+  goal: PhaseGoal
+  start_week: number
+  end_week: number
+  week_modifiers: WeekModifier[]
+  notes?: string | null
+}
+
+export const NEUTRAL_WEEK_MODIFIER: WeekModifier = {
+  sets_delta: 0,
+  reps_delta: 0,
+  load_percent: 100,
+}
+
+export const PHASE_GOAL_LABELS: Record<PhaseGoal, string> = {
+  hypertrophy: "Hipertrofia",
+  strength: "Força",
+  power: "Potência",
+  endurance: "Resistência",
+  deload: "Deload",
+}
+
+// Ondulação semanal sugerida para cada objetivo; repete a última semana
+// quando a fase for mais longa que o modelo
+const GOAL_PRESETS: Record<PhaseGoal, WeekModifier[]> = {
+  hypertrophy: [
+    { sets_delta: 0, reps_delta: 0, load_percent: 100 },
+    { sets_delta: 1, reps_delta: 0, load_percent: 100 },
+    { sets_delta: 1, reps_delta: 0, load_percent: 105 },
+    { sets_delta: 2, reps_delta: 0, load_percent: 105 },
+  ],
+  strength: [
+    { sets_delta: 0, reps_delta: -3, load_percent: 110 },
+    { sets_delta: 0, reps_delta: -4, load_percent: 115 },
+    { sets_delta: 1, reps_delta: -5, load_percent: 120 },
+  ],
+  power: [
+    { sets_delta: 1, reps_delta: -5, load_percent: 90 },
+  ],
+  endurance: [
+    { sets_delta: 0, reps_delta: 4, load_percent: 85 },
+    { sets_delta: 0, reps_delta: 6, load_percent: 80 },
+  ],
+  deload: [
+    { sets_delta: -1, reps_delta: 0, load_percent: 60 },
+  ],
+}
+
+export function phaseLength(phase: Pick<WorkoutPhase, "start_week" | "end_week">) {
+  return Math.max(1, phase.end_week - phase.start_week + 1)
+}
+
+export function presetModifiers(goal: PhaseGoal, weeks: number): WeekModifier[] {
+  const preset = GOAL_PRESETS[goal]
+  return Array.from({ length: weeks }, (_, i) => ({ ...preset[Math.min(i, preset.length - 1)] }))
+}
+
+/** Ajusta a lista de semanas ao tamanho da fase, mantendo as já editadas. */
+export function resizeModifiers(modifiers: WeekModifier[], weeks: number): WeekModifier[] {
+  const last = modifiers[modifiers.length - 1] ?? NEUTRAL_WEEK_MODIFIER
+  return Array.from({ length: weeks }, (_, i) => modifiers[i] ?? { ...last })
+}
+
+function parseModifier(value: unknown): WeekModifier {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return NEUTRAL_WEEK_MODIFIER
+  const raw = value as Partial<WeekModifier>
+  return {
+    sets_delta: Number(raw.sets_delta) || 0,
+    reps_delta: Number(raw.reps_delta) || 0,
+    load_percent: Number(raw.load_percent) || 100,
+  }
+}
+
+export function parsePhase(row: Tables<"workout_plan_phases">): WorkoutPhase {
+  const modifiers = Array.isArray(row.week_modifiers) ? row.week_modifiers.map(parseModifier) : []
+  return {
+    id: row.id,
+    name: row.name,
+    goal: row.goal as PhaseGoal,
+    start_week: row.start_week,
+    end_week: row.end_week,
+    week_modifiers: resizeModifiers(modifiers, phaseLength(row)),
+    notes: row.notes,
+  }
+}
+
+export function serializeModifiers(modifiers: WeekModifier[]): Json {
+  return modifiers.map((m) => ({ ...m }))
+}
+
+/**
+ * Retorna a mensagem de erro da primeira inconsistência entre as fases
+ * (semanas fora do plano ou fases sobrepostas), ou null se estiverem válidas.
+ */
+export function validatePhases(phases: WorkoutPhase[], durationWeeks: number): string | null {
+  const sorted = [...phases].sort((a, b) => a.start_week - b.start_week)
+  for (let i = 0; i < sorted.length; i++) {
+    const phase = sorted[i]
+    if (!phase.name.trim()) return "Todas as fases precisam de um nome."
+    if (phase.start_week < 1 || phase.end_week < phase.start_week) {
+      return `A fase "${phase.name}" tem um intervalo de semanas inválido.`
+    }
+    if (phase.end_week > durationWeeks) {
+      return `A fase "${phase.name}" termina depois da semana ${durationWeeks}.`
+    }
+    const previous = sorted[i - 1]
+    if (previous && phase.start_week <= previous.end_week) {
+      return `As fases "${previous.name}" e "${phase.name}" se sobrepõem.`
+    }
+  }
+  return null
+}
+
+/** Semana atual do plano (1 = primeira), limitada à duração do plano. */
+export function currentPlanWeek(startDate: string, durationWeeks: number, today = new Date()) {
+  const start = new Date(`${startDate}T00:00:00`)
+  const midnight = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  const days = Math.floor((midnight.getTime() - start.getTime()) / 86_400_000)
+  const week = Math.floor(days / 7) + 1
+  return Math.min(Math.max(week, 1), Math.max(durationWeeks, 1))
+}
+
+export function phaseForWeek(phases: WorkoutPhase[], week: number) {
+  return phases.find((phase) => week >= phase.start_week && week <= phase.end_week) ?? null
+}
+
+export function modifierForWeek(phase: WorkoutPhase | null, week: number): WeekModifier {
+  if (!phase) return NEUTRAL_WEEK_MODIFIER
+  return phase.week_modifiers[week - phase.start_week] ?? NEUTRAL_WEEK_MODIFIER
+}
+
+// Arredonda para múltiplos de 0,5kg, como nas sugestões de progressão
+function roundLoad(weight: number) {
+  return Math.round(weight * 2) / 2
+}
+
+/** Aplica o ajuste da semana sobre a prescrição base de um exercício. */
+export function applyWeekModifier<T extends ExercisePrescription>(exercise: T, modifier: WeekModifier): T {
+  const adjustReps = (reps?: number | null) => (reps ? Math.max(1, reps + modifier.reps_delta) : reps)
+  return {
+    ...exercise,
+    sets: Math.max(1, exercise.sets + modifier.sets_delta),
+    reps_min: adjustReps(exercise.reps_min),
+    reps_max: adjustReps(exercise.reps_max),
+    weight_kg: exercise.weight_kg ? roundLoad(Number(exercise.weight_kg) * (modifier.load_percent / 100)) : exercise.weight_kg,
+  }
+}
+
+export function isNeutralModifier(modifier: WeekModifier) {
+  return modifier.sets_delta === 0 && modifier.reps_delta === 0 && modifier.load_percent === 100
+}
+
+export function describeModifier(modifier: WeekModifier) {
+  const parts: string[] = []
+  if (modifier.sets_delta) parts.push(`${modifier.sets_delta > 0 ? "+" : ""}${modifier.sets_delta} série(s)`)
+  if (modifier.reps_delta) parts.push(`${modifier.reps_delta > 0 ? "+" : ""}${modifier.reps_delta} reps`)
+  if (modifier.load_percent !== 100) parts.push(`${modifier.load_percent}% da carga`)
+  return parts.join(" · ")
+}
@@ -0,0 +1,18 @@
+import { supabase } from "@/integrations/supabase/client"
+
+export type PlanKind = "workout" | "diet"
+
+/**
+ * Cópia completa do plano (com todos os filhos e a mesma ordem) feita no banco
+ * em uma transação. Sem `targetStudentId`, copia para o mesmo aluno.
+ */
+export async function copyPlan(kind: PlanKind, planId: string, targetStudentId?: string, newName?: string) {
+  const args = { source_plan_id: planId, target_student_id: targetStudentId, new_name: newName }
+  const { data, error } =
+    kind === "workout"
+      ? await supabase.rpc("copy_workout_plan", args)
+      : await supabase.rpc("copy_diet_plan", args)
+
+  if (error) throw error
+  return data
+}
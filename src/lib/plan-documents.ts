@@ -0,0 +1,161 @@
+import { z } from "zod"
+import { supabase } from "@/integrations/supabase/client"
+import type { Json } from "@/integrations/supabase/types"
+import { DEFAULT_MACRO_TOLERANCE } from "@/lib/diet-targets"
+import { isValidTempo } from "@/lib/exercise-grouping"
+import { DEFAULT_PROGRESSION_SETTINGS } from "@/lib/progression"
+
+// Schemas do documento enviado às funções `create_workout_plan` e
+// `create_diet_plan`. As funções repetem as mesmas regras no banco e gravam
+// tudo em uma transação; a validação aqui só devolve mensagens legíveis antes
+// de sair do navegador.
+
+const optionalText = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((value) => value || null)
+
+const uuid = z.string().uuid()
+
+export const workoutExerciseInputSchema = z
+  .object({
+    exercise_id: uuid,
+    order_index: z.number().int().min(0),
+    sets: z.number().int().min(1, "Informe ao menos 1 série."),
+    reps_min: z.number().int().min(1).nullable(),
+    reps_max: z.number().int().min(1).nullable(),
+    weight_kg: z.number().min(0).nullish().default(null),
+    rest_seconds: z.number().int().min(0).nullable(),
+    tempo: optionalText.refine(isValidTempo, "Use o formato 3-1-2-0 (números ou X) na cadência."),
+    technique: z.enum(["drop_set", "rest_pause", "cluster"]).nullish().default(null),
+    notes: optionalText,
+    group_key: optionalText,
+    group_type: z.enum(["superset", "giant_set", "circuit"]).nullish().default(null),
+  })
+  .refine((exercise) => !exercise.reps_min || !exercise.reps_max || exercise.reps_min <= exercise.reps_max, {
+    message: "As repetições mínimas não podem passar das máximas.",
+    path: ["reps_max"],
+  })
+
+export const workoutSessionInputSchema = z.object({
+  name: z.string().trim().min(1, "Toda sessão precisa de um nome."),
+  description: optionalText,
+  day_of_week: z.number().int().min(0).max(6).nullable(),
+  order_index: z.number().int().min(0),
+  exercises: z.array(workoutExerciseInputSchema).min(1, "Toda sessão precisa de ao menos um exercício."),
+})
+
+export const workoutPhaseInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Todas as fases precisam de um nome."),
+    goal: z.enum(["hypertrophy", "strength", "power", "endurance", "deload"]),
+    start_week: z.number().int().min(1),
+    end_week: z.number().int().min(1),
+    week_modifiers: z.array(
+      z.object({ sets_delta: z.number(), reps_delta: z.number(), load_percent: z.number() })
+    ),
+    notes: optionalText,
+  })
+  .refine((phase) => phase.start_week <= phase.end_week, {
+    message: "A fase termina antes de começar.",
+    path: ["end_week"],
+  })
+
+export const newWorkoutPlanSchema = z.object({
+  student_id: uuid,
+  name: z.string().trim().min(1, "Digite um nome para o treino."),
+  description: optionalText,
+  start_date: z.string().nullish().default(null),
+  duration_weeks: z.number().int().min(1),
+  frequency_per_week: z.number().int().min(1).max(7),
+  schedule_mode: z.enum(["weekly", "rotation"]).default("weekly"),
+  progression_settings: z
+    .object({
+      rule: z.enum(["double_progression", "percentage"]),
+      increment_kg: z.number().min(0),
+      increase_percent: z.number().min(0),
+      deload_percent: z.number().min(0),
+    })
+    .default(DEFAULT_PROGRESSION_SETTINGS),
+  phases: z.array(workoutPhaseInputSchema).default([]),
+  sessions: z.array(workoutSessionInputSchema).min(1, "Adicione pelo menos um treino com exercícios."),
+})
+
+export type NewWorkoutPlan = z.input<typeof newWorkoutPlanSchema>
+
+const macro = z.number().min(0).nullish().default(null)
+
+export const substitutionInputSchema = z.object({
+  food_id: uuid.nullable(),
+  food_name: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  unit: z.string().trim().min(1),
+  calories: macro,
+  protein: macro,
+  carbs: macro,
+  fat: macro,
+  match_by: z.enum(["calories", "carbs"]),
+})
+
+export const dietFoodInputSchema = z.object({
+  food_id: uuid.nullish().default(null),
+  food_name: z.string().trim().min(1, "Todo alimento precisa de um nome."),
+  quantity: z.number().positive("A quantidade dos alimentos deve ser maior que zero."),
+  unit: z.string().trim().min(1),
+  calories: macro,
+  protein: macro,
+  carbs: macro,
+  fat: macro,
+  notes: optionalText,
+  substitutions: z.array(substitutionInputSchema).default([]),
+})
+
+export const dietMealInputSchema = z.object({
+  name: z.string().trim().min(1, "Toda refeição precisa de um nome."),
+  time_of_day: optionalText,
+  order_index: z.number().int().min(0),
+  foods: z.array(dietFoodInputSchema),
+})
+
+const target = z.number().min(0).nullish().default(null)
+
+export const newDietPlanSchema = z.object({
+  student_id: uuid,
+  name: z.string().trim().min(1, "Digite um nome para a dieta."),
+  description: optionalText,
+  daily_calories: z.number().int().min(0).nullish().default(null),
+  daily_protein: target,
+  daily_carbs: target,
+  daily_fat: target,
+  macro_tolerance_percent: z.number().int().min(0).max(100).default(DEFAULT_MACRO_TOLERANCE),
+  meals: z.array(dietMealInputSchema),
+})
+
+export type NewDietPlan = z.input<typeof newDietPlanSchema>
+
+/** Primeira mensagem de validação do documento, ou `fallback` para erros do banco/rede. */
+export function describePlanError(error: unknown, fallback: string) {
+  return error instanceof z.ZodError ? error.issues[0]?.message || fallback : fallback
+}
+
+/**
+ * Valida o documento e cria o plano completo no banco em uma transação.
+ * Lança `ZodError` se o documento for inválido (nada é enviado nesse caso).
+ */
+export async function createWorkoutPlan(plan: NewWorkoutPlan) {
+  const document = newWorkoutPlanSchema.parse(plan)
+  const { data, error } = await supabase.rpc("create_workout_plan", { plan: document as unknown as Json })
+
+  if (error) throw error
+  return data
+}
+
+/** Mesmo contrato de `createWorkoutPlan`, para dietas com refeições, alimentos e substituições. */
+export async function createDietPlan(plan: NewDietPlan) {
+  const document = newDietPlanSchema.parse(plan)
+  const { data, error } = await supabase.rpc("create_diet_plan", { plan: document as unknown as Json })
+
+  if (error) throw error
+  return data
+}
@@ -0,0 +1,328 @@
+import { supabase } from "@/integrations/supabase/client"
+import type { Json, Tables } from "@/integrations/supabase/types"
+import type { DietFoodDocument, DietMealDocument, DietPlanDocument } from "@/lib/diet-templates"
+import type { PlanKind } from "@/lib/plan-copy"
+import type {
+  WorkoutExerciseDocument,
+  WorkoutPlanDocument,
+  WorkoutSessionDocument,
+} from "@/lib/workout-templates"
+
+export type WorkoutPlanVersion = Tables<"workout_plan_versions">
+
+export type DietPlanVersion = Tables<"diet_plan_versions">
+
+export type PlanVersion = WorkoutPlanVersion | DietPlanVersion
+
+// Fotografias gravadas pelas funções `*_plan_snapshot`: o documento dos
+// modelos mais nome, descrição e os ids dos itens, usados para casar as versões
+export interface WorkoutExerciseSnapshot extends WorkoutExerciseDocument {
+  id: string
+}
+
+export interface WorkoutSessionSnapshot extends Omit<WorkoutSessionDocument, "exercises"> {
+  id: string
+  exercises: WorkoutExerciseSnapshot[]
+}
+
+export interface WorkoutPlanSnapshot extends Omit<WorkoutPlanDocument, "sessions"> {
+  name: string
+  description: string | null
+  start_date: string | null
+  sessions: WorkoutSessionSnapshot[]
+}
+
+// Documento dos editores de treino para `save_workout_plan`/`save_workout_session`:
+// itens com `id` são atualizados no lugar, os sem `id` são criados e os que
+// saíram do documento, apagados
+export interface WorkoutExerciseEdit extends Omit<WorkoutExerciseDocument, "notes"> {
+  id?: string | null
+}
+
+export interface WorkoutSessionEdit extends Omit<WorkoutSessionDocument, "description" | "exercises"> {
+  id?: string | null
+  exercises: WorkoutExerciseEdit[]
+}
+
+export interface WorkoutPlanEdit extends Omit<WorkoutPlanDocument, "sessions"> {
+  name: string
+  description: string | null
+  start_date: string | null
+  sessions: WorkoutSessionEdit[]
+}
+
+export interface DietFoodSnapshot extends DietFoodDocument {
+  id: string
+}
+
+export interface DietMealSnapshot extends Omit<DietMealDocument, "foods"> {
+  id: string
+  foods: DietFoodSnapshot[]
+}
+
+export interface DietPlanSnapshot extends Omit<DietPlanDocument, "meals"> {
+  name: string
+  description: string | null
+  meals: DietMealSnapshot[]
+}
+
+/**
+ * Grava o estado atual do plano como nova versão. Se nada mudou desde a
+ * última, o banco devolve a última versão em vez de criar outra.
+ */
+export async function createPlanVersion(kind: PlanKind, planId: string, note?: string) {
+  const args = { plan_id: planId, version_note: note }
+  const { data, error } =
+    kind === "workout"
+      ? await supabase.rpc("create_workout_plan_version", args)
+      : await supabase.rpc("create_diet_plan_version", args)
+
+  if (error) throw error
+  return data
+}
+
+/** Volta o plano ao estado da versão; o estado anterior fica salvo como versão. */
+export async function restorePlanVersion(kind: PlanKind, versionId: string) {
+  const { data, error } =
+    kind === "workout"
+      ? await supabase.rpc("restore_workout_plan_version", { version_id: versionId })
+      : await supabase.rpc("restore_diet_plan_version", { version_id: versionId })
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Aplica a edição do plano e grava as versões de antes e depois em uma
+ * transação. Devolve o id da versão resultante.
+ */
+export async function saveWorkoutPlan(planId: string, plan: WorkoutPlanEdit) {
+  const { data, error } = await supabase.rpc("save_workout_plan", {
+    plan_id: planId,
+    plan: plan as unknown as Json,
+  })
+
+  if (error) throw error
+  return data
+}
+
+/** Mesmo contrato de `saveWorkoutPlan`, para os exercícios de uma única sessão. */
+export async function saveWorkoutSession(sessionId: string, exercises: WorkoutExerciseEdit[]) {
+  const { data, error } = await supabase.rpc("save_workout_session", {
+    session_id: sessionId,
+    exercises: exercises as unknown as Json,
+  })
+
+  if (error) throw error
+  return data
+}
+
+export async function loadPlanVersions(kind: PlanKind, planId: string): Promise<PlanVersion[]> {
+  const { data, error } =
+    kind === "workout"
+      ? await supabase
+          .from("workout_plan_versions")
+          .select("*")
+          .eq("workout_plan_id", planId)
+          .order("version_number", { ascending: false })
+      : await supabase
+          .from("diet_plan_versions")
+          .select("*")
+          .eq("diet_plan_id", planId)
+          .order("version_number", { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+export function parseWorkoutSnapshot(snapshot: Json): WorkoutPlanSnapshot {
+  const document = snapshot as unknown as Partial<WorkoutPlanSnapshot>
+  return {
+    name: document.name ?? "",
+    description: document.description ?? null,
+    start_date: document.start_date ?? null,
+    duration_weeks: document.duration_weeks ?? 0,
+    frequency_per_week: document.frequency_per_week ?? 0,
+    schedule_mode: document.schedule_mode ?? "weekly",
+    progression_settings: document.progression_settings ?? {},
+    phases: document.phases || [],
+    sessions: (document.sessions || []).map((session) => ({ ...session, exercises: session.exercises || [] })),
+  }
+}
+
+export function parseDietSnapshot(snapshot: Json): DietPlanSnapshot {
+  const document = snapshot as unknown as Partial<DietPlanSnapshot>
+  return {
+    name: document.name ?? "",
+    description: document.description ?? null,
+    daily_calories: document.daily_calories ?? null,
+    daily_protein: document.daily_protein ?? null,
+    daily_carbs: document.daily_carbs ?? null,
+    daily_fat: document.daily_fat ?? null,
+    macro_tolerance_percent: document.macro_tolerance_percent ?? null,
+    meals: (document.meals || []).map((meal) => ({
+      ...meal,
+      foods: (meal.foods || []).map((food) => ({ ...food, substitutions: food.substitutions || [] })),
+    })),
+  }
+}
+
+function changed<T>(before: T, after: T) {
+  return JSON.stringify(before ?? null) !== JSON.stringify(after ?? null)
+}
+
+function describeValue(value: string | number | null | undefined, suffix = "") {
+  return value === null || value === undefined || value === "" ? "—" : `${value}${suffix}`
+}
+
+function pushChange(
+  changes: string[],
+  label: string,
+  before: string | number | null | undefined,
+  after: string | number | null | undefined,
+  suffix = ""
+) {
+  if (changed(before, after)) {
+    changes.push(`${label}: ${describeValue(before, suffix)} → ${describeValue(after, suffix)}`)
+  }
+}
+
+// "4x8-12 · 20kg · 90s", no formato em que o personal escreve a prescrição
+function describePrescription(exercise: WorkoutExerciseDocument) {
+  const reps =
+    exercise.reps_min && exercise.reps_max && exercise.reps_min !== exercise.reps_max
+      ? `${exercise.reps_min}-${exercise.reps_max}`
+      : `${exercise.reps_min ?? exercise.reps_max ?? "?"}`
+  return [
+    `${exercise.sets}x${reps}`,
+    exercise.weight_kg ? `${exercise.weight_kg}kg` : null,
+    exercise.rest_seconds ? `${exercise.rest_seconds}s` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ")
+}
+
+/**
+ * Lista legível do que mudou entre duas versões do treino. Exercícios são
+ * casados pelo id, então um exercício editado aparece como alteração e não
+ * como remoção + inclusão.
+ */
+export function diffWorkoutSnapshots(
+  previous: WorkoutPlanSnapshot,
+  current: WorkoutPlanSnapshot,
+  exerciseNames: Record<string, string>
+): string[] {
+  const changes: string[] = []
+  const exerciseName = (exercise: WorkoutExerciseDocument) => exerciseNames[exercise.exercise_id] || "Exercício"
+
+  pushChange(changes, "Nome", previous.name, current.name)
+  pushChange(changes, "Duração", previous.duration_weeks, current.duration_weeks, " semanas")
+  pushChange(changes, "Frequência", previous.frequency_per_week, current.frequency_per_week, "x por semana")
+  if (previous.schedule_mode !== current.schedule_mode) changes.push("Modo de agenda alterado")
+  if (changed(previous.phases, current.phases)) changes.push("Fases da periodização alteradas")
+  if (changed(previous.progression_settings, current.progression_settings)) changes.push("Regras de progressão alteradas")
+
+  const previousSessions = new Map(previous.sessions.map((session) => [session.id, session]))
+  const currentSessions = new Map(current.sessions.map((session) => [session.id, session]))
+
+  current.sessions.forEach((session) => {
+    const before = previousSessions.get(session.id)
+    if (!before) {
+      changes.push(`+ Sessão ${session.name} (${session.exercises.length} exercícios)`)
+      return
+    }
+    pushChange(changes, `Sessão ${before.name}`, before.name, session.name)
+    pushChange(changes, `Dia de ${session.name}`, before.day_of_week, session.day_of_week)
+  })
+  previous.sessions.forEach((session) => {
+    if (!currentSessions.has(session.id)) changes.push(`- Sessão ${session.name}`)
+  })
+
+  const exercisesOf = (snapshot: WorkoutPlanSnapshot) =>
+    new Map(
+      snapshot.sessions
+        // Sessões novas ou removidas já aparecem inteiras acima
+        .filter((session) => previousSessions.has(session.id) && currentSessions.has(session.id))
+        .flatMap((session) => session.exercises.map((exercise) => [exercise.id, { exercise, session }] as const))
+    )
+  const previousExercises = exercisesOf(previous)
+  const currentExercises = exercisesOf(current)
+
+  currentExercises.forEach(({ exercise, session }, id) => {
+    const before = previousExercises.get(id)
+    const label = `${exerciseName(exercise)} (${session.name})`
+    if (!before) {
+      changes.push(`+ ${label}: ${describePrescription(exercise)}`)
+      return
+    }
+    if (before.exercise.exercise_id !== exercise.exercise_id) {
+      changes.push(`${exerciseName(before.exercise)} → ${label}`)
+    }
+    const beforePrescription = describePrescription(before.exercise)
+    const afterPrescription = describePrescription(exercise)
+    if (beforePrescription !== afterPrescription) {
+      changes.push(`${label}: ${beforePrescription} → ${afterPrescription}`)
+    }
+    pushChange(changes, `${label} · técnica`, before.exercise.technique, exercise.technique)
+    pushChange(changes, `${label} · cadência`, before.exercise.tempo, exercise.tempo)
+    pushChange(changes, `${label} · observações`, before.exercise.notes, exercise.notes)
+  })
+  previousExercises.forEach(({ exercise, session }, id) => {
+    if (!currentExercises.has(id)) changes.push(`- ${exerciseName(exercise)} (${session.name})`)
+  })
+
+  return changes
+}
+
+/** Lista legível do que mudou entre duas versões da dieta (alimentos casados pelo id). */
+export function diffDietSnapshots(previous: DietPlanSnapshot, current: DietPlanSnapshot): string[] {
+  const changes: string[] = []
+
+  pushChange(changes, "Nome", previous.name, current.name)
+  pushChange(changes, "Meta de calorias", previous.daily_calories, current.daily_calories, " kcal")
+  pushChange(changes, "Meta de proteína", previous.daily_protein, current.daily_protein, "g")
+  pushChange(changes, "Meta de carboidratos", previous.daily_carbs, current.daily_carbs, "g")
+  pushChange(changes, "Meta de gorduras", previous.daily_fat, current.daily_fat, "g")
+  pushChange(changes, "Tolerância", previous.macro_tolerance_percent, current.macro_tolerance_percent, "%")
+
+  const previousMeals = new Map(previous.meals.map((meal) => [meal.id, meal]))
+  const currentMeals = new Map(current.meals.map((meal) => [meal.id, meal]))
+
+  current.meals.forEach((meal) => {
+    const before = previousMeals.get(meal.id)
+    if (!before) {
+      changes.push(`+ Refeição ${meal.name} (${meal.foods.length} alimentos)`)
+      return
+    }
+    pushChange(changes, `Refeição ${before.name}`, before.name, meal.name)
+    pushChange(changes, `Horário de ${meal.name}`, before.time_of_day, meal.time_of_day)
+
+    const previousFoods = new Map(before.foods.map((food) => [food.id, food]))
+    const currentFoods = new Set(meal.foods.map((food) => food.id))
+    meal.foods.forEach((food) => {
+      const previousFood = previousFoods.get(food.id)
+      if (!previousFood) {
+        changes.push(`+ ${food.food_name} ${food.quantity}${food.unit} (${meal.name})`)
+        return
+      }
+      const label = `${food.food_name} (${meal.name})`
+      if (previousFood.food_name !== food.food_name) {
+        changes.push(`${previousFood.food_name} → ${label}`)
+      }
+      if (previousFood.quantity !== food.quantity || previousFood.unit !== food.unit) {
+        changes.push(`${label}: ${previousFood.quantity}${previousFood.unit} → ${food.quantity}${food.unit}`)
+      }
+      if (changed(previousFood.substitutions, food.substitutions)) {
+        changes.push(`${label}: substituições alteradas`)
+      }
+    })
+    before.foods.forEach((food) => {
+      if (!currentFoods.has(food.id)) changes.push(`- ${food.food_name} (${meal.name})`)
+    })
+  })
+  previous.meals.forEach((meal) => {
+    if (!currentMeals.has(meal.id)) changes.push(`- Refeição ${meal.name}`)
+  })
+
+  return changes
+}
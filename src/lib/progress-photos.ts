@@ -0,0 +1,81 @@
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+
+export const PROGRESS_PHOTOS_BUCKET = "progress-photos"
+
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+// URLs assinadas valem 1 hora; a galeria é recarregada ao abrir o perfil
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+export type PhotoPose = "front" | "side" | "back"
+
+export const PHOTO_POSES: PhotoPose[] = ["front", "side", "back"]
+
+export const POSE_LABELS: Record<PhotoPose, string> = {
+  front: "Frente",
+  side: "Lado",
+  back: "Costas",
+}
+
+export type ProgressPhoto = Tables<"progress_photos"> & { url?: string }
+
+export async function uploadProgressPhoto(params: {
+  file: File
+  studentId: string
+  trainerId: string
+  takenOn: string
+  pose: PhotoPose
+  assessmentId?: string | null
+}) {
+  const extension = params.file.name.split(".").pop()?.toLowerCase() || "jpg"
+  // A primeira pasta precisa ser o id do aluno (usada pelas políticas do bucket)
+  const path = `${params.studentId}/${crypto.randomUUID()}.${extension}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(PROGRESS_PHOTOS_BUCKET)
+    .upload(path, params.file, { contentType: params.file.type, upsert: false })
+
+  if (uploadError) throw uploadError
+
+  const { error } = await supabase.from("progress_photos").insert({
+    student_id: params.studentId,
+    personal_trainer_id: params.trainerId,
+    assessment_id: params.assessmentId || null,
+    taken_on: params.takenOn,
+    pose: params.pose,
+    storage_path: path,
+  })
+
+  if (error) {
+    await supabase.storage.from(PROGRESS_PHOTOS_BUCKET).remove([path])
+    throw error
+  }
+}
+
+export async function loadProgressPhotos(studentId: string): Promise<ProgressPhoto[]> {
+  const { data, error } = await supabase
+    .from("progress_photos")
+    .select("*")
+    .eq("student_id", studentId)
+    .order("taken_on", { ascending: true })
+
+  if (error) throw error
+  if (!data || data.length === 0) return []
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(PROGRESS_PHOTOS_BUCKET)
+    .createSignedUrls(data.map((photo) => photo.storage_path), SIGNED_URL_TTL_SECONDS)
+
+  if (signError) throw signError
+
+  const urls = new Map((signed || []).map((item) => [item.path, item.signedUrl]))
+  return data.map((photo) => ({ ...photo, url: urls.get(photo.storage_path) }))
+}
+
+export async function deleteProgressPhoto(photo: ProgressPhoto) {
+  const { error } = await supabase.from("progress_photos").delete().eq("id", photo.id)
+  if (error) throw error
+
+  await supabase.storage.from(PROGRESS_PHOTOS_BUCKET).remove([photo.storage_path])
+}
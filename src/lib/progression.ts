@@ -0,0 +1,143 @@
+import type { Json } from "@/integrations/supabase/types"
+
+export type ProgressionRule = "double_progression" | "percentage"
+
+export interface ProgressionSettings {
+  rule: ProgressionRule
+  // Incremento fixo usado pela dupla progressão
+  increment_kg: number
+  // Aumento percentual usado pela regra "percentage"
+  increase_percent: number
+  // Redução aplicada após sessões seguidas abaixo do mínimo de repetições
+  deload_percent: number
+}
+
+export const DEFAULT_PROGRESSION_SETTINGS: ProgressionSettings = {
+  rule: "double_progression",
+  increment_kg: 2.5,
+  increase_percent: 5,
+  deload_percent: 10,
+}
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRule, string> = {
+  double_progression: "Dupla progressão",
+  percentage: "Aumento percentual",
+}
+
+export interface ExercisePrescription {
+  sets: number
+  reps_min?: number | null
+  reps_max?: number | null
+  weight_kg?: number | null
+}
+
+export interface CompletionRecord {
+  completed_at: string
+  reps_completed: number[] | null
+  weight_used: number | null
+  weights_used?: number[] | null
+}
+
+export type SuggestionAction = "increase" | "add_reps" | "hold" | "deload"
+
+export interface ProgressionSuggestion {
+  action: SuggestionAction
+  weight_kg: number | null
+  target_reps: number | null
+  reason: string
+}
+
+export function parseProgressionSettings(value: Json | null | undefined): ProgressionSettings {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return DEFAULT_PROGRESSION_SETTINGS
+  }
+  return { ...DEFAULT_PROGRESSION_SETTINGS, ...(value as Partial<ProgressionSettings>) }
+}
+
+// Arredonda para múltiplos de 0,5kg, o menor salto comum entre anilhas e halteres
+function roundLoad(weight: number) {
+  return Math.round(weight * 2) / 2
+}
+
+function allSetsReached(record: CompletionRecord, target: number) {
+  const reps = record.reps_completed || []
+  return reps.length > 0 && reps.every((r) => r >= target)
+}
+
+function workingWeight(record: CompletionRecord, prescription: ExercisePrescription) {
+  if (record.weight_used) return Number(record.weight_used)
+  const weights = (record.weights_used || []).filter((w) => w > 0)
+  if (weights.length > 0) return Math.max(...weights)
+  return prescription.weight_kg ? Number(prescription.weight_kg) : null
+}
+
+/**
+ * Sugere a carga e a meta de repetições da próxima sessão a partir do
+ * histórico do aluno (mais recente primeiro) e da prescrição atual.
+ * Retorna null quando ainda não há sessão registrada para o exercício.
+ */
+export function suggestNextLoad(
+  prescription: ExercisePrescription,
+  history: CompletionRecord[],
+  settings: ProgressionSettings = DEFAULT_PROGRESSION_SETTINGS
+): ProgressionSuggestion | null {
+  const sessions = history.filter((h) => (h.reps_completed || []).length > 0)
+  if (sessions.length === 0) return null
+
+  const last = sessions[0]
+  const repsMin = prescription.reps_min || prescription.reps_max || null
+  const repsMax = prescription.reps_max || prescription.reps_min || null
+  const weight = workingWeight(last, prescription)
+
+  if (!repsMin || !repsMax) {
+    return { action: "hold", weight_kg: weight, target_reps: null, reason: "Sem faixa de repetições definida" }
+  }
+
+  const setsDone = (last.reps_completed || []).length
+  const hitTop = setsDone >= prescription.sets && allSetsReached(last, repsMax)
+
+  if (hitTop) {
+    if (weight === null) {
+      return { action: "add_reps", weight_kg: null, target_reps: repsMax, reason: "Topo da faixa atingido sem carga registrada" }
+    }
+    const next = settings.rule === "percentage"
+      ? roundLoad(weight * (1 + settings.increase_percent / 100))
+      : roundLoad(weight + settings.increment_kg)
+    return {
+      action: "increase",
+      weight_kg: Math.max(next, weight + 0.5),
+      target_reps: repsMin,
+      reason: `${repsMax} reps em todas as séries`,
+    }
+  }
+
+  // Duas sessões seguidas abaixo do mínimo indicam que a carga está alta demais
+  const missedMin = (record: CompletionRecord) => !allSetsReached(record, repsMin)
+  if (sessions.length >= 2 && missedMin(sessions[0]) && missedMin(sessions[1]) && weight !== null) {
+    return {
+      action: "deload",
+      weight_kg: roundLoad(weight * (1 - settings.deload_percent / 100)),
+      target_reps: repsMin,
+      reason: `Abaixo de ${repsMin} reps em duas sessões seguidas`,
+    }
+  }
+
+  if (settings.rule === "double_progression" && allSetsReached(last, repsMin)) {
+    const lowest = Math.min(...(last.reps_completed || []))
+    return {
+      action: "add_reps",
+      weight_kg: weight,
+      target_reps: Math.min(repsMax, lowest + 1),
+      reason: "Manter a carga e somar repetições",
+    }
+  }
+
+  return { action: "hold", weight_kg: weight, target_reps: repsMin, reason: "Manter a carga atual" }
+}
+
+export function formatSuggestion(suggestion: ProgressionSuggestion) {
+  const parts: string[] = []
+  if (suggestion.weight_kg) parts.push(`${suggestion.weight_kg}kg`)
+  if (suggestion.target_reps) parts.push(`${suggestion.target_reps} reps`)
+  return parts.join(" × ")
+}
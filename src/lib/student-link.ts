@@ -0,0 +1,55 @@
+import { supabase } from "@/integrations/supabase/client"
+
+// Links de aluno exigem o token assinado do link; o número sozinho não dá acesso
+export function getStudentLink(studentNumber: string, linkToken: string, path = "") {
+  return `${window.location.origin}/student/${studentNumber}${path}?t=${encodeURIComponent(linkToken)}`
+}
+
+export const DEFAULT_LINK_EXPIRY_DAYS = 30
+
+export interface StudentAccessLinkInfo {
+  id: string
+  expires_at: string
+  has_pin: boolean
+}
+
+interface StudentLinkResult {
+  link_token: string
+  link: StudentAccessLinkInfo
+}
+
+const invokeStudentLink = async (body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke("student-link", { body })
+  if (error || !data?.success) {
+    throw new Error(data?.error || error?.message || "Erro ao gerenciar link do aluno")
+  }
+  return data
+}
+
+// Revoga o link atual e emite um novo, com validade e PIN opcional
+export async function rotateStudentLink(
+  studentId: string,
+  options: { expiresInDays?: number; pin?: string | null } = {}
+): Promise<StudentLinkResult> {
+  return invokeStudentLink({
+    action: "rotate",
+    student_id: studentId,
+    expires_in_days: options.expiresInDays ?? DEFAULT_LINK_EXPIRY_DAYS,
+    pin: options.pin || null,
+  })
+}
+
+// Reassina o link ativo para copiar/compartilhar; falha se não houver link válido
+export async function shareStudentLink(studentId: string): Promise<StudentLinkResult> {
+  return invokeStudentLink({ action: "share", student_id: studentId })
+}
+
+export async function revokeStudentLink(studentId: string): Promise<void> {
+  await invokeStudentLink({ action: "revoke", student_id: studentId })
+}
+
+// URL completa do link ativo do aluno (para copiar, abrir ou compartilhar)
+export async function getActiveStudentLink(studentId: string, studentNumber: string, path = "") {
+  const { link_token } = await shareStudentLink(studentId)
+  return getStudentLink(studentNumber, link_token, path)
+}
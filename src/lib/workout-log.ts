@@ -0,0 +1,101 @@
+import type { Json } from "@/integrations/supabase/types"
+
+export type WorkoutDifficulty = "very_easy" | "easy" | "moderate" | "hard" | "very_hard"
+
+export const DIFFICULTY_LABELS: Record<WorkoutDifficulty, string> = {
+  very_easy: "Muito fácil",
+  easy: "Fácil",
+  moderate: "Moderado",
+  hard: "Difícil",
+  very_hard: "Muito difícil",
+}
+
+// Escala de Borg CR10 adaptada; o índice é o próprio valor de RPE
+const RPE_DESCRIPTIONS = [
+  "",
+  "Muito leve",
+  "Leve",
+  "Moderado",
+  "Algo pesado",
+  "Pesado",
+  "Pesado",
+  "Muito pesado",
+  "Muito pesado",
+  "Quase máximo",
+  "Máximo",
+]
+
+export interface PainReport {
+  region: string
+  // Intensidade de 1 (leve) a 10 (insuportável)
+  intensity: number
+  notes?: string | null
+}
+
+export interface WorkoutFeedback {
+  rpe: number | null
+  difficulty: WorkoutDifficulty | null
+  pain_reports: PainReport[]
+  feedback: string
+}
+
+export const EMPTY_WORKOUT_FEEDBACK: WorkoutFeedback = {
+  rpe: null,
+  difficulty: null,
+  pain_reports: [],
+  feedback: "",
+}
+
+export interface WorkoutLogRecord {
+  started_at: string
+  duration_seconds: number
+  rpe: number | null
+  pain_reports: Json
+}
+
+export function describeRpe(rpe: number) {
+  return RPE_DESCRIPTIONS[rpe] ?? ""
+}
+
+export function parsePainReports(value: Json): PainReport[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter((item): item is Record<string, Json> => !!item && typeof item === "object" && !Array.isArray(item))
+    .map((item) => ({
+      region: String(item.region ?? ""),
+      intensity: Number(item.intensity) || 1,
+      notes: typeof item.notes === "string" ? item.notes : null,
+    }))
+    .filter((report) => report.region.trim() !== "")
+}
+
+/** Campos de percepção no formato das colunas de `workout_logs`. */
+export function serializeFeedback(feedback: WorkoutFeedback) {
+  return {
+    rpe: feedback.rpe,
+    difficulty: feedback.difficulty,
+    pain_reports: feedback.pain_reports
+      .filter((report) => report.region.trim() !== "")
+      .map((report) => ({
+        region: report.region.trim(),
+        intensity: report.intensity,
+        notes: report.notes?.trim() || null,
+      })),
+    feedback: feedback.feedback.trim() || null,
+  }
+}
+
+/** Totais das sessões registradas no período, usados nos relatórios. */
+export function summarizeWorkoutLogs(logs: WorkoutLogRecord[]) {
+  const rated = logs.filter((log) => log.rpe !== null)
+  const totalSeconds = logs.reduce((sum, log) => sum + log.duration_seconds, 0)
+  return {
+    sessions: logs.length,
+    totalMinutes: Math.round(totalSeconds / 60),
+    averageMinutes: logs.length > 0 ? Math.round(totalSeconds / 60 / logs.length) : 0,
+    averageRpe: rated.length > 0
+      ? Math.round((rated.reduce((sum, log) => sum + (log.rpe ?? 0), 0) / rated.length) * 10) / 10
+      : null,
+    painReports: logs.reduce((sum, log) => sum + parsePainReports(log.pain_reports).length, 0),
+  }
+}
@@ -0,0 +1,64 @@
+export type ScheduleMode = "weekly" | "rotation"
+
+export const SCHEDULE_MODE_LABELS: Record<ScheduleMode, string> = {
+  weekly: "Dias da semana",
+  rotation: "Rodízio (A/B/C)",
+}
+
+export const WEEKDAY_LABELS = [
+  "Domingo",
+  "Segunda-feira",
+  "Terça-feira",
+  "Quarta-feira",
+  "Quinta-feira",
+  "Sexta-feira",
+  "Sábado",
+]
+
+export const WEEKDAY_SHORT_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"]
+
+export const MAX_ROTATION_SESSIONS = 7
+
+export interface ScheduledSession {
+  id?: string
+  day_of_week: number | null
+  order_index: number
+}
+
+export function rotationLetter(index: number) {
+  return String.fromCharCode(65 + index)
+}
+
+/** Rótulo do treino: dia da semana no modo semanal, letra no rodízio. */
+export function sessionSlotLabel(session: ScheduledSession, short = false) {
+  if (session.day_of_week !== null && session.day_of_week !== undefined) {
+    return (short ? WEEKDAY_SHORT_LABELS : WEEKDAY_LABELS)[session.day_of_week] ?? "?"
+  }
+  return `Treino ${rotationLetter(session.order_index)}`
+}
+
+export function compareSessions(a: ScheduledSession, b: ScheduledSession) {
+  return (a.day_of_week ?? a.order_index) - (b.day_of_week ?? b.order_index)
+}
+
+/**
+ * Sugere o próximo treino do rodízio a partir do último treino registrado.
+ * Se o último registro foi hoje, o mesmo treino continua sugerido (ainda em
+ * andamento); sem histórico, começa pelo primeiro.
+ */
+export function nextRotationSession<T extends ScheduledSession>(
+  sessions: T[],
+  last?: { sessionId: string; completedAt: string } | null,
+  today = new Date()
+): T | undefined {
+  const ordered = [...sessions].sort((a, b) => a.order_index - b.order_index)
+  if (ordered.length === 0) return undefined
+
+  const lastIndex = last ? ordered.findIndex((s) => s.id === last.sessionId) : -1
+  if (!last || lastIndex === -1) return ordered[0]
+
+  if (new Date(last.completedAt).toDateString() === today.toDateString()) {
+    return ordered[lastIndex]
+  }
+  return ordered[(lastIndex + 1) % ordered.length]
+}
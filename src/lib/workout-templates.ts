@@ -0,0 +1,175 @@
+import { supabase } from "@/integrations/supabase/client"
+import type { Json, Tables } from "@/integrations/supabase/types"
+import { normalizeFoodSearch } from "@/lib/foods"
+
+export type TemplateLevel = "beginner" | "intermediate" | "advanced"
+
+export type TemplateGoal = "hypertrophy" | "strength" | "fat_loss" | "endurance" | "general"
+
+export type WorkoutTemplate = Tables<"workout_templates">
+
+export const TEMPLATE_LEVEL_LABELS: Record<TemplateLevel, string> = {
+  beginner: "Iniciante",
+  intermediate: "Intermediário",
+  advanced: "Avançado",
+}
+
+export const TEMPLATE_GOAL_LABELS: Record<TemplateGoal, string> = {
+  hypertrophy: "Hipertrofia",
+  strength: "Força",
+  fat_loss: "Emagrecimento",
+  endurance: "Resistência",
+  general: "Condicionamento geral",
+}
+
+export interface WorkoutExerciseDocument {
+  exercise_id: string
+  order_index: number
+  sets: number
+  reps_min: number | null
+  reps_max: number | null
+  weight_kg: number | null
+  rest_seconds: number | null
+  tempo: string | null
+  technique: string | null
+  notes: string | null
+  group_key: string | null
+  group_type: string | null
+}
+
+export interface WorkoutSessionDocument {
+  name: string
+  description: string | null
+  day_of_week: number | null
+  order_index: number
+  exercises: WorkoutExerciseDocument[]
+}
+
+export interface WorkoutPhaseDocument {
+  name: string
+  goal: string
+  start_week: number
+  end_week: number
+  week_modifiers: Json
+  notes: string | null
+}
+
+// Plano sem aluno nem ids: é o que fica salvo em `workout_templates.plan`
+export interface WorkoutPlanDocument {
+  duration_weeks: number
+  frequency_per_week: number
+  schedule_mode: string
+  progression_settings: Json
+  phases: WorkoutPhaseDocument[]
+  sessions: WorkoutSessionDocument[]
+}
+
+/** Lê o plano com fases, sessões e exercícios e monta o documento do modelo. */
+export async function buildWorkoutPlanDocument(planId: string): Promise<WorkoutPlanDocument> {
+  const { data: plan, error } = await supabase
+    .from("workout_plans")
+    .select("*, workout_plan_phases (*), workout_sessions (*, workout_exercises (*))")
+    .eq("id", planId)
+    .single()
+
+  if (error) throw error
+
+  return {
+    duration_weeks: plan.duration_weeks,
+    frequency_per_week: plan.frequency_per_week,
+    schedule_mode: plan.schedule_mode,
+    progression_settings: plan.progression_settings,
+    phases: [...plan.workout_plan_phases]
+      .sort((a, b) => a.start_week - b.start_week)
+      .map((phase) => ({
+        name: phase.name,
+        goal: phase.goal,
+        start_week: phase.start_week,
+        end_week: phase.end_week,
+        week_modifiers: phase.week_modifiers,
+        notes: phase.notes,
+      })),
+    sessions: [...plan.workout_sessions]
+      .sort((a, b) => a.order_index - b.order_index)
+      .map((session) => ({
+        name: session.name,
+        description: session.description,
+        day_of_week: session.day_of_week,
+        order_index: session.order_index,
+        exercises: [...session.workout_exercises]
+          .sort((a, b) => a.order_index - b.order_index)
+          .map((exercise) => ({
+            exercise_id: exercise.exercise_id,
+            order_index: exercise.order_index,
+            sets: exercise.sets,
+            reps_min: exercise.reps_min,
+            reps_max: exercise.reps_max,
+            weight_kg: exercise.weight_kg,
+            rest_seconds: exercise.rest_seconds,
+            tempo: exercise.tempo,
+            technique: exercise.technique,
+            notes: exercise.notes,
+            group_key: exercise.group_key,
+            group_type: exercise.group_type,
+          })),
+      })),
+  }
+}
+
+export async function saveWorkoutTemplate(params: {
+  trainerId: string
+  planId: string
+  name: string
+  description?: string | null
+  level: TemplateLevel
+  goal: TemplateGoal
+}) {
+  const plan = await buildWorkoutPlanDocument(params.planId)
+
+  const { error } = await supabase.from("workout_templates").insert({
+    personal_trainer_id: params.trainerId,
+    name: params.name,
+    description: params.description || null,
+    level: params.level,
+    goal: params.goal,
+    plan: plan as unknown as Json,
+  })
+
+  if (error) throw error
+}
+
+/** Cria uma cópia independente do modelo para cada aluno (uma transação no banco). */
+export async function assignWorkoutTemplate(templateId: string, studentIds: string[], startDate?: string) {
+  const { data, error } = await supabase.rpc("assign_workout_template", {
+    template_id: templateId,
+    student_ids: studentIds,
+    plan_start_date: startDate,
+  })
+
+  if (error) throw error
+  return data || []
+}
+
+export function templateSummary(plan: Json) {
+  const document = plan as unknown as Partial<WorkoutPlanDocument>
+  const sessions = Array.isArray(document.sessions) ? document.sessions : []
+  return {
+    sessions: sessions.length,
+    exercises: sessions.reduce((total, session) => total + (session.exercises?.length ?? 0), 0),
+    durationWeeks: document.duration_weeks ?? null,
+    frequencyPerWeek: document.frequency_per_week ?? null,
+  }
+}
+
+export function filterTemplates(
+  templates: WorkoutTemplate[],
+  filters: { query: string; level: TemplateLevel | "all"; goal: TemplateGoal | "all" }
+) {
+  const query = normalizeFoodSearch(filters.query)
+  return templates.filter(
+    (template) =>
+      (filters.level === "all" || template.level === filters.level) &&
+      (filters.goal === "all" || template.goal === filters.goal) &&
+      (!query || normalizeFoodSearch(`${template.name} ${template.description ?? ""}`).includes(query))
+  )
+}
@@ -19,6 +19,7 @@ import {
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { StudentList } from "@/components/StudentList";
 import CreateStudent from "@/components/CreateStudent";
 import StudentTestCreator from "@/components/StudentTestCreator";
@@ -32,16 +33,6 @@ import ExerciseManager from "@/components/ExerciseManager";
 import EditTrainerProfile from "@/components/EditTrainerProfile";
 import Footer from "@/components/Footer";
 
-interface PersonalTrainer {
-  id: string;
-  name: string;
-  cpf: string;
-  email?: string;
-  phone?: string;
-  cref?: string;
-  specializations?: string[];
-}
-
 interface DashboardStats {
   totalStudents: number;
   activeWorkouts: number;
@@ -65,7 +56,7 @@ interface Student {
 }
 
 const Dashboard = () => {
-  const [trainer, setTrainer] = useState<PersonalTrainer | null>(null);
+  const { trainer, refreshTrainer, signOut } = useAuth();
   const [students, setStudents] = useState<Student[]>([]);
   const [stats, setStats] = useState<DashboardStats>({
     totalStudents: 0,
@@ -85,17 +76,12 @@ const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // The route guard only renders this page for an active trainer
   useEffect(() => {
-    const trainerData = localStorage.getItem("trainer");
-    if (!trainerData) {
-      navigate("/login");
-      return;
+    if (trainer) {
+      loadDataWithRetry(trainer.id);
     }
-
-    const parsedTrainer = JSON.parse(trainerData);
-    setTrainer(parsedTrainer);
-    loadDataWithRetry(parsedTrainer.id);
-  }, [navigate]);
+  }, [trainer?.id]);
 
   const loadDataWithRetry = async (trainerId: string, retries = 3) => {
     for (let i = 0; i < retries; i++) {
@@ -189,9 +175,8 @@ const Dashboard = () => {
     }
   };
 
-  const handleLogout = () => {
-    supabase.auth.signOut();
-    localStorage.removeItem("trainer");
+  const handleLogout = async () => {
+    await signOut();
     toast({
       title: "Logout realizado",
       description: "Você foi desconectado com sucesso.",
@@ -530,8 +515,8 @@ const Dashboard = () => {
             <EditTrainerProfile
               trainer={trainer}
               onClose={() => setShowEditProfile(false)}
-              onSuccess={(updatedTrainer) => {
-                setTrainer(updatedTrainer);
+              onSuccess={() => {
+                refreshTrainer();
                 setShowEditProfile(false);
               }}
             />
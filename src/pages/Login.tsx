@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,13 +7,23 @@ import { Label } from "@/components/ui/label";
 import { Dumbbell } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 const Login = () => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const { trainer, isLoading: isAuthLoading, refreshTrainer, signOut } = useAuth();
+  const redirectTo = location.state?.from?.pathname || "/dashboard";
+
+  useEffect(() => {
+    if (!isAuthLoading && trainer) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [isAuthLoading, trainer]);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,73 +49,30 @@ const Login = () => {
       }
 
       console.log("Authentication successful, user ID:", authData.user.id);
-      
-      // Get trainer data from database
-      const { data: trainerData, error: trainerError } = await supabase
-        .from("personal_trainers")
-        .select("*")
-        .eq("auth_user_id", authData.user.id)
-        .single();
 
-      if (trainerError || !trainerData) {
-        console.error("Trainer data error:", trainerError);
-        
-        // Try to find trainer by email as fallback
-        const { data: trainerByEmail, error: emailError } = await supabase
-          .from("personal_trainers")
-          .select("*")
-          .eq("email", authData.user.email)
-          .single();
-          
-        if (emailError || !trainerByEmail) {
-          console.error("Trainer not found by email either:", emailError);
-          toast({
-            title: "Erro no login",
-            description: "Personal trainer não encontrado. Entre em contato com o administrador.",
-            variant: "destructive",
-          });
-          await supabase.auth.signOut();
-          return;
-        }
-        
-        // Update trainer with auth_user_id if found by email
-        const { error: updateError } = await supabase
-          .from("personal_trainers")
-          .update({ auth_user_id: authData.user.id })
-          .eq("id", trainerByEmail.id);
-          
-        if (updateError) {
-          console.error("Error updating trainer auth_user_id:", updateError);
-        }
-        
-        // Use the trainer found by email
-        await setTrainerData(trainerByEmail);
-      } else {
-        await setTrainerData(trainerData);
-      }
+      // Trainer row and active flag are resolved by the auth provider
+      const status = await refreshTrainer();
 
-      async function setTrainerData(trainer: any) {
-        console.log("Trainer found:", trainer.name, "Active:", trainer.active);
-        
-      // Check if trainer is active
-        if (!trainer.active) {
+      if (status === "not_found") {
         toast({
-          title: "Conta inativa",
-          description: "Sua conta está inativa. Entre em contato com o administrador.",
+          title: "Erro no login",
+          description: "Personal trainer não encontrado. Entre em contato com o administrador.",
           variant: "destructive",
         });
-        await supabase.auth.signOut();
+        await signOut();
         return;
       }
-        
-      // Store trainer info in localStorage
-        localStorage.setItem("trainer", JSON.stringify(trainer));
+
+      if (status !== "active") {
+        // Inactive accounts are signed out (and warned) by the provider
+        return;
+      }
+
       toast({
         title: "Login realizado com sucesso!",
-          description: `Bem-vindo, ${trainer.name}!`,
+        description: `Bem-vindo, ${authData.user.user_metadata?.name || authData.user.email}!`,
       });
-      navigate("/dashboard");
-      }
+      navigate(redirectTo, { replace: true });
     } catch (error) {
       console.error("Login exception:", error);
       toast({
@@ -1,13 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { setStudentContext, verifyStudentAccess } from '@/integrations/supabase/client';
+import { verifyStudentAccess } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, Clock, Apple, Dumbbell, User, Printer } from 'lucide-react';
+import StudentPinPrompt from '@/components/StudentPinPrompt';
+import SyncStatusBadge from '@/components/SyncStatusBadge';
+import MealCheckInDialog from '@/components/MealCheckInDialog';
+import HabitCheckInPanel from '@/components/HabitCheckInPanel';
+import MacroTargetSummary from '@/components/MacroTargetSummary';
+import { Progress } from '@/components/ui/progress';
+import { useStudentManifest } from '@/hooks/use-student-manifest';
+import { listQueuedWrites, removeQueuedWrite, submitWrite } from '@/lib/offline-sync';
+import { ChosenSubstitution, parseChosenSubstitutions } from '@/lib/food-substitutions';
+import type { Json } from '@/integrations/supabase/types';
+import { DEFAULT_MACRO_TOLERANCE } from '@/lib/diet-targets';
+import {
+  FoodLogDraft,
+  MealFoodLog,
+  PORTION_STATUS_LABELS,
+  portionStatus,
+  removeMealPhoto,
+  summarizeDay,
+  toMealFoodLog,
+  uploadMealPhoto,
+} from '@/lib/meal-checkin';
+import { compareSessions, sessionSlotLabel } from '@/lib/workout-schedule';
+import { CheckCircle, Clock, Apple, Dumbbell, User, Printer, Camera, ListChecks } from 'lucide-react';
 import { X } from 'lucide-react';
 
 interface Student {
@@ -38,6 +60,7 @@ interface DietPlan {
   daily_protein: number | null;
   daily_carbs: number | null;
   daily_fat: number | null;
+  macro_tolerance_percent: number;
   active: boolean;
 }
 
@@ -59,6 +82,19 @@ interface MealFood {
   carbs: number | null;
   fat: number | null;
   notes: string | null;
+  meal_food_substitutions: FoodSubstitution[];
+}
+
+interface FoodSubstitution {
+  id: string;
+  food_name: string;
+  quantity: number;
+  unit: string;
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  order_index: number;
 }
 
 interface WorkoutPlan {
@@ -74,7 +110,8 @@ interface WorkoutPlan {
 interface WorkoutSession {
   id: string;
   name: string;
-  day_of_week: number;
+  day_of_week: number | null;
+  order_index: number;
   description: string | null;
   workout_exercises: WorkoutExercise[];
 }
@@ -99,6 +136,7 @@ interface WorkoutExercise {
 
 export default function StudentDiet() {
   const { studentNumber } = useParams<{ studentNumber: string }>();
+  const [searchParams] = useSearchParams();
   const [student, setStudent] = useState<Student | null>(null);
   const [trainer, setTrainer] = useState<PersonalTrainer | null>(null);
   const [dietPlan, setDietPlan] = useState<DietPlan | null>(null);
@@ -107,7 +145,15 @@ export default function StudentDiet() {
   const [loading, setLoading] = useState(true);
   const [completedMeals, setCompletedMeals] = useState<Set<string>>(new Set());
   const [completedExercises, setCompletedExercises] = useState<Set<string>>(new Set());
+  // Substituição escolhida por item da refeição (meal_food_id -> substituição)
+  const [chosenSubstitutions, setChosenSubstitutions] = useState<Record<string, ChosenSubstitution>>({});
+  // O que foi comido em cada refeição concluída hoje (check-in por alimento)
+  const [foodLogs, setFoodLogs] = useState<MealFoodLog[]>([]);
+  const [mealPhotos, setMealPhotos] = useState<Record<string, string>>({});
+  const [checkInMeal, setCheckInMeal] = useState<Meal | null>(null);
+  const [pinPrompt, setPinPrompt] = useState<{ error?: string } | null>(null);
   const { toast } = useToast();
+  useStudentManifest();
 
   useEffect(() => {
     if (studentNumber) {
@@ -115,12 +161,19 @@ export default function StudentDiet() {
     }
   }, [studentNumber]);
 
-  const fetchStudentData = async () => {
+  const fetchStudentData = async (pin?: string) => {
     try {
-      console.log("🔍 Carregando dados do aluno (sem RLS):", studentNumber);
+      setLoading(true);
+      console.log("🔍 Carregando dados do aluno:", studentNumber);
       
-      // Verify student access directly
-      const verification = await verifyStudentAccess(studentNumber);
+      // Troca o link (ou reaproveita a sessão salva) por um token assinado
+      const verification = await verifyStudentAccess(studentNumber, searchParams.get('t'), pin);
+      if (verification.pinRequired) {
+        setPinPrompt({ error: verification.error });
+        return;
+      }
+      setPinPrompt(null);
+
       if (!verification.success) {
         console.error("❌ Aluno não encontrado:", verification.error);
         toast({
@@ -164,7 +217,10 @@ export default function StudentDiet() {
           *,
           meals (
             *,
-            meal_foods (*)
+            meal_foods (
+              *,
+              meal_food_substitutions (*)
+            )
           )
         `)
         .eq('student_id', completeStudentData.id)
@@ -205,13 +261,36 @@ export default function StudentDiet() {
       const today = new Date().toISOString().split('T')[0];
       const { data: mealCompletions } = await supabase
         .from('meal_completions')
-        .select('meal_id')
+        .select('id, meal_id, substitutions, photo_path, meal_food_logs (*)')
         .eq('student_id', completeStudentData.id)
         .gte('completed_at', `${today}T00:00:00`)
         .lt('completed_at', `${today}T23:59:59`);
 
+      // Inclui as refeições marcadas offline que ainda estão na fila
+      const queuedMeals = (await listQueuedWrites('meal_completions'))
+        .filter(({ payload }) => payload.student_id === completeStudentData.id && payload.completed_at?.startsWith(today))
+        .map(({ payload }) => payload);
+
       if (mealCompletions) {
-        setCompletedMeals(new Set(mealCompletions.map(c => c.meal_id)));
+        const completions = [...mealCompletions, ...queuedMeals];
+        setCompletedMeals(new Set(completions.map(c => c.meal_id)));
+        setChosenSubstitutions(Object.fromEntries(
+          completions
+            .flatMap(c => parseChosenSubstitutions(c.substitutions ?? []))
+            .map(chosen => [chosen.meal_food_id, chosen])
+        ));
+        setMealPhotos(Object.fromEntries(
+          completions.flatMap(c => c.photo_path ? [[c.meal_id, c.photo_path]] : [])
+        ));
+
+        // Itens ainda na fila podem apontar para uma conclusão já enviada
+        const mealByCompletion = new Map(completions.map(c => [c.id, c.meal_id]));
+        const queuedLogs = (await listQueuedWrites('meal_food_logs')).map(({ payload }) => payload);
+        setFoodLogs(
+          [...mealCompletions.flatMap(c => c.meal_food_logs), ...queuedLogs]
+            .filter(log => mealByCompletion.has(log.meal_completion_id))
+            .map(log => toMealFoodLog(log, mealByCompletion.get(log.meal_completion_id)!))
+        );
       }
 
       // Fetch completed exercises for today
@@ -222,8 +301,12 @@ export default function StudentDiet() {
         .gte('completed_at', `${today}T00:00:00`)
         .lt('completed_at', `${today}T23:59:59`);
 
+      const queuedExercises = (await listQueuedWrites('exercise_completions'))
+        .filter(({ payload }) => payload.student_id === completeStudentData.id && payload.completed_at?.startsWith(today))
+        .map(({ payload }) => payload.workout_exercise_id);
+
       if (exerciseCompletions) {
-        setCompletedExercises(new Set(exerciseCompletions.map(c => c.workout_exercise_id)));
+        setCompletedExercises(new Set([...exerciseCompletions.map(c => c.workout_exercise_id), ...queuedExercises]));
       }
 
     } catch (error) {
@@ -241,37 +324,113 @@ export default function StudentDiet() {
   const handleMealCompletion = async (mealId: string) => {
     if (!student) return;
 
+    // Concluir abre o check-in; desmarcar apaga a conclusão e o que foi registrado
+    if (!completedMeals.has(mealId)) {
+      setCheckInMeal(meals.find(m => m.id === mealId) || null);
+      return;
+    }
+
     try {
-      if (completedMeals.has(mealId)) {
-        // Remove completion
-        const { error } = await supabase
+      // Só a conclusão de hoje: as dos dias anteriores são o histórico que o personal acompanha
+      const today = new Date().toISOString().split('T')[0];
+
+      // Marcada offline: basta tirar da fila, o servidor nunca recebeu
+      const queued = (await listQueuedWrites('meal_completions'))
+        .find(({ payload }) =>
+          payload.meal_id === mealId && payload.student_id === student.id && payload.completed_at?.startsWith(today)
+        );
+
+      if (queued) {
+        const queuedLogs = (await listQueuedWrites('meal_food_logs'))
+          .filter(({ payload }) => payload.meal_completion_id === queued.id);
+        for (const item of [...queuedLogs, queued]) {
+          await removeQueuedWrite(item.id);
+        }
+        if (queued.payload.photo_path) await removeMealPhoto(queued.payload.photo_path);
+      } else {
+        // Os itens registrados saem junto (cascade); a foto fica no bucket e é apagada aqui
+        const { data: removed, error } = await supabase
           .from('meal_completions')
           .delete()
           .eq('meal_id', mealId)
-          .eq('student_id', student.id);
+          .eq('student_id', student.id)
+          .gte('completed_at', `${today}T00:00:00`)
+          .lt('completed_at', `${today}T23:59:59`)
+          .select('photo_path');
 
         if (error) throw error;
 
-        setCompletedMeals(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(mealId);
-          return newSet;
-        });
-      } else {
-        // Add completion
-        const { error } = await supabase
-          .from('meal_completions')
-          .insert({
-            meal_id: mealId,
-            student_id: student.id,
+        for (const { photo_path } of removed || []) {
+          if (photo_path) await removeMealPhoto(photo_path);
+        }
+      }
+
+      setCompletedMeals(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(mealId);
+        return newSet;
+      });
+      setFoodLogs(prev => prev.filter(log => log.meal_id !== mealId));
+      setMealPhotos(prev => {
+        const next = { ...prev };
+        delete next[mealId];
+        return next;
+      });
+    } catch (error) {
+      console.error('Error updating meal completion:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao atualizar refeição",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleMealCheckIn = async (meal: Meal, logs: FoodLogDraft[], photo: File | null) => {
+    if (!student) return;
+
+    try {
+      // A foto só vai com conexão; sem ela a refeição é registrada mesmo assim
+      let photoPath: string | null = null;
+      if (photo) {
+        try {
+          photoPath = await uploadMealPhoto(photo, student.id);
+        } catch (error) {
+          console.error('Error uploading meal photo:', error);
+          toast({
+            title: "Foto não enviada",
+            description: "A refeição foi registrada sem a foto. Verifique sua conexão.",
           });
+        }
+      }
 
-        if (error) throw error;
+      // Trocas escolhidas para os itens desta refeição
+      const substitutions = meal.meal_foods.flatMap(f => chosenSubstitutions[f.id] ? [chosenSubstitutions[f.id]] : []);
+
+      const { id: completionId, error } = await submitWrite('meal_completions', {
+        meal_id: meal.id,
+        student_id: student.id,
+        completed_at: new Date().toISOString(),
+        substitutions: substitutions as unknown as Json,
+        photo_path: photoPath,
+      });
+
+      if (error) throw error;
 
-        setCompletedMeals(prev => new Set([...prev, mealId]));
+      for (const log of logs) {
+        const { error: logError } = await submitWrite('meal_food_logs', {
+          ...log,
+          meal_completion_id: completionId,
+        });
+
+        if (logError) throw logError;
       }
+
+      setCompletedMeals(prev => new Set([...prev, meal.id]));
+      setFoodLogs(prev => [...prev.filter(l => l.meal_id !== meal.id), ...logs.map(log => ({ ...log, meal_id: meal.id }))]);
+      if (photoPath) setMealPhotos(prev => ({ ...prev, [meal.id]: photoPath! }));
     } catch (error) {
-      console.error('Error updating meal completion:', error);
+      console.error('Error saving meal check-in:', error);
       toast({
         title: "Erro",
         description: "Erro ao atualizar refeição",
@@ -280,19 +439,43 @@ export default function StudentDiet() {
     }
   };
 
+  const toggleSubstitution = (food: MealFood, substitution: FoodSubstitution) => {
+    setChosenSubstitutions(prev => {
+      const { [food.id]: current, ...rest } = prev;
+      if (current?.substitution_id === substitution.id) return rest;
+      return {
+        ...rest,
+        [food.id]: {
+          meal_food_id: food.id,
+          substitution_id: substitution.id,
+          food_name: substitution.food_name,
+          quantity: substitution.quantity,
+          unit: substitution.unit,
+        },
+      };
+    });
+  };
+
   const handleExerciseCompletion = async (exerciseId: string) => {
     if (!student) return;
 
     try {
       if (completedExercises.has(exerciseId)) {
         // Remove completion
-        const { error } = await supabase
-          .from('exercise_completions')
-          .delete()
-          .eq('workout_exercise_id', exerciseId)
-          .eq('student_id', student.id);
+        const queued = (await listQueuedWrites('exercise_completions'))
+          .find(({ payload }) => payload.workout_exercise_id === exerciseId && payload.student_id === student.id);
 
-        if (error) throw error;
+        if (queued) {
+          await removeQueuedWrite(queued.id);
+        } else {
+          const { error } = await supabase
+            .from('exercise_completions')
+            .delete()
+            .eq('workout_exercise_id', exerciseId)
+            .eq('student_id', student.id);
+
+          if (error) throw error;
+        }
 
         setCompletedExercises(prev => {
           const newSet = new Set(prev);
@@ -301,12 +484,11 @@ export default function StudentDiet() {
         });
       } else {
         // Add completion
-        const { error } = await supabase
-          .from('exercise_completions')
-          .insert({
-            workout_exercise_id: exerciseId,
-            student_id: student.id,
-          });
+        const { error } = await submitWrite('exercise_completions', {
+          workout_exercise_id: exerciseId,
+          student_id: student.id,
+          completed_at: new Date().toISOString(),
+        });
 
         if (error) throw error;
 
@@ -764,6 +946,16 @@ export default function StudentDiet() {
     }
   };
 
+  if (pinPrompt) {
+    return (
+      <StudentPinPrompt
+        error={pinPrompt.error}
+        isSubmitting={loading}
+        onSubmit={(pin) => fetchStudentData(pin)}
+      />
+    );
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -815,7 +1007,7 @@ export default function StudentDiet() {
     );
   }
 
-  const dayNames = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+  const today = summarizeDay(meals, completedMeals, foodLogs);
 
   return (
     <div className="min-h-screen bg-gray-50 print:bg-white">
@@ -834,6 +1026,9 @@ export default function StudentDiet() {
             <div>
               <h1 className="text-3xl font-bold text-gray-900 print:text-2xl">{student.name}</h1>
               <p className="text-gray-600">Plano Personalizado</p>
+              <div className="mt-2 print:hidden">
+                <SyncStatusBadge onSynced={() => fetchStudentData()} />
+              </div>
             </div>
             <Button onClick={handlePrint} className="print:hidden">
               <Printer className="w-4 h-4 mr-2" />
@@ -873,7 +1068,7 @@ export default function StudentDiet() {
 
         {/* Content Tabs */}
         <Tabs defaultValue="diet" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2 print:hidden">
+          <TabsList className="grid w-full grid-cols-3 print:hidden">
             <TabsTrigger value="diet" className="flex items-center gap-2">
               <Apple className="w-4 h-4" />
               Dieta
@@ -882,6 +1077,10 @@ export default function StudentDiet() {
               <Dumbbell className="w-4 h-4" />
               Treino
             </TabsTrigger>
+            <TabsTrigger value="habits" className="flex items-center gap-2">
+              <ListChecks className="w-4 h-4" />
+              Hábitos
+            </TabsTrigger>
           </TabsList>
 
           {/* Diet Tab */}
@@ -930,6 +1129,35 @@ export default function StudentDiet() {
                   </CardContent>
                 </Card>
 
+                {completedMeals.size > 0 && (
+                  <Card className="print:hidden">
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-lg">Hoje</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {today.adherence !== null && (
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">Adesão ao plano</span>
+                            <span className="font-semibold">{today.adherence}%</span>
+                          </div>
+                          <Progress value={Math.min(today.adherence, 100)} />
+                        </div>
+                      )}
+                      <MacroTargetSummary
+                        totals={today.totals}
+                        targets={{
+                          calories: dietPlan.daily_calories,
+                          protein: dietPlan.daily_protein,
+                          carbs: dietPlan.daily_carbs,
+                          fat: dietPlan.daily_fat,
+                        }}
+                        tolerance={dietPlan.macro_tolerance_percent ?? DEFAULT_MACRO_TOLERANCE}
+                      />
+                    </CardContent>
+                  </Card>
+                )}
+
                 <div className="space-y-4">
                   {meals.map((meal) => (
                     <Card key={meal.id} className="print:shadow-none print:border print:break-inside-avoid">
@@ -943,6 +1171,12 @@ export default function StudentDiet() {
                                 {meal.time_of_day}
                               </p>
                             )}
+                            {mealPhotos[meal.id] && (
+                              <p className="text-xs text-gray-500 flex items-center gap-1 print:hidden">
+                                <Camera className="w-3 h-3" />
+                                Foto do prato enviada
+                              </p>
+                            )}
                           </div>
                           <Button
                             variant={completedMeals.has(meal.id) ? "default" : "outline"}
@@ -957,29 +1191,87 @@ export default function StudentDiet() {
                       </CardHeader>
                       <CardContent>
                         <div className="space-y-3">
-                          {meal.meal_foods.map((food) => (
-                            <div key={food.id} className="border-l-4 border-blue-200 pl-4">
-                              <div className="flex justify-between items-start">
-                                <div>
-                                  <h4 className="font-medium">{food.food_name}</h4>
-                                  <p className="text-sm text-gray-600">
-                                    {food.quantity} {food.unit}
-                                  </p>
-                                  {food.notes && (
-                                    <p className="text-sm text-gray-500 italic mt-1">{food.notes}</p>
-                                  )}
-                                </div>
-                                <div className="text-right text-sm">
-                                  {food.calories && <p>{food.calories} kcal</p>}
-                                  <div className="flex gap-2 text-xs text-gray-500">
-                                    {food.protein && <span>P: {food.protein}g</span>}
-                                    {food.carbs && <span>C: {food.carbs}g</span>}
-                                    {food.fat && <span>G: {food.fat}g</span>}
+                          {meal.meal_foods.map((food) => {
+                            const log = foodLogs.find(l => l.meal_food_id === food.id);
+                            return (
+                              <div key={food.id} className="border-l-4 border-blue-200 pl-4">
+                                <div className="flex justify-between items-start">
+                                  <div>
+                                    <h4 className="font-medium flex items-center gap-2">
+                                      {food.food_name}
+                                      {log && (
+                                        <Badge
+                                          variant={portionStatus(log.portion_percent) === "full" ? "default" : "secondary"}
+                                          className="text-xs font-normal print:hidden"
+                                        >
+                                          {portionStatus(log.portion_percent) === "partial"
+                                            ? `Comi ${log.portion_percent}%`
+                                            : PORTION_STATUS_LABELS[portionStatus(log.portion_percent)]}
+                                        </Badge>
+                                      )}
+                                    </h4>
+                                    <p className="text-sm text-gray-600">
+                                      {food.quantity} {food.unit}
+                                    </p>
+                                    {food.notes && (
+                                      <p className="text-sm text-gray-500 italic mt-1">{food.notes}</p>
+                                    )}
+                                    {food.meal_food_substitutions?.length > 0 && (
+                                      <div className="mt-2">
+                                        <p className="text-xs text-gray-500">Pode trocar por:</p>
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                          {[...food.meal_food_substitutions]
+                                            .sort((a, b) => a.order_index - b.order_index)
+                                            .map((substitution) => {
+                                              const isChosen = chosenSubstitutions[food.id]?.substitution_id === substitution.id;
+                                              return (
+                                                <Button
+                                                  key={substitution.id}
+                                                  type="button"
+                                                  variant={isChosen ? "default" : "outline"}
+                                                  size="sm"
+                                                  className="h-7 text-xs print:hidden"
+                                                  disabled={completedMeals.has(meal.id)}
+                                                  onClick={() => toggleSubstitution(food, substitution)}
+                                                >
+                                                  {substitution.quantity}{substitution.unit} {substitution.food_name}
+                                                </Button>
+                                              );
+                                            })}
+                                        </div>
+                                        <p className="hidden print:block text-xs text-gray-500">
+                                          {food.meal_food_substitutions
+                                            .map((s) => `${s.quantity}${s.unit} ${s.food_name}`)
+                                            .join(' · ')}
+                                        </p>
+                                      </div>
+                                    )}
+                                  </div>
+                                  <div className="text-right text-sm">
+                                    {food.calories && <p>{food.calories} kcal</p>}
+                                    <div className="flex gap-2 text-xs text-gray-500">
+                                      {food.protein && <span>P: {food.protein}g</span>}
+                                      {food.carbs && <span>C: {food.carbs}g</span>}
+                                      {food.fat && <span>G: {food.fat}g</span>}
+                                    </div>
                                   </div>
                                 </div>
                               </div>
+                            );
+                          })}
+                          {foodLogs.filter(l => l.meal_id === meal.id && l.off_plan).length > 0 && (
+                            <div className="text-sm text-gray-600 print:hidden">
+                              <p className="text-xs text-gray-500">Fora do plano:</p>
+                              {foodLogs
+                                .filter(l => l.meal_id === meal.id && l.off_plan)
+                                .map((log, index) => (
+                                  <p key={index}>
+                                    {log.quantity ? `${log.quantity}${log.unit ?? ''} ` : ''}{log.food_name}
+                                    {log.calories > 0 && ` · ${log.calories} kcal`}
+                                  </p>
+                                ))}
                             </div>
-                          ))}
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -1026,12 +1318,12 @@ export default function StudentDiet() {
 
                 <div className="space-y-4">
                   {workoutPlan.workout_sessions
-                    ?.sort((a, b) => a.day_of_week - b.day_of_week)
+                    ?.sort(compareSessions)
                     .map((session) => (
                       <Card key={session.id} className="print:shadow-none print:border print:break-inside-avoid">
                         <CardHeader className="pb-3">
                           <CardTitle className="text-lg">
-                            {dayNames[session.day_of_week]} - {session.name}
+                            {sessionSlotLabel(session)} - {session.name}
                           </CardTitle>
                           {session.description && (
                             <p className="text-sm text-gray-600">{session.description}</p>
@@ -1096,7 +1388,27 @@ export default function StudentDiet() {
               </Card>
             )}
           </TabsContent>
+
+          {/* Habits Tab */}
+          <TabsContent value="habits" className="space-y-6 print:hidden">
+            <HabitCheckInPanel studentId={student.id} />
+          </TabsContent>
         </Tabs>
+
+        {checkInMeal && (
+          <MealCheckInDialog
+            isOpen={!!checkInMeal}
+            onClose={() => setCheckInMeal(null)}
+            mealName={checkInMeal.name}
+            foods={checkInMeal.meal_foods.map((food) => ({
+              ...food,
+              substitute: food.meal_food_substitutions?.find(
+                (s) => s.id === chosenSubstitutions[food.id]?.substitution_id
+              ),
+            }))}
+            onSubmit={(logs, photo) => handleMealCheckIn(checkInMeal, logs, photo)}
+          />
+        )}
         
         ${exercise.exercise.youtube_video_url 
           ? `<div class="small">Vídeo: ${exercise.exercise.youtube_video_url}</div>`
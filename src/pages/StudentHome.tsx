@@ -0,0 +1,35 @@
+import { Navigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dumbbell } from "lucide-react";
+import { getStoredStudentNumber } from "@/integrations/supabase/client";
+import { useStudentManifest } from "@/hooks/use-student-manifest";
+
+// Ponto de entrada do app instalado pelo aluno: abre o plano da última sessão salva no aparelho
+const StudentHome = () => {
+  useStudentManifest();
+  const studentNumber = getStoredStudentNumber();
+
+  if (studentNumber) {
+    return <Navigate to={`/student/${studentNumber}`} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/30 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          <div className="mx-auto p-3 bg-primary/10 rounded-full w-fit">
+            <Dumbbell className="h-8 w-8 text-primary" />
+          </div>
+          <CardTitle>Nenhum plano neste aparelho</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">
+            Abra o link enviado pelo seu personal trainer para acessar seu treino e sua dieta.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StudentHome;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -17,11 +17,47 @@ import {
   Apple,
   X,
   Play,
+  Link2,
+  Flag,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { verifyStudentAccess } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import VideoModal from "@/components/VideoModal";
+import ExerciseSetLogger, { ExerciseLog } from "@/components/ExerciseSetLogger";
+import ProgressionSuggestionHint from "@/components/ProgressionSuggestionHint";
+import GuidedWorkout from "@/components/GuidedWorkout";
+import FinishWorkoutDialog from "@/components/FinishWorkoutDialog";
+import StudentPinPrompt from "@/components/StudentPinPrompt";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
+import BodyAssessmentsCard from "@/components/BodyAssessmentsCard";
+import ProgressPhotosCard from "@/components/ProgressPhotosCard";
+import { useExerciseHistory } from "@/hooks/use-exercise-history";
+import { useStudentManifest } from "@/hooks/use-student-manifest";
+import { listQueuedWrites, submitWrite } from "@/lib/offline-sync";
+import { parseProgressionSettings, suggestNextLoad } from "@/lib/progression";
+import {
+  PHASE_GOAL_LABELS,
+  WeekModifier,
+  WorkoutPhase,
+  applyWeekModifier,
+  currentPlanWeek,
+  describeModifier,
+  isNeutralModifier,
+  modifierForWeek,
+  parsePhase,
+  phaseForWeek,
+} from "@/lib/periodization";
+import { nextRotationSession, rotationLetter } from "@/lib/workout-schedule";
+import {
+  ExerciseTechnique,
+  GROUP_TYPE_INSTRUCTIONS,
+  TECHNIQUE_LABELS,
+  describeExerciseGroups,
+  exerciseLabel,
+  groupTitle,
+} from "@/lib/exercise-grouping";
+import type { Json } from "@/integrations/supabase/types";
 
 // Interfaces de dados
 interface Student {
@@ -34,6 +70,7 @@ interface Student {
 
 interface WorkoutExercise {
   id: string;
+  exercise_id: string;
   exercise: {
     name: string;
     category: {
@@ -51,14 +88,34 @@ interface WorkoutExercise {
   weight_kg?: number;
   rest_seconds?: number;
   notes?: string;
+  order_index: number;
+  group_key?: string | null;
+  group_type?: string | null;
+  technique?: string | null;
+  tempo?: string | null;
   isCompleted?: boolean;
+  completion?: ExerciseCompletion;
+}
+
+interface ExerciseCompletion {
+  id: string;
+  completed_at: string;
+  workout_log_id: string | null;
+  sets_completed: number | null;
+  reps_completed: number[] | null;
+  weights_used: number[] | null;
+  weight_used: number | null;
+  notes: string | null;
+  // Registrado sem conexão e ainda na fila de envio
+  queued?: boolean;
 }
 
 interface WorkoutSession {
   id: string;
   name: string;
   description?: string;
-  day_of_week: number;
+  day_of_week: number | null;
+  order_index: number;
   workout_exercises: WorkoutExercise[];
 }
 
@@ -66,6 +123,10 @@ interface WorkoutPlan {
   id: string;
   name: string;
   description?: string;
+  progression_settings: Json;
+  start_date: string;
+  duration_weeks: number;
+  schedule_mode: string;
   workout_sessions: WorkoutSession[];
   personal_trainer: {
     name: string;
@@ -75,9 +136,12 @@ interface WorkoutPlan {
 
 const StudentWorkout = () => {
   const { studentNumber } = useParams<{ studentNumber: string }>();
+  const [searchParams] = useSearchParams();
   const [student, setStudent] = useState<Student | null>(null);
   const [workoutPlan, setWorkoutPlan] = useState<WorkoutPlan | null>(null);
-  const [selectedDay, setSelectedDay] = useState<number>(new Date().getDay());
+  // Dia da semana ou, no rodízio, a posição do treino (A = 0)
+  const [selectedSlot, setSelectedSlot] = useState<number>(new Date().getDay());
+  const [suggestedSlot, setSuggestedSlot] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [videoModal, setVideoModal] = useState<{
     isOpen: boolean;
@@ -88,7 +152,24 @@ const StudentWorkout = () => {
     exerciseName: "",
     youtubeUrl: undefined,
   });
+  const [setLogger, setSetLogger] = useState<{
+    isOpen: boolean;
+    exercise: WorkoutExercise | null;
+  }>({
+    isOpen: false,
+    exercise: null,
+  });
+  const [pinPrompt, setPinPrompt] = useState<{ error?: string } | null>(null);
+  const [isGuidedOpen, setIsGuidedOpen] = useState(false);
+  const [isFinishOpen, setIsFinishOpen] = useState(false);
+  const [planWeek, setPlanWeek] = useState<{
+    week: number;
+    phase: WorkoutPhase | null;
+    modifier: WeekModifier;
+  } | null>(null);
+  const { history: exerciseHistory, reload: reloadHistory } = useExerciseHistory(student?.id);
   const { toast } = useToast();
+  useStudentManifest();
 
   const daysOfWeek = [
     "Domingo",
@@ -106,14 +187,20 @@ const StudentWorkout = () => {
     }
   }, [studentNumber]);
 
-  const loadStudentData = async () => {
+  const loadStudentData = async (pin?: string) => {
     try {
       setIsLoading(true);
 
-      console.log("🔍 Carregando dados do aluno (sem RLS):", studentNumber);
+      console.log("🔍 Carregando dados do aluno:", studentNumber);
+
+      // Troca o link (ou reaproveita a sessão salva) por um token assinado
+      const verification = await verifyStudentAccess(studentNumber, searchParams.get("t"), pin);
+      if (verification.pinRequired) {
+        setPinPrompt({ error: verification.error });
+        return;
+      }
+      setPinPrompt(null);
 
-      // Verify student access directly
-      const verification = await verifyStudentAccess(studentNumber);
       if (!verification.success) {
         console.error("❌ Aluno não encontrado:", verification.error);
         toast({
@@ -125,7 +212,6 @@ const StudentWorkout = () => {
       }
 
       const studentData = verification.student;
-      setStudent(studentData);
       console.log("✅ Aluno encontrado:", studentData);
       
       // Buscar dados completos do aluno
@@ -156,14 +242,21 @@ const StudentWorkout = () => {
             id,
             name,
             description,
+            progression_settings,
+            start_date,
+            duration_weeks,
+            schedule_mode,
             personal_trainer:personal_trainers(name, cref),
+            workout_plan_phases(*),
             workout_sessions(
               id,
               name,
               description,
               day_of_week,
+              order_index,
               workout_exercises(
                 id,
+                exercise_id,
                 sets,
                 reps_min,
                 reps_max,
@@ -171,6 +264,10 @@ const StudentWorkout = () => {
                 rest_seconds,
                 notes,
                 order_index,
+                group_key,
+                group_type,
+                technique,
+                tempo,
                 exercises(
                   name,
                   description,
@@ -206,19 +303,47 @@ const StudentWorkout = () => {
       const today = new Date().toISOString().split("T")[0];
       const { data: completions } = await supabase
         .from("exercise_completions")
-        .select("workout_exercise_id")
+        .select("id, completed_at, workout_log_id, workout_exercise_id, sets_completed, reps_completed, weights_used, weight_used, notes")
         .eq("student_id", completeStudentData.id)
         .gte("completed_at", `${today}T00:00:00`)
         .lt("completed_at", `${today}T23:59:59`);
 
-      const completedExerciseIds = new Set(
-        completions?.map((c) => c.workout_exercise_id) || []
+      const completionsByExercise = new Map<string, ExerciseCompletion>(
+        completions?.map((c) => [c.workout_exercise_id, c]) || []
       );
 
+      // Conclusões feitas offline que ainda não chegaram ao servidor
+      const queuedCompletions = await listQueuedWrites("exercise_completions");
+      queuedCompletions.forEach(({ payload }) => {
+        if (payload.student_id !== completeStudentData.id || !payload.completed_at?.startsWith(today)) return;
+        if (completionsByExercise.has(payload.workout_exercise_id)) return;
+        completionsByExercise.set(payload.workout_exercise_id, {
+          id: payload.id,
+          completed_at: payload.completed_at,
+          workout_log_id: payload.workout_log_id ?? null,
+          sets_completed: payload.sets_completed ?? null,
+          reps_completed: payload.reps_completed ?? null,
+          weights_used: payload.weights_used ?? null,
+          weight_used: payload.weight_used ?? null,
+          notes: payload.notes ?? null,
+          queued: true,
+        });
+      });
+
+      // Semana atual do plano e ajuste da fase correspondente
+      const week = currentPlanWeek(workoutData.start_date, workoutData.duration_weeks);
+      const phase = phaseForWeek((workoutData.workout_plan_phases || []).map(parsePhase), week);
+      const modifier = modifierForWeek(phase, week);
+      setPlanWeek({ week, phase, modifier });
+
       // Marcar os exercícios como concluídos
       workoutData.workout_sessions?.forEach((session: any) => {
+        // A ordem define os grupos (bi-set, circuito), então precisa vir ordenada
+        session.workout_exercises?.sort((a, b) => a.order_index - b.order_index);
         session.workout_exercises?.forEach((exercise: any) => {
-          exercise.isCompleted = completedExerciseIds.has(exercise.id);
+          Object.assign(exercise, applyWeekModifier(exercise, modifier));
+          exercise.isCompleted = completionsByExercise.has(exercise.id);
+          exercise.completion = completionsByExercise.get(exercise.id);
           // Garantir que a estrutura do exercício está correta
           if (exercise.exercises) {
             // Criar estrutura de categoria a partir dos dados do Supabase
@@ -246,6 +371,36 @@ const StudentWorkout = () => {
         });
       });
 
+      // No rodízio, sugere o treino seguinte ao último registrado
+      if (workoutData.schedule_mode === "rotation") {
+        const sessionByExercise = new Map<string, string>();
+        workoutData.workout_sessions?.forEach((session) => {
+          session.workout_exercises?.forEach((exercise) => sessionByExercise.set(exercise.id, session.id));
+        });
+
+        const { data: lastCompletion } = sessionByExercise.size > 0
+          ? await supabase
+              .from("exercise_completions")
+              .select("workout_exercise_id, completed_at")
+              .eq("student_id", completeStudentData.id)
+              .in("workout_exercise_id", Array.from(sessionByExercise.keys()))
+              .order("completed_at", { ascending: false })
+              .limit(1)
+              .maybeSingle()
+          : { data: null };
+
+        const next = nextRotationSession(
+          workoutData.workout_sessions || [],
+          lastCompletion
+            ? { sessionId: sessionByExercise.get(lastCompletion.workout_exercise_id) || "", completedAt: lastCompletion.completed_at }
+            : null
+        );
+        if (next) {
+          setSelectedSlot(next.order_index);
+          setSuggestedSlot(next.order_index);
+        }
+      }
+
       setWorkoutPlan(workoutData as any);
     } catch (error) {
       console.error("❌ Erro geral:", error);
@@ -259,13 +414,27 @@ const StudentWorkout = () => {
     }
   };
 
-  const markExerciseAsCompleted = async (exerciseId: string) => {
+  const openSetLogger = (exercise: WorkoutExercise) => {
+    setSetLogger({ isOpen: true, exercise });
+  };
+
+  const closeSetLogger = () => {
+    setSetLogger({ isOpen: false, exercise: null });
+  };
+
+  const markExerciseAsCompleted = async (exerciseId: string, log: ExerciseLog) => {
     if (!student) return;
 
     try {
-      const { error } = await supabase.from("exercise_completions").insert({
+      const { queued, error } = await submitWrite("exercise_completions", {
         workout_exercise_id: exerciseId,
         student_id: student.id,
+        sets_completed: log.sets_completed,
+        reps_completed: log.reps_completed,
+        weights_used: log.weights_used,
+        weight_used: log.weight_used,
+        notes: log.notes,
+        completed_at: new Date().toISOString(),
       });
 
       if (error) {
@@ -279,15 +448,28 @@ const StudentWorkout = () => {
 
       toast({
         title: "Parabéns! 🎉",
-        description: "Exercício marcado como realizado!",
+        description: queued
+          ? `${log.sets_completed} séries salvas no aparelho. Serão enviadas quando a internet voltar.`
+          : `${log.sets_completed} séries registradas!`,
       });
 
+      closeSetLogger();
       loadStudentData();
+      reloadHistory();
     } catch (error) {
       console.error("Error marking exercise as completed:", error);
     }
   };
 
+  const formatCompletedSets = (completion: ExerciseCompletion) => {
+    return (completion.reps_completed || [])
+      .map((reps, i) => {
+        const weight = completion.weights_used?.[i];
+        return weight ? `${reps}x${weight}kg` : `${reps}`;
+      })
+      .join(" / ");
+  };
+
   const openVideoModal = (exerciseName: string, youtubeUrl?: string) => {
     setVideoModal({
       isOpen: true,
@@ -304,10 +486,18 @@ const StudentWorkout = () => {
     });
   };
 
+  const findSession = (plan: WorkoutPlan, slot: number) =>
+    plan.workout_sessions.find((s) =>
+      plan.schedule_mode === "rotation" ? s.order_index === slot : s.day_of_week === slot
+    );
+
+  const slotLabel = (plan: WorkoutPlan, slot: number) =>
+    plan.schedule_mode === "rotation" ? `Treino ${rotationLetter(slot)}` : daysOfWeek[slot];
+
   const exportWorkout = () => {
     if (!workoutPlan || !student) return;
 
-    const currentSession = workoutPlan.workout_sessions.find((s) => s.day_of_week === selectedDay);
+    const currentSession = findSession(workoutPlan, selectedSlot);
 
     if (!currentSession) {
       toast({
@@ -389,7 +579,13 @@ const StudentWorkout = () => {
       doc.setFont("helvetica", "normal");
       doc.text(`Nome: ${currentSession.name}`, margin, y);
       y += lineHeight;
-      doc.text(`Dia: ${daysOfWeek[selectedDay]}`, margin, y);
+      doc.text(
+        workoutPlan.schedule_mode === "rotation"
+          ? `Sequencia: ${slotLabel(workoutPlan, selectedSlot)}`
+          : `Dia: ${slotLabel(workoutPlan, selectedSlot)}`,
+        margin,
+        y
+      );
       y += lineHeight;
       doc.text(`Exercicios: ${currentSession.workout_exercises.length}`, margin, y);
       y += lineHeight * 1.5;
@@ -402,7 +598,10 @@ const StudentWorkout = () => {
       doc.text("EXERCICIOS DO TREINO", centerX, y, { align: "center" });
       y += lineHeight * 1.5;
       
+      const pdfGroupInfos = describeExerciseGroups(currentSession.workout_exercises);
       currentSession.workout_exercises.forEach((exercise, index) => {
+        const groupInfo = pdfGroupInfos[index];
+
         // Check if we need a new page
         if (y > 280) {
           doc.addPage();
@@ -411,9 +610,18 @@ const StudentWorkout = () => {
         
         doc.text("--------------------------------", centerX, y, { align: "center" });
         y += lineHeight;
+
+        if (groupInfo.isFirst && groupInfo.key) {
+          doc.setFont("helvetica", "bold");
+          doc.text(`>> ${groupTitle(groupInfo).toUpperCase()} (${groupInfo.size} exercicios)`, margin, y);
+          y += lineHeight;
+          doc.setFont("helvetica", "normal");
+          doc.text("Sem descanso entre eles; descanse ao final", margin, y);
+          y += lineHeight;
+        }
         
         doc.setFont("helvetica", "bold");
-        doc.text(`${index + 1}. ${(exercise.exercise?.name || 'Exercício').toUpperCase()}`, margin, y);
+        doc.text(`${exerciseLabel(groupInfo, index)}. ${(exercise.exercise?.name || 'Exercício').toUpperCase()}`, margin, y);
         y += lineHeight;
         
         doc.setFont("helvetica", "normal");
@@ -445,6 +653,16 @@ const StudentWorkout = () => {
           doc.text(`• Descanso: ${Math.round(exercise.rest_seconds/60)}min`, margin, y);
           y += lineHeight;
         }
+
+        if (exercise.technique) {
+          doc.text(`• Tecnica: ${TECHNIQUE_LABELS[exercise.technique as ExerciseTechnique] ?? exercise.technique}`, margin, y);
+          y += lineHeight;
+        }
+
+        if (exercise.tempo) {
+          doc.text(`• Cadencia: ${exercise.tempo}`, margin, y);
+          y += lineHeight;
+        }
         
         // Status
         const status = exercise.isCompleted ? '[✓] REALIZADO' : '[ ] PENDENTE';
@@ -452,6 +670,14 @@ const StudentWorkout = () => {
         doc.text(`Status: ${status}`, margin, y);
         y += lineHeight;
         doc.setFont("helvetica", "normal");
+
+        if (exercise.completion?.reps_completed?.length) {
+          const doneLines = doc.splitTextToSize(`Feito: ${formatCompletedSets(exercise.completion)}`, 74);
+          doneLines.forEach((line: string) => {
+            doc.text(line, margin, y);
+            y += lineHeight;
+          });
+        }
         
         // Notes
         if (exercise.notes) {
@@ -538,7 +764,7 @@ const StudentWorkout = () => {
   const printThermalWorkout = () => {
     if (!workoutPlan || !student) return;
 
-    const currentSession = workoutPlan.workout_sessions.find((s) => s.day_of_week === selectedDay);
+    const currentSession = findSession(workoutPlan, selectedSlot);
 
     if (!currentSession) {
       toast({
@@ -550,6 +776,8 @@ const StudentWorkout = () => {
     }
 
     try {
+      const thermalGroupInfos = describeExerciseGroups(currentSession.workout_exercises);
+
       // Criar conteúdo para impressora térmica (80mm)
       const thermalContent = `
 <!DOCTYPE html>
@@ -592,6 +820,16 @@ const StudentWorkout = () => {
       font-size: 10px;  
       margin-bottom: 1mm;
     }
+    .group-header {
+      font-weight: bold;
+      margin-top: 3mm;
+      padding: 1mm;
+      border: 1px solid #000;
+    }
+    .grouped {
+      border-left: 2px solid #000;
+      padding-left: 2mm;
+    }
     .exercise-details {  
       margin: 1mm 0;  
       padding-left: 2mm;
@@ -634,7 +872,7 @@ const StudentWorkout = () => {
   
   <div class="bold">TREINO DO DIA:</div>
   <div>${currentSession.name}</div>
-  <div class="small">Dia da semana: ${daysOfWeek[selectedDay]}</div>
+  <div class="small">${workoutPlan.schedule_mode === "rotation" ? "Sequência" : "Dia da semana"}: ${slotLabel(workoutPlan, selectedSlot)}</div>
   <div class="small">Total de exercícios: ${currentSession.workout_exercises.length}</div>
   
   <div class="separator"></div>
@@ -642,10 +880,16 @@ const StudentWorkout = () => {
   <div class="bold center">EXERCÍCIOS:</div>
   
   ${currentSession.workout_exercises
-    .map((exercise, index) => `
-    <div class="exercise">
+    .map((exercise, index) => {
+      const groupInfo = thermalGroupInfos[index];
+      return `
+    ${groupInfo.isFirst && groupInfo.key
+      ? `<div class="group-header">${groupTitle(groupInfo).toUpperCase()}<div class="small">${GROUP_TYPE_INSTRUCTIONS[groupInfo.type]}</div></div>`
+      : ""
+    }
+    <div class="exercise${groupInfo.key ? " grouped" : ""}">
       <div class="exercise-header">
-        ${index + 1}. ${exercise.exercise.name}
+        ${exerciseLabel(groupInfo, index)}. ${exercise.exercise.name}
       </div>
       <div class="small">${exercise.exercise.category.emoji} ${exercise.exercise.category.name}</div>
       
@@ -659,10 +903,16 @@ const StudentWorkout = () => {
         }
         ${exercise.weight_kg ? `<div>• Peso: ${exercise.weight_kg}kg</div>` : ""}
         ${exercise.rest_seconds ? `<div>• Descanso: ${Math.round(exercise.rest_seconds/60)}min</div>` : ""}
+        ${exercise.technique ? `<div>• Técnica: ${TECHNIQUE_LABELS[exercise.technique as ExerciseTechnique] ?? exercise.technique}</div>` : ""}
+        ${exercise.tempo ? `<div>• Cadência: ${exercise.tempo}</div>` : ""}
         
         <div class="small ${exercise.isCompleted ? 'status-ok' : 'status-pending'}">
           Status: ${exercise.isCompleted ? '[✓] REALIZADO' : '[ ] PENDENTE'}
         </div>
+        ${exercise.completion?.reps_completed?.length
+          ? `<div class="small">Feito: ${formatCompletedSets(exercise.completion)}</div>`
+          : ""
+        }
         
         ${exercise.notes ? `<div class="small">Obs: ${exercise.notes}</div>` : ""}
         
@@ -682,7 +932,8 @@ const StudentWorkout = () => {
         }
       </div>
     </div>
-  `).join("")}
+  `;
+    }).join("")}
   
   <div class="separator"></div>
   
@@ -745,6 +996,16 @@ const StudentWorkout = () => {
     }
   };
 
+  if (pinPrompt) {
+    return (
+      <StudentPinPrompt
+        error={pinPrompt.error}
+        isSubmitting={isLoading}
+        onSubmit={(pin) => loadStudentData(pin)}
+      />
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -796,9 +1057,16 @@ const StudentWorkout = () => {
     );
   }
 
-  const currentSession = workoutPlan.workout_sessions.find(
-    (s) => s.day_of_week === selectedDay
-  );
+  const currentSession = findSession(workoutPlan, selectedSlot);
+  const rotationSessions = [...workoutPlan.workout_sessions].sort((a, b) => a.order_index - b.order_index);
+  const groupInfos = currentSession ? describeExerciseGroups(currentSession.workout_exercises) : [];
+  const pendingExercises = currentSession ? currentSession.workout_exercises.filter((ex) => !ex.isCompleted) : [];
+  const unloggedCompletions = currentSession
+    ? currentSession.workout_exercises
+        .map((ex) => ex.completion)
+        .filter((completion) => completion && !completion.workout_log_id && !completion.queued)
+    : [];
+  const progressionSettings = parseProgressionSettings(workoutPlan.progression_settings);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted/30">
@@ -828,6 +1096,7 @@ const StudentWorkout = () => {
                   <span className="hidden sm:inline">
                     {new Date().toLocaleDateString("pt-BR")}
                   </span>
+                  <SyncStatusBadge onSynced={() => loadStudentData()} />
                 </div>
               </div>
             </div>
@@ -886,48 +1155,113 @@ const StudentWorkout = () => {
                 <span> - CREF: {workoutPlan.personal_trainer.cref}</span>
               )}
             </p>
+            {planWeek && (
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <Badge variant="secondary">
+                  Semana {planWeek.week} de {workoutPlan.duration_weeks}
+                </Badge>
+                {planWeek.phase && (
+                  <Badge variant="outline">
+                    {planWeek.phase.name} · {PHASE_GOAL_LABELS[planWeek.phase.goal]}
+                  </Badge>
+                )}
+                {!isNeutralModifier(planWeek.modifier) && (
+                  <span className="text-xs text-muted-foreground">
+                    Ajuste da semana: {describeModifier(planWeek.modifier)}
+                  </span>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
 
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle className="text-lg sm:text-xl">
-              Selecionar Dia da Semana
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
-              {daysOfWeek.map((day, index) => {
-                const hasWorkout = workoutPlan.workout_sessions.some(
-                  (s) => s.day_of_week === index
-                );
-                return (
+        {workoutPlan.schedule_mode === "rotation" ? (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg sm:text-xl">
+                Selecionar Treino
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Siga a sequência dos treinos no seu ritmo. O próximo é sugerido pelo último treino registrado.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+                {rotationSessions.map((session) => (
                   <Button
-                    key={index}
-                    variant={selectedDay === index ? "default" : "outline"}
-                    onClick={() => setSelectedDay(index)}
-                    disabled={!hasWorkout}
-                    className="h-10 sm:h-12 text-xs sm:text-sm font-medium"
+                    key={session.id}
+                    variant={selectedSlot === session.order_index ? "default" : "outline"}
+                    onClick={() => setSelectedSlot(session.order_index)}
+                    className="h-auto min-h-12 py-2 flex flex-col items-center gap-1 text-xs sm:text-sm font-medium"
                   >
-                    <span className="sm:hidden">{day.slice(0, 3)}</span>
-                    <span className="hidden sm:inline lg:hidden">
-                      {day.slice(0, 5)}
-                    </span>
-                    <span className="hidden lg:inline">{day}</span>
+                    <span>{slotLabel(workoutPlan, session.order_index)}</span>
+                    {suggestedSlot === session.order_index && (
+                      <Badge variant="secondary" className="text-[10px] px-1 py-0">
+                        Próximo
+                      </Badge>
+                    )}
                   </Button>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg sm:text-xl">
+                Selecionar Dia da Semana
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+                {daysOfWeek.map((day, index) => {
+                  const hasWorkout = workoutPlan.workout_sessions.some(
+                    (s) => s.day_of_week === index
+                  );
+                  return (
+                    <Button
+                      key={index}
+                      variant={selectedSlot === index ? "default" : "outline"}
+                      onClick={() => setSelectedSlot(index)}
+                      disabled={!hasWorkout}
+                      className="h-10 sm:h-12 text-xs sm:text-sm font-medium"
+                    >
+                      <span className="sm:hidden">{day.slice(0, 3)}</span>
+                      <span className="hidden sm:inline lg:hidden">
+                        {day.slice(0, 5)}
+                      </span>
+                      <span className="hidden lg:inline">{day}</span>
+                    </Button>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
 
         {currentSession ? (
           <Card>
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Dumbbell className="h-5 w-5 text-secondary" />
-                {currentSession.name}
-              </CardTitle>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <CardTitle className="flex items-center gap-2">
+                  <Dumbbell className="h-5 w-5 text-secondary" />
+                  {currentSession.name}
+                </CardTitle>
+                <div className="flex gap-2">
+                  {unloggedCompletions.length > 0 && (
+                    <Button variant="outline" onClick={() => setIsFinishOpen(true)}>
+                      <Flag className="h-4 w-4 mr-2" />
+                      Finalizar treino
+                    </Button>
+                  )}
+                  {pendingExercises.length > 0 && (
+                    <Button onClick={() => setIsGuidedOpen(true)} className="bg-green-500 hover:bg-green-600 text-white">
+                      <Play className="h-4 w-4 mr-2" />
+                      Iniciar treino
+                    </Button>
+                  )}
+                </div>
+              </div>
               {currentSession.description && (
                 <p className="text-muted-foreground">
                   {currentSession.description}
@@ -936,11 +1270,25 @@ const StudentWorkout = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               {currentSession.workout_exercises.map((exercise, index) => (
-                <div key={exercise.id} className="space-y-3">
+                <div
+                  key={exercise.id}
+                  className={`space-y-3 ${groupInfos[index].key ? "border-l-4 border-primary/40 pl-3" : ""}`}
+                >
+                  {groupInfos[index].key && groupInfos[index].isFirst && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <Badge className="bg-primary/10 text-primary hover:bg-primary/10">
+                        <Link2 className="h-3 w-3 mr-1" />
+                        {groupTitle(groupInfos[index])}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        {GROUP_TYPE_INSTRUCTIONS[groupInfos[index].type]}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-start justify-between gap-4">
                     <div className="space-y-2 flex-grow">
                       <div className="flex items-center gap-2 flex-wrap">
-                        <span className="font-semibold">{index + 1}.</span>
+                        <span className="font-semibold">{exerciseLabel(groupInfos[index], index)}.</span>
                         <h3 className="font-semibold">
                           {exercise.exercise?.name || 'Exercício não identificado'}
                         </h3>
@@ -948,6 +1296,14 @@ const StudentWorkout = () => {
                           {exercise.exercise?.category?.emoji || '💪'}{" "}
                           {exercise.exercise?.category?.name || 'Geral'}
                         </Badge>
+                        {exercise.technique && (
+                          <Badge variant="outline">
+                            {TECHNIQUE_LABELS[exercise.technique as ExerciseTechnique] ?? exercise.technique}
+                          </Badge>
+                        )}
+                        {exercise.tempo && (
+                          <Badge variant="outline">Cadência {exercise.tempo}</Badge>
+                        )}
                         {exercise.isCompleted && (
                           <Badge className="bg-green-500 text-white hover:bg-green-600">
                             <CheckCircle className="h-3 w-3 mr-1" />
@@ -1005,6 +1361,26 @@ const StudentWorkout = () => {
                         </div>
                       )}
 
+                      <ProgressionSuggestionHint
+                        suggestion={suggestNextLoad(exercise, exerciseHistory[exercise.exercise_id] || [], progressionSettings)}
+                      />
+
+                      {exercise.completion?.reps_completed?.length > 0 && (
+                        <div className="text-sm rounded-md bg-green-50 dark:bg-green-950/30 p-2">
+                          <span className="text-muted-foreground">
+                            Realizado hoje:
+                          </span>
+                          <span className="ml-2 font-medium">
+                            {formatCompletedSets(exercise.completion)}
+                          </span>
+                          {exercise.completion.notes && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {exercise.completion.notes}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       {exercise.notes && (
                         <div className="text-sm pt-1">
                           <span className="text-muted-foreground">
@@ -1042,20 +1418,20 @@ const StudentWorkout = () => {
 
                     {!exercise.isCompleted && (
                       <Button
-                        onClick={() => markExerciseAsCompleted(exercise.id)}
+                        onClick={() => openSetLogger(exercise)}
                         size="sm"
                         className="bg-green-500 hover:bg-green-600 text-white h-9 text-xs sm:text-sm whitespace-nowrap"
                       >
                         <CheckCircle className="h-4 w-4 mr-2" />
                         <span className="hidden sm:inline">
-                          Marcar como Feito
+                          Registrar Séries
                         </span>
-                        <span className="sm:hidden">Feito</span>
+                        <span className="sm:hidden">Registrar</span>
                       </Button>
                     )}
                   </div>
 
-                  {index < currentSession.workout_exercises.length - 1 && (
+                  {index < currentSession.workout_exercises.length - 1 && !(groupInfos[index].key && !groupInfos[index].isLast) && (
                     <Separator />
                   )}
                 </div>
@@ -1071,7 +1447,7 @@ const StudentWorkout = () => {
               <div className="space-y-2">
                 <h3 className="text-lg font-semibold">Nenhum treino hoje</h3>
                 <p className="text-muted-foreground">
-                  Não há treino programado para {daysOfWeek[selectedDay]}.
+                  Não há treino programado para {slotLabel(workoutPlan, selectedSlot)}.
                 </p>
                 <p className="text-sm text-muted-foreground">
                   Selecione outro dia da semana ou entre em contato com seu
@@ -1081,6 +1457,12 @@ const StudentWorkout = () => {
             </CardContent>
           </Card>
         )}
+
+        {/* Evolução das avaliações físicas */}
+        <div className="mt-6 space-y-6">
+          <BodyAssessmentsCard student={student} readOnly />
+          <ProgressPhotosCard studentId={student.id} readOnly />
+        </div>
       </div>
       {/* Video Modal */}
       <VideoModal
@@ -1089,6 +1471,52 @@ const StudentWorkout = () => {
         exerciseName={videoModal.exerciseName}
         youtubeUrl={videoModal.youtubeUrl}
       />
+
+      {/* Guided Workout */}
+      {isGuidedOpen && currentSession && (
+        <GuidedWorkout
+          isOpen={isGuidedOpen}
+          onClose={() => setIsGuidedOpen(false)}
+          onFinished={() => {
+            setIsGuidedOpen(false);
+            loadStudentData();
+            reloadHistory();
+          }}
+          studentId={student.id}
+          sessionId={currentSession.id}
+          sessionName={currentSession.name}
+          exercises={pendingExercises}
+        />
+      )}
+
+      {currentSession && (
+        <FinishWorkoutDialog
+          isOpen={isFinishOpen}
+          onClose={() => setIsFinishOpen(false)}
+          onSaved={() => {
+            setIsFinishOpen(false);
+            loadStudentData();
+          }}
+          studentId={student.id}
+          sessionId={currentSession.id}
+          sessionName={currentSession.name}
+          completions={unloggedCompletions}
+        />
+      )}
+
+      {/* Set Logger */}
+      {setLogger.exercise && (
+        <ExerciseSetLogger
+          isOpen={setLogger.isOpen}
+          onClose={closeSetLogger}
+          onSave={(log) => markExerciseAsCompleted(setLogger.exercise!.id, log)}
+          exerciseName={setLogger.exercise.exercise?.name || 'Exercício'}
+          sets={setLogger.exercise.sets}
+          repsMin={setLogger.exercise.reps_min}
+          repsMax={setLogger.exercise.reps_max}
+          weightKg={setLogger.exercise.weight_kg}
+        />
+      )}
     </div>
   );
 };
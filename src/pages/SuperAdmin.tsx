@@ -30,6 +30,7 @@ import { useToast } from "@/hooks/use-toast";
 import CreatePersonalTrainer from "@/components/CreatePersonalTrainer";
 import EditPersonalTrainer from "@/components/EditPersonalTrainer";
 import PersonalTrainerTestLogin from "@/components/PersonalTrainerTestLogin";
+import SuperAdminRoles from "@/components/SuperAdminRoles";
 
 interface PersonalTrainer {
   id: string;
@@ -50,6 +51,15 @@ interface PersonalTrainer {
   };
 }
 
+const checkSuperAdminRole = async () => {
+  const { data, error } = await supabase.rpc("is_super_admin");
+  if (error) {
+    console.error("Error checking super admin role:", error);
+    return false;
+  }
+  return data === true;
+};
+
 const SuperAdminLogin = ({ onLogin }: { onLogin: () => void }) => {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -76,16 +86,10 @@ const SuperAdminLogin = ({ onLogin }: { onLogin: () => void }) => {
         return;
       }
 
-      // Check if user is super admin (you can add a custom claim or check email)
-      const isSuperAdmin = authData.user.email === "guthierresc@hotmail.com" || 
-                           authData.user.user_metadata?.role === "super_admin";
+      // Role is checked in the database (super_admins table), never on the client
+      const isSuperAdmin = await checkSuperAdminRole();
       
       if (isSuperAdmin) {
-        localStorage.setItem("superAdmin", JSON.stringify({
-          id: authData.user.id,
-          email: authData.user.email,
-          name: "Super Admin"
-        }));
         toast({
           title: "Login realizado com sucesso!",
           description: "Bem-vindo, Super Admin!",
@@ -131,7 +135,7 @@ const SuperAdminLogin = ({ onLogin }: { onLogin: () => void }) => {
               <Input
                 id="email"
                 type="email"
-                placeholder="guthierresc@hotmail.com"
+                placeholder="admin@exemplo.com"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
@@ -164,6 +168,7 @@ const SuperAdminLogin = ({ onLogin }: { onLogin: () => void }) => {
 
 const SuperAdmin = () => {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
+  const [isCheckingAccess, setIsCheckingAccess] = useState(true);
   const [trainers, setTrainers] = useState<PersonalTrainer[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -180,14 +185,26 @@ const SuperAdmin = () => {
   const { toast } = useToast();
 
   useEffect(() => {
-    const adminData = localStorage.getItem("superAdmin");
-    if (adminData) {
-      setIsLoggedIn(true);
-      loadTrainers();
-      loadStats();
-    }
+    verifyExistingSession();
   }, []);
 
+  const verifyExistingSession = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (session && await checkSuperAdminRole()) {
+        handleLoginSuccess();
+      }
+    } finally {
+      setIsCheckingAccess(false);
+    }
+  };
+
+  const handleLoginSuccess = () => {
+    setIsLoggedIn(true);
+    loadTrainers();
+    loadStats();
+  };
+
   const loadTrainers = async () => {
     try {
       console.log("Loading trainers for super admin...");
@@ -435,7 +452,6 @@ const SuperAdmin = () => {
 
   const handleLogout = () => {
     supabase.auth.signOut();
-    localStorage.removeItem("superAdmin");
     toast({
       title: "Logout realizado",
       description: "Você foi desconectado com sucesso.",
@@ -443,8 +459,16 @@ const SuperAdmin = () => {
     navigate("/");
   };
 
+  if (isCheckingAccess) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Shield className="h-12 w-12 text-destructive animate-pulse" />
+      </div>
+    );
+  }
+
   if (!isLoggedIn) {
-    return <SuperAdminLogin onLogin={() => setIsLoggedIn(true)} />;
+    return <SuperAdminLogin onLogin={handleLoginSuccess} />;
   }
 
   const filteredTrainers = trainers.filter(trainer =>
@@ -529,8 +553,9 @@ const SuperAdmin = () => {
         </div>
 
         <Tabs defaultValue="trainers" className="space-y-4">
-          <TabsList className="grid grid-cols-3 w-full max-w-md">
+          <TabsList className="grid grid-cols-4 w-full max-w-2xl">
             <TabsTrigger value="trainers">Personal Trainers</TabsTrigger>
+            <TabsTrigger value="admins">Administradores</TabsTrigger>
             <TabsTrigger value="login-test">Teste de Login</TabsTrigger>
             <TabsTrigger value="reports">Relatórios</TabsTrigger>
           </TabsList>
@@ -630,6 +655,10 @@ const SuperAdmin = () => {
             </div>
           </TabsContent>
 
+          <TabsContent value="admins" className="space-y-4">
+            <SuperAdminRoles />
+          </TabsContent>
+
           <TabsContent value="login-test" className="space-y-4">
             <PersonalTrainerTestLogin onClose={() => {}} />
           </TabsContent>
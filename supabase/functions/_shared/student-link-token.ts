@@ -0,0 +1,42 @@
+import { SignJWT, jwtVerify } from 'npm:jose@5'
+
+// Student links carry a signed token (HS256) bound to one row of
+// student_access_links. The signature proves we issued it; the row decides
+// whether it was revoked or rotated since.
+const LINK_ISSUER = 'fittrainer-student-link'
+
+export interface StudentLinkClaims {
+  link_id: string;
+  student_id: string;
+  expires_at: number;
+}
+
+const getSecret = () => {
+  const secret = Deno.env.get('STUDENT_LINK_SECRET')
+  if (!secret) {
+    throw new Error('STUDENT_LINK_SECRET is not configured')
+  }
+  return new TextEncoder().encode(secret)
+}
+
+export const signStudentLinkToken = async (claims: StudentLinkClaims) => {
+  return await new SignJWT({ lid: claims.link_id, sid: claims.student_id })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuer(LINK_ISSUER)
+    .setIssuedAt()
+    .setExpirationTime(claims.expires_at)
+    .sign(getSecret())
+}
+
+// Returns null for bad signatures, wrong issuer and expired tokens alike
+export const verifyStudentLinkToken = async (token: string): Promise<StudentLinkClaims | null> => {
+  try {
+    const { payload } = await jwtVerify(token, getSecret(), { issuer: LINK_ISSUER })
+    if (typeof payload.lid !== 'string' || typeof payload.sid !== 'string' || !payload.exp) {
+      return null
+    }
+    return { link_id: payload.lid, student_id: payload.sid, expires_at: payload.exp }
+  } catch {
+    return null
+  }
+}
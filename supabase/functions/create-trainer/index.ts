@@ -78,9 +78,14 @@ Deno.serve(async (req) => {
       )
     }
 
-    // Check if user is a super admin
-    const superAdminEmail = 'guthierresc@hotmail.com'
-    if (user.email !== superAdminEmail) {
+    // Check if user is a super admin (role granted in the super_admins table)
+    const { data: superAdmin } = await supabaseAdmin
+      .from('super_admins')
+      .select('id')
+      .eq('auth_user_id', user.id)
+      .maybeSingle()
+
+    if (!superAdmin) {
       return new Response(
         JSON.stringify({ error: 'Insufficient permissions' }),
         { 
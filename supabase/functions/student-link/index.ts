@@ -0,0 +1,169 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { signStudentLinkToken } from '../_shared/student-link-token.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_EXPIRES_IN_DAYS = 30
+const MAX_EXPIRES_IN_DAYS = 365
+
+interface StudentLinkRequest {
+  action: 'rotate' | 'share' | 'revoke';
+  student_id: string;
+  expires_in_days?: number;
+  pin?: string | null;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )
+
+    // Verify the requesting user is authenticated
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(token)
+
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const requestData: StudentLinkRequest = await req.json()
+
+    if (!requestData.student_id || !['rotate', 'share', 'revoke'].includes(requestData.action)) {
+      return jsonResponse({ error: 'Missing required fields: action, student_id' }, 400)
+    }
+
+    // Only the student's own trainer can manage the link
+    const { data: trainer } = await supabaseAdmin
+      .from('personal_trainers')
+      .select('id')
+      .eq('auth_user_id', user.id)
+      .eq('active', true)
+      .maybeSingle()
+
+    const { data: student } = await supabaseAdmin
+      .from('students')
+      .select('id, personal_trainer_id')
+      .eq('id', requestData.student_id)
+      .maybeSingle()
+
+    if (!trainer || !student || student.personal_trainer_id !== trainer.id) {
+      return jsonResponse({ error: 'Student not found' }, 404)
+    }
+
+    if (requestData.action === 'revoke') {
+      const { error: revokeError } = await supabaseAdmin
+        .rpc('revoke_student_access_links', { target_student_id: student.id })
+
+      if (revokeError) {
+        console.error('Error revoking student links:', revokeError)
+        return jsonResponse({ error: 'Failed to revoke link', details: revokeError.message }, 400)
+      }
+
+      return jsonResponse({ success: true }, 200)
+    }
+
+    // Re-signs the active link so the trainer can copy it again; tokens are never stored
+    if (requestData.action === 'share') {
+      const { data: activeLink } = await supabaseAdmin
+        .from('student_access_links')
+        .select('id, expires_at, has_pin')
+        .eq('student_id', student.id)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle()
+
+      if (!activeLink) {
+        return jsonResponse({ error: 'No active link' }, 404)
+      }
+
+      const linkToken = await signStudentLinkToken({
+        link_id: activeLink.id,
+        student_id: student.id,
+        expires_at: Math.floor(new Date(activeLink.expires_at).getTime() / 1000),
+      })
+
+      return jsonResponse({ success: true, link_token: linkToken, link: activeLink }, 200)
+    }
+
+    const pin = requestData.pin?.trim() || null
+    if (pin && !/^\d{4}$/.test(pin)) {
+      return jsonResponse({ error: 'PIN must have 4 digits' }, 400)
+    }
+
+    const expiresInDays = Math.min(
+      Math.max(Math.floor(requestData.expires_in_days ?? DEFAULT_EXPIRES_IN_DAYS), 1),
+      MAX_EXPIRES_IN_DAYS
+    )
+    const expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+
+    const { data: link, error: issueError } = await supabaseAdmin
+      .rpc('issue_student_access_link', {
+        target_student_id: student.id,
+        link_expires_at: expiresAt.toISOString(),
+        link_pin: pin,
+      })
+      .single()
+
+    if (issueError || !link) {
+      console.error('Error issuing student link:', issueError)
+      return jsonResponse({ error: 'Failed to create link', details: issueError?.message }, 400)
+    }
+
+    const linkToken = await signStudentLinkToken({
+      link_id: link.id,
+      student_id: student.id,
+      expires_at: Math.floor(expiresAt.getTime() / 1000),
+    })
+
+    return jsonResponse({
+      success: true,
+      link_token: linkToken,
+      link: {
+        id: link.id,
+        expires_at: link.expires_at,
+        has_pin: link.has_pin,
+      },
+    }, 200)
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,146 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { SignJWT } from 'npm:jose@5'
+import { verifyStudentLinkToken } from '../_shared/student-link-token.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Sessões de aluno duram até 12 horas; depois disso o link é validado novamente
+const SESSION_TTL_SECONDS = 60 * 60 * 12
+
+interface StudentSessionRequest {
+  student_number: string;
+  link_token: string;
+  pin?: string;
+}
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405)
+    }
+
+    // Must be the project's JWT secret so PostgREST accepts the token
+    const jwtSecret = Deno.env.get('STUDENT_JWT_SECRET')
+    if (!jwtSecret) {
+      console.error('STUDENT_JWT_SECRET is not configured')
+      return jsonResponse({ error: 'Internal server error' }, 500)
+    }
+
+    const requestData: StudentSessionRequest = await req.json()
+    const studentNumber = requestData.student_number?.trim()
+    const linkToken = requestData.link_token?.trim()
+
+    if (!studentNumber || !linkToken) {
+      return jsonResponse({ error: 'Missing required fields: student_number, link_token' }, 400)
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    )
+
+    // Signature and expiry first; the link row then decides revocation
+    const claims = await verifyStudentLinkToken(linkToken)
+    if (!claims) {
+      return jsonResponse({ error: 'Invalid student link' }, 401)
+    }
+
+    const { data: student, error: studentError } = await supabaseAdmin
+      .from('students')
+      .select('id, name, student_number, personal_trainer_id, active')
+      .eq('student_number', studentNumber)
+      .eq('active', true)
+      .maybeSingle()
+
+    const { data: link } = await supabaseAdmin
+      .from('student_access_links')
+      .select('id, student_id, expires_at, revoked_at, has_pin')
+      .eq('id', claims.link_id)
+      .maybeSingle()
+
+    // Same response for unknown student, revoked link and foreign token to avoid enumeration
+    if (
+      studentError || !student || !link ||
+      link.student_id !== student.id ||
+      claims.student_id !== student.id ||
+      link.revoked_at ||
+      new Date(link.expires_at).getTime() <= Date.now()
+    ) {
+      return jsonResponse({ error: 'Invalid student link' }, 401)
+    }
+
+    if (link.has_pin) {
+      const pin = requestData.pin?.trim()
+      if (!pin) {
+        return jsonResponse({ error: 'PIN required', pin_required: true }, 401)
+      }
+
+      const { data: pinOk } = await supabaseAdmin
+        .rpc('check_student_link_pin', { link_id: link.id, link_pin: pin })
+
+      if (!pinOk) {
+        return jsonResponse({ error: 'Invalid PIN', pin_required: true }, 401)
+      }
+    }
+
+    await supabaseAdmin
+      .from('student_access_links')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', link.id)
+
+    // The student session never outlives the link that opened it
+    const linkExpiresAt = Math.floor(new Date(link.expires_at).getTime() / 1000)
+
+    const expiresAt = Math.min(Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS, linkExpiresAt)
+
+    const accessToken = await new SignJWT({
+      role: 'anon',
+      app_role: 'student',
+      student_id: student.id,
+      link_id: link.id,
+    })
+      .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+      .setIssuer('fittrainer-student-session')
+      .setIssuedAt()
+      .setExpirationTime(expiresAt)
+      .sign(new TextEncoder().encode(jwtSecret))
+
+    return jsonResponse({
+      success: true,
+      access_token: accessToken,
+      expires_at: expiresAt,
+      student: {
+        id: student.id,
+        name: student.name,
+        student_number: student.student_number,
+        personal_trainer_id: student.personal_trainer_id,
+        active: student.active,
+      },
+    }, 200)
+
+  } catch (error) {
+    console.error('Unexpected error:', error)
+    return jsonResponse({ error: 'Internal server error', details: error.message }, 500)
+  }
+})
@@ -0,0 +1,29 @@
+/*
+  # Registro de séries nas conclusões de exercícios
+
+  1. Alterações
+    - Adiciona `weights_used` (carga usada em cada série) em `exercise_completions`
+    - `reps_completed` passa a guardar as repetições de cada série, na mesma ordem
+    - `weight_used` continua guardando a maior carga da sessão (carga de trabalho)
+    - `sets_completed` guarda a quantidade de séries registradas
+
+  2. Integridade
+    - `reps_completed` e `weights_used` devem ter o mesmo tamanho quando ambos existirem
+*/
+
+ALTER TABLE public.exercise_completions
+  ADD COLUMN IF NOT EXISTS weights_used DECIMAL(5,2)[];
+
+ALTER TABLE public.exercise_completions
+  DROP CONSTRAINT IF EXISTS exercise_completions_sets_length_check;
+
+ALTER TABLE public.exercise_completions
+  ADD CONSTRAINT exercise_completions_sets_length_check
+  CHECK (
+    reps_completed IS NULL
+    OR weights_used IS NULL
+    OR cardinality(reps_completed) = cardinality(weights_used)
+  );
+
+CREATE INDEX IF NOT EXISTS idx_exercise_completions_student_exercise
+  ON public.exercise_completions (student_id, workout_exercise_id, completed_at DESC);
@@ -0,0 +1,23 @@
+/*
+  # Regras de progressão de carga por plano de treino
+
+  1. Alterações
+    - Adiciona `progression_settings` (JSONB) em `workout_plans`
+    - Campos: `rule` (double_progression | percentage), `increment_kg`,
+      `increase_percent` e `deload_percent`
+
+  2. Observações
+    - As sugestões são calculadas no cliente a partir de `exercise_completions`
+    - Planos existentes recebem a dupla progressão com +2,5kg como padrão
+*/
+
+ALTER TABLE public.workout_plans
+  ADD COLUMN IF NOT EXISTS progression_settings JSONB NOT NULL
+  DEFAULT '{"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10}'::jsonb;
+
+ALTER TABLE public.workout_plans
+  DROP CONSTRAINT IF EXISTS workout_plans_progression_rule_check;
+
+ALTER TABLE public.workout_plans
+  ADD CONSTRAINT workout_plans_progression_rule_check
+  CHECK (progression_settings ->> 'rule' IN ('double_progression', 'percentage'));
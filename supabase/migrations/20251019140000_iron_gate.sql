@@ -0,0 +1,402 @@
+/*
+  # Reativação do RLS com modelo de acesso por token do aluno
+
+  1. Segurança
+    - Reativa RLS em todas as tabelas desabilitadas em `20250910165325_humble_tower`
+    - Remove os GRANT ALL concedidos ao papel `anon`
+    - Personal trainers acessam apenas os próprios alunos, planos e conclusões
+    - Super admins (tabela `super_admins`) mantêm acesso total
+    - O personal edita o próprio perfil, mas só o super admin altera `active`
+
+  2. Acesso dos alunos
+    - O aluno troca o link (número + token do link) por um JWT assinado na
+      edge function `student-session`
+    - O JWT usa o papel `anon` e carrega as claims `app_role = 'student'` e
+      `student_id`; as políticas leem essas claims via `auth.jwt()`
+    - Sem essa claim o papel `anon` não enxerga nenhum dado de aluno
+
+  3. Funções auxiliares
+    - `current_trainer_id()`, `current_student_id()`, `is_super_admin()`
+    - Todas SECURITY DEFINER e STABLE para evitar recursão entre políticas
+
+  4. Testes
+    - `supabase/tests/rls_policies.test.sql` (rodar com `supabase test db`)
+*/
+
+-- ============================================================
+-- Funções auxiliares
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.current_trainer_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM personal_trainers
+  WHERE auth_user_id = auth.uid()
+    AND active = true
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_student_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id
+  FROM students s
+  WHERE auth.jwt() ->> 'app_role' = 'student'
+    AND s.id = NULLIF(auth.jwt() ->> 'student_id', '')::uuid
+    AND s.active = true
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_super_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM super_admins sa
+    WHERE lower(sa.email) = lower(auth.jwt() ->> 'email')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.trainer_owns_student(target_student_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM students s
+    WHERE s.id = target_student_id
+      AND s.personal_trainer_id = current_trainer_id()
+  )
+$$;
+
+REVOKE ALL ON FUNCTION public.current_trainer_id() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.current_student_id() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.is_super_admin() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.trainer_owns_student(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.current_trainer_id() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.current_student_id() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.is_super_admin() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.trainer_owns_student(UUID) TO anon, authenticated;
+
+-- ============================================================
+-- Limpa políticas antigas
+-- ============================================================
+
+DO $$
+DECLARE
+  pol RECORD;
+BEGIN
+  FOR pol IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'personal_trainers', 'students', 'workout_plans', 'workout_sessions',
+        'workout_exercises', 'exercise_completions', 'diet_plans', 'meals',
+        'meal_foods', 'meal_completions', 'exercises', 'exercise_categories',
+        'super_admins', 'users'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', pol.policyname, pol.tablename);
+  END LOOP;
+END $$;
+
+-- ============================================================
+-- Permissões de tabela
+-- ============================================================
+
+REVOKE ALL ON ALL TABLES IN SCHEMA public FROM anon;
+
+-- Alunos (papel anon com claim de aluno) apenas leem o próprio plano e
+-- registram as próprias conclusões; o RLS filtra as linhas
+GRANT SELECT ON students, workout_plans, workout_sessions, workout_exercises,
+  diet_plans, meals, meal_foods, exercises, exercise_categories TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON exercise_completions, meal_completions TO anon;
+GRANT SELECT (id, name, email, phone, cref) ON personal_trainers TO anon;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON ALL TABLES IN SCHEMA public TO authenticated;
+
+-- ============================================================
+-- Ativa RLS
+-- ============================================================
+
+ALTER TABLE personal_trainers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE students ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_exercises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exercise_completions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE diet_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meal_foods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE meal_completions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exercises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exercise_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE super_admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- personal_trainers
+-- ============================================================
+
+CREATE POLICY "trainers_select_own" ON personal_trainers
+  FOR SELECT TO authenticated
+  USING (auth_user_id = auth.uid() OR is_super_admin());
+
+-- Primeiro login: o trainer criado antes do vínculo com o Auth é encontrado pelo email
+CREATE POLICY "trainers_select_unlinked_by_email" ON personal_trainers
+  FOR SELECT TO authenticated
+  USING (auth_user_id IS NULL AND lower(email) = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "trainers_link_auth_user" ON personal_trainers
+  FOR UPDATE TO authenticated
+  USING (auth_user_id IS NULL AND lower(email) = lower(auth.jwt() ->> 'email'))
+  WITH CHECK (auth_user_id = auth.uid());
+
+CREATE POLICY "trainers_update_own" ON personal_trainers
+  FOR UPDATE TO authenticated
+  USING (auth_user_id = auth.uid())
+  WITH CHECK (auth_user_id = auth.uid());
+
+CREATE POLICY "trainers_super_admin_all" ON personal_trainers
+  FOR ALL TO authenticated
+  USING (is_super_admin())
+  WITH CHECK (is_super_admin());
+
+CREATE POLICY "trainers_visible_to_own_students" ON personal_trainers
+  FOR SELECT TO anon
+  USING (id = (SELECT personal_trainer_id FROM students WHERE id = current_student_id()));
+
+-- As políticas de UPDATE liberam o perfil inteiro: sem esta trava um personal
+-- desativado pelo super admin poderia se reativar com `active = true`
+CREATE OR REPLACE FUNCTION public.protect_trainer_active()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.active IS DISTINCT FROM OLD.active
+    AND current_user IN ('anon', 'authenticated')
+    AND NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Apenas o super admin ativa ou desativa um personal' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_trainer_active
+  BEFORE UPDATE ON personal_trainers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_trainer_active();
+
+-- ============================================================
+-- students
+-- ============================================================
+
+CREATE POLICY "students_trainer_all" ON students
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (personal_trainer_id = current_trainer_id() OR is_super_admin());
+
+CREATE POLICY "students_self_select" ON students
+  FOR SELECT TO anon
+  USING (id = current_student_id());
+
+-- ============================================================
+-- Planos de treino
+-- ============================================================
+
+CREATE POLICY "workout_plans_trainer_all" ON workout_plans
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (
+    (personal_trainer_id = current_trainer_id() AND trainer_owns_student(student_id))
+    OR is_super_admin()
+  );
+
+CREATE POLICY "workout_plans_student_select" ON workout_plans
+  FOR SELECT TO anon
+  USING (student_id = current_student_id());
+
+CREATE POLICY "workout_sessions_trainer_all" ON workout_sessions
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM workout_plans wp WHERE wp.id = workout_sessions.workout_plan_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM workout_plans wp WHERE wp.id = workout_sessions.workout_plan_id));
+
+CREATE POLICY "workout_sessions_student_select" ON workout_sessions
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM workout_plans wp WHERE wp.id = workout_sessions.workout_plan_id));
+
+CREATE POLICY "workout_exercises_trainer_all" ON workout_exercises
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM workout_sessions ws WHERE ws.id = workout_exercises.workout_session_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM workout_sessions ws WHERE ws.id = workout_exercises.workout_session_id));
+
+CREATE POLICY "workout_exercises_student_select" ON workout_exercises
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM workout_sessions ws WHERE ws.id = workout_exercises.workout_session_id));
+
+-- ============================================================
+-- Planos de dieta
+-- ============================================================
+
+CREATE POLICY "diet_plans_trainer_all" ON diet_plans
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (
+    (personal_trainer_id = current_trainer_id() AND trainer_owns_student(student_id))
+    OR is_super_admin()
+  );
+
+CREATE POLICY "diet_plans_student_select" ON diet_plans
+  FOR SELECT TO anon
+  USING (student_id = current_student_id());
+
+CREATE POLICY "meals_trainer_all" ON meals
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM diet_plans dp WHERE dp.id = meals.diet_plan_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM diet_plans dp WHERE dp.id = meals.diet_plan_id));
+
+CREATE POLICY "meals_student_select" ON meals
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM diet_plans dp WHERE dp.id = meals.diet_plan_id));
+
+CREATE POLICY "meal_foods_trainer_all" ON meal_foods
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM meals m WHERE m.id = meal_foods.meal_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM meals m WHERE m.id = meal_foods.meal_id));
+
+CREATE POLICY "meal_foods_student_select" ON meal_foods
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM meals m WHERE m.id = meal_foods.meal_id));
+
+-- ============================================================
+-- Conclusões
+-- ============================================================
+
+CREATE POLICY "exercise_completions_student_all" ON exercise_completions
+  FOR ALL TO anon
+  USING (student_id = current_student_id())
+  WITH CHECK (
+    student_id = current_student_id()
+    AND EXISTS (SELECT 1 FROM workout_exercises we WHERE we.id = exercise_completions.workout_exercise_id)
+  );
+
+CREATE POLICY "exercise_completions_trainer_select" ON exercise_completions
+  FOR SELECT TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin());
+
+CREATE POLICY "meal_completions_student_all" ON meal_completions
+  FOR ALL TO anon
+  USING (student_id = current_student_id())
+  WITH CHECK (
+    student_id = current_student_id()
+    AND EXISTS (SELECT 1 FROM meals m WHERE m.id = meal_completions.meal_id)
+  );
+
+CREATE POLICY "meal_completions_trainer_select" ON meal_completions
+  FOR SELECT TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin());
+
+-- ============================================================
+-- Catálogo de exercícios
+-- ============================================================
+
+CREATE POLICY "exercise_categories_read" ON exercise_categories
+  FOR SELECT TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "exercise_categories_super_admin" ON exercise_categories
+  FOR ALL TO authenticated
+  USING (is_super_admin())
+  WITH CHECK (is_super_admin());
+
+CREATE POLICY "exercises_read" ON exercises
+  FOR SELECT TO anon, authenticated
+  USING (personal_trainer_id IS NULL OR personal_trainer_id = current_trainer_id());
+
+-- Alunos precisam ler exercícios personalizados usados no próprio plano
+CREATE POLICY "exercises_read_in_student_plan" ON exercises
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM workout_exercises we WHERE we.exercise_id = exercises.id));
+
+CREATE POLICY "exercises_trainer_manage_own" ON exercises
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (personal_trainer_id = current_trainer_id() OR is_super_admin());
+
+-- ============================================================
+-- Tabelas administrativas
+-- ============================================================
+
+CREATE POLICY "super_admins_self_select" ON super_admins
+  FOR SELECT TO authenticated
+  USING (is_super_admin());
+
+CREATE POLICY "users_super_admin" ON users
+  FOR ALL TO authenticated
+  USING (is_super_admin())
+  WITH CHECK (is_super_admin());
+
+-- A view trainer_stats passa a respeitar o RLS de quem consulta
+ALTER VIEW trainer_stats SET (security_invoker = true);
+REVOKE ALL ON trainer_stats FROM anon;
+GRANT SELECT ON trainer_stats TO authenticated;
+
+-- ============================================================
+-- Funções legadas que expunham dados ao papel anon
+-- ============================================================
+
+REVOKE EXECUTE ON FUNCTION get_system_stats() FROM anon;
+
+CREATE OR REPLACE FUNCTION get_system_stats()
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSON;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Acesso negado' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT json_build_object(
+    'totalTrainers', (SELECT COUNT(*) FROM personal_trainers),
+    'activeTrainers', (SELECT COUNT(*) FROM personal_trainers WHERE active = true),
+    'totalStudents', (SELECT COUNT(*) FROM students),
+    'totalWorkouts', (SELECT COUNT(*) FROM workout_plans),
+    'totalDiets', (SELECT COUNT(*) FROM diet_plans)
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+DO $$
+DECLARE
+  fn RECORD;
+BEGIN
+  FOR fn IN
+    SELECT p.oid::regprocedure AS signature
+    FROM pg_proc p
+    JOIN pg_namespace n ON n.oid = p.pronamespace
+    WHERE n.nspname = 'public'
+      AND p.proname IN ('verify_student_access', 'set_student_context', 'get_student_context', 'is_trainer_or_student_access')
+  LOOP
+    EXECUTE format('REVOKE EXECUTE ON FUNCTION %s FROM anon, PUBLIC', fn.signature);
+  END LOOP;
+END $$;
@@ -0,0 +1,189 @@
+/*
+  # Links de acesso do aluno assinados, com validade e revogáveis
+
+  1. Nova tabela
+    - `student_access_links`: um registro por link emitido para o aluno
+      - `expires_at`: validade do link
+      - `revoked_at`: preenchido ao revogar ou ao gerar um novo link
+      - `pin_hash`: PIN opcional de 4 dígitos (bcrypt via pgcrypto); o personal
+        vê apenas `has_pin`
+      - `failed_pin_attempts`: bloqueia o link após 5 tentativas erradas
+      - `last_used_at`: último acesso com o link
+
+  2. Fluxo
+    - A edge function `student-link` (personal autenticado) gera, reenvia ou
+      revoga links; o token do link é um JWT assinado com `STUDENT_LINK_SECRET`
+      que carrega o id do registro e não é gravado no banco
+    - A edge function `student-session` valida assinatura, validade, revogação
+      e PIN antes de emitir a sessão do aluno
+    - `students.unique_link_token` deixa de dar acesso: links antigos param de
+      funcionar até o personal gerar um novo link
+
+  3. Segurança
+    - A sessão do aluno carrega a claim `link_id`; `current_student_id()` passa
+      a exigir que esse link continue válido, então revogar tem efeito imediato
+    - RLS ativo; o personal apenas lê os links dos próprios alunos
+    - Escrita e verificação de PIN somente pelo service role (edge functions)
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS student_access_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  personal_trainer_id UUID NOT NULL REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  pin_hash TEXT,
+  has_pin BOOLEAN GENERATED ALWAYS AS (pin_hash IS NOT NULL) STORED,
+  failed_pin_attempts INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_access_links_student
+  ON student_access_links (student_id, created_at DESC);
+
+-- No máximo um link ativo (não revogado) por aluno
+CREATE UNIQUE INDEX IF NOT EXISTS idx_student_access_links_one_active
+  ON student_access_links (student_id)
+  WHERE revoked_at IS NULL;
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON student_access_links FROM anon, authenticated;
+GRANT SELECT (id, student_id, personal_trainer_id, expires_at, revoked_at,
+  has_pin, failed_pin_attempts, last_used_at, created_at) ON student_access_links TO authenticated;
+
+ALTER TABLE student_access_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "student_access_links_trainer_select" ON student_access_links
+  FOR SELECT TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin());
+
+-- ============================================================
+-- Sessão do aluno vinculada a um link válido
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.current_student_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id
+  FROM students s
+  JOIN student_access_links l ON l.student_id = s.id
+  WHERE auth.jwt() ->> 'app_role' = 'student'
+    AND s.id = NULLIF(auth.jwt() ->> 'student_id', '')::uuid
+    AND l.id = NULLIF(auth.jwt() ->> 'link_id', '')::uuid
+    AND l.revoked_at IS NULL
+    AND l.expires_at > now()
+    AND s.active = true
+$$;
+
+-- ============================================================
+-- Funções usadas pelas edge functions (service role)
+-- ============================================================
+
+-- Revoga o link ativo e cria um novo; o PIN é gravado apenas como hash
+CREATE OR REPLACE FUNCTION public.issue_student_access_link(
+  target_student_id UUID,
+  link_expires_at TIMESTAMPTZ,
+  link_pin TEXT DEFAULT NULL
+)
+RETURNS student_access_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  trainer_id UUID;
+  new_link student_access_links;
+BEGIN
+  IF link_pin IS NOT NULL AND link_pin !~ '^[0-9]{4}$' THEN
+    RAISE EXCEPTION 'PIN deve ter 4 dígitos' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT personal_trainer_id INTO trainer_id FROM students WHERE id = target_student_id;
+  IF trainer_id IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE student_access_links
+  SET revoked_at = now()
+  WHERE student_id = target_student_id
+    AND revoked_at IS NULL;
+
+  INSERT INTO student_access_links (student_id, personal_trainer_id, expires_at, pin_hash)
+  VALUES (
+    target_student_id,
+    trainer_id,
+    link_expires_at,
+    CASE WHEN link_pin IS NULL THEN NULL ELSE crypt(link_pin, gen_salt('bf')) END
+  )
+  RETURNING * INTO new_link;
+
+  RETURN new_link;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_student_access_links(target_student_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH revoked AS (
+    UPDATE student_access_links
+    SET revoked_at = now()
+    WHERE student_id = target_student_id
+      AND revoked_at IS NULL
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM revoked
+$$;
+
+-- Confere o PIN e contabiliza tentativas; após 5 erros o link é revogado
+CREATE OR REPLACE FUNCTION public.check_student_link_pin(link_id UUID, link_pin TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  link student_access_links;
+BEGIN
+  SELECT * INTO link FROM student_access_links WHERE id = link_id FOR UPDATE;
+
+  IF link.id IS NULL OR link.revoked_at IS NOT NULL THEN
+    RETURN false;
+  END IF;
+
+  IF link.pin_hash IS NULL THEN
+    RETURN true;
+  END IF;
+
+  IF link_pin IS NOT NULL AND crypt(link_pin, link.pin_hash) = link.pin_hash THEN
+    UPDATE student_access_links SET failed_pin_attempts = 0 WHERE id = link_id;
+    RETURN true;
+  END IF;
+
+  UPDATE student_access_links
+  SET failed_pin_attempts = failed_pin_attempts + 1,
+      revoked_at = CASE WHEN failed_pin_attempts + 1 >= 5 THEN now() ELSE revoked_at END
+  WHERE id = link_id;
+
+  RETURN false;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_student_access_link(UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.revoke_student_access_links(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.check_student_link_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_student_access_link(UUID, TIMESTAMPTZ, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.revoke_student_access_links(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.check_student_link_pin(UUID, TEXT) TO service_role;
@@ -0,0 +1,135 @@
+/*
+  # Papéis de super admin no servidor
+
+  1. Tabela `super_admins`
+    - Passa a ser a única fonte de verdade para o papel de super admin
+    - Nova coluna `auth_user_id` vinculada a `auth.users`; o papel vale para o
+      usuário, não para o email informado no login
+    - Nova coluna `granted_by` registra quem concedeu o papel
+    - Remove `password_hash`: o login é feito pelo Supabase Auth
+
+  2. Funções
+    - `is_super_admin()` compara `auth.uid()` com `super_admins.auth_user_id`
+    - `grant_super_admin(email)` e `revoke_super_admin(id)` só podem ser
+      chamadas por super admins; não é possível remover o último super admin
+      nem o próprio papel
+
+  3. Segurança
+    - Escrita direta em `super_admins` bloqueada; apenas pelas funções acima
+    - Edge functions consultam a mesma tabela (sem email fixo no código)
+*/
+
+ALTER TABLE super_admins
+  ADD COLUMN IF NOT EXISTS auth_user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE super_admins sa
+SET auth_user_id = u.id
+FROM auth.users u
+WHERE sa.auth_user_id IS NULL
+  AND lower(u.email) = lower(sa.email);
+
+ALTER TABLE super_admins DROP COLUMN IF EXISTS password_hash;
+
+-- ============================================================
+-- Verificação do papel
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.is_super_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM super_admins sa
+    WHERE sa.auth_user_id = auth.uid()
+  )
+$$;
+
+-- ============================================================
+-- Concessão e revogação
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.grant_super_admin(target_email TEXT)
+RETURNS super_admins
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_user auth.users;
+  granted super_admins;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Acesso negado' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target_user
+  FROM auth.users
+  WHERE lower(email) = lower(trim(target_email));
+
+  IF target_user.id IS NULL THEN
+    RAISE EXCEPTION 'Usuário não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO super_admins (email, name, auth_user_id, granted_by)
+  VALUES (
+    target_user.email,
+    COALESCE(target_user.raw_user_meta_data ->> 'name', 'Super Admin'),
+    target_user.id,
+    auth.uid()
+  )
+  ON CONFLICT (email) DO UPDATE
+    SET auth_user_id = EXCLUDED.auth_user_id,
+        granted_by = EXCLUDED.granted_by,
+        updated_at = now()
+  RETURNING * INTO granted;
+
+  RETURN granted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_super_admin(target_admin_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target super_admins;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Acesso negado' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO target FROM super_admins WHERE id = target_admin_id FOR UPDATE;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Super admin não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF target.auth_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Não é possível remover o próprio papel' USING ERRCODE = '22023';
+  END IF;
+
+  IF (SELECT count(*) FROM super_admins WHERE auth_user_id IS NOT NULL) <= 1 THEN
+    RAISE EXCEPTION 'É necessário manter ao menos um super admin' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM super_admins WHERE id = target_admin_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.grant_super_admin(TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.revoke_super_admin(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.grant_super_admin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_super_admin(UUID) TO authenticated;
+
+-- ============================================================
+-- Permissões da tabela
+-- ============================================================
+
+-- Leitura continua pela política `super_admins_self_select` (apenas super admins)
+REVOKE INSERT, UPDATE, DELETE ON super_admins FROM authenticated;
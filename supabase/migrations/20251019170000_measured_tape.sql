@@ -0,0 +1,81 @@
+/*
+  # Avaliações físicas com histórico
+
+  1. Nova tabela
+    - `body_assessments`: uma avaliação datada por registro
+      - `assessed_on`: data da avaliação
+      - `weight_kg`, `height_m`, `body_fat_percent`, `resting_heart_rate`
+      - `body_fat_method`: `jackson_pollock_3`, `jackson_pollock_7` ou `manual`
+      - Circunferências em cm: cintura, quadril, braço, coxa, peito
+      - Dobras cutâneas em mm: peitoral, abdominal, coxa, tríceps,
+        subescapular, suprailíaca e axilar média
+
+  2. Alterações
+    - `students.sex` (`male` / `female`), necessário para as equações de
+      Jackson-Pollock
+
+  3. Segurança
+    - RLS ativo: o personal gerencia as avaliações dos próprios alunos e o
+      aluno (claim de sessão) apenas lê as próprias
+*/
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS sex TEXT CHECK (sex IN ('male', 'female'));
+
+CREATE TABLE IF NOT EXISTS body_assessments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  personal_trainer_id UUID NOT NULL REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  assessed_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_kg DECIMAL(5,2) CHECK (weight_kg > 0),
+  height_m DECIMAL(3,2) CHECK (height_m > 0),
+  body_fat_percent DECIMAL(4,1) CHECK (body_fat_percent >= 0 AND body_fat_percent < 100),
+  body_fat_method TEXT NOT NULL DEFAULT 'manual'
+    CHECK (body_fat_method IN ('jackson_pollock_3', 'jackson_pollock_7', 'manual')),
+  waist_cm DECIMAL(5,1) CHECK (waist_cm > 0),
+  hip_cm DECIMAL(5,1) CHECK (hip_cm > 0),
+  arm_cm DECIMAL(5,1) CHECK (arm_cm > 0),
+  thigh_cm DECIMAL(5,1) CHECK (thigh_cm > 0),
+  chest_cm DECIMAL(5,1) CHECK (chest_cm > 0),
+  skinfold_chest_mm DECIMAL(4,1) CHECK (skinfold_chest_mm > 0),
+  skinfold_abdominal_mm DECIMAL(4,1) CHECK (skinfold_abdominal_mm > 0),
+  skinfold_thigh_mm DECIMAL(4,1) CHECK (skinfold_thigh_mm > 0),
+  skinfold_triceps_mm DECIMAL(4,1) CHECK (skinfold_triceps_mm > 0),
+  skinfold_subscapular_mm DECIMAL(4,1) CHECK (skinfold_subscapular_mm > 0),
+  skinfold_suprailiac_mm DECIMAL(4,1) CHECK (skinfold_suprailiac_mm > 0),
+  skinfold_midaxillary_mm DECIMAL(4,1) CHECK (skinfold_midaxillary_mm > 0),
+  resting_heart_rate INTEGER CHECK (resting_heart_rate BETWEEN 20 AND 250),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_body_assessments_student_date
+  ON body_assessments (student_id, assessed_on);
+
+CREATE TRIGGER update_body_assessments_updated_at
+  BEFORE UPDATE ON body_assessments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON body_assessments FROM anon;
+GRANT SELECT ON body_assessments TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON body_assessments TO authenticated;
+
+ALTER TABLE body_assessments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "body_assessments_trainer_all" ON body_assessments
+  FOR ALL TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin())
+  WITH CHECK (
+    (personal_trainer_id = current_trainer_id() AND trainer_owns_student(student_id))
+    OR is_super_admin()
+  );
+
+CREATE POLICY "body_assessments_student_select" ON body_assessments
+  FOR SELECT TO anon
+  USING (student_id = current_student_id());
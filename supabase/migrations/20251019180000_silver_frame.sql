@@ -0,0 +1,95 @@
+/*
+  # Fotos de progresso por aluno
+
+  1. Storage
+    - Bucket privado `progress-photos` (até 5 MB, apenas imagens)
+    - Caminho dos arquivos: `<student_id>/<uuid>.<ext>`; a primeira pasta
+      identifica o aluno e é usada pelas políticas
+
+  2. Nova tabela
+    - `progress_photos`: metadados de cada foto
+      - `taken_on`: data da foto (normalmente a data de uma avaliação)
+      - `assessment_id`: avaliação física vinculada (opcional)
+      - `pose`: `front`, `side` ou `back`
+      - `storage_path`: caminho do arquivo no bucket
+
+  3. Segurança
+    - Personal: leitura, envio e exclusão apenas nas pastas dos próprios alunos
+    - Aluno (claim de sessão do link assinado): apenas leitura da própria pasta
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('progress-photos', 'progress-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS progress_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  personal_trainer_id UUID NOT NULL REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  assessment_id UUID REFERENCES body_assessments(id) ON DELETE SET NULL,
+  taken_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  pose TEXT NOT NULL CHECK (pose IN ('front', 'side', 'back')),
+  storage_path TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- O arquivo precisa estar na pasta do próprio aluno
+  CONSTRAINT progress_photos_path_matches_student
+    CHECK (split_part(storage_path, '/', 1) = student_id::text)
+);
+
+CREATE INDEX IF NOT EXISTS idx_progress_photos_student_date
+  ON progress_photos (student_id, taken_on);
+
+-- ============================================================
+-- Permissões e RLS da tabela
+-- ============================================================
+
+REVOKE ALL ON progress_photos FROM anon;
+GRANT SELECT ON progress_photos TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON progress_photos TO authenticated;
+
+ALTER TABLE progress_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "progress_photos_trainer_all" ON progress_photos
+  FOR ALL TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin())
+  WITH CHECK (
+    (personal_trainer_id = current_trainer_id() AND trainer_owns_student(student_id))
+    OR is_super_admin()
+  );
+
+CREATE POLICY "progress_photos_student_select" ON progress_photos
+  FOR SELECT TO anon
+  USING (student_id = current_student_id());
+
+-- ============================================================
+-- Políticas do bucket
+-- ============================================================
+
+-- Pasta inválida (não-UUID) resulta em NULL e nega o acesso
+CREATE OR REPLACE FUNCTION public.storage_student_folder(object_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+BEGIN
+  RETURN split_part(object_name, '/', 1)::uuid;
+EXCEPTION WHEN invalid_text_representation THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE POLICY "progress_photos_trainer_select" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'progress-photos' AND trainer_owns_student(public.storage_student_folder(name)));
+
+CREATE POLICY "progress_photos_trainer_insert" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (bucket_id = 'progress-photos' AND trainer_owns_student(public.storage_student_folder(name)));
+
+CREATE POLICY "progress_photos_trainer_delete" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (bucket_id = 'progress-photos' AND trainer_owns_student(public.storage_student_folder(name)));
+
+CREATE POLICY "progress_photos_student_select" ON storage.objects
+  FOR SELECT TO anon
+  USING (bucket_id = 'progress-photos' AND public.storage_student_folder(name) = current_student_id());
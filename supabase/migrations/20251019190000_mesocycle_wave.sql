@@ -0,0 +1,64 @@
+/*
+  # Periodização: fases do plano de treino
+
+  1. Alterações
+    - `workout_plans.start_date`: início do plano, usado para calcular a
+      semana atual do aluno (planos existentes usam a data de criação)
+
+  2. Nova tabela
+    - `workout_plan_phases`: mesociclos do plano (ex.: hipertrofia → força → deload)
+      - `goal`: hypertrophy | strength | power | endurance | deload
+      - `start_week` / `end_week`: intervalo de semanas (1 = primeira semana)
+      - `week_modifiers`: lista JSONB com um ajuste por semana da fase
+        (`sets_delta`, `reps_delta`, `load_percent`) aplicado sobre a
+        prescrição base de cada exercício
+
+  3. Segurança
+    - Mesmo acesso do plano: o personal edita, o aluno (link assinado) lê
+*/
+
+ALTER TABLE public.workout_plans
+  ADD COLUMN IF NOT EXISTS start_date DATE;
+
+UPDATE public.workout_plans SET start_date = created_at::date WHERE start_date IS NULL;
+
+ALTER TABLE public.workout_plans
+  ALTER COLUMN start_date SET DEFAULT CURRENT_DATE,
+  ALTER COLUMN start_date SET NOT NULL;
+
+CREATE TABLE IF NOT EXISTS workout_plan_phases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_plan_id UUID NOT NULL REFERENCES workout_plans(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  goal TEXT NOT NULL DEFAULT 'hypertrophy'
+    CHECK (goal IN ('hypertrophy', 'strength', 'power', 'endurance', 'deload')),
+  start_week INTEGER NOT NULL CHECK (start_week >= 1),
+  end_week INTEGER NOT NULL,
+  week_modifiers JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(week_modifiers) = 'array'),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT workout_plan_phases_week_range CHECK (end_week >= start_week)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_plan_phases_plan
+  ON workout_plan_phases (workout_plan_id, start_week);
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON workout_plan_phases FROM anon;
+GRANT SELECT ON workout_plan_phases TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON workout_plan_phases TO authenticated;
+
+ALTER TABLE workout_plan_phases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workout_plan_phases_trainer_all" ON workout_plan_phases
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM workout_plans wp WHERE wp.id = workout_plan_phases.workout_plan_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM workout_plans wp WHERE wp.id = workout_plan_phases.workout_plan_id));
+
+CREATE POLICY "workout_plan_phases_student_select" ON workout_plan_phases
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM workout_plans wp WHERE wp.id = workout_plan_phases.workout_plan_id));
@@ -0,0 +1,42 @@
+/*
+  # Planos em rodízio (Treino A/B/C)
+
+  1. Alterações
+    - `workout_plans.schedule_mode`: `weekly` (padrão, um treino por dia da
+      semana) ou `rotation` (treinos ordenados, feitos em sequência)
+    - `workout_sessions.order_index`: posição do treino no plano; no rodízio
+      define a sequência A, B, C...
+    - `workout_sessions.day_of_week` passa a aceitar NULL (treinos de rodízio)
+
+  2. Observações
+    - Sessões existentes recebem `order_index` igual ao dia da semana
+    - O próximo treino do rodízio é sugerido no cliente a partir do último
+      registro em `exercise_completions`
+*/
+
+ALTER TABLE public.workout_plans
+  ADD COLUMN IF NOT EXISTS schedule_mode TEXT NOT NULL DEFAULT 'weekly';
+
+ALTER TABLE public.workout_plans
+  DROP CONSTRAINT IF EXISTS workout_plans_schedule_mode_check;
+
+ALTER TABLE public.workout_plans
+  ADD CONSTRAINT workout_plans_schedule_mode_check
+  CHECK (schedule_mode IN ('weekly', 'rotation'));
+
+ALTER TABLE public.workout_sessions
+  ADD COLUMN IF NOT EXISTS order_index INTEGER;
+
+UPDATE public.workout_sessions SET order_index = day_of_week WHERE order_index IS NULL;
+
+ALTER TABLE public.workout_sessions
+  ALTER COLUMN order_index SET DEFAULT 0,
+  ALTER COLUMN order_index SET NOT NULL,
+  ALTER COLUMN day_of_week DROP NOT NULL;
+
+ALTER TABLE public.workout_sessions
+  DROP CONSTRAINT IF EXISTS workout_sessions_day_of_week_check;
+
+ALTER TABLE public.workout_sessions
+  ADD CONSTRAINT workout_sessions_day_of_week_check
+  CHECK (day_of_week IS NULL OR day_of_week BETWEEN 0 AND 6);
@@ -0,0 +1,33 @@
+/*
+  # Agrupamentos e técnicas nos exercícios do treino
+
+  1. Alterações em `workout_exercises`
+    - `group_key`: exercícios consecutivos (por `order_index`) com a mesma
+      chave formam um grupo (ex.: "A" → A1, A2)
+    - `group_type`: superset (bi-set) | giant_set | circuit
+    - `technique`: drop_set | rest_pause | cluster
+    - `tempo`: cadência no formato 3-1-2-0 ("X" = explosivo)
+
+  2. Observações
+    - Dentro de um grupo não há descanso entre os exercícios; o
+      `rest_seconds` do último exercício vale para o fim da volta
+*/
+
+ALTER TABLE public.workout_exercises
+  ADD COLUMN IF NOT EXISTS group_key TEXT,
+  ADD COLUMN IF NOT EXISTS group_type TEXT,
+  ADD COLUMN IF NOT EXISTS technique TEXT,
+  ADD COLUMN IF NOT EXISTS tempo TEXT;
+
+ALTER TABLE public.workout_exercises
+  DROP CONSTRAINT IF EXISTS workout_exercises_group_type_check,
+  DROP CONSTRAINT IF EXISTS workout_exercises_technique_check,
+  DROP CONSTRAINT IF EXISTS workout_exercises_tempo_check;
+
+ALTER TABLE public.workout_exercises
+  ADD CONSTRAINT workout_exercises_group_type_check
+    CHECK (group_type IS NULL OR group_type IN ('superset', 'giant_set', 'circuit')),
+  ADD CONSTRAINT workout_exercises_technique_check
+    CHECK (technique IS NULL OR technique IN ('drop_set', 'rest_pause', 'cluster')),
+  ADD CONSTRAINT workout_exercises_tempo_check
+    CHECK (tempo IS NULL OR tempo ~ '^[0-9X]-[0-9X]-[0-9X]-[0-9X]$');
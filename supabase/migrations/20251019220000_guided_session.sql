@@ -0,0 +1,65 @@
+/*
+  # Sessões de treino guiado
+
+  1. Nova tabela
+    - `workout_logs`: uma execução de treino do aluno (modo guiado)
+      - `workout_session_id`: treino do plano executado
+      - `started_at` / `finished_at`: início e fim da execução
+      - `duration_seconds`: duração total registrada pelo cronômetro
+
+  2. Alterações
+    - `exercise_completions.workout_log_id`: agrupa as conclusões registradas
+      durante a mesma execução (opcional; registros avulsos ficam sem sessão)
+
+  3. Segurança
+    - Aluno (claim de sessão do link assinado): lê e registra as próprias execuções
+    - Personal: leitura das execuções dos próprios alunos
+*/
+
+CREATE TABLE IF NOT EXISTS workout_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  workout_session_id UUID REFERENCES workout_sessions(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  duration_seconds INTEGER NOT NULL CHECK (duration_seconds >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT workout_logs_finished_after_start CHECK (finished_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_logs_student_started
+  ON workout_logs (student_id, started_at DESC);
+
+ALTER TABLE exercise_completions
+  ADD COLUMN IF NOT EXISTS workout_log_id UUID REFERENCES workout_logs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exercise_completions_workout_log
+  ON exercise_completions (workout_log_id);
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON workout_logs FROM anon;
+GRANT SELECT, INSERT ON workout_logs TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON workout_logs TO authenticated;
+
+ALTER TABLE workout_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workout_logs_student_select" ON workout_logs
+  FOR SELECT TO anon
+  USING (student_id = current_student_id());
+
+CREATE POLICY "workout_logs_student_insert" ON workout_logs
+  FOR INSERT TO anon
+  WITH CHECK (
+    student_id = current_student_id()
+    AND (
+      workout_session_id IS NULL
+      OR EXISTS (SELECT 1 FROM workout_sessions ws WHERE ws.id = workout_logs.workout_session_id)
+    )
+  );
+
+CREATE POLICY "workout_logs_trainer_select" ON workout_logs
+  FOR SELECT TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin());
@@ -0,0 +1,22 @@
+/*
+  # Histórico de sessões de treino com percepção do aluno
+
+  1. Alterações em `workout_logs`
+    - `rpe`: percepção de esforço da sessão (escala de Borg CR10, 1 a 10)
+    - `difficulty`: dificuldade percebida (`very_easy` a `very_hard`)
+    - `pain_reports`: lista de dores relatadas, cada uma com `region`,
+      `intensity` (1 a 10) e `notes` opcionais
+    - `feedback`: comentário livre do aluno para o personal
+
+  2. Segurança
+    - Sem mudanças nas políticas: o aluno informa a percepção ao registrar a
+      sessão; o personal continua apenas com leitura
+*/
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS rpe SMALLINT CHECK (rpe BETWEEN 1 AND 10),
+  ADD COLUMN IF NOT EXISTS difficulty TEXT
+    CHECK (difficulty IN ('very_easy', 'easy', 'moderate', 'hard', 'very_hard')),
+  ADD COLUMN IF NOT EXISTS pain_reports JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(pain_reports) = 'array'),
+  ADD COLUMN IF NOT EXISTS feedback TEXT;
@@ -0,0 +1,141 @@
+/*
+  # Banco de alimentos (TACO)
+
+  1. Nova tabela
+    - `foods`: alimentos com a composição por 100 g
+      - `source`: 'taco' (Tabela Brasileira de Composição de Alimentos) ou
+        'custom' (cadastrado pelo personal)
+      - `personal_trainer_id`: dono do alimento personalizado; nulo nos da TACO
+      - `household_measures`: medidas caseiras, lista de { label, grams }
+
+  2. Alterações
+    - `meal_foods.food_id`: alimento do banco usado na refeição (opcional; os
+      macros continuam gravados na própria linha para a dieta não mudar se o
+      alimento for editado ou excluído)
+
+  3. Dados
+    - Carga inicial gerada a partir de `supabase/seed/taco.csv`
+
+  4. Segurança
+    - Personal: lê os alimentos da TACO e os próprios; gerencia apenas os próprios
+    - Aluno: sem acesso (a dieta já traz os macros em `meal_foods`)
+*/
+
+CREATE TABLE IF NOT EXISTS foods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  category TEXT,
+  source TEXT NOT NULL DEFAULT 'custom' CHECK (source IN ('taco', 'custom')),
+  personal_trainer_id UUID REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  energy_kcal NUMERIC NOT NULL CHECK (energy_kcal >= 0),
+  protein_g NUMERIC NOT NULL DEFAULT 0 CHECK (protein_g >= 0),
+  carbs_g NUMERIC NOT NULL DEFAULT 0 CHECK (carbs_g >= 0),
+  fat_g NUMERIC NOT NULL DEFAULT 0 CHECK (fat_g >= 0),
+  fiber_g NUMERIC CHECK (fiber_g >= 0),
+  household_measures JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(household_measures) = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT foods_custom_has_owner CHECK ((source = 'custom') = (personal_trainer_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_foods_taco_name
+  ON foods (lower(name)) WHERE personal_trainer_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_foods_personal_trainer
+  ON foods (personal_trainer_id);
+
+ALTER TABLE meal_foods
+  ADD COLUMN IF NOT EXISTS food_id UUID REFERENCES foods(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- Carga da TACO
+-- ============================================================
+
+INSERT INTO foods (name, category, source, energy_kcal, protein_g, carbs_g, fat_g, fiber_g, household_measures)
+SELECT name, category, 'taco', energy_kcal, protein_g, carbs_g, fat_g, fiber_g, household_measures::jsonb
+FROM (VALUES
+  ('Arroz, integral, cozido', 'Cereais e derivados', 124, 2.6, 25.8, 1.0, 2.7, '[{"label": "colher de sopa", "grams": 25}, {"label": "escumadeira", "grams": 90}]'),
+  ('Arroz, tipo 1, cozido', 'Cereais e derivados', 128, 2.5, 28.1, 0.2, 1.6, '[{"label": "colher de sopa", "grams": 25}, {"label": "escumadeira", "grams": 90}]'),
+  ('Aveia, flocos, crua', 'Cereais e derivados', 394, 13.9, 66.6, 8.5, 9.1, '[{"label": "colher de sopa", "grams": 15}]'),
+  ('Biscoito, salgado, cream cracker', 'Cereais e derivados', 432, 10.1, 68.7, 14.4, 2.5, '[{"label": "unidade", "grams": 6}]'),
+  ('Cuscuz, de milho, cozido com sal', 'Cereais e derivados', 113, 2.2, 25.3, 0.7, 2.1, '[{"label": "fatia", "grams": 100}]'),
+  ('Farinha, de mandioca, torrada', 'Cereais e derivados', 365, 1.2, 89.2, 0.3, 6.5, '[{"label": "colher de sopa", "grams": 16}]'),
+  ('Granola', 'Cereais e derivados', 421, 10.0, 64.5, 13.9, 7.8, '[{"label": "colher de sopa", "grams": 12}]'),
+  ('Macarrão, trigo, cru', 'Cereais e derivados', 371, 10.0, 77.9, 1.3, 2.9, '[{"label": "pegador", "grams": 80}]'),
+  ('Pão, de forma, integral', 'Cereais e derivados', 253, 9.4, 49.9, 3.7, 6.9, '[{"label": "fatia", "grams": 25}]'),
+  ('Pão, trigo, forma', 'Cereais e derivados', 253, 12.0, 44.1, 2.7, 2.3, '[{"label": "fatia", "grams": 25}]'),
+  ('Pão, trigo, francês', 'Cereais e derivados', 300, 8.0, 58.6, 3.1, 2.3, '[{"label": "unidade", "grams": 50}]'),
+  ('Tapioca, com manteiga', 'Cereais e derivados', 348, 0.1, 63.6, 10.9, 0.0, '[{"label": "unidade", "grams": 70}]'),
+  ('Abobrinha, italiana, cozida', 'Verduras, hortaliças e derivados', 15, 1.1, 3.0, 0.2, 1.6, '[{"label": "colher de sopa", "grams": 30}]'),
+  ('Alface, crespa, crua', 'Verduras, hortaliças e derivados', 11, 1.3, 1.7, 0.2, 1.8, '[{"label": "folha", "grams": 10}]'),
+  ('Batata, doce, cozida', 'Verduras, hortaliças e derivados', 77, 0.6, 18.4, 0.1, 2.2, '[{"label": "unidade média", "grams": 130}, {"label": "colher de sopa", "grams": 42}]'),
+  ('Batata, inglesa, cozida', 'Verduras, hortaliças e derivados', 52, 1.2, 11.9, 0.0, 1.3, '[{"label": "unidade média", "grams": 135}, {"label": "colher de sopa", "grams": 30}]'),
+  ('Beterraba, crua', 'Verduras, hortaliças e derivados', 49, 1.9, 11.1, 0.1, 3.4, '[{"label": "colher de sopa", "grams": 16}]'),
+  ('Brócolis, cozido', 'Verduras, hortaliças e derivados', 25, 2.1, 4.4, 0.5, 3.4, '[{"label": "ramo", "grams": 10}]'),
+  ('Cenoura, crua', 'Verduras, hortaliças e derivados', 34, 1.3, 7.7, 0.2, 3.2, '[{"label": "colher de sopa", "grams": 12}]'),
+  ('Mandioca, cozida', 'Verduras, hortaliças e derivados', 125, 0.6, 30.1, 0.3, 1.6, '[{"label": "pedaço", "grams": 50}]'),
+  ('Tomate, com semente, cru', 'Verduras, hortaliças e derivados', 15, 1.1, 3.1, 0.2, 1.2, '[{"label": "unidade média", "grams": 100}, {"label": "fatia", "grams": 15}]'),
+  ('Abacate, cru', 'Frutas e derivados', 96, 1.2, 6.0, 8.4, 6.3, '[{"label": "colher de sopa", "grams": 45}]'),
+  ('Banana, nanica, crua', 'Frutas e derivados', 92, 1.4, 23.8, 0.1, 1.9, '[{"label": "unidade média", "grams": 86}]'),
+  ('Banana, prata, crua', 'Frutas e derivados', 98, 1.3, 26.0, 0.1, 2.0, '[{"label": "unidade média", "grams": 55}]'),
+  ('Laranja, pêra, crua', 'Frutas e derivados', 37, 1.0, 8.9, 0.1, 0.8, '[{"label": "unidade média", "grams": 140}]'),
+  ('Maçã, Fuji, com casca, crua', 'Frutas e derivados', 56, 0.3, 15.2, 0.0, 1.3, '[{"label": "unidade média", "grams": 130}]'),
+  ('Mamão, Papaia, cru', 'Frutas e derivados', 40, 0.5, 10.4, 0.1, 1.0, '[{"label": "fatia", "grams": 100}]'),
+  ('Manga, Tommy Atkins, crua', 'Frutas e derivados', 51, 0.9, 12.8, 0.2, 2.1, '[{"label": "fatia", "grams": 80}]'),
+  ('Melancia, crua', 'Frutas e derivados', 33, 0.9, 8.1, 0.0, 0.1, '[{"label": "fatia", "grams": 200}]'),
+  ('Morango, cru', 'Frutas e derivados', 30, 0.9, 6.8, 0.3, 1.7, '[{"label": "unidade", "grams": 12}]'),
+  ('Azeite, de oliva, extra virgem', 'Gorduras e óleos', 884, 0.0, 0.0, 100.0, 0.0, '[{"label": "colher de sopa", "grams": 8}, {"label": "colher de chá", "grams": 3}]'),
+  ('Manteiga, com sal', 'Gorduras e óleos', 726, 0.4, 0.1, 82.4, 0.0, '[{"label": "colher de chá", "grams": 5}]'),
+  ('Óleo, de soja', 'Gorduras e óleos', 884, 0.0, 0.0, 100.0, 0.0, '[{"label": "colher de sopa", "grams": 8}]'),
+  ('Atum, conserva em óleo', 'Pescados e frutos do mar', 166, 26.2, 0.0, 6.0, 0.0, '[{"label": "colher de sopa", "grams": 20}, {"label": "lata drenada", "grams": 120}]'),
+  ('Salmão, sem pele, fresco, grelhado', 'Pescados e frutos do mar', 229, 23.9, 0.0, 14.0, 0.0, '[{"label": "filé", "grams": 120}]'),
+  ('Sardinha, conserva em óleo', 'Pescados e frutos do mar', 285, 15.9, 0.0, 24.0, 0.0, '[{"label": "unidade", "grams": 25}]'),
+  ('Tilápia, filé, grelhado', 'Pescados e frutos do mar', 128, 26.0, 0.0, 2.7, 0.0, '[{"label": "filé", "grams": 100}]'),
+  ('Carne, bovina, acém, moído, cozido', 'Carnes e derivados', 212, 26.7, 0.0, 10.9, 0.0, '[{"label": "colher de sopa", "grams": 25}]'),
+  ('Carne, bovina, contra-filé, sem gordura, grelhado', 'Carnes e derivados', 194, 35.9, 0.0, 4.5, 0.0, '[{"label": "bife médio", "grams": 100}]'),
+  ('Carne, bovina, patinho, sem gordura, grelhado', 'Carnes e derivados', 219, 35.9, 0.0, 7.3, 0.0, '[{"label": "bife médio", "grams": 100}]'),
+  ('Frango, coxa, sem pele, cozida', 'Carnes e derivados', 167, 26.9, 0.0, 5.8, 0.0, '[{"label": "unidade", "grams": 60}]'),
+  ('Frango, filé, à milanesa', 'Carnes e derivados', 221, 28.5, 7.5, 7.8, 0.4, '[{"label": "filé", "grams": 100}]'),
+  ('Frango, peito, sem pele, cozido', 'Carnes e derivados', 163, 31.5, 0.0, 3.2, 0.0, '[{"label": "filé", "grams": 100}]'),
+  ('Frango, peito, sem pele, grelhado', 'Carnes e derivados', 159, 32.0, 0.0, 2.5, 0.0, '[{"label": "filé", "grams": 100}]'),
+  ('Peito, de peru, defumado', 'Carnes e derivados', 111, 19.1, 1.9, 2.9, 0.0, '[{"label": "fatia", "grams": 15}]'),
+  ('Iogurte, natural', 'Leite e derivados', 51, 4.1, 1.9, 3.0, 0.0, '[{"label": "pote", "grams": 170}]'),
+  ('Iogurte, natural, desnatado', 'Leite e derivados', 41, 3.8, 5.8, 0.3, 0.0, '[{"label": "pote", "grams": 170}]'),
+  ('Leite, de vaca, desnatado, UHT', 'Leite e derivados', 30, 2.9, 4.2, 0.2, 0.0, '[{"label": "copo", "grams": 200}]'),
+  ('Leite, de vaca, integral', 'Leite e derivados', 61, 3.0, 4.7, 3.2, 0.0, '[{"label": "copo", "grams": 200}]'),
+  ('Queijo, minas, frescal', 'Leite e derivados', 264, 17.4, 3.2, 20.2, 0.0, '[{"label": "fatia", "grams": 30}]'),
+  ('Queijo, mozarela', 'Leite e derivados', 330, 22.6, 3.0, 25.2, 0.0, '[{"label": "fatia", "grams": 15}]'),
+  ('Queijo, ricota', 'Leite e derivados', 140, 12.6, 3.8, 8.1, 0.0, '[{"label": "colher de sopa", "grams": 25}]'),
+  ('Requeijão, cremoso', 'Leite e derivados', 257, 9.6, 2.4, 23.4, 0.0, '[{"label": "colher de sopa", "grams": 30}]'),
+  ('Ovo, de galinha, clara, cozida', 'Ovos e derivados', 59, 13.4, 0.0, 0.1, 0.0, '[{"label": "unidade", "grams": 30}]'),
+  ('Ovo, de galinha, gema, cozida', 'Ovos e derivados', 353, 15.9, 1.6, 30.8, 0.0, '[{"label": "unidade", "grams": 17}]'),
+  ('Ovo, de galinha, inteiro, cozido', 'Ovos e derivados', 146, 13.3, 0.6, 9.5, 0.0, '[{"label": "unidade", "grams": 50}]'),
+  ('Ovo, de galinha, inteiro, frito', 'Ovos e derivados', 240, 15.6, 1.2, 18.6, 0.0, '[{"label": "unidade", "grams": 50}]'),
+  ('Mel, de abelha', 'Produtos açucarados', 309, 0.0, 84.0, 0.0, 0.0, '[{"label": "colher de sopa", "grams": 20}]'),
+  ('Feijão, carioca, cozido', 'Leguminosas e derivados', 76, 4.8, 13.6, 0.5, 8.5, '[{"label": "concha", "grams": 140}, {"label": "colher de sopa", "grams": 17}]'),
+  ('Feijão, preto, cozido', 'Leguminosas e derivados', 77, 4.5, 14.0, 0.5, 8.4, '[{"label": "concha", "grams": 140}, {"label": "colher de sopa", "grams": 17}]'),
+  ('Grão-de-bico, cru', 'Leguminosas e derivados', 355, 21.2, 57.9, 5.4, 12.4, '[{"label": "colher de sopa", "grams": 22}]'),
+  ('Lentilha, cozida', 'Leguminosas e derivados', 93, 6.3, 16.3, 0.5, 7.9, '[{"label": "colher de sopa", "grams": 18}]'),
+  ('Amendoim, grão, cru', 'Nozes e sementes', 544, 27.2, 20.3, 43.9, 8.0, '[{"label": "colher de sopa", "grams": 17}]'),
+  ('Castanha-do-Brasil, crua', 'Nozes e sementes', 643, 14.5, 15.1, 63.5, 7.9, '[{"label": "unidade", "grams": 4}]'),
+  ('Castanha-de-caju, torrada, salgada', 'Nozes e sementes', 570, 18.5, 29.1, 46.3, 3.7, '[{"label": "unidade", "grams": 2.5}]')
+) AS taco (name, category, energy_kcal, protein_g, carbs_g, fat_g, fiber_g, household_measures)
+ON CONFLICT (lower(name)) WHERE personal_trainer_id IS NULL DO NOTHING;
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON foods FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON foods TO authenticated;
+
+ALTER TABLE foods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "foods_read" ON foods
+  FOR SELECT TO authenticated
+  USING (personal_trainer_id IS NULL OR personal_trainer_id = current_trainer_id() OR is_super_admin());
+
+CREATE POLICY "foods_trainer_manage_own" ON foods
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (personal_trainer_id = current_trainer_id() OR is_super_admin());
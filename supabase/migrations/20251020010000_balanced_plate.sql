@@ -0,0 +1,11 @@
+/*
+  # Tolerância das metas de macros
+
+  1. Alterações
+    - `diet_plans.macro_tolerance_percent`: diferença aceita (em %) entre a
+      soma dos alimentos e as metas diárias antes de o editor alertar o personal
+*/
+
+ALTER TABLE diet_plans
+  ADD COLUMN IF NOT EXISTS macro_tolerance_percent INTEGER NOT NULL DEFAULT 10
+    CHECK (macro_tolerance_percent BETWEEN 0 AND 100);
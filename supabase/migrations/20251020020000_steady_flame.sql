@@ -0,0 +1,12 @@
+/*
+  # Nível de atividade do aluno
+
+  1. Alterações
+    - `students.activity_level`: fator de atividade usado no cálculo do gasto
+      energético total (TDEE) ao montar a dieta
+      (`sedentary`, `light`, `moderate`, `active`, `very_active`)
+*/
+
+ALTER TABLE students
+  ADD COLUMN IF NOT EXISTS activity_level TEXT
+    CHECK (activity_level IN ('sedentary', 'light', 'moderate', 'active', 'very_active'));
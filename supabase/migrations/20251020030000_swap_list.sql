@@ -0,0 +1,60 @@
+/*
+  # Substituições de alimentos
+
+  1. Nova tabela
+    - `meal_food_substitutions`: alternativas aprovadas pelo personal para um
+      item da refeição (`meal_foods`), já na quantidade equivalente
+      - `match_by`: nutriente usado na equivalência (`calories` ou `carbs`)
+      - `food_id`: alimento do banco usado no cálculo (opcional)
+
+  2. Alterações
+    - `meal_completions.substitutions`: trocas escolhidas pelo aluno ao marcar a
+      refeição, lista de { meal_food_id, substitution_id, food_name, quantity, unit }
+
+  3. Segurança
+    - Personal: gerencia as substituições das dietas dos próprios alunos
+    - Aluno (claim de sessão): apenas lê as substituições da própria dieta
+*/
+
+CREATE TABLE IF NOT EXISTS meal_food_substitutions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meal_food_id UUID NOT NULL REFERENCES meal_foods(id) ON DELETE CASCADE,
+  food_id UUID REFERENCES foods(id) ON DELETE SET NULL,
+  food_name TEXT NOT NULL,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0),
+  unit TEXT NOT NULL,
+  calories NUMERIC,
+  protein NUMERIC,
+  carbs NUMERIC,
+  fat NUMERIC,
+  match_by TEXT NOT NULL DEFAULT 'calories' CHECK (match_by IN ('calories', 'carbs')),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meal_food_substitutions_meal_food
+  ON meal_food_substitutions (meal_food_id, order_index);
+
+ALTER TABLE meal_completions
+  ADD COLUMN IF NOT EXISTS substitutions JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(substitutions) = 'array');
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON meal_food_substitutions FROM anon;
+GRANT SELECT ON meal_food_substitutions TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON meal_food_substitutions TO authenticated;
+
+ALTER TABLE meal_food_substitutions ENABLE ROW LEVEL SECURITY;
+
+-- A visibilidade segue a de meal_foods (que segue meals e diet_plans)
+CREATE POLICY "meal_food_substitutions_trainer_all" ON meal_food_substitutions
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM meal_foods mf WHERE mf.id = meal_food_substitutions.meal_food_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM meal_foods mf WHERE mf.id = meal_food_substitutions.meal_food_id));
+
+CREATE POLICY "meal_food_substitutions_student_select" ON meal_food_substitutions
+  FOR SELECT TO anon
+  USING (EXISTS (SELECT 1 FROM meal_foods mf WHERE mf.id = meal_food_substitutions.meal_food_id));
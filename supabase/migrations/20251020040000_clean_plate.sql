@@ -0,0 +1,108 @@
+/*
+  # Check-in da refeição por alimento
+
+  1. Nova tabela
+    - `meal_food_logs`: o que o aluno realmente comeu em cada refeição concluída
+      - `meal_food_id`: alimento do plano (nulo para alimentos fora do plano)
+      - `portion_percent`: 100 = comeu tudo, 0 = não comeu, entre os dois = parte
+      - `off_plan`: alimento adicionado pelo aluno, fora da dieta
+      - `calories`, `protein`, `carbs`, `fat`: macros efetivamente consumidos
+        (do plano já proporcionais à porção)
+
+  2. Alterações
+    - `meal_completions.photo_path`: foto do prato no bucket `meal-photos`
+
+  3. Storage
+    - Bucket privado `meal-photos` (até 5 MB, apenas imagens)
+    - Caminho dos arquivos: `<student_id>/<uuid>.<ext>`, como em `progress-photos`
+
+  4. Segurança
+    - Aluno: lê, registra e apaga os itens das próprias refeições concluídas
+      e as fotos da própria pasta
+    - Personal: apenas leitura, para os próprios alunos
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('meal-photos', 'meal-photos', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE meal_completions
+  ADD COLUMN IF NOT EXISTS photo_path TEXT,
+  ADD CONSTRAINT meal_completions_photo_matches_student
+    CHECK (photo_path IS NULL OR split_part(photo_path, '/', 1) = student_id::text);
+
+CREATE TABLE IF NOT EXISTS meal_food_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meal_completion_id UUID NOT NULL REFERENCES meal_completions(id) ON DELETE CASCADE,
+  meal_food_id UUID REFERENCES meal_foods(id) ON DELETE SET NULL,
+  food_name TEXT NOT NULL,
+  quantity NUMERIC(8,2),
+  unit TEXT,
+  portion_percent INTEGER NOT NULL DEFAULT 100 CHECK (portion_percent BETWEEN 0 AND 100),
+  off_plan BOOLEAN NOT NULL DEFAULT false,
+  calories NUMERIC(8,2) NOT NULL DEFAULT 0,
+  protein NUMERIC(8,2) NOT NULL DEFAULT 0,
+  carbs NUMERIC(8,2) NOT NULL DEFAULT 0,
+  fat NUMERIC(8,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meal_food_logs_completion
+  ON meal_food_logs (meal_completion_id);
+
+-- ============================================================
+-- Permissões e RLS da tabela
+-- ============================================================
+
+REVOKE ALL ON meal_food_logs FROM anon;
+GRANT SELECT, INSERT, DELETE ON meal_food_logs TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON meal_food_logs TO authenticated;
+
+ALTER TABLE meal_food_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "meal_food_logs_student_all" ON meal_food_logs
+  FOR ALL TO anon
+  USING (
+    EXISTS (
+      SELECT 1 FROM meal_completions mc
+      WHERE mc.id = meal_food_logs.meal_completion_id
+        AND mc.student_id = current_student_id()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM meal_completions mc
+      WHERE mc.id = meal_food_logs.meal_completion_id
+        AND mc.student_id = current_student_id()
+    )
+  );
+
+CREATE POLICY "meal_food_logs_trainer_select" ON meal_food_logs
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM meal_completions mc
+      WHERE mc.id = meal_food_logs.meal_completion_id
+        AND (trainer_owns_student(mc.student_id) OR is_super_admin())
+    )
+  );
+
+-- ============================================================
+-- Políticas do bucket
+-- ============================================================
+
+CREATE POLICY "meal_photos_student_select" ON storage.objects
+  FOR SELECT TO anon
+  USING (bucket_id = 'meal-photos' AND public.storage_student_folder(name) = current_student_id());
+
+CREATE POLICY "meal_photos_student_insert" ON storage.objects
+  FOR INSERT TO anon
+  WITH CHECK (bucket_id = 'meal-photos' AND public.storage_student_folder(name) = current_student_id());
+
+CREATE POLICY "meal_photos_student_delete" ON storage.objects
+  FOR DELETE TO anon
+  USING (bucket_id = 'meal-photos' AND public.storage_student_folder(name) = current_student_id());
+
+CREATE POLICY "meal_photos_trainer_select" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (bucket_id = 'meal-photos' AND trainer_owns_student(public.storage_student_folder(name)));
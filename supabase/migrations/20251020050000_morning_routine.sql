@@ -0,0 +1,87 @@
+/*
+  # Hábitos diários do aluno (água, passos, sono, suplementos, cardio)
+
+  1. Novas tabelas
+    - `student_habits`: hábitos configurados pelo personal para cada aluno
+      - `kind`: `water`, `steps`, `sleep`, `supplements`, `cardio` ou `custom`
+      - `target`: meta diária na unidade do hábito (`unit`)
+      - `active`: hábitos desativados saem do app do aluno, mas o histórico fica
+    - `habit_logs`: registros do aluno; o total do dia é a soma dos registros
+      (ex.: cada copo de água é um registro), o que permite gravar offline
+      sem conflitos
+
+  2. Segurança
+    - Personal: gerencia os hábitos e lê os registros dos próprios alunos
+    - Aluno (claim de sessão do link assinado): lê os próprios hábitos e
+      registra/apaga os próprios registros
+*/
+
+CREATE TABLE IF NOT EXISTS student_habits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  personal_trainer_id UUID NOT NULL REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('water', 'steps', 'sleep', 'supplements', 'cardio', 'custom')),
+  name TEXT NOT NULL,
+  unit TEXT NOT NULL,
+  target NUMERIC(10,2) NOT NULL CHECK (target > 0),
+  order_index INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_habits_student
+  ON student_habits (student_id, order_index);
+
+CREATE TABLE IF NOT EXISTS habit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  habit_id UUID NOT NULL REFERENCES student_habits(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  logged_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_habit_logs_student_date
+  ON habit_logs (student_id, logged_on);
+
+-- ============================================================
+-- Permissões e RLS
+-- ============================================================
+
+REVOKE ALL ON student_habits, habit_logs FROM anon;
+GRANT SELECT ON student_habits TO anon;
+GRANT SELECT, INSERT, DELETE ON habit_logs TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON student_habits, habit_logs TO authenticated;
+
+ALTER TABLE student_habits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "student_habits_trainer_all" ON student_habits
+  FOR ALL TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin())
+  WITH CHECK (
+    (personal_trainer_id = current_trainer_id() AND trainer_owns_student(student_id))
+    OR is_super_admin()
+  );
+
+CREATE POLICY "student_habits_student_select" ON student_habits
+  FOR SELECT TO anon
+  USING (student_id = current_student_id());
+
+CREATE POLICY "habit_logs_trainer_select" ON habit_logs
+  FOR SELECT TO authenticated
+  USING (trainer_owns_student(student_id) OR is_super_admin());
+
+-- O registro precisa apontar para um hábito ativo do próprio aluno
+CREATE POLICY "habit_logs_student_all" ON habit_logs
+  FOR ALL TO anon
+  USING (student_id = current_student_id())
+  WITH CHECK (
+    student_id = current_student_id()
+    AND EXISTS (
+      SELECT 1 FROM student_habits h
+      WHERE h.id = habit_logs.habit_id
+        AND h.student_id = habit_logs.student_id
+        AND h.active
+    )
+  );
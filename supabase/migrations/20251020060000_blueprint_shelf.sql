@@ -0,0 +1,151 @@
+/*
+  # Biblioteca de modelos de treino
+
+  1. Nova tabela
+    - `workout_templates`: plano de treino salvo sem aluno, para reutilizar
+      - `level`: `beginner`, `intermediate` ou `advanced`
+      - `goal`: `hypertrophy`, `strength`, `fat_loss`, `endurance` ou `general`
+      - `plan`: documento com as configurações do plano, fases, sessões e
+        exercícios (mesmo formato montado em `src/lib/workout-templates.ts`)
+
+  2. Nova função
+    - `assign_workout_template(template_id, student_ids, start_date)`: cria uma
+      cópia independente do plano para cada aluno, tudo em uma transação.
+      Roda com as permissões de quem chama, então as políticas de
+      `workout_plans` garantem que só alunos do próprio personal recebem o plano
+    - O plano fica com o personal do aluno (um super admin pode usar o modelo
+      de um personal para alunos de outro)
+
+  3. Segurança
+    - Cada personal vê e gerencia apenas os próprios modelos
+*/
+
+CREATE TABLE IF NOT EXISTS workout_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  personal_trainer_id UUID NOT NULL REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  level TEXT NOT NULL DEFAULT 'intermediate' CHECK (level IN ('beginner', 'intermediate', 'advanced')),
+  goal TEXT NOT NULL DEFAULT 'general' CHECK (goal IN ('hypertrophy', 'strength', 'fat_loss', 'endurance', 'general')),
+  plan JSONB NOT NULL CHECK (jsonb_typeof(plan -> 'sessions') = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_templates_trainer
+  ON workout_templates (personal_trainer_id, name);
+
+REVOKE ALL ON workout_templates FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON workout_templates TO authenticated;
+
+ALTER TABLE workout_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workout_templates_trainer_all" ON workout_templates
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (personal_trainer_id = current_trainer_id() OR is_super_admin());
+
+-- ============================================================
+-- Atribuição do modelo a um ou mais alunos
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.assign_workout_template(
+  template_id UUID,
+  student_ids UUID[],
+  plan_start_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  template workout_templates;
+  target_student UUID;
+  target_trainer UUID;
+  new_plan_id UUID;
+  new_session_id UUID;
+  session_doc JSONB;
+BEGIN
+  SELECT * INTO template FROM workout_templates WHERE id = template_id;
+  IF template.id IS NULL THEN
+    RAISE EXCEPTION 'Modelo não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOREACH target_student IN ARRAY student_ids LOOP
+    SELECT personal_trainer_id INTO target_trainer FROM students WHERE id = target_student;
+    IF target_trainer IS NULL THEN
+      RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO workout_plans (
+      student_id, personal_trainer_id, name, description, duration_weeks,
+      frequency_per_week, schedule_mode, progression_settings, start_date, active
+    )
+    VALUES (
+      target_student,
+      target_trainer,
+      template.name,
+      template.description,
+      COALESCE((template.plan ->> 'duration_weeks')::integer, 4),
+      COALESCE((template.plan ->> 'frequency_per_week')::integer, 3),
+      COALESCE(template.plan ->> 'schedule_mode', 'weekly'),
+      COALESCE(
+        template.plan -> 'progression_settings',
+        '{"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10}'::jsonb
+      ),
+      plan_start_date,
+      true
+    )
+    RETURNING id INTO new_plan_id;
+
+    INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+    SELECT
+      new_plan_id,
+      phase ->> 'name',
+      phase ->> 'goal',
+      (phase ->> 'start_week')::integer,
+      (phase ->> 'end_week')::integer,
+      COALESCE(phase -> 'week_modifiers', '[]'::jsonb),
+      phase ->> 'notes'
+    FROM jsonb_array_elements(COALESCE(template.plan -> 'phases', '[]'::jsonb)) AS phase;
+
+    FOR session_doc IN SELECT * FROM jsonb_array_elements(template.plan -> 'sessions') LOOP
+      INSERT INTO workout_sessions (workout_plan_id, name, description, day_of_week, order_index)
+      VALUES (
+        new_plan_id,
+        session_doc ->> 'name',
+        session_doc ->> 'description',
+        (session_doc ->> 'day_of_week')::integer,
+        COALESCE((session_doc ->> 'order_index')::integer, 0)
+      )
+      RETURNING id INTO new_session_id;
+
+      INSERT INTO workout_exercises (
+        workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+        weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+      )
+      SELECT
+        new_session_id,
+        (exercise ->> 'exercise_id')::uuid,
+        COALESCE((exercise ->> 'order_index')::integer, 0),
+        COALESCE((exercise ->> 'sets')::integer, 3),
+        (exercise ->> 'reps_min')::integer,
+        (exercise ->> 'reps_max')::integer,
+        (exercise ->> 'weight_kg')::numeric,
+        (exercise ->> 'rest_seconds')::integer,
+        exercise ->> 'tempo',
+        exercise ->> 'technique',
+        exercise ->> 'notes',
+        exercise ->> 'group_key',
+        exercise ->> 'group_type'
+      FROM jsonb_array_elements(COALESCE(session_doc -> 'exercises', '[]'::jsonb)) AS exercise;
+    END LOOP;
+
+    RETURN NEXT new_plan_id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_workout_template(UUID, UUID[], DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION public.assign_workout_template(UUID, UUID[], DATE) TO authenticated;
@@ -0,0 +1,39 @@
+/*
+  # Modelos de dieta
+
+  1. Nova tabela
+    - `diet_templates`: dieta salva sem aluno, para reutilizar
+      - `plan`: documento com metas, refeições, alimentos e substituições
+        (mesmo formato montado em `src/lib/diet-templates.ts`)
+
+  2. Uso
+    - O modelo é aplicado no formulário de nova dieta: as quantidades são
+      escaladas no navegador para a meta de calorias do aluno e só viram uma
+      dieta quando o personal confirma e salva
+
+  3. Segurança
+    - Cada personal vê e gerencia apenas os próprios modelos
+*/
+
+CREATE TABLE IF NOT EXISTS diet_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  personal_trainer_id UUID NOT NULL REFERENCES personal_trainers(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  plan JSONB NOT NULL CHECK (jsonb_typeof(plan -> 'meals') = 'array'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_diet_templates_trainer
+  ON diet_templates (personal_trainer_id, name);
+
+REVOKE ALL ON diet_templates FROM anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON diet_templates TO authenticated;
+
+ALTER TABLE diet_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "diet_templates_trainer_all" ON diet_templates
+  FOR ALL TO authenticated
+  USING (personal_trainer_id = current_trainer_id() OR is_super_admin())
+  WITH CHECK (personal_trainer_id = current_trainer_id() OR is_super_admin());
@@ -0,0 +1,190 @@
+/*
+  # Duplicar planos de treino e dieta
+
+  1. Novas funções
+    - `copy_workout_plan(source_plan_id, target_student_id, new_name)`: copia o
+      plano com fases, sessões e exercícios
+    - `copy_diet_plan(source_plan_id, target_student_id, new_name)`: copia a
+      dieta com refeições, alimentos e substituições
+
+  2. Comportamento
+    - `target_student_id` nulo copia para o mesmo aluno; nesse caso o nome
+      recebe o sufixo " (cópia)" quando `new_name` não é informado
+    - `order_index` e demais campos dos filhos são mantidos; o histórico
+      (conclusões, cargas, registros de refeição) não é copiado
+    - Tudo roda em uma única transação: se qualquer inserção falhar, nada fica
+      gravado
+
+  3. Segurança
+    - As funções rodam com as permissões de quem chama: só é possível copiar
+      planos visíveis para o personal e para alunos dele
+    - A cópia fica com o personal do aluno de destino (um super admin pode
+      copiar entre personais)
+*/
+
+CREATE OR REPLACE FUNCTION public.copy_workout_plan(
+  source_plan_id UUID,
+  target_student_id UUID DEFAULT NULL,
+  new_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source workout_plans;
+  target_trainer UUID;
+  new_plan_id UUID;
+  source_session workout_sessions;
+  new_session_id UUID;
+BEGIN
+  SELECT * INTO source FROM workout_plans WHERE id = source_plan_id;
+  IF source.id IS NULL THEN
+    RAISE EXCEPTION 'Plano de treino não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT personal_trainer_id INTO target_trainer
+  FROM students
+  WHERE id = COALESCE(target_student_id, source.student_id);
+  IF target_trainer IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO workout_plans (
+    student_id, personal_trainer_id, name, description, duration_weeks,
+    frequency_per_week, schedule_mode, progression_settings, start_date, active
+  )
+  VALUES (
+    COALESCE(target_student_id, source.student_id),
+    target_trainer,
+    COALESCE(
+      NULLIF(trim(new_name), ''),
+      CASE WHEN COALESCE(target_student_id, source.student_id) = source.student_id
+        THEN source.name || ' (cópia)' ELSE source.name END
+    ),
+    source.description,
+    source.duration_weeks,
+    source.frequency_per_week,
+    source.schedule_mode,
+    source.progression_settings,
+    CURRENT_DATE,
+    true
+  )
+  RETURNING id INTO new_plan_id;
+
+  INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+  SELECT new_plan_id, name, goal, start_week, end_week, week_modifiers, notes
+  FROM workout_plan_phases
+  WHERE workout_plan_id = source.id;
+
+  FOR source_session IN
+    SELECT * FROM workout_sessions WHERE workout_plan_id = source.id ORDER BY order_index
+  LOOP
+    INSERT INTO workout_sessions (workout_plan_id, name, description, day_of_week, order_index)
+    VALUES (new_plan_id, source_session.name, source_session.description, source_session.day_of_week, source_session.order_index)
+    RETURNING id INTO new_session_id;
+
+    INSERT INTO workout_exercises (
+      workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+      weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+    )
+    SELECT
+      new_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+      weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+    FROM workout_exercises
+    WHERE workout_session_id = source_session.id;
+  END LOOP;
+
+  RETURN new_plan_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.copy_diet_plan(
+  source_plan_id UUID,
+  target_student_id UUID DEFAULT NULL,
+  new_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source diet_plans;
+  target_trainer UUID;
+  new_plan_id UUID;
+  source_meal meals;
+  new_meal_id UUID;
+  source_food meal_foods;
+  new_food_id UUID;
+BEGIN
+  SELECT * INTO source FROM diet_plans WHERE id = source_plan_id;
+  IF source.id IS NULL THEN
+    RAISE EXCEPTION 'Dieta não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT personal_trainer_id INTO target_trainer
+  FROM students
+  WHERE id = COALESCE(target_student_id, source.student_id);
+  IF target_trainer IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO diet_plans (
+    student_id, personal_trainer_id, name, description, daily_calories,
+    daily_protein, daily_carbs, daily_fat, macro_tolerance_percent, active
+  )
+  VALUES (
+    COALESCE(target_student_id, source.student_id),
+    target_trainer,
+    COALESCE(
+      NULLIF(trim(new_name), ''),
+      CASE WHEN COALESCE(target_student_id, source.student_id) = source.student_id
+        THEN source.name || ' (cópia)' ELSE source.name END
+    ),
+    source.description,
+    source.daily_calories,
+    source.daily_protein,
+    source.daily_carbs,
+    source.daily_fat,
+    source.macro_tolerance_percent,
+    true
+  )
+  RETURNING id INTO new_plan_id;
+
+  FOR source_meal IN
+    SELECT * FROM meals WHERE diet_plan_id = source.id ORDER BY order_index
+  LOOP
+    INSERT INTO meals (diet_plan_id, name, time_of_day, order_index)
+    VALUES (new_plan_id, source_meal.name, source_meal.time_of_day, source_meal.order_index)
+    RETURNING id INTO new_meal_id;
+
+    FOR source_food IN
+      SELECT * FROM meal_foods WHERE meal_id = source_meal.id ORDER BY created_at, id
+    LOOP
+      INSERT INTO meal_foods (meal_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, notes)
+      VALUES (
+        new_meal_id, source_food.food_id, source_food.food_name, source_food.quantity, source_food.unit,
+        source_food.calories, source_food.protein, source_food.carbs, source_food.fat, source_food.notes
+      )
+      RETURNING id INTO new_food_id;
+
+      INSERT INTO meal_food_substitutions (
+        meal_food_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, match_by, order_index
+      )
+      SELECT
+        new_food_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, match_by, order_index
+      FROM meal_food_substitutions
+      WHERE meal_food_id = source_food.id;
+    END LOOP;
+  END LOOP;
+
+  RETURN new_plan_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.copy_workout_plan(UUID, UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.copy_workout_plan(UUID, UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.copy_diet_plan(UUID, UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.copy_diet_plan(UUID, UUID, TEXT) TO authenticated;
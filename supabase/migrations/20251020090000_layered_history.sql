@@ -0,0 +1,1150 @@
+/*
+  # Versões de planos de treino e dieta
+
+  1. Novas tabelas
+    - `workout_plan_versions` / `diet_plan_versions`: fotografia imutável do
+      plano a cada alteração
+      - `version_number`: sequencial por plano, começando em 1
+      - `snapshot`: plano completo com os ids dos filhos (mesmo formato dos
+        modelos, mais nome, descrição e ids), usado no diff e na restauração
+      - `note`: descrição opcional da alteração
+
+  2. Alterações
+    - `exercise_completions.plan_version_id`, `workout_logs.plan_version_id` e
+      `meal_completions.plan_version_id`: versão vigente quando o aluno
+      registrou (pelo horário do registro, não o da sincronização offline),
+      preenchida por trigger
+    - `exercise_completions.exercise_id`: exercício do catálogo, preenchido por
+      trigger, para o histórico continuar legível se o item sair do plano
+    - `exercise_completions.workout_exercise_id` passa a aceitar nulo
+      (ON DELETE SET NULL): remover um exercício do plano não apaga mais as
+      conclusões do aluno
+
+  3. Novas funções
+    - `create_workout_plan_version(plan_id, version_note)` /
+      `create_diet_plan_version(...)`: grava o estado atual como nova versão;
+      se nada mudou desde a última, devolve a última. Na primeira versão de um
+      plano, as conclusões já existentes são vinculadas a ela
+    - `copy_workout_plan`, `copy_diet_plan` e `assign_workout_template` passam
+      a gravar a versão inicial do plano criado
+    - `restore_workout_plan_version(version_id)` /
+      `restore_diet_plan_version(...)`: volta o plano ao estado da versão,
+      reaproveitando os ids dos itens (as conclusões continuam apontando para
+      eles), e registra o resultado como uma nova versão. Tudo em uma transação
+    - `save_workout_plan(plan_id, plan)` / `save_workout_session(session_id,
+      exercises)`: edição feita pelos editores de treino. Grava a versão do
+      estado anterior, aplica a edição (mantendo os ids dos itens) e grava a
+      versão resultante na mesma transação: se algo falhar, nada muda
+
+  4. Segurança
+    - Versões não podem ser alteradas nem apagadas; são criadas só pelas
+      funções acima, que conferem se o plano é de aluno do personal
+    - Personal lê as versões dos planos dos próprios alunos
+*/
+
+CREATE TABLE IF NOT EXISTS workout_plan_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_plan_id UUID NOT NULL REFERENCES workout_plans(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  snapshot JSONB NOT NULL,
+  note TEXT,
+  created_by UUID REFERENCES personal_trainers(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (workout_plan_id, version_number)
+);
+
+CREATE TABLE IF NOT EXISTS diet_plan_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  diet_plan_id UUID NOT NULL REFERENCES diet_plans(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  snapshot JSONB NOT NULL,
+  note TEXT,
+  created_by UUID REFERENCES personal_trainers(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (diet_plan_id, version_number)
+);
+
+ALTER TABLE exercise_completions
+  ADD COLUMN IF NOT EXISTS plan_version_id UUID REFERENCES workout_plan_versions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS exercise_id UUID REFERENCES exercises(id) ON DELETE SET NULL;
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS plan_version_id UUID REFERENCES workout_plan_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE meal_completions
+  ADD COLUMN IF NOT EXISTS plan_version_id UUID REFERENCES diet_plan_versions(id) ON DELETE SET NULL;
+
+UPDATE exercise_completions ec
+SET exercise_id = we.exercise_id
+FROM workout_exercises we
+WHERE we.id = ec.workout_exercise_id
+  AND ec.exercise_id IS NULL;
+
+ALTER TABLE exercise_completions
+  ALTER COLUMN workout_exercise_id DROP NOT NULL,
+  DROP CONSTRAINT IF EXISTS exercise_completions_workout_exercise_id_fkey,
+  ADD CONSTRAINT exercise_completions_workout_exercise_id_fkey
+    FOREIGN KEY (workout_exercise_id) REFERENCES workout_exercises(id) ON DELETE SET NULL;
+
+REVOKE ALL ON workout_plan_versions, diet_plan_versions FROM anon;
+REVOKE ALL ON workout_plan_versions, diet_plan_versions FROM authenticated;
+GRANT SELECT ON workout_plan_versions, diet_plan_versions TO authenticated;
+
+ALTER TABLE workout_plan_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE diet_plan_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "workout_plan_versions_trainer_select" ON workout_plan_versions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM workout_plans wp
+      WHERE wp.id = workout_plan_versions.workout_plan_id
+        AND (trainer_owns_student(wp.student_id) OR is_super_admin())
+    )
+  );
+
+CREATE POLICY "diet_plan_versions_trainer_select" ON diet_plan_versions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM diet_plans dp
+      WHERE dp.id = diet_plan_versions.diet_plan_id
+        AND (trainer_owns_student(dp.student_id) OR is_super_admin())
+    )
+  );
+
+-- ============================================================
+-- Fotografia do plano
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.workout_plan_snapshot(plan_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'name', wp.name,
+    'description', wp.description,
+    'start_date', wp.start_date,
+    'duration_weeks', wp.duration_weeks,
+    'frequency_per_week', wp.frequency_per_week,
+    'schedule_mode', wp.schedule_mode,
+    'progression_settings', wp.progression_settings,
+    'phases', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'name', p.name,
+        'goal', p.goal,
+        'start_week', p.start_week,
+        'end_week', p.end_week,
+        'week_modifiers', p.week_modifiers,
+        'notes', p.notes
+      ) ORDER BY p.start_week)
+      FROM workout_plan_phases p
+      WHERE p.workout_plan_id = wp.id
+    ), '[]'::jsonb),
+    'sessions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', s.id,
+        'name', s.name,
+        'description', s.description,
+        'day_of_week', s.day_of_week,
+        'order_index', s.order_index,
+        'exercises', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', e.id,
+            'exercise_id', e.exercise_id,
+            'order_index', e.order_index,
+            'sets', e.sets,
+            'reps_min', e.reps_min,
+            'reps_max', e.reps_max,
+            'weight_kg', e.weight_kg,
+            'rest_seconds', e.rest_seconds,
+            'tempo', e.tempo,
+            'technique', e.technique,
+            'notes', e.notes,
+            'group_key', e.group_key,
+            'group_type', e.group_type
+          ) ORDER BY e.order_index, e.id)
+          FROM workout_exercises e
+          WHERE e.workout_session_id = s.id
+        ), '[]'::jsonb)
+      ) ORDER BY s.order_index, s.id)
+      FROM workout_sessions s
+      WHERE s.workout_plan_id = wp.id
+    ), '[]'::jsonb)
+  )
+  FROM workout_plans wp
+  WHERE wp.id = plan_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.diet_plan_snapshot(plan_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'name', dp.name,
+    'description', dp.description,
+    'daily_calories', dp.daily_calories,
+    'daily_protein', dp.daily_protein,
+    'daily_carbs', dp.daily_carbs,
+    'daily_fat', dp.daily_fat,
+    'macro_tolerance_percent', dp.macro_tolerance_percent,
+    'meals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', m.id,
+        'name', m.name,
+        'time_of_day', m.time_of_day,
+        'order_index', m.order_index,
+        'foods', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'id', f.id,
+            'food_id', f.food_id,
+            'food_name', f.food_name,
+            'quantity', f.quantity,
+            'unit', f.unit,
+            'calories', f.calories,
+            'protein', f.protein,
+            'carbs', f.carbs,
+            'fat', f.fat,
+            'notes', f.notes,
+            'substitutions', COALESCE((
+              SELECT jsonb_agg(jsonb_build_object(
+                'id', fs.id,
+                'food_id', fs.food_id,
+                'food_name', fs.food_name,
+                'quantity', fs.quantity,
+                'unit', fs.unit,
+                'calories', fs.calories,
+                'protein', fs.protein,
+                'carbs', fs.carbs,
+                'fat', fs.fat,
+                'match_by', fs.match_by
+              ) ORDER BY fs.order_index, fs.id)
+              FROM meal_food_substitutions fs
+              WHERE fs.meal_food_id = f.id
+            ), '[]'::jsonb)
+          ) ORDER BY f.created_at, f.id)
+          FROM meal_foods f
+          WHERE f.meal_id = m.id
+        ), '[]'::jsonb)
+      ) ORDER BY m.order_index, m.id)
+      FROM meals m
+      WHERE m.diet_plan_id = dp.id
+    ), '[]'::jsonb)
+  )
+  FROM diet_plans dp
+  WHERE dp.id = plan_id
+$$;
+
+-- ============================================================
+-- Criação de versões
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_workout_plan_version(plan_id UUID, version_note TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_student UUID;
+  current_snapshot JSONB;
+  latest workout_plan_versions;
+  new_version_id UUID;
+BEGIN
+  SELECT student_id INTO plan_student FROM workout_plans WHERE id = plan_id FOR UPDATE;
+  IF plan_student IS NULL THEN
+    RAISE EXCEPTION 'Plano de treino não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT (trainer_owns_student(plan_student) OR is_super_admin()) THEN
+    RAISE EXCEPTION 'Acesso negado' USING ERRCODE = '42501';
+  END IF;
+
+  current_snapshot := workout_plan_snapshot(plan_id);
+
+  SELECT * INTO latest
+  FROM workout_plan_versions v
+  WHERE v.workout_plan_id = plan_id
+  ORDER BY v.version_number DESC
+  LIMIT 1;
+
+  IF latest.id IS NOT NULL AND latest.snapshot = current_snapshot THEN
+    RETURN latest.id;
+  END IF;
+
+  INSERT INTO workout_plan_versions (workout_plan_id, version_number, snapshot, note, created_by)
+  VALUES (plan_id, COALESCE(latest.version_number, 0) + 1, current_snapshot, version_note, current_trainer_id())
+  RETURNING id INTO new_version_id;
+
+  -- Primeira versão: o que o aluno já registrou foi feito neste plano
+  IF latest.id IS NULL THEN
+    UPDATE exercise_completions ec
+    SET plan_version_id = new_version_id
+    FROM workout_exercises we
+    JOIN workout_sessions ws ON ws.id = we.workout_session_id
+    WHERE ec.workout_exercise_id = we.id
+      AND ws.workout_plan_id = plan_id
+      AND ec.plan_version_id IS NULL;
+
+    UPDATE workout_logs wl
+    SET plan_version_id = new_version_id
+    FROM workout_sessions ws
+    WHERE wl.workout_session_id = ws.id
+      AND ws.workout_plan_id = plan_id
+      AND wl.plan_version_id IS NULL;
+  END IF;
+
+  RETURN new_version_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_diet_plan_version(plan_id UUID, version_note TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_student UUID;
+  current_snapshot JSONB;
+  latest diet_plan_versions;
+  new_version_id UUID;
+BEGIN
+  SELECT student_id INTO plan_student FROM diet_plans WHERE id = plan_id FOR UPDATE;
+  IF plan_student IS NULL THEN
+    RAISE EXCEPTION 'Dieta não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT (trainer_owns_student(plan_student) OR is_super_admin()) THEN
+    RAISE EXCEPTION 'Acesso negado' USING ERRCODE = '42501';
+  END IF;
+
+  current_snapshot := diet_plan_snapshot(plan_id);
+
+  SELECT * INTO latest
+  FROM diet_plan_versions v
+  WHERE v.diet_plan_id = plan_id
+  ORDER BY v.version_number DESC
+  LIMIT 1;
+
+  IF latest.id IS NOT NULL AND latest.snapshot = current_snapshot THEN
+    RETURN latest.id;
+  END IF;
+
+  INSERT INTO diet_plan_versions (diet_plan_id, version_number, snapshot, note, created_by)
+  VALUES (plan_id, COALESCE(latest.version_number, 0) + 1, current_snapshot, version_note, current_trainer_id())
+  RETURNING id INTO new_version_id;
+
+  IF latest.id IS NULL THEN
+    UPDATE meal_completions mc
+    SET plan_version_id = new_version_id
+    FROM meals m
+    WHERE mc.meal_id = m.id
+      AND m.diet_plan_id = plan_id
+      AND mc.plan_version_id IS NULL;
+  END IF;
+
+  RETURN new_version_id;
+END;
+$$;
+
+-- ============================================================
+-- Vínculo das conclusões com a versão vigente
+-- ============================================================
+
+-- Versão vigente em um instante: a última gravada até ali. Registros feitos
+-- offline chegam depois, então o instante é o do registro e não o da
+-- sincronização. Se o relógio do aparelho estiver antes da primeira versão,
+-- fica com a primeira
+CREATE OR REPLACE FUNCTION public.workout_plan_version_at(plan_id UUID, at_time TIMESTAMPTZ)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT v.id
+  FROM workout_plan_versions v
+  WHERE v.workout_plan_id = plan_id
+  ORDER BY v.created_at <= at_time DESC,
+    CASE WHEN v.created_at <= at_time THEN -v.version_number ELSE v.version_number END
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.diet_plan_version_at(plan_id UUID, at_time TIMESTAMPTZ)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT v.id
+  FROM diet_plan_versions v
+  WHERE v.diet_plan_id = plan_id
+  ORDER BY v.created_at <= at_time DESC,
+    CASE WHEN v.created_at <= at_time THEN -v.version_number ELSE v.version_number END
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_exercise_completion_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT we.exercise_id, workout_plan_version_at(ws.workout_plan_id, NEW.completed_at)
+  INTO NEW.exercise_id, NEW.plan_version_id
+  FROM workout_exercises we
+  JOIN workout_sessions ws ON ws.id = we.workout_session_id
+  WHERE we.id = NEW.workout_exercise_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_exercise_completion_version
+  BEFORE INSERT ON exercise_completions
+  FOR EACH ROW EXECUTE FUNCTION public.set_exercise_completion_version();
+
+CREATE OR REPLACE FUNCTION public.set_workout_log_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.plan_version_id := (
+    SELECT workout_plan_version_at(ws.workout_plan_id, NEW.started_at)
+    FROM workout_sessions ws
+    WHERE ws.id = NEW.workout_session_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_workout_log_version
+  BEFORE INSERT ON workout_logs
+  FOR EACH ROW EXECUTE FUNCTION public.set_workout_log_version();
+
+CREATE OR REPLACE FUNCTION public.set_meal_completion_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.plan_version_id := (
+    SELECT diet_plan_version_at(m.diet_plan_id, NEW.completed_at)
+    FROM meals m
+    WHERE m.id = NEW.meal_id
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_meal_completion_version
+  BEFORE INSERT ON meal_completions
+  FOR EACH ROW EXECUTE FUNCTION public.set_meal_completion_version();
+
+-- ============================================================
+-- Restauração
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.restore_workout_plan_version(version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  target workout_plan_versions;
+  doc JSONB;
+  session_doc JSONB;
+BEGIN
+  SELECT * INTO target FROM workout_plan_versions WHERE id = version_id;
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Versão não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Guarda o estado atual antes de sobrescrever (não duplica se já está salvo)
+  PERFORM create_workout_plan_version(target.workout_plan_id);
+  doc := target.snapshot;
+
+  UPDATE workout_plans
+  SET name = doc ->> 'name',
+      description = doc ->> 'description',
+      start_date = COALESCE((doc ->> 'start_date')::date, start_date),
+      duration_weeks = (doc ->> 'duration_weeks')::integer,
+      frequency_per_week = (doc ->> 'frequency_per_week')::integer,
+      schedule_mode = doc ->> 'schedule_mode',
+      progression_settings = doc -> 'progression_settings'
+  WHERE id = target.workout_plan_id;
+
+  DELETE FROM workout_plan_phases WHERE workout_plan_id = target.workout_plan_id;
+
+  INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+  SELECT
+    target.workout_plan_id,
+    phase ->> 'name',
+    phase ->> 'goal',
+    (phase ->> 'start_week')::integer,
+    (phase ->> 'end_week')::integer,
+    COALESCE(phase -> 'week_modifiers', '[]'::jsonb),
+    phase ->> 'notes'
+  FROM jsonb_array_elements(doc -> 'phases') AS phase;
+
+  DELETE FROM workout_sessions
+  WHERE workout_plan_id = target.workout_plan_id
+    AND id NOT IN (SELECT (s ->> 'id')::uuid FROM jsonb_array_elements(doc -> 'sessions') AS s);
+
+  FOR session_doc IN SELECT * FROM jsonb_array_elements(doc -> 'sessions') LOOP
+    INSERT INTO workout_sessions (id, workout_plan_id, name, description, day_of_week, order_index)
+    VALUES (
+      (session_doc ->> 'id')::uuid,
+      target.workout_plan_id,
+      session_doc ->> 'name',
+      session_doc ->> 'description',
+      (session_doc ->> 'day_of_week')::integer,
+      (session_doc ->> 'order_index')::integer
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        description = EXCLUDED.description,
+        day_of_week = EXCLUDED.day_of_week,
+        order_index = EXCLUDED.order_index;
+
+    DELETE FROM workout_exercises
+    WHERE workout_session_id = (session_doc ->> 'id')::uuid
+      AND id NOT IN (SELECT (e ->> 'id')::uuid FROM jsonb_array_elements(session_doc -> 'exercises') AS e);
+
+    INSERT INTO workout_exercises (
+      id, workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+      weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+    )
+    SELECT
+      (exercise ->> 'id')::uuid,
+      (session_doc ->> 'id')::uuid,
+      (exercise ->> 'exercise_id')::uuid,
+      (exercise ->> 'order_index')::integer,
+      (exercise ->> 'sets')::integer,
+      (exercise ->> 'reps_min')::integer,
+      (exercise ->> 'reps_max')::integer,
+      (exercise ->> 'weight_kg')::numeric,
+      (exercise ->> 'rest_seconds')::integer,
+      exercise ->> 'tempo',
+      exercise ->> 'technique',
+      exercise ->> 'notes',
+      exercise ->> 'group_key',
+      exercise ->> 'group_type'
+    FROM jsonb_array_elements(session_doc -> 'exercises') AS exercise
+    ON CONFLICT (id) DO UPDATE
+    SET workout_session_id = EXCLUDED.workout_session_id,
+        exercise_id = EXCLUDED.exercise_id,
+        order_index = EXCLUDED.order_index,
+        sets = EXCLUDED.sets,
+        reps_min = EXCLUDED.reps_min,
+        reps_max = EXCLUDED.reps_max,
+        weight_kg = EXCLUDED.weight_kg,
+        rest_seconds = EXCLUDED.rest_seconds,
+        tempo = EXCLUDED.tempo,
+        technique = EXCLUDED.technique,
+        notes = EXCLUDED.notes,
+        group_key = EXCLUDED.group_key,
+        group_type = EXCLUDED.group_type;
+  END LOOP;
+
+  RETURN create_workout_plan_version(target.workout_plan_id, 'Restaurada a versão ' || target.version_number);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restore_diet_plan_version(version_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  target diet_plan_versions;
+  doc JSONB;
+  meal_doc JSONB;
+  food_doc JSONB;
+BEGIN
+  SELECT * INTO target FROM diet_plan_versions WHERE id = version_id;
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Versão não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM create_diet_plan_version(target.diet_plan_id);
+  doc := target.snapshot;
+
+  UPDATE diet_plans
+  SET name = doc ->> 'name',
+      description = doc ->> 'description',
+      daily_calories = (doc ->> 'daily_calories')::integer,
+      daily_protein = (doc ->> 'daily_protein')::numeric,
+      daily_carbs = (doc ->> 'daily_carbs')::numeric,
+      daily_fat = (doc ->> 'daily_fat')::numeric,
+      macro_tolerance_percent = (doc ->> 'macro_tolerance_percent')::integer
+  WHERE id = target.diet_plan_id;
+
+  DELETE FROM meals
+  WHERE diet_plan_id = target.diet_plan_id
+    AND id NOT IN (SELECT (m ->> 'id')::uuid FROM jsonb_array_elements(doc -> 'meals') AS m);
+
+  FOR meal_doc IN SELECT * FROM jsonb_array_elements(doc -> 'meals') LOOP
+    INSERT INTO meals (id, diet_plan_id, name, time_of_day, order_index)
+    VALUES (
+      (meal_doc ->> 'id')::uuid,
+      target.diet_plan_id,
+      meal_doc ->> 'name',
+      (meal_doc ->> 'time_of_day')::time,
+      (meal_doc ->> 'order_index')::integer
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        time_of_day = EXCLUDED.time_of_day,
+        order_index = EXCLUDED.order_index;
+
+    DELETE FROM meal_foods
+    WHERE meal_id = (meal_doc ->> 'id')::uuid
+      AND id NOT IN (SELECT (f ->> 'id')::uuid FROM jsonb_array_elements(meal_doc -> 'foods') AS f);
+
+    FOR food_doc IN SELECT * FROM jsonb_array_elements(meal_doc -> 'foods') LOOP
+      INSERT INTO meal_foods (id, meal_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, notes)
+      VALUES (
+        (food_doc ->> 'id')::uuid,
+        (meal_doc ->> 'id')::uuid,
+        (food_doc ->> 'food_id')::uuid,
+        food_doc ->> 'food_name',
+        (food_doc ->> 'quantity')::numeric,
+        food_doc ->> 'unit',
+        (food_doc ->> 'calories')::numeric,
+        (food_doc ->> 'protein')::numeric,
+        (food_doc ->> 'carbs')::numeric,
+        (food_doc ->> 'fat')::numeric,
+        food_doc ->> 'notes'
+      )
+      ON CONFLICT (id) DO UPDATE
+      SET meal_id = EXCLUDED.meal_id,
+          food_id = EXCLUDED.food_id,
+          food_name = EXCLUDED.food_name,
+          quantity = EXCLUDED.quantity,
+          unit = EXCLUDED.unit,
+          calories = EXCLUDED.calories,
+          protein = EXCLUDED.protein,
+          carbs = EXCLUDED.carbs,
+          fat = EXCLUDED.fat,
+          notes = EXCLUDED.notes;
+
+      -- Substituições não têm histórico próprio: basta regravar com os mesmos ids
+      DELETE FROM meal_food_substitutions WHERE meal_food_id = (food_doc ->> 'id')::uuid;
+
+      INSERT INTO meal_food_substitutions (
+        id, meal_food_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, match_by, order_index
+      )
+      SELECT
+        (substitution ->> 'id')::uuid,
+        (food_doc ->> 'id')::uuid,
+        (substitution ->> 'food_id')::uuid,
+        substitution ->> 'food_name',
+        (substitution ->> 'quantity')::numeric,
+        substitution ->> 'unit',
+        (substitution ->> 'calories')::numeric,
+        (substitution ->> 'protein')::numeric,
+        (substitution ->> 'carbs')::numeric,
+        (substitution ->> 'fat')::numeric,
+        substitution ->> 'match_by',
+        (position - 1)::integer
+      FROM jsonb_array_elements(food_doc -> 'substitutions') WITH ORDINALITY AS s(substitution, position);
+    END LOOP;
+  END LOOP;
+
+  RETURN create_diet_plan_version(target.diet_plan_id, 'Restaurada a versão ' || target.version_number);
+END;
+$$;
+
+-- ============================================================
+-- Edição com versão
+-- ============================================================
+
+-- Grava os exercícios de uma sessão: os que têm `id` são atualizados no lugar
+-- (as conclusões do aluno continuam ligadas a eles), os sem `id` são criados e
+-- os que saíram do documento, apagados. As observações não vêm dos editores e
+-- ficam como estão
+CREATE OR REPLACE FUNCTION public.save_workout_session_exercises(target_session_id UUID, exercise_docs JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  saved_count INTEGER;
+BEGIN
+  DELETE FROM workout_exercises
+  WHERE workout_session_id = target_session_id
+    AND id <> ALL (ARRAY(
+      SELECT (e ->> 'id')::uuid FROM jsonb_array_elements(exercise_docs) AS e WHERE NULLIF(e ->> 'id', '') IS NOT NULL
+    ));
+
+  INSERT INTO workout_exercises (
+    id, workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+    weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+  )
+  SELECT
+    COALESCE(NULLIF(exercise ->> 'id', '')::uuid, gen_random_uuid()),
+    target_session_id,
+    (exercise ->> 'exercise_id')::uuid,
+    (exercise ->> 'order_index')::integer,
+    (exercise ->> 'sets')::integer,
+    (exercise ->> 'reps_min')::integer,
+    (exercise ->> 'reps_max')::integer,
+    (exercise ->> 'weight_kg')::numeric,
+    (exercise ->> 'rest_seconds')::integer,
+    exercise ->> 'tempo',
+    exercise ->> 'technique',
+    exercise ->> 'notes',
+    exercise ->> 'group_key',
+    exercise ->> 'group_type'
+  FROM jsonb_array_elements(exercise_docs) AS exercise
+  ON CONFLICT (id) DO UPDATE
+  SET exercise_id = EXCLUDED.exercise_id,
+      order_index = EXCLUDED.order_index,
+      sets = EXCLUDED.sets,
+      reps_min = EXCLUDED.reps_min,
+      reps_max = EXCLUDED.reps_max,
+      weight_kg = EXCLUDED.weight_kg,
+      rest_seconds = EXCLUDED.rest_seconds,
+      tempo = EXCLUDED.tempo,
+      technique = EXCLUDED.technique,
+      group_key = EXCLUDED.group_key,
+      group_type = EXCLUDED.group_type
+  WHERE workout_exercises.workout_session_id = EXCLUDED.workout_session_id;
+
+  -- Um id de exercício de outra sessão não é atualizado nem movido
+  GET DIAGNOSTICS saved_count = ROW_COUNT;
+  IF saved_count < jsonb_array_length(exercise_docs) THEN
+    RAISE EXCEPTION 'Exercício não encontrado nesta sessão' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Edição completa do plano pelo editor: grava o estado anterior, aplica o
+-- documento e registra o resultado como nova versão, tudo em uma transação
+CREATE OR REPLACE FUNCTION public.save_workout_plan(plan_id UUID, plan JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  session_doc JSONB;
+  saved_session_id UUID;
+BEGIN
+  -- Também confere se o plano é de aluno do personal
+  PERFORM create_workout_plan_version(plan_id);
+
+  UPDATE workout_plans
+  SET name = plan ->> 'name',
+      description = plan ->> 'description',
+      start_date = COALESCE((plan ->> 'start_date')::date, start_date),
+      duration_weeks = (plan ->> 'duration_weeks')::integer,
+      frequency_per_week = (plan ->> 'frequency_per_week')::integer,
+      schedule_mode = plan ->> 'schedule_mode',
+      progression_settings = plan -> 'progression_settings'
+  WHERE id = plan_id;
+
+  DELETE FROM workout_plan_phases WHERE workout_plan_id = plan_id;
+
+  INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+  SELECT
+    plan_id,
+    phase ->> 'name',
+    phase ->> 'goal',
+    (phase ->> 'start_week')::integer,
+    (phase ->> 'end_week')::integer,
+    COALESCE(phase -> 'week_modifiers', '[]'::jsonb),
+    phase ->> 'notes'
+  FROM jsonb_array_elements(COALESCE(plan -> 'phases', '[]'::jsonb)) AS phase;
+
+  DELETE FROM workout_sessions
+  WHERE workout_plan_id = plan_id
+    AND id <> ALL (ARRAY(
+      SELECT (s ->> 'id')::uuid FROM jsonb_array_elements(plan -> 'sessions') AS s WHERE NULLIF(s ->> 'id', '') IS NOT NULL
+    ));
+
+  FOR session_doc IN SELECT * FROM jsonb_array_elements(plan -> 'sessions') LOOP
+    INSERT INTO workout_sessions (id, workout_plan_id, name, description, day_of_week, order_index)
+    VALUES (
+      COALESCE(NULLIF(session_doc ->> 'id', '')::uuid, gen_random_uuid()),
+      plan_id,
+      session_doc ->> 'name',
+      session_doc ->> 'description',
+      (session_doc ->> 'day_of_week')::integer,
+      (session_doc ->> 'order_index')::integer
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        day_of_week = EXCLUDED.day_of_week,
+        order_index = EXCLUDED.order_index
+    WHERE workout_sessions.workout_plan_id = EXCLUDED.workout_plan_id
+    RETURNING id INTO saved_session_id;
+
+    IF saved_session_id IS NULL THEN
+      RAISE EXCEPTION 'Sessão não encontrada neste plano' USING ERRCODE = 'P0002';
+    END IF;
+
+    PERFORM save_workout_session_exercises(saved_session_id, COALESCE(session_doc -> 'exercises', '[]'::jsonb));
+  END LOOP;
+
+  RETURN create_workout_plan_version(plan_id);
+END;
+$$;
+
+-- Edição dos exercícios de uma sessão (tela do treino do dia), com as mesmas
+-- versões antes e depois de `save_workout_plan`
+CREATE OR REPLACE FUNCTION public.save_workout_session(session_id UUID, exercises JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  session_plan_id UUID;
+BEGIN
+  SELECT workout_plan_id INTO session_plan_id FROM workout_sessions WHERE id = session_id;
+  IF session_plan_id IS NULL THEN
+    RAISE EXCEPTION 'Sessão não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM create_workout_plan_version(session_plan_id);
+  PERFORM save_workout_session_exercises(session_id, exercises);
+
+  RETURN create_workout_plan_version(session_plan_id);
+END;
+$$;
+
+-- ============================================================
+-- Planos criados por cópia ou modelo já nascem com a versão inicial
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.copy_workout_plan(
+  source_plan_id UUID,
+  target_student_id UUID DEFAULT NULL,
+  new_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source workout_plans;
+  target_trainer UUID;
+  new_plan_id UUID;
+  source_session workout_sessions;
+  new_session_id UUID;
+BEGIN
+  SELECT * INTO source FROM workout_plans WHERE id = source_plan_id;
+  IF source.id IS NULL THEN
+    RAISE EXCEPTION 'Plano de treino não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT personal_trainer_id INTO target_trainer
+  FROM students
+  WHERE id = COALESCE(target_student_id, source.student_id);
+  IF target_trainer IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO workout_plans (
+    student_id, personal_trainer_id, name, description, duration_weeks,
+    frequency_per_week, schedule_mode, progression_settings, start_date, active
+  )
+  VALUES (
+    COALESCE(target_student_id, source.student_id),
+    target_trainer,
+    COALESCE(
+      NULLIF(trim(new_name), ''),
+      CASE WHEN COALESCE(target_student_id, source.student_id) = source.student_id
+        THEN source.name || ' (cópia)' ELSE source.name END
+    ),
+    source.description,
+    source.duration_weeks,
+    source.frequency_per_week,
+    source.schedule_mode,
+    source.progression_settings,
+    CURRENT_DATE,
+    true
+  )
+  RETURNING id INTO new_plan_id;
+
+  INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+  SELECT new_plan_id, name, goal, start_week, end_week, week_modifiers, notes
+  FROM workout_plan_phases
+  WHERE workout_plan_id = source.id;
+
+  FOR source_session IN
+    SELECT * FROM workout_sessions WHERE workout_plan_id = source.id ORDER BY order_index
+  LOOP
+    INSERT INTO workout_sessions (workout_plan_id, name, description, day_of_week, order_index)
+    VALUES (new_plan_id, source_session.name, source_session.description, source_session.day_of_week, source_session.order_index)
+    RETURNING id INTO new_session_id;
+
+    INSERT INTO workout_exercises (
+      workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+      weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+    )
+    SELECT
+      new_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+      weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+    FROM workout_exercises
+    WHERE workout_session_id = source_session.id;
+  END LOOP;
+
+  PERFORM create_workout_plan_version(new_plan_id, 'Versão inicial');
+
+  RETURN new_plan_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.copy_diet_plan(
+  source_plan_id UUID,
+  target_student_id UUID DEFAULT NULL,
+  new_name TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  source diet_plans;
+  target_trainer UUID;
+  new_plan_id UUID;
+  source_meal meals;
+  new_meal_id UUID;
+  source_food meal_foods;
+  new_food_id UUID;
+BEGIN
+  SELECT * INTO source FROM diet_plans WHERE id = source_plan_id;
+  IF source.id IS NULL THEN
+    RAISE EXCEPTION 'Dieta não encontrada' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT personal_trainer_id INTO target_trainer
+  FROM students
+  WHERE id = COALESCE(target_student_id, source.student_id);
+  IF target_trainer IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO diet_plans (
+    student_id, personal_trainer_id, name, description, daily_calories,
+    daily_protein, daily_carbs, daily_fat, macro_tolerance_percent, active
+  )
+  VALUES (
+    COALESCE(target_student_id, source.student_id),
+    target_trainer,
+    COALESCE(
+      NULLIF(trim(new_name), ''),
+      CASE WHEN COALESCE(target_student_id, source.student_id) = source.student_id
+        THEN source.name || ' (cópia)' ELSE source.name END
+    ),
+    source.description,
+    source.daily_calories,
+    source.daily_protein,
+    source.daily_carbs,
+    source.daily_fat,
+    source.macro_tolerance_percent,
+    true
+  )
+  RETURNING id INTO new_plan_id;
+
+  FOR source_meal IN
+    SELECT * FROM meals WHERE diet_plan_id = source.id ORDER BY order_index
+  LOOP
+    INSERT INTO meals (diet_plan_id, name, time_of_day, order_index)
+    VALUES (new_plan_id, source_meal.name, source_meal.time_of_day, source_meal.order_index)
+    RETURNING id INTO new_meal_id;
+
+    FOR source_food IN
+      SELECT * FROM meal_foods WHERE meal_id = source_meal.id ORDER BY created_at, id
+    LOOP
+      INSERT INTO meal_foods (meal_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, notes)
+      VALUES (
+        new_meal_id, source_food.food_id, source_food.food_name, source_food.quantity, source_food.unit,
+        source_food.calories, source_food.protein, source_food.carbs, source_food.fat, source_food.notes
+      )
+      RETURNING id INTO new_food_id;
+
+      INSERT INTO meal_food_substitutions (
+        meal_food_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, match_by, order_index
+      )
+      SELECT
+        new_food_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, match_by, order_index
+      FROM meal_food_substitutions
+      WHERE meal_food_id = source_food.id;
+    END LOOP;
+  END LOOP;
+
+  PERFORM create_diet_plan_version(new_plan_id, 'Versão inicial');
+
+  RETURN new_plan_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_workout_template(
+  template_id UUID,
+  student_ids UUID[],
+  plan_start_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  template workout_templates;
+  target_student UUID;
+  target_trainer UUID;
+  new_plan_id UUID;
+  new_session_id UUID;
+  session_doc JSONB;
+BEGIN
+  SELECT * INTO template FROM workout_templates WHERE id = template_id;
+  IF template.id IS NULL THEN
+    RAISE EXCEPTION 'Modelo não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOREACH target_student IN ARRAY student_ids LOOP
+    SELECT personal_trainer_id INTO target_trainer FROM students WHERE id = target_student;
+    IF target_trainer IS NULL THEN
+      RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO workout_plans (
+      student_id, personal_trainer_id, name, description, duration_weeks,
+      frequency_per_week, schedule_mode, progression_settings, start_date, active
+    )
+    VALUES (
+      target_student,
+      target_trainer,
+      template.name,
+      template.description,
+      COALESCE((template.plan ->> 'duration_weeks')::integer, 4),
+      COALESCE((template.plan ->> 'frequency_per_week')::integer, 3),
+      COALESCE(template.plan ->> 'schedule_mode', 'weekly'),
+      COALESCE(
+        template.plan -> 'progression_settings',
+        '{"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10}'::jsonb
+      ),
+      plan_start_date,
+      true
+    )
+    RETURNING id INTO new_plan_id;
+
+    INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+    SELECT
+      new_plan_id,
+      phase ->> 'name',
+      phase ->> 'goal',
+      (phase ->> 'start_week')::integer,
+      (phase ->> 'end_week')::integer,
+      COALESCE(phase -> 'week_modifiers', '[]'::jsonb),
+      phase ->> 'notes'
+    FROM jsonb_array_elements(COALESCE(template.plan -> 'phases', '[]'::jsonb)) AS phase;
+
+    FOR session_doc IN SELECT * FROM jsonb_array_elements(template.plan -> 'sessions') LOOP
+      INSERT INTO workout_sessions (workout_plan_id, name, description, day_of_week, order_index)
+      VALUES (
+        new_plan_id,
+        session_doc ->> 'name',
+        session_doc ->> 'description',
+        (session_doc ->> 'day_of_week')::integer,
+        COALESCE((session_doc ->> 'order_index')::integer, 0)
+      )
+      RETURNING id INTO new_session_id;
+
+      INSERT INTO workout_exercises (
+        workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+        weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+      )
+      SELECT
+        new_session_id,
+        (exercise ->> 'exercise_id')::uuid,
+        COALESCE((exercise ->> 'order_index')::integer, 0),
+        COALESCE((exercise ->> 'sets')::integer, 3),
+        (exercise ->> 'reps_min')::integer,
+        (exercise ->> 'reps_max')::integer,
+        (exercise ->> 'weight_kg')::numeric,
+        (exercise ->> 'rest_seconds')::integer,
+        exercise ->> 'tempo',
+        exercise ->> 'technique',
+        exercise ->> 'notes',
+        exercise ->> 'group_key',
+        exercise ->> 'group_type'
+      FROM jsonb_array_elements(COALESCE(session_doc -> 'exercises', '[]'::jsonb)) AS exercise;
+    END LOOP;
+
+    PERFORM create_workout_plan_version(new_plan_id, 'Versão inicial');
+
+    RETURN NEXT new_plan_id;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================
+-- Versão inicial dos planos que já existem
+-- ============================================================
+
+INSERT INTO workout_plan_versions (workout_plan_id, version_number, snapshot, note, created_by)
+SELECT id, 1, workout_plan_snapshot(id), 'Versão inicial', personal_trainer_id
+FROM workout_plans
+ON CONFLICT (workout_plan_id, version_number) DO NOTHING;
+
+INSERT INTO diet_plan_versions (diet_plan_id, version_number, snapshot, note, created_by)
+SELECT id, 1, diet_plan_snapshot(id), 'Versão inicial', personal_trainer_id
+FROM diet_plans
+ON CONFLICT (diet_plan_id, version_number) DO NOTHING;
+
+UPDATE exercise_completions ec
+SET plan_version_id = v.id
+FROM workout_exercises we
+JOIN workout_sessions ws ON ws.id = we.workout_session_id
+JOIN workout_plan_versions v ON v.workout_plan_id = ws.workout_plan_id AND v.version_number = 1
+WHERE ec.workout_exercise_id = we.id
+  AND ec.plan_version_id IS NULL;
+
+UPDATE workout_logs wl
+SET plan_version_id = v.id
+FROM workout_sessions ws
+JOIN workout_plan_versions v ON v.workout_plan_id = ws.workout_plan_id AND v.version_number = 1
+WHERE wl.workout_session_id = ws.id
+  AND wl.plan_version_id IS NULL;
+
+UPDATE meal_completions mc
+SET plan_version_id = v.id
+FROM meals m
+JOIN diet_plan_versions v ON v.diet_plan_id = m.diet_plan_id AND v.version_number = 1
+WHERE mc.meal_id = m.id
+  AND mc.plan_version_id IS NULL;
+
+REVOKE EXECUTE ON FUNCTION public.workout_plan_snapshot(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.workout_plan_version_at(UUID, TIMESTAMPTZ) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.diet_plan_version_at(UUID, TIMESTAMPTZ) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.diet_plan_snapshot(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.create_workout_plan_version(UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_workout_plan_version(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_diet_plan_version(UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_diet_plan_version(UUID, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_workout_plan_version(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.restore_workout_plan_version(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.restore_diet_plan_version(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.restore_diet_plan_version(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_workout_session_exercises(UUID, JSONB) FROM anon;
+GRANT EXECUTE ON FUNCTION public.save_workout_session_exercises(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_workout_plan(UUID, JSONB) FROM anon;
+GRANT EXECUTE ON FUNCTION public.save_workout_plan(UUID, JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.save_workout_session(UUID, JSONB) FROM anon;
+GRANT EXECUTE ON FUNCTION public.save_workout_session(UUID, JSONB) TO authenticated;
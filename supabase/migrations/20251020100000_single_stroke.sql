@@ -0,0 +1,276 @@
+/*
+  # Criação atômica de planos de treino e dieta
+
+  1. Novas funções
+    - `create_workout_plan(plan)`: recebe o plano completo em JSON (dados do
+      plano, fases, sessões e exercícios) e grava tudo de uma vez
+    - `create_diet_plan(plan)`: idem para dieta, refeições, alimentos e
+      substituições
+
+  2. Comportamento
+    - Tudo roda em uma única transação: se qualquer item for inválido, nada
+      fica gravado (antes o cliente inseria item a item e uma queda de rede no
+      meio deixava planos pela metade)
+    - As funções repetem as regras do schema zod de `src/lib/plan-documents.ts`
+      (que no cliente só serve para mostrar a mensagem antes de enviar):
+      nomes preenchidos, toda sessão com exercícios, repetições mínimas até as
+      máximas, cadência no formato 3-1-2-0 e fases com início até o fim. Um
+      documento inválido é recusado com o código 22023, além das restrições
+      das próprias tabelas. Dietas podem ser criadas só com as metas
+    - O plano criado já recebe a versão inicial do histórico
+
+  3. Segurança
+    - As funções rodam com as permissões de quem chama: só é possível criar
+      planos para alunos visíveis ao personal
+*/
+
+CREATE OR REPLACE FUNCTION public.create_workout_plan(plan JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  plan_trainer UUID;
+  new_plan_id UUID;
+  session_doc JSONB;
+  new_session_id UUID;
+BEGIN
+  -- Mesmas regras de `newWorkoutPlanSchema`, verificadas antes de gravar qualquer linha
+  IF length(trim(COALESCE(plan ->> 'name', ''))) = 0 THEN
+    RAISE EXCEPTION 'Digite um nome para o treino' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(plan -> 'sessions') IS DISTINCT FROM 'array' OR jsonb_array_length(plan -> 'sessions') = 0 THEN
+    RAISE EXCEPTION 'O plano precisa de pelo menos uma sessão' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(plan -> 'phases', '[]'::jsonb)) AS phase
+    WHERE length(trim(COALESCE(phase ->> 'name', ''))) = 0
+  ) THEN
+    RAISE EXCEPTION 'Todas as fases precisam de um nome' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(plan -> 'phases', '[]'::jsonb)) AS phase
+    WHERE (phase ->> 'start_week')::integer > (phase ->> 'end_week')::integer
+  ) THEN
+    RAISE EXCEPTION 'Uma fase termina antes de começar' USING ERRCODE = '22023';
+  END IF;
+
+  FOR session_doc IN SELECT * FROM jsonb_array_elements(plan -> 'sessions') LOOP
+    IF length(trim(COALESCE(session_doc ->> 'name', ''))) = 0 THEN
+      RAISE EXCEPTION 'Toda sessão precisa de um nome' USING ERRCODE = '22023';
+    END IF;
+
+    IF jsonb_typeof(session_doc -> 'exercises') IS DISTINCT FROM 'array'
+      OR jsonb_array_length(session_doc -> 'exercises') = 0 THEN
+      RAISE EXCEPTION 'A sessão "%" precisa de ao menos um exercício', session_doc ->> 'name' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(session_doc -> 'exercises') AS exercise
+      WHERE (exercise ->> 'reps_min')::integer > (exercise ->> 'reps_max')::integer
+    ) THEN
+      RAISE EXCEPTION 'Na sessão "%", as repetições mínimas passam das máximas', session_doc ->> 'name'
+        USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(session_doc -> 'exercises') AS exercise
+      WHERE exercise ->> 'tempo' !~ '^[0-9X]-[0-9X]-[0-9X]-[0-9X]$'
+    ) THEN
+      RAISE EXCEPTION 'Na sessão "%", use o formato 3-1-2-0 (números ou X) na cadência', session_doc ->> 'name'
+        USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  SELECT personal_trainer_id INTO plan_trainer FROM students WHERE id = (plan ->> 'student_id')::uuid;
+  IF plan_trainer IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO workout_plans (
+    student_id, personal_trainer_id, name, description, duration_weeks,
+    frequency_per_week, schedule_mode, progression_settings, start_date, active
+  )
+  VALUES (
+    (plan ->> 'student_id')::uuid,
+    plan_trainer,
+    plan ->> 'name',
+    plan ->> 'description',
+    (plan ->> 'duration_weeks')::integer,
+    (plan ->> 'frequency_per_week')::integer,
+    plan ->> 'schedule_mode',
+    plan -> 'progression_settings',
+    COALESCE((plan ->> 'start_date')::date, CURRENT_DATE),
+    true
+  )
+  RETURNING id INTO new_plan_id;
+
+  INSERT INTO workout_plan_phases (workout_plan_id, name, goal, start_week, end_week, week_modifiers, notes)
+  SELECT
+    new_plan_id,
+    phase ->> 'name',
+    phase ->> 'goal',
+    (phase ->> 'start_week')::integer,
+    (phase ->> 'end_week')::integer,
+    COALESCE(phase -> 'week_modifiers', '[]'::jsonb),
+    phase ->> 'notes'
+  FROM jsonb_array_elements(COALESCE(plan -> 'phases', '[]'::jsonb)) AS phase;
+
+  FOR session_doc IN SELECT * FROM jsonb_array_elements(plan -> 'sessions') LOOP
+    INSERT INTO workout_sessions (workout_plan_id, name, description, day_of_week, order_index)
+    VALUES (
+      new_plan_id,
+      session_doc ->> 'name',
+      session_doc ->> 'description',
+      (session_doc ->> 'day_of_week')::integer,
+      (session_doc ->> 'order_index')::integer
+    )
+    RETURNING id INTO new_session_id;
+
+    INSERT INTO workout_exercises (
+      workout_session_id, exercise_id, order_index, sets, reps_min, reps_max,
+      weight_kg, rest_seconds, tempo, technique, notes, group_key, group_type
+    )
+    SELECT
+      new_session_id,
+      (exercise ->> 'exercise_id')::uuid,
+      (exercise ->> 'order_index')::integer,
+      (exercise ->> 'sets')::integer,
+      (exercise ->> 'reps_min')::integer,
+      (exercise ->> 'reps_max')::integer,
+      (exercise ->> 'weight_kg')::numeric,
+      (exercise ->> 'rest_seconds')::integer,
+      exercise ->> 'tempo',
+      exercise ->> 'technique',
+      exercise ->> 'notes',
+      exercise ->> 'group_key',
+      exercise ->> 'group_type'
+    FROM jsonb_array_elements(session_doc -> 'exercises') AS exercise;
+  END LOOP;
+
+  PERFORM create_workout_plan_version(new_plan_id, 'Versão inicial');
+
+  RETURN new_plan_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_diet_plan(plan JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  plan_trainer UUID;
+  new_plan_id UUID;
+  meal_doc JSONB;
+  new_meal_id UUID;
+  food_doc JSONB;
+  new_food_id UUID;
+BEGIN
+  -- Mesmas regras de `newDietPlanSchema`
+  IF length(trim(COALESCE(plan ->> 'name', ''))) = 0 THEN
+    RAISE EXCEPTION 'Digite um nome para a dieta' USING ERRCODE = '22023';
+  END IF;
+
+  -- Uma dieta só com as metas (refeições montadas depois) é válida
+  IF jsonb_typeof(plan -> 'meals') IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'A dieta precisa da lista de refeições' USING ERRCODE = '22023';
+  END IF;
+
+  FOR meal_doc IN SELECT * FROM jsonb_array_elements(plan -> 'meals') LOOP
+    IF length(trim(COALESCE(meal_doc ->> 'name', ''))) = 0 THEN
+      RAISE EXCEPTION 'Toda refeição precisa de um nome' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM jsonb_array_elements(COALESCE(meal_doc -> 'foods', '[]'::jsonb)) AS food
+      WHERE length(trim(COALESCE(food ->> 'food_name', ''))) = 0
+    ) THEN
+      RAISE EXCEPTION 'Todo alimento precisa de um nome' USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  SELECT personal_trainer_id INTO plan_trainer FROM students WHERE id = (plan ->> 'student_id')::uuid;
+  IF plan_trainer IS NULL THEN
+    RAISE EXCEPTION 'Aluno não encontrado' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO diet_plans (
+    student_id, personal_trainer_id, name, description, daily_calories,
+    daily_protein, daily_carbs, daily_fat, macro_tolerance_percent, active
+  )
+  VALUES (
+    (plan ->> 'student_id')::uuid,
+    plan_trainer,
+    plan ->> 'name',
+    plan ->> 'description',
+    (plan ->> 'daily_calories')::integer,
+    (plan ->> 'daily_protein')::numeric,
+    (plan ->> 'daily_carbs')::numeric,
+    (plan ->> 'daily_fat')::numeric,
+    (plan ->> 'macro_tolerance_percent')::integer,
+    true
+  )
+  RETURNING id INTO new_plan_id;
+
+  FOR meal_doc IN SELECT * FROM jsonb_array_elements(plan -> 'meals') LOOP
+    INSERT INTO meals (diet_plan_id, name, time_of_day, order_index)
+    VALUES (
+      new_plan_id,
+      meal_doc ->> 'name',
+      (meal_doc ->> 'time_of_day')::time,
+      (meal_doc ->> 'order_index')::integer
+    )
+    RETURNING id INTO new_meal_id;
+
+    FOR food_doc IN SELECT * FROM jsonb_array_elements(COALESCE(meal_doc -> 'foods', '[]'::jsonb)) LOOP
+      INSERT INTO meal_foods (meal_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, notes)
+      VALUES (
+        new_meal_id,
+        (food_doc ->> 'food_id')::uuid,
+        food_doc ->> 'food_name',
+        (food_doc ->> 'quantity')::numeric,
+        food_doc ->> 'unit',
+        (food_doc ->> 'calories')::numeric,
+        (food_doc ->> 'protein')::numeric,
+        (food_doc ->> 'carbs')::numeric,
+        (food_doc ->> 'fat')::numeric,
+        food_doc ->> 'notes'
+      )
+      RETURNING id INTO new_food_id;
+
+      INSERT INTO meal_food_substitutions (
+        meal_food_id, food_id, food_name, quantity, unit, calories, protein, carbs, fat, match_by, order_index
+      )
+      SELECT
+        new_food_id,
+        (substitution ->> 'food_id')::uuid,
+        substitution ->> 'food_name',
+        (substitution ->> 'quantity')::numeric,
+        substitution ->> 'unit',
+        (substitution ->> 'calories')::numeric,
+        (substitution ->> 'protein')::numeric,
+        (substitution ->> 'carbs')::numeric,
+        (substitution ->> 'fat')::numeric,
+        substitution ->> 'match_by',
+        (position - 1)::integer
+      FROM jsonb_array_elements(COALESCE(food_doc -> 'substitutions', '[]'::jsonb))
+        WITH ORDINALITY AS s(substitution, position);
+    END LOOP;
+  END LOOP;
+
+  PERFORM create_diet_plan_version(new_plan_id, 'Versão inicial');
+
+  RETURN new_plan_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_workout_plan(JSONB) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_workout_plan(JSONB) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_diet_plan(JSONB) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_diet_plan(JSONB) TO authenticated;
@@ -0,0 +1,780 @@
+/*
+  # Testes das políticas de RLS
+
+  Rodar contra o Supabase local:
+    supabase start
+    supabase test db
+
+  Cada bloco troca o papel (anon/authenticated) e as claims do JWT da mesma
+  forma que o PostgREST faz a cada requisição.
+*/
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(128);
+
+-- ============================================================
+-- Fixtures (como postgres, sem RLS)
+-- ============================================================
+
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'trainer.a@test.dev', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-0000000000b1', 'trainer.b@test.dev', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-0000000000d1', 'admin@test.dev', 'authenticated', 'authenticated');
+
+INSERT INTO super_admins (email, name, auth_user_id) VALUES
+  ('admin@test.dev', 'Admin Teste', '00000000-0000-0000-0000-0000000000d1');
+
+INSERT INTO personal_trainers (id, cpf, birth_date, name, email, auth_user_id, active) VALUES
+  ('10000000-0000-0000-0000-00000000000a', '11111111111', '1990-01-01', 'Trainer A', 'trainer.a@test.dev', '00000000-0000-0000-0000-0000000000a1', true),
+  ('10000000-0000-0000-0000-00000000000b', '22222222222', '1990-01-01', 'Trainer B', 'trainer.b@test.dev', '00000000-0000-0000-0000-0000000000b1', true);
+
+INSERT INTO students (id, personal_trainer_id, name, unique_link_token, student_number, active) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'Aluno A', 'token-a', '900001', true),
+  ('20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', 'Aluno B', 'token-b', '900002', true),
+  ('20000000-0000-0000-0000-00000000000c', '10000000-0000-0000-0000-00000000000a', 'Aluno Inativo', 'token-c', '900003', false);
+
+INSERT INTO student_access_links (id, student_id, personal_trainer_id, expires_at, revoked_at) VALUES
+  ('21000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', now() + interval '30 days', NULL),
+  ('21000000-0000-0000-0000-0000000000a2', '20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', now() + interval '30 days', now()),
+  ('21000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', now() - interval '1 day', NULL),
+  ('21000000-0000-0000-0000-00000000000c', '20000000-0000-0000-0000-00000000000c', '10000000-0000-0000-0000-00000000000a', now() + interval '30 days', NULL);
+
+INSERT INTO body_assessments (student_id, personal_trainer_id, weight_kg) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 80),
+  ('20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', 70);
+
+INSERT INTO storage.objects (bucket_id, name) VALUES
+  ('progress-photos', '20000000-0000-0000-0000-00000000000a/frente.jpg'),
+  ('progress-photos', '20000000-0000-0000-0000-00000000000b/frente.jpg');
+
+INSERT INTO exercise_categories (id, name, emoji) VALUES
+  ('30000000-0000-0000-0000-000000000001', 'Teste', '🧪');
+
+INSERT INTO exercises (id, category_id, name) VALUES
+  ('31000000-0000-0000-0000-000000000001', '30000000-0000-0000-0000-000000000001', 'Agachamento');
+
+INSERT INTO workout_plans (id, student_id, personal_trainer_id, name) VALUES
+  ('40000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'Plano A'),
+  ('40000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', 'Plano B');
+
+INSERT INTO workout_plan_phases (workout_plan_id, name, start_week, end_week) VALUES
+  ('40000000-0000-0000-0000-00000000000a', 'Hipertrofia', 1, 4),
+  ('40000000-0000-0000-0000-00000000000b', 'Força', 1, 4);
+
+INSERT INTO workout_sessions (id, workout_plan_id, day_of_week, name) VALUES
+  ('41000000-0000-0000-0000-00000000000a', '40000000-0000-0000-0000-00000000000a', 1, 'Treino A'),
+  ('41000000-0000-0000-0000-00000000000b', '40000000-0000-0000-0000-00000000000b', 1, 'Treino B');
+
+INSERT INTO workout_exercises (id, workout_session_id, exercise_id, order_index) VALUES
+  ('42000000-0000-0000-0000-00000000000a', '41000000-0000-0000-0000-00000000000a', '31000000-0000-0000-0000-000000000001', 0),
+  ('42000000-0000-0000-0000-00000000000b', '41000000-0000-0000-0000-00000000000b', '31000000-0000-0000-0000-000000000001', 0);
+
+INSERT INTO diet_plans (id, student_id, personal_trainer_id, name) VALUES
+  ('50000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'Dieta A'),
+  ('50000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', 'Dieta B');
+
+INSERT INTO meals (id, diet_plan_id, name, order_index) VALUES
+  ('51000000-0000-0000-0000-00000000000a', '50000000-0000-0000-0000-00000000000a', 'Almoço', 0),
+  ('51000000-0000-0000-0000-00000000000b', '50000000-0000-0000-0000-00000000000b', 'Almoço', 0);
+
+INSERT INTO meal_foods (id, meal_id, food_name, quantity, unit) VALUES
+  ('52000000-0000-0000-0000-00000000000a', '51000000-0000-0000-0000-00000000000a', 'Arroz', 150, 'g'),
+  ('52000000-0000-0000-0000-00000000000b', '51000000-0000-0000-0000-00000000000b', 'Arroz', 150, 'g');
+
+INSERT INTO meal_food_substitutions (meal_food_id, food_name, quantity, unit) VALUES
+  ('52000000-0000-0000-0000-00000000000a', 'Batata inglesa', 370, 'g'),
+  ('52000000-0000-0000-0000-00000000000b', 'Batata inglesa', 370, 'g');
+
+INSERT INTO meal_completions (id, meal_id, student_id) VALUES
+  ('53000000-0000-0000-0000-00000000000b', '51000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000b');
+
+INSERT INTO meal_food_logs (meal_completion_id, meal_food_id, food_name, portion_percent) VALUES
+  ('53000000-0000-0000-0000-00000000000b', '52000000-0000-0000-0000-00000000000b', 'Arroz', 50);
+
+INSERT INTO student_habits (id, student_id, personal_trainer_id, kind, name, unit, target) VALUES
+  ('60000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'water', 'Água', 'L', 3),
+  ('60000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000b', 'water', 'Água', 'L', 2.5);
+
+INSERT INTO habit_logs (habit_id, student_id, amount) VALUES
+  ('60000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000b', 0.5);
+
+INSERT INTO workout_templates (id, personal_trainer_id, name, level, goal, plan) VALUES
+  ('61000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'Modelo Full Body', 'beginner', 'general',
+   '{"duration_weeks": 4, "frequency_per_week": 3, "schedule_mode": "rotation", "phases": [],
+     "sessions": [{"name": "Treino A", "order_index": 0,
+       "exercises": [{"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3, "reps_min": 8, "reps_max": 12}]}]}');
+
+INSERT INTO diet_templates (id, personal_trainer_id, name, plan) VALUES
+  ('62000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'Modelo 2000 kcal',
+   '{"daily_calories": 2000, "meals": [{"name": "Almoço", "order_index": 0,
+     "foods": [{"food_name": "Arroz", "quantity": 150, "unit": "g", "calories": 190}]}]}');
+
+-- ============================================================
+-- anon sem claim de aluno
+-- ============================================================
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is((SELECT count(*) FROM students), 0::bigint, 'anon sem token não vê alunos');
+SELECT is((SELECT count(*) FROM personal_trainers), 0::bigint, 'anon sem token não vê personal trainers');
+SELECT is((SELECT count(*) FROM workout_plans), 0::bigint, 'anon sem token não vê planos');
+SELECT throws_ok('SELECT cpf FROM personal_trainers', '42501', NULL, 'anon não tem acesso à coluna cpf');
+SELECT throws_ok('SELECT * FROM super_admins', '42501', NULL, 'anon não acessa super_admins');
+SELECT throws_ok('SELECT id FROM student_access_links', '42501', NULL, 'anon não acessa links de acesso');
+
+RESET ROLE;
+
+-- ============================================================
+-- Aluno A (anon + claim assinada)
+-- ============================================================
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims',
+  '{"role": "anon", "app_role": "student", "student_id": "20000000-0000-0000-0000-00000000000a", "link_id": "21000000-0000-0000-0000-00000000000a"}', true);
+
+SELECT results_eq('SELECT id FROM students', $$VALUES ('20000000-0000-0000-0000-00000000000a'::uuid)$$, 'aluno vê apenas o próprio cadastro');
+SELECT results_eq('SELECT id FROM workout_plans', $$VALUES ('40000000-0000-0000-0000-00000000000a'::uuid)$$, 'aluno vê apenas o próprio plano');
+SELECT is((SELECT count(*) FROM workout_exercises), 1::bigint, 'aluno vê apenas os exercícios do próprio plano');
+SELECT results_eq('SELECT name FROM workout_plan_phases', $$VALUES ('Hipertrofia'::text)$$, 'aluno vê apenas as fases do próprio plano');
+SELECT results_eq('SELECT name FROM personal_trainers', $$VALUES ('Trainer A'::text)$$, 'aluno vê apenas o próprio personal');
+SELECT is((SELECT count(*) FROM exercises), 1::bigint, 'aluno lê o catálogo de exercícios');
+SELECT is((SELECT count(*) FROM body_assessments), 1::bigint, 'aluno vê apenas as próprias avaliações físicas');
+SELECT results_eq(
+  $$SELECT name FROM storage.objects WHERE bucket_id = 'progress-photos'$$,
+  $$VALUES ('20000000-0000-0000-0000-00000000000a/frente.jpg'::text)$$,
+  'aluno vê apenas as próprias fotos de progresso'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO exercise_completions (workout_exercise_id, student_id, sets_completed, reps_completed)
+    VALUES ('42000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', 1, '{10}')$$,
+  'aluno registra conclusão no próprio plano'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO exercise_completions (workout_exercise_id, student_id)
+    VALUES ('42000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000a')$$,
+  '42501', NULL, 'aluno não registra conclusão em exercício de outro aluno'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO exercise_completions (workout_exercise_id, student_id)
+    VALUES ('42000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000b')$$,
+  '42501', NULL, 'aluno não registra conclusão em nome de outro aluno'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO workout_logs (student_id, workout_session_id, started_at, duration_seconds)
+    VALUES ('20000000-0000-0000-0000-00000000000a', '41000000-0000-0000-0000-00000000000a', now() - interval '1 hour', 3600)$$,
+  'aluno registra a execução do próprio treino'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO workout_logs (student_id, started_at, duration_seconds, rpe)
+    VALUES ('20000000-0000-0000-0000-00000000000a', now() - interval '1 hour', 3600, 11)$$,
+  '23514', NULL, 'RPE da sessão fica entre 1 e 10'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO workout_logs (student_id, workout_session_id, started_at, duration_seconds)
+    VALUES ('20000000-0000-0000-0000-00000000000a', '41000000-0000-0000-0000-00000000000b', now() - interval '1 hour', 3600)$$,
+  '42501', NULL, 'aluno não registra execução de treino de outro aluno'
+);
+
+SELECT throws_ok(
+  $$UPDATE workout_exercises SET sets = 10$$,
+  '42501', NULL, 'aluno não altera a prescrição'
+);
+
+SELECT throws_ok('SELECT id FROM foods', '42501', NULL, 'aluno não acessa o banco de alimentos');
+
+SELECT results_eq(
+  'SELECT meal_food_id FROM meal_food_substitutions',
+  $$VALUES ('52000000-0000-0000-0000-00000000000a'::uuid)$$,
+  'aluno vê apenas as substituições da própria dieta'
+);
+SELECT throws_ok(
+  $$INSERT INTO meal_food_substitutions (meal_food_id, food_name, quantity, unit)
+    VALUES ('52000000-0000-0000-0000-00000000000a', 'Macarrão', 100, 'g')$$,
+  '42501', NULL, 'aluno não cadastra substituições'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO meal_completions (id, meal_id, student_id, photo_path)
+    VALUES ('53000000-0000-0000-0000-00000000000a', '51000000-0000-0000-0000-00000000000a',
+            '20000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a/prato.jpg')$$,
+  'aluno conclui a refeição com foto do prato'
+);
+SELECT lives_ok(
+  $$INSERT INTO meal_food_logs (meal_completion_id, meal_food_id, food_name, portion_percent, off_plan)
+    VALUES ('53000000-0000-0000-0000-00000000000a', '52000000-0000-0000-0000-00000000000a', 'Arroz', 75, false),
+           ('53000000-0000-0000-0000-00000000000a', NULL, 'Refrigerante', 100, true)$$,
+  'aluno registra o que comeu, inclusive fora do plano'
+);
+SELECT throws_ok(
+  $$INSERT INTO meal_food_logs (meal_completion_id, food_name)
+    VALUES ('53000000-0000-0000-0000-00000000000b', 'Arroz')$$,
+  '42501', NULL, 'aluno não registra itens na refeição de outro aluno'
+);
+SELECT is((SELECT count(*) FROM meal_food_logs), 2::bigint, 'aluno vê apenas os próprios itens registrados');
+SELECT lives_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('meal-photos', '20000000-0000-0000-0000-00000000000a/prato.jpg')$$,
+  'aluno envia foto do prato para a própria pasta'
+);
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('meal-photos', '20000000-0000-0000-0000-00000000000b/prato.jpg')$$,
+  '42501', NULL, 'aluno não envia foto para a pasta de outro aluno'
+);
+
+SELECT results_eq(
+  'SELECT id FROM student_habits',
+  $$VALUES ('60000000-0000-0000-0000-00000000000a'::uuid)$$,
+  'aluno vê apenas os próprios hábitos'
+);
+SELECT lives_ok(
+  $$INSERT INTO habit_logs (habit_id, student_id, amount)
+    VALUES ('60000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', 0.25)$$,
+  'aluno registra o próprio hábito'
+);
+SELECT throws_ok(
+  $$INSERT INTO habit_logs (habit_id, student_id, amount)
+    VALUES ('60000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000a', 0.25)$$,
+  '42501', NULL, 'aluno não registra hábito de outro aluno'
+);
+SELECT throws_ok(
+  $$INSERT INTO student_habits (student_id, personal_trainer_id, kind, name, unit, target)
+    VALUES ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'steps', 'Passos', 'passos', 8000)$$,
+  '42501', NULL, 'aluno não define as próprias metas'
+);
+
+RESET ROLE;
+
+-- Claim de aluno inativo não dá acesso
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims',
+  '{"role": "anon", "app_role": "student", "student_id": "20000000-0000-0000-0000-00000000000c", "link_id": "21000000-0000-0000-0000-00000000000c"}', true);
+
+SELECT is((SELECT count(*) FROM students), 0::bigint, 'token de aluno inativo não vê dados');
+
+RESET ROLE;
+
+-- Sessão aberta por link revogado, expirado ou sem link não dá acesso
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims',
+  '{"role": "anon", "app_role": "student", "student_id": "20000000-0000-0000-0000-00000000000a", "link_id": "21000000-0000-0000-0000-0000000000a2"}', true);
+
+SELECT is((SELECT count(*) FROM students), 0::bigint, 'sessão de link revogado não vê dados');
+
+SELECT set_config('request.jwt.claims',
+  '{"role": "anon", "app_role": "student", "student_id": "20000000-0000-0000-0000-00000000000b", "link_id": "21000000-0000-0000-0000-00000000000b"}', true);
+
+SELECT is((SELECT count(*) FROM students), 0::bigint, 'sessão de link expirado não vê dados');
+
+SELECT set_config('request.jwt.claims',
+  '{"role": "anon", "app_role": "student", "student_id": "20000000-0000-0000-0000-00000000000a"}', true);
+
+SELECT is((SELECT count(*) FROM students), 0::bigint, 'sessão sem link_id não vê dados');
+
+RESET ROLE;
+
+-- ============================================================
+-- Trainer A (authenticated)
+-- ============================================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+  '{"role": "authenticated", "sub": "00000000-0000-0000-0000-0000000000a1", "email": "trainer.a@test.dev"}', true);
+
+SELECT is((SELECT count(*) FROM students), 2::bigint, 'trainer vê apenas os próprios alunos');
+SELECT is((SELECT count(*) FROM workout_plans WHERE personal_trainer_id = '10000000-0000-0000-0000-00000000000b'), 0::bigint, 'trainer não vê planos de outro trainer');
+SELECT is((SELECT count(*) FROM exercise_completions), 1::bigint, 'trainer vê as conclusões dos próprios alunos');
+SELECT is((SELECT count(*) FROM workout_logs), 1::bigint, 'trainer vê as execuções de treino dos próprios alunos');
+
+SELECT lives_ok(
+  $$INSERT INTO foods (name, source, personal_trainer_id, energy_kcal, protein_g)
+    VALUES ('Whey protein', 'custom', '10000000-0000-0000-0000-00000000000a', 400, 80)$$,
+  'trainer cadastra alimento próprio'
+);
+SELECT throws_ok(
+  $$INSERT INTO foods (name, source, energy_kcal) VALUES ('Alimento falso', 'taco', 100)$$,
+  '42501', NULL, 'trainer não altera a tabela TACO'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO students (personal_trainer_id, name, unique_link_token)
+    VALUES ('10000000-0000-0000-0000-00000000000b', 'Intruso', 'token-x')$$,
+  '42501', NULL, 'trainer não cria aluno para outro trainer'
+);
+
+SELECT throws_ok(
+  $$INSERT INTO workout_plans (student_id, personal_trainer_id, name)
+    VALUES ('20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000a', 'Plano intruso')$$,
+  '42501', NULL, 'trainer não cria plano para aluno de outro trainer'
+);
+
+SELECT lives_ok(
+  $$INSERT INTO student_habits (student_id, personal_trainer_id, kind, name, unit, target)
+    VALUES ('20000000-0000-0000-0000-00000000000a', '10000000-0000-0000-0000-00000000000a', 'steps', 'Passos', 'passos', 8000)$$,
+  'trainer define hábito para o próprio aluno'
+);
+SELECT throws_ok(
+  $$INSERT INTO student_habits (student_id, personal_trainer_id, kind, name, unit, target)
+    VALUES ('20000000-0000-0000-0000-00000000000b', '10000000-0000-0000-0000-00000000000a', 'steps', 'Passos', 'passos', 8000)$$,
+  '42501', NULL, 'trainer não define hábito para aluno de outro trainer'
+);
+
+SELECT is(
+  (SELECT count(*) FROM assign_workout_template('61000000-0000-0000-0000-00000000000a', ARRAY['20000000-0000-0000-0000-00000000000a']::uuid[])),
+  1::bigint, 'trainer atribui modelo ao próprio aluno'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_exercises we
+     JOIN workout_sessions ws ON ws.id = we.workout_session_id
+     JOIN workout_plans wp ON wp.id = ws.workout_plan_id
+   WHERE wp.name = 'Modelo Full Body'),
+  1::bigint, 'cópia do modelo inclui sessões e exercícios'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_plan_versions v
+     JOIN workout_plans wp ON wp.id = v.workout_plan_id
+   WHERE wp.name = 'Modelo Full Body'),
+  1::bigint, 'plano criado pelo modelo já tem a versão inicial'
+);
+SELECT throws_ok(
+  $$SELECT assign_workout_template('61000000-0000-0000-0000-00000000000a', ARRAY['20000000-0000-0000-0000-00000000000b']::uuid[])$$,
+  'P0002', NULL, 'trainer não atribui modelo a aluno de outro trainer'
+);
+
+SELECT is((SELECT count(*) FROM diet_templates), 1::bigint, 'trainer vê os próprios modelos de dieta');
+
+-- A função grava em outro comando: a contagem precisa vir numa consulta seguinte
+SELECT lives_ok(
+  $$SELECT copy_workout_plan('40000000-0000-0000-0000-00000000000a')$$,
+  'trainer duplica plano de treino'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_exercises we
+     JOIN workout_sessions ws ON ws.id = we.workout_session_id
+     JOIN workout_plans wp ON wp.id = ws.workout_plan_id
+   WHERE wp.name = 'Plano A (cópia)'),
+  1::bigint, 'cópia do plano traz sessões e exercícios'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_plan_versions v
+     JOIN workout_plans wp ON wp.id = v.workout_plan_id
+   WHERE wp.name = 'Plano A (cópia)'),
+  1::bigint, 'cópia do plano já tem a versão inicial'
+);
+SELECT throws_ok(
+  $$SELECT copy_workout_plan('40000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000b')$$,
+  'P0002', NULL, 'trainer não copia plano para aluno de outro trainer'
+);
+SELECT lives_ok(
+  $$SELECT copy_diet_plan('50000000-0000-0000-0000-00000000000a', NULL, 'Dieta A2')$$,
+  'trainer duplica dieta'
+);
+SELECT is(
+  (SELECT count(*) FROM meal_food_substitutions mfs
+     JOIN meal_foods mf ON mf.id = mfs.meal_food_id
+     JOIN meals m ON m.id = mf.meal_id
+     JOIN diet_plans dp ON dp.id = m.diet_plan_id
+   WHERE dp.name = 'Dieta A2'),
+  1::bigint, 'cópia da dieta traz refeições, alimentos e substituições'
+);
+SELECT is(
+  (SELECT count(*) FROM diet_plan_versions v
+     JOIN diet_plans dp ON dp.id = v.diet_plan_id
+   WHERE dp.name = 'Dieta A2'),
+  1::bigint, 'cópia da dieta já tem a versão inicial'
+);
+SELECT throws_ok(
+  $$SELECT copy_diet_plan('50000000-0000-0000-0000-00000000000b', '20000000-0000-0000-0000-00000000000a')$$,
+  'P0002', NULL, 'trainer não copia dieta de outro trainer'
+);
+
+SELECT isnt(
+  create_workout_plan_version('40000000-0000-0000-0000-00000000000a', 'Plano inicial'),
+  NULL, 'trainer grava versão do plano de treino'
+);
+SELECT is(
+  create_workout_plan_version('40000000-0000-0000-0000-00000000000a'),
+  (SELECT id FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a'),
+  'sem alterações, a última versão é reaproveitada'
+);
+SELECT is(
+  (SELECT plan_version_id FROM exercise_completions WHERE workout_exercise_id = '42000000-0000-0000-0000-00000000000a'),
+  (SELECT id FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a'),
+  'conclusões anteriores ficam vinculadas à primeira versão'
+);
+SELECT is(
+  (SELECT exercise_id FROM exercise_completions WHERE workout_exercise_id = '42000000-0000-0000-0000-00000000000a'),
+  '31000000-0000-0000-0000-000000000001'::uuid, 'conclusão guarda o exercício do catálogo'
+);
+SELECT lives_ok(
+  $$UPDATE workout_exercises SET sets = 5 WHERE id = '42000000-0000-0000-0000-00000000000a'$$,
+  'trainer altera exercício do plano'
+);
+SELECT lives_ok(
+  $$SELECT restore_workout_plan_version(
+      (SELECT id FROM workout_plan_versions
+       WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a' AND version_number = 1))$$,
+  'trainer restaura versão anterior do plano'
+);
+SELECT is(
+  (SELECT sets FROM workout_exercises WHERE id = '42000000-0000-0000-0000-00000000000a'),
+  (SELECT (snapshot #>> '{sessions,0,exercises,0,sets}')::integer FROM workout_plan_versions
+   WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a' AND version_number = 1),
+  'restauração mantém o id do exercício e volta as séries'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a'),
+  3::bigint, 'restauração grava o estado alterado e o restaurado como novas versões'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan_version('40000000-0000-0000-0000-00000000000b')$$,
+  '42501', NULL, 'trainer não grava versão de plano de outro trainer'
+);
+SELECT throws_ok(
+  $$UPDATE workout_plan_versions SET note = 'Editada'$$,
+  '42501', NULL, 'versões de plano não podem ser alteradas'
+);
+SELECT lives_ok(
+  $$SELECT save_workout_session('41000000-0000-0000-0000-00000000000a', '[
+    {"id": "42000000-0000-0000-0000-00000000000a", "exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 6},
+    {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 1, "sets": 3}]')$$,
+  'trainer edita os exercícios da sessão em uma chamada'
+);
+SELECT results_eq(
+  $$SELECT count(*), max(sets) FILTER (WHERE id = '42000000-0000-0000-0000-00000000000a')
+    FROM workout_exercises WHERE workout_session_id = '41000000-0000-0000-0000-00000000000a'$$,
+  $$VALUES (2::bigint, 6)$$,
+  'edição da sessão mantém o id do exercício e inclui o novo'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a'),
+  4::bigint, 'edição da sessão grava a nova versão'
+);
+SELECT lives_ok(
+  $$SELECT save_workout_plan('40000000-0000-0000-0000-00000000000a', '{
+    "name": "Plano A", "duration_weeks": 4, "frequency_per_week": 3, "schedule_mode": "weekly",
+    "progression_settings": {"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10},
+    "phases": [{"name": "Hipertrofia", "goal": "hypertrophy", "start_week": 1, "end_week": 4}],
+    "sessions": [{"id": "41000000-0000-0000-0000-00000000000a", "name": "Treino A", "day_of_week": 1, "order_index": 1,
+      "exercises": [{"id": "42000000-0000-0000-0000-00000000000a", "exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 5}]}]}')$$,
+  'trainer edita o plano inteiro em uma chamada'
+);
+SELECT results_eq(
+  $$SELECT
+    (SELECT count(*) FROM workout_exercises WHERE workout_session_id = '41000000-0000-0000-0000-00000000000a'),
+    (SELECT count(*) FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a')$$,
+  $$VALUES (1::bigint, 5::bigint)$$,
+  'edição do plano remove o exercício que saiu e grava a nova versão'
+);
+SELECT throws_ok(
+  $$SELECT save_workout_plan('40000000-0000-0000-0000-00000000000a', '{
+    "name": "Plano A", "duration_weeks": 4, "frequency_per_week": 3, "schedule_mode": "weekly",
+    "progression_settings": {"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10},
+    "phases": [],
+    "sessions": [{"id": "41000000-0000-0000-0000-00000000000a", "name": "Treino A", "day_of_week": 1, "order_index": 1,
+      "exercises": [{"order_index": 0, "sets": 3}]}]}')$$,
+  '23502', NULL, 'edição inválida do plano é recusada inteira'
+);
+SELECT results_eq(
+  $$SELECT
+    (SELECT count(*) FROM workout_plan_phases WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a'),
+    (SELECT count(*) FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a')$$,
+  $$VALUES (1::bigint, 5::bigint)$$,
+  'edição recusada não deixa alteração pela metade nem versão'
+);
+SELECT throws_ok(
+  $$SELECT save_workout_session('41000000-0000-0000-0000-00000000000b', '[]')$$,
+  'P0002', NULL, 'trainer não edita sessão de outro trainer'
+);
+
+SELECT lives_ok(
+  $$SELECT create_diet_plan_version('50000000-0000-0000-0000-00000000000a')$$,
+  'trainer grava versão da dieta'
+);
+SELECT lives_ok(
+  $$UPDATE meal_foods SET quantity = 200 WHERE id = '52000000-0000-0000-0000-00000000000a'$$,
+  'trainer altera alimento da dieta'
+);
+SELECT lives_ok(
+  $$SELECT restore_diet_plan_version(
+      (SELECT id FROM diet_plan_versions WHERE diet_plan_id = '50000000-0000-0000-0000-00000000000a'))$$,
+  'trainer restaura versão anterior da dieta'
+);
+SELECT results_eq(
+  $$SELECT mf.quantity, count(mfs.id) FROM meal_foods mf
+    LEFT JOIN meal_food_substitutions mfs ON mfs.meal_food_id = mf.id
+    WHERE mf.id = '52000000-0000-0000-0000-00000000000a'
+    GROUP BY mf.quantity$$,
+  $$VALUES (150::numeric, 1::bigint)$$,
+  'restauração volta a quantidade e mantém as substituições'
+);
+
+SELECT lives_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano completo",
+    "duration_weeks": 4, "frequency_per_week": 2, "schedule_mode": "rotation",
+    "progression_settings": {"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10},
+    "sessions": [
+      {"name": "Treino A", "order_index": 0, "exercises": [
+        {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 4, "reps_min": 8, "reps_max": 10}]},
+      {"name": "Treino B", "order_index": 1, "exercises": [
+        {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3, "reps_min": 12, "reps_max": 15}]}]}')$$,
+  'trainer cria plano completo em uma chamada'
+);
+SELECT results_eq(
+  $$SELECT count(we.id), count(DISTINCT v.id) FROM workout_plans wp
+    JOIN workout_sessions ws ON ws.workout_plan_id = wp.id
+    JOIN workout_exercises we ON we.workout_session_id = ws.id
+    LEFT JOIN workout_plan_versions v ON v.workout_plan_id = wp.id
+    WHERE wp.name = 'Plano completo'$$,
+  $$VALUES (2::bigint, 1::bigint)$$,
+  'plano criado com sessões, exercícios e versão inicial'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano quebrado",
+    "duration_weeks": 4, "frequency_per_week": 2, "schedule_mode": "rotation",
+    "progression_settings": {"rule": "double_progression", "increment_kg": 2.5, "increase_percent": 5, "deload_percent": 10},
+    "sessions": [
+      {"name": "Treino A", "order_index": 0, "exercises": [
+        {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 4}]},
+      {"name": "Treino B", "order_index": 1, "exercises": [{"order_index": 0, "sets": 3}]}]}')$$,
+  '23502', NULL, 'exercício inválido no meio do documento recusa o plano inteiro'
+);
+SELECT is(
+  (SELECT count(*) FROM workout_plans WHERE name = 'Plano quebrado'),
+  0::bigint, 'nenhuma parte do plano recusado fica gravada'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{"student_id": "20000000-0000-0000-0000-00000000000a", "name": "Sem sessões", "sessions": []}')$$,
+  '22023', NULL, 'plano sem sessões é recusado'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano inválido",
+    "sessions": [{"name": "Treino A", "order_index": 0, "exercises": []}]}')$$,
+  '22023', NULL, 'sessão sem exercícios é recusada'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano inválido",
+    "sessions": [{"name": " ", "order_index": 0, "exercises": [
+      {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3}]}]}')$$,
+  '22023', NULL, 'sessão sem nome é recusada'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano inválido",
+    "sessions": [{"name": "Treino A", "order_index": 0, "exercises": [
+      {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3, "reps_min": 12, "reps_max": 8}]}]}')$$,
+  '22023', NULL, 'repetições mínimas acima das máximas são recusadas'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano inválido",
+    "sessions": [{"name": "Treino A", "order_index": 0, "exercises": [
+      {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3, "tempo": "lento"}]}]}')$$,
+  '22023', NULL, 'cadência fora do formato é recusada'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Plano inválido",
+    "phases": [{"name": "Base", "goal": "hypertrophy", "start_week": 3, "end_week": 2}],
+    "sessions": [{"name": "Treino A", "order_index": 0, "exercises": [
+      {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3}]}]}')$$,
+  '22023', NULL, 'fase que termina antes de começar é recusada'
+);
+SELECT throws_ok(
+  $$SELECT create_workout_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000b", "name": "Plano alheio",
+    "sessions": [{"name": "Treino A", "order_index": 0, "exercises": [
+      {"exercise_id": "31000000-0000-0000-0000-000000000001", "order_index": 0, "sets": 3}]}]}')$$,
+  'P0002', NULL, 'trainer não cria plano para aluno de outro trainer'
+);
+SELECT lives_ok(
+  $$SELECT create_diet_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Dieta completa", "macro_tolerance_percent": 10,
+    "meals": [{"name": "Almoço", "time_of_day": "12:00", "order_index": 0, "foods": [
+      {"food_name": "Arroz", "quantity": 150, "unit": "g", "calories": 190,
+       "substitutions": [{"food_name": "Batata inglesa", "quantity": 370, "unit": "g", "calories": 190, "match_by": "calories"}]}]}]}')$$,
+  'trainer cria dieta completa em uma chamada'
+);
+SELECT is(
+  (SELECT count(*) FROM meal_food_substitutions mfs
+     JOIN meal_foods mf ON mf.id = mfs.meal_food_id
+     JOIN meals m ON m.id = mf.meal_id
+     JOIN diet_plans dp ON dp.id = m.diet_plan_id
+   WHERE dp.name = 'Dieta completa'),
+  1::bigint, 'dieta criada com refeições, alimentos e substituições'
+);
+SELECT lives_ok(
+  $$SELECT create_diet_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Dieta só com metas",
+    "daily_calories": 2000, "macro_tolerance_percent": 10, "meals": []}')$$,
+  'dieta só com as metas é aceita'
+);
+SELECT is(
+  (SELECT count(*) FROM diet_plan_versions v
+     JOIN diet_plans dp ON dp.id = v.diet_plan_id
+   WHERE dp.name = 'Dieta só com metas'),
+  1::bigint, 'dieta só com as metas já tem a versão inicial'
+);
+SELECT throws_ok(
+  $$SELECT create_diet_plan('{
+    "student_id": "20000000-0000-0000-0000-00000000000a", "name": "Dieta inválida", "macro_tolerance_percent": 10,
+    "meals": [{"name": " ", "order_index": 0, "foods": []}]}')$$,
+  '22023', NULL, 'refeição sem nome é recusada'
+);
+SELECT throws_ok(
+  $$INSERT INTO diet_templates (personal_trainer_id, name, plan)
+    VALUES ('10000000-0000-0000-0000-00000000000b', 'Modelo alheio', '{"meals": []}')$$,
+  '42501', NULL, 'trainer não cria modelo de dieta em nome de outro trainer'
+);
+
+SELECT is(
+  (SELECT count(*) FROM storage.objects WHERE bucket_id = 'progress-photos'),
+  1::bigint, 'trainer vê apenas as fotos dos próprios alunos'
+);
+SELECT lives_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('progress-photos', '20000000-0000-0000-0000-00000000000a/lado.jpg')$$,
+  'trainer envia foto para a pasta do próprio aluno'
+);
+SELECT throws_ok(
+  $$INSERT INTO storage.objects (bucket_id, name) VALUES ('progress-photos', '20000000-0000-0000-0000-00000000000b/lado.jpg')$$,
+  '42501', NULL, 'trainer não envia foto para aluno de outro trainer'
+);
+
+SELECT throws_ok('SELECT pin_hash FROM student_access_links', '42501', NULL, 'trainer não lê o hash do PIN');
+
+SELECT throws_ok('SELECT get_system_stats()', '42501', NULL, 'trainer não acessa estatísticas do sistema');
+SELECT is((SELECT count(*) FROM super_admins), 0::bigint, 'trainer não vê a lista de super admins');
+SELECT throws_ok($$SELECT grant_super_admin('trainer.a@test.dev')$$, '42501', NULL, 'trainer não concede papel de super admin');
+
+-- Email igual ao de um super admin não basta: o papel é do usuário
+SELECT set_config('request.jwt.claims',
+  '{"role": "authenticated", "sub": "00000000-0000-0000-0000-0000000000a1", "email": "admin@test.dev"}', true);
+SELECT is(is_super_admin(), false, 'claim de email não concede papel de super admin');
+
+RESET ROLE;
+
+-- ============================================================
+-- Trainer B
+-- ============================================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+  '{"role": "authenticated", "sub": "00000000-0000-0000-0000-0000000000b1", "email": "trainer.b@test.dev"}', true);
+
+SELECT is((SELECT count(*) FROM exercise_completions), 0::bigint, 'trainer B não vê conclusões do aluno A');
+SELECT is((SELECT count(*) FROM workout_logs), 0::bigint, 'trainer B não vê execuções de treino do aluno A');
+SELECT is((SELECT count(*) FROM foods WHERE source = 'custom'), 0::bigint, 'trainer B não vê alimentos do trainer A');
+SELECT results_eq(
+  'SELECT meal_food_id FROM meal_food_substitutions',
+  $$VALUES ('52000000-0000-0000-0000-00000000000b'::uuid)$$,
+  'trainer B vê apenas as substituições das dietas dos próprios alunos'
+);
+SELECT results_eq(
+  'SELECT food_name FROM meal_food_logs',
+  $$VALUES ('Arroz'::text)$$,
+  'trainer B vê apenas os itens registrados pelos próprios alunos'
+);
+SELECT is((SELECT count(*) FROM habit_logs), 1::bigint, 'trainer B vê apenas os registros de hábitos dos próprios alunos');
+SELECT is((SELECT count(*) FROM workout_templates), 0::bigint, 'trainer B não vê modelos do trainer A');
+SELECT is((SELECT count(*) FROM diet_templates), 0::bigint, 'trainer B não vê modelos de dieta do trainer A');
+SELECT is((SELECT count(*) FROM workout_plan_versions), 0::bigint, 'trainer B não vê versões dos planos do trainer A');
+
+RESET ROLE;
+
+-- ============================================================
+-- Super admin
+-- ============================================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+  '{"role": "authenticated", "sub": "00000000-0000-0000-0000-0000000000d1", "email": "admin@test.dev"}', true);
+
+SELECT lives_ok('SELECT get_system_stats()', 'super admin acessa estatísticas do sistema');
+SELECT throws_ok(
+  $$SELECT revoke_super_admin((SELECT id FROM super_admins WHERE email = 'admin@test.dev'))$$,
+  '22023', NULL, 'super admin não remove o próprio papel'
+);
+SELECT lives_ok(
+  $$SELECT copy_workout_plan('40000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000b', 'Plano A para B')$$,
+  'super admin copia plano para aluno de outro trainer'
+);
+SELECT is(
+  (SELECT personal_trainer_id FROM workout_plans WHERE name = 'Plano A para B'),
+  '10000000-0000-0000-0000-00000000000b'::uuid, 'cópia fica com o trainer do aluno de destino'
+);
+SELECT lives_ok(
+  $$SELECT assign_workout_template('61000000-0000-0000-0000-00000000000a', ARRAY['20000000-0000-0000-0000-00000000000b']::uuid[])$$,
+  'super admin atribui modelo a aluno de outro trainer'
+);
+SELECT is(
+  (SELECT personal_trainer_id FROM workout_plans
+   WHERE name = 'Modelo Full Body' AND student_id = '20000000-0000-0000-0000-00000000000b'),
+  '10000000-0000-0000-0000-00000000000b'::uuid, 'plano criado pelo modelo fica com o trainer do aluno'
+);
+SELECT lives_ok(
+  $$UPDATE personal_trainers SET active = false WHERE id = '10000000-0000-0000-0000-00000000000b'$$,
+  'super admin desativa trainer'
+);
+
+RESET ROLE;
+
+-- ============================================================
+-- Trainer desativado
+-- ============================================================
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+  '{"role": "authenticated", "sub": "00000000-0000-0000-0000-0000000000b1", "email": "trainer.b@test.dev"}', true);
+
+SELECT throws_ok(
+  $$UPDATE personal_trainers SET active = true WHERE auth_user_id = auth.uid()$$,
+  '42501', NULL, 'trainer desativado não se reativa'
+);
+SELECT lives_ok(
+  $$UPDATE personal_trainers SET phone = '11999999999' WHERE auth_user_id = auth.uid()$$,
+  'trainer continua editando o próprio perfil'
+);
+
+RESET ROLE;
+
+-- ============================================================
+-- Conclusões sincronizadas depois (fila offline)
+-- ============================================================
+
+-- Dentro do teste todas as versões têm o mesmo horário: a primeira passa a ser de dois dias atrás
+UPDATE workout_plan_versions SET created_at = now() - interval '2 days'
+WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a' AND version_number = 1;
+
+INSERT INTO exercise_completions (id, workout_exercise_id, student_id, completed_at) VALUES
+  ('43000000-0000-0000-0000-0000000000a1', '42000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', now() - interval '1 day'),
+  ('43000000-0000-0000-0000-0000000000a2', '42000000-0000-0000-0000-00000000000a', '20000000-0000-0000-0000-00000000000a', now());
+
+SELECT is(
+  (SELECT v.version_number FROM exercise_completions ec
+     JOIN workout_plan_versions v ON v.id = ec.plan_version_id
+   WHERE ec.id = '43000000-0000-0000-0000-0000000000a1'),
+  1, 'conclusão feita offline fica com a versão vigente no horário do registro'
+);
+SELECT is(
+  (SELECT v.version_number FROM exercise_completions ec
+     JOIN workout_plan_versions v ON v.id = ec.plan_version_id
+   WHERE ec.id = '43000000-0000-0000-0000-0000000000a2'),
+  (SELECT max(version_number) FROM workout_plan_versions WHERE workout_plan_id = '40000000-0000-0000-0000-00000000000a'),
+  'conclusão de agora fica com a última versão'
+);
+
+SELECT * FROM finish();
+
+ROLLBACK;